@@ -0,0 +1,230 @@
+import type { PriceWithDetails } from "../supabase";
+import { priceDate, type CurrencyConverter } from "../currency/exchange";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export interface PurchaseLine {
+  priceId: string;
+  receiptId: string | null;
+  storeId: string;
+  storeName: string | null;
+  productId: string;
+  productName: string | null;
+  category: string | null;
+  /** Upper-cased, e.g. SALE, CLEARANCE */
+  tags: string[];
+  quantity: number;
+  /** What was paid, in the result currency */
+  amount: number;
+  /** original_price - price when the item was marked down, in the result currency */
+  saved: number;
+  /** YYYY-MM in UTC */
+  month: string;
+}
+
+export interface SpendingTotals {
+  spent: number;
+  saved: number;
+  itemCount: number;
+  receiptCount: number;
+}
+
+/**
+ * Purchases as lines in one currency. With a converter each price is
+ * converted at its purchase-date rate; prices without a rate are left out
+ * and counted in `unconvertedCount`.
+ */
+export function toPurchaseLines(
+  prices: PriceWithDetails[],
+  converter?: CurrencyConverter | null
+): { lines: PurchaseLine[]; unconvertedCount: number } {
+  const lines: PurchaseLine[] = [];
+  let unconvertedCount = 0;
+
+  for (const price of prices) {
+    const at = priceDate(price);
+    const convert = (value: number) => (converter ? converter.convert(value, price.currency, at) : value);
+    const amount = convert(Number(price.price));
+    if (amount === null) {
+      unconvertedCount++;
+      continue;
+    }
+    const original = price.original_price === null ? null : Number(price.original_price);
+    const markdown = original !== null && original > Number(price.price) ? convert(original - Number(price.price)) : 0;
+
+    lines.push({
+      priceId: price.id,
+      receiptId: price.receipt_id,
+      storeId: price.store_id,
+      storeName: price.stores?.name ?? null,
+      productId: price.product_id,
+      productName: price.products?.name ?? null,
+      category: price.products?.category ?? null,
+      tags: [...new Set((price.tags || []).map((tag) => tag.trim().toUpperCase()).filter(Boolean))],
+      quantity: Number(price.quantity) || 1,
+      amount,
+      saved: markdown ?? 0,
+      month: new Date(at).toISOString().slice(0, 7),
+    });
+  }
+
+  return { lines, unconvertedCount };
+}
+
+export function spendingTotals(lines: PurchaseLine[]): SpendingTotals {
+  return {
+    spent: round2(lines.reduce((sum, l) => sum + l.amount, 0)),
+    saved: round2(lines.reduce((sum, l) => sum + l.saved, 0)),
+    itemCount: lines.length,
+    receiptCount: new Set(lines.flatMap((l) => (l.receiptId ? [l.receiptId] : []))).size,
+  };
+}
+
+function groupBy<K>(lines: PurchaseLine[], key: (line: PurchaseLine) => K): Map<K, PurchaseLine[]> {
+  const groups = new Map<K, PurchaseLine[]>();
+  for (const line of lines) {
+    const group = groups.get(key(line));
+    if (group) group.push(line);
+    else groups.set(key(line), [line]);
+  }
+  return groups;
+}
+
+// Share of the total spend in percent, one decimal
+function withShares<T extends { spent: number }>(rows: T[]): (T & { share: number })[] {
+  const total = rows.reduce((sum, r) => sum + r.spent, 0);
+  return rows.map((r) => ({ ...r, share: total > 0 ? round1((r.spent / total) * 100) : 0 }));
+}
+
+/** Every month from `first` to `last` (YYYY-MM), inclusive */
+export function monthRange(first: string, last: string): string[] {
+  const months: string[] = [];
+  let [year, month] = first.split("-").map(Number);
+  for (let key = first; key <= last; key = `${year}-${String(month).padStart(2, "0")}`) {
+    months.push(key);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+/** The month before a YYYY-MM month */
+export function previousMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return m === 1 ? `${year - 1}-12` : `${year}-${String(m - 1).padStart(2, "0")}`;
+}
+
+/** Oldest month first; months without purchases in between are included with zeros */
+export function spendingByMonth(lines: PurchaseLine[]): (SpendingTotals & { month: string })[] {
+  if (lines.length === 0) return [];
+  const groups = groupBy(lines, (l) => l.month);
+  const months = [...groups.keys()].sort();
+  return monthRange(months[0], months[months.length - 1]).map((month) => ({
+    month,
+    ...spendingTotals(groups.get(month) || []),
+  }));
+}
+
+/** Biggest spend first */
+export function spendingByStore(lines: PurchaseLine[]) {
+  const rows = [...groupBy(lines, (l) => l.storeId)].map(([storeId, group]) => ({
+    storeId,
+    storeName: group[0].storeName,
+    ...spendingTotals(group),
+  }));
+  return withShares(rows.sort((a, b) => b.spent - a.spent));
+}
+
+/** Biggest spend first; products without a category are grouped under null */
+export function spendingByCategory(lines: PurchaseLine[]) {
+  const rows = [...groupBy(lines, (l) => l.category)].map(([category, group]) => ({
+    category,
+    ...spendingTotals(group),
+  }));
+  return withShares(rows.sort((a, b) => b.spent - a.spent));
+}
+
+/**
+ * Spend and markdown savings per tag, biggest saving first. An item with
+ * several tags counts under each of them.
+ */
+export function spendingByTag(lines: PurchaseLine[]) {
+  const tags = new Set(lines.flatMap((l) => l.tags));
+  return [...tags]
+    .map((tag) => ({ tag, ...spendingTotals(lines.filter((l) => l.tags.includes(tag))) }))
+    .sort((a, b) => b.saved - a.saved || b.spent - a.spent);
+}
+
+export function topProducts(lines: PurchaseLine[], limit: number, sortBy: "spent" | "quantity") {
+  const rows = [...groupBy(lines, (l) => l.productId)].map(([productId, group]) => {
+    const spent = round2(group.reduce((sum, l) => sum + l.amount, 0));
+    const quantity = group.reduce((sum, l) => sum + l.quantity, 0);
+    return {
+      productId,
+      productName: group[0].productName,
+      category: group[0].category,
+      spent,
+      quantity,
+      purchaseCount: group.length,
+      averagePrice: round2(spent / quantity),
+      lastPurchased: group[group.length - 1].month,
+    };
+  });
+  return rows
+    .sort((a, b) => (sortBy === "spent" ? b.spent - a.spent : b.quantity - a.quantity) || b.purchaseCount - a.purchaseCount)
+    .slice(0, limit);
+}
+
+/** Receipts per month with their average size, oldest month first */
+export function basketTrends(lines: PurchaseLine[]) {
+  return spendingByMonth(lines.filter((l) => l.receiptId)).map(({ month }) => {
+    const baskets = [...groupBy(lines.filter((l) => l.month === month && l.receiptId), (l) => l.receiptId)].map(
+      ([, group]) => ({
+        items: group.reduce((sum, l) => sum + l.quantity, 0),
+        spent: group.reduce((sum, l) => sum + l.amount, 0),
+      })
+    );
+    const count = baskets.length;
+    return {
+      month,
+      basketCount: count,
+      averageItems: count > 0 ? round1(baskets.reduce((sum, b) => sum + b.items, 0) / count) : 0,
+      averageSpent: count > 0 ? round2(baskets.reduce((sum, b) => sum + b.spent, 0) / count) : 0,
+      largestBasket: count > 0 ? round2(Math.max(...baskets.map((b) => b.spent))) : 0,
+    };
+  });
+}
+
+const change = (current: number, previous: number) => ({
+  change: round2(current - previous),
+  // Null when there is nothing to compare against
+  changePercent: previous > 0 ? round1(((current - previous) / previous) * 100) : null,
+});
+
+/** `month` against the month before, overall and per category (largest change first) */
+export function monthOverMonth(lines: PurchaseLine[], month: string) {
+  const before = previousMonth(month);
+  const current = spendingTotals(lines.filter((l) => l.month === month));
+  const previous = spendingTotals(lines.filter((l) => l.month === before));
+
+  const categories = [...groupBy(lines.filter((l) => l.month === month || l.month === before), (l) => l.category)]
+    .map(([category, group]) => {
+      const spent = round2(group.filter((l) => l.month === month).reduce((sum, l) => sum + l.amount, 0));
+      const previousSpent = round2(group.filter((l) => l.month === before).reduce((sum, l) => sum + l.amount, 0));
+      return { category, spent, previousSpent, ...change(spent, previousSpent) };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+
+  return {
+    month,
+    previousMonth: before,
+    current,
+    previous,
+    ...change(current.spent, previous.spent),
+    categories,
+  };
+}
@@ -0,0 +1,110 @@
+import type { Budget, PriceAlert } from "../supabase";
+import type { Repository } from "../repositories/types";
+import { loadCurrencyConverter } from "../currency/exchange";
+import { toPurchaseLines } from "../analytics/spending";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Inclusive YYYY-MM-DD days in UTC */
+export interface BudgetPeriod {
+  start: string;
+  end: string;
+}
+
+export interface BudgetProgress {
+  budget: Budget;
+  periodStart: string;
+  periodEnd: string;
+  /** In the budget's currency */
+  spent: number;
+  remaining: number;
+  percent: number;
+  /** warning once a threshold below 100% is reached, over at 100% */
+  status: "ok" | "warning" | "over";
+  /** Thresholds reached this period */
+  reachedThresholds: number[];
+  /** Purchases left out for lack of an exchange rate */
+  unconvertedCount: number;
+}
+
+/** The week (Monday to Sunday) or month containing `at`, in UTC */
+export function budgetPeriod(period: Budget["period"], at: Date): BudgetPeriod {
+  if (period === "weekly") {
+    const day = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    const start = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+    return { start: isoDay(start), end: isoDay(new Date(start.getTime() + 6 * DAY_MS)) };
+  }
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 0));
+  return { start: isoDay(start), end: isoDay(end) };
+}
+
+/**
+ * Spending against the budget in the period containing `at`, from the
+ * owner's complete receipts, converted into the budget's currency at each
+ * purchase-date rate.
+ */
+export async function budgetProgress(db: Repository, budget: Budget, at = new Date()): Promise<BudgetProgress> {
+  const { start, end } = budgetPeriod(budget.period, at);
+  const prices = await db.prices.listPurchases({
+    userIds: [budget.user_id],
+    from: start,
+    until: end,
+    storeId: budget.store_id ?? undefined,
+  });
+  const converter = await loadCurrencyConverter(db, budget.currency, prices.map((p) => p.currency));
+  const { lines, unconvertedCount } = toPurchaseLines(prices, converter);
+
+  const category = budget.category?.toLowerCase();
+  const counted = category ? lines.filter((l) => l.category?.toLowerCase() === category) : lines;
+  const spent = round2(counted.reduce((sum, l) => sum + l.amount, 0));
+  const amount = Number(budget.amount);
+  const percent = round1((spent / amount) * 100);
+  const reachedThresholds = budget.thresholds.filter((t) => percent >= t);
+
+  return {
+    budget,
+    periodStart: start,
+    periodEnd: end,
+    spent,
+    remaining: round2(amount - spent),
+    percent,
+    status: percent >= 100 ? "over" : reachedThresholds.length > 0 ? "warning" : "ok",
+    reachedThresholds,
+    unconvertedCount,
+  };
+}
+
+/**
+ * Adds a budget_threshold alert for every threshold the user's budgets have
+ * reached in their current period, once per budget, period and threshold.
+ * Returns the alerts that are new.
+ */
+export async function checkBudgetAlerts(db: Repository, userId: string, at = new Date()): Promise<PriceAlert[]> {
+  const budgets = await db.budgets.list(userId);
+  const created: PriceAlert[] = [];
+
+  for (const budget of budgets) {
+    const progress = await budgetProgress(db, budget, at);
+    if (progress.reachedThresholds.length === 0) continue;
+    const store = budget.store_id ? await db.stores.getById(budget.store_id) : null;
+    created.push(...await db.alerts.createBudgetAlerts(progress.reachedThresholds.map((threshold) => ({
+      user_id: userId,
+      budget_id: budget.id,
+      period_start: progress.periodStart,
+      threshold_percent: threshold,
+      old_price: Number(budget.amount),
+      new_price: progress.spent,
+      store_name: store?.name ?? null,
+    }))));
+  }
+
+  if (created.length > 0) {
+    console.log(`💸 ${created.length} budget alert(s) for user ${userId}`);
+  }
+  return created;
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { ExchangeRate, Price } from "../supabase";
+import type { NewExchangeRate, Repository } from "../repositories/types";
+
+/** ISO 4217 code, upper-cased */
+export const currencyCode = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, "Expected a 3-letter currency code")
+  .transform((code) => code.toUpperCase());
+
+export const exchangeRateInput = z.object({
+  base: currencyCode,
+  quote: currencyCode,
+  rate: z.number().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateInput>;
+
+export function toNewExchangeRate(input: ExchangeRateInput, source: string): NewExchangeRate {
+  return {
+    base_currency: input.base,
+    quote_currency: input.quote,
+    rate: input.rate,
+    rate_date: input.date,
+    source,
+  };
+}
+
+export interface CurrencyConverter {
+  displayCurrency: string;
+  /** `amount` in `currency` on the date of `at`, or null when no rate connects the two */
+  convert(amount: number, currency: string, at?: string | null): number | null;
+}
+
+type Series = { date: string; rate: number }[];
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+// Latest rate on or before `date`; before the first known rate, the earliest one
+function rateOn(series: Series, date: string): number {
+  let low = 0;
+  let high = series.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (series[mid].date <= date) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return series[Math.max(found, 0)].rate;
+}
+
+/**
+ * Converter over a set of historical rates. Pairs are usable in both
+ * directions, and currencies without a direct rate go through a shared third one.
+ */
+export function createCurrencyConverter(displayCurrency: string, rates: ExchangeRate[]): CurrencyConverter {
+  const pairs = new Map<string, Series>();
+  const neighbours = new Map<string, Set<string>>();
+  const add = (from: string, to: string, date: string, rate: number) => {
+    const key = `${from}>${to}`;
+    pairs.set(key, [...(pairs.get(key) || []), { date, rate }]);
+    neighbours.set(from, (neighbours.get(from) || new Set()).add(to));
+  };
+  for (const row of rates) {
+    add(row.base_currency, row.quote_currency, row.rate_date, Number(row.rate));
+    add(row.quote_currency, row.base_currency, row.rate_date, 1 / Number(row.rate));
+  }
+  for (const series of pairs.values()) series.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  const rate = (from: string, to: string, date: string): number | null => {
+    if (from === to) return 1;
+    const direct = pairs.get(`${from}>${to}`);
+    if (direct) return rateOn(direct, date);
+    for (const via of [...(neighbours.get(from) || [])].sort()) {
+      const onward = pairs.get(`${via}>${to}`);
+      if (onward) return rateOn(pairs.get(`${from}>${via}`)!, date) * rateOn(onward, date);
+    }
+    return null;
+  };
+
+  return {
+    displayCurrency,
+    convert(amount, currency, at) {
+      const date = (at || new Date().toISOString()).slice(0, 10);
+      const factor = rate((currency || displayCurrency).toUpperCase(), displayCurrency, date);
+      return factor === null ? null : round4(amount * factor);
+    },
+  };
+}
+
+/**
+ * Converter with every stored rate touching `currencies` or the display currency.
+ */
+export async function loadCurrencyConverter(
+  db: Repository,
+  displayCurrency: string,
+  currencies: string[]
+): Promise<CurrencyConverter> {
+  const involved = [...new Set([...currencies.map((c) => c.toUpperCase()), displayCurrency])];
+  const rates = involved.length > 1 ? await db.exchangeRates.list({ currencies: involved }) : [];
+  return createCurrencyConverter(displayCurrency, rates);
+}
+
+/** When the price was paid, for picking the exchange rate */
+export const priceDate = (price: Pick<Price, "purchase_time" | "detected_at">) =>
+  price.purchase_time || price.detected_at;
+
+export interface DisplayPrice {
+  displayCurrency: string;
+  /** Null when there is no rate for the price's currency */
+  displayPrice: number | null;
+  displayUnitPrice: number | null;
+}
+
+/**
+ * Adds the price and unit price converted at the purchase-date rate.
+ */
+export function withDisplayPrices<T extends Price>(prices: T[], converter: CurrencyConverter): (T & DisplayPrice)[] {
+  return prices.map((price) => {
+    const at = priceDate(price);
+    const displayPrice = converter.convert(Number(price.price), price.currency, at);
+    return {
+      ...price,
+      displayCurrency: converter.displayCurrency,
+      displayPrice: displayPrice === null ? null : Math.round(displayPrice * 100) / 100,
+      displayUnitPrice:
+        price.unit_price === null || displayPrice === null
+          ? null
+          : converter.convert(Number(price.unit_price), price.currency, at),
+    };
+  });
+}
@@ -0,0 +1,59 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import type { NewExchangeRate, Repository } from "../repositories/types";
+import { currencyCode, exchangeRateInput, toNewExchangeRate, type ExchangeRateInput } from "./exchange";
+
+// { "base": "USD", "rates": { "2024-05-01": { "EUR": 0.93, "CAD": 1.37 } } }
+const ratesByDate = z.object({
+  base: currencyCode,
+  rates: z.record(z.string(), z.record(z.string(), z.number().positive())),
+});
+
+/**
+ * Parse a rates file. Accepted formats:
+ * - JSON array of { base, quote, rate, date }
+ * - JSON { base, rates: { date: { quote: rate } } }
+ * - CSV with a `date,base,quote,rate` header
+ */
+export function parseExchangeRates(content: string, fileName = "rates"): ExchangeRateInput[] {
+  const trimmed = content.trim();
+  let rows: unknown[];
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const json = JSON.parse(trimmed);
+    if (Array.isArray(json)) {
+      rows = json;
+    } else {
+      const { base, rates } = ratesByDate.parse(json);
+      rows = Object.entries(rates).flatMap(([date, quotes]) =>
+        Object.entries(quotes).map(([quote, rate]) => ({ base, quote, rate, date }))
+      );
+    }
+  } else {
+    const [header, ...lines] = trimmed.split(/\r?\n/).filter((line) => line.trim());
+    const columns = header.split(",").map((c) => c.trim().toLowerCase());
+    rows = lines.map((line) => {
+      const cells = line.split(",").map((c) => c.trim());
+      const row = Object.fromEntries(columns.map((column, i) => [column, cells[i]]));
+      return { ...row, rate: Number(row.rate) };
+    });
+  }
+
+  return rows.map((row, index) => {
+    const parsed = exchangeRateInput.safeParse(row);
+    if (!parsed.success) {
+      throw new Error(`${fileName}: rate ${index + 1} is invalid: ${parsed.error.issues[0]?.message}`);
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * Load a rates file into the rates table; returns how many rates were written.
+ */
+export async function loadExchangeRatesFile(db: Repository, filePath: string): Promise<number> {
+  const rates: NewExchangeRate[] = parseExchangeRates(await readFile(filePath, "utf8"), filePath).map((rate) =>
+    toNewExchangeRate(rate, "file")
+  );
+  return await db.exchangeRates.upsert(rates);
+}
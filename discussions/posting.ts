@@ -0,0 +1,43 @@
+import { TRPCError } from "../trpc";
+import type { DiscussionTargetType, Repository } from "../repositories/types";
+import type { Discussion } from "../supabase";
+import { requireVisibleTarget } from "../moderation/targets";
+
+export interface DiscussionPostInput {
+  targetType: DiscussionTargetType;
+  targetId: string;
+  content: string;
+  parentId?: string;
+}
+
+/**
+ * Adds a discussion, or a reply to `parentId`, on content the user can see.
+ * Replies stay on their parent's target; hidden and deleted discussions take none.
+ */
+export async function postDiscussion(db: Repository, userId: string, input: DiscussionPostInput): Promise<Discussion> {
+  if (input.targetType === "product") {
+    if ((await db.products.findByIds([input.targetId])).length === 0) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Product not found" });
+    }
+  } else {
+    await requireVisibleTarget(db, input.targetType, input.targetId, userId);
+  }
+
+  if (input.parentId) {
+    const parent = await db.discussions.getById(input.parentId);
+    if (!parent || parent.is_hidden || parent.is_deleted) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Parent discussion not found" });
+    }
+    if (parent.target_type !== input.targetType || parent.target_id !== input.targetId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "A reply must be on the same target as its parent" });
+    }
+  }
+
+  return await db.discussions.create({
+    user_id: userId,
+    target_type: input.targetType,
+    target_id: input.targetId,
+    content: input.content,
+    parent_id: input.parentId || null,
+  });
+}
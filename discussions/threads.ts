@@ -0,0 +1,106 @@
+import type { DiscussionSort, DiscussionTargetType, Page, PageRequest, Repository } from "../repositories/types";
+import type { Discussion } from "../supabase";
+
+export type ThreadSort = DiscussionSort;
+
+/**
+ * A discussion with its votes and replies. Deleted and hidden discussions
+ * only appear, without author or content, when replies below them remain.
+ */
+export type DiscussionNode = Omit<Discussion, "user_id" | "content"> & {
+  user_id: string | null;
+  content: string | null;
+  removed: "deleted" | "hidden" | null;
+  edited: boolean;
+  upvotes: number;
+  downvotes: number;
+  score: number;
+  /** Replies at any depth below this one, removed ones left out */
+  replyCount: number;
+  replies: DiscussionNode[];
+  /** Replies exist below the requested depth */
+  hasMoreReplies: boolean;
+};
+
+export interface ThreadOptions {
+  sort: ThreadSort;
+  /** Levels of replies to include; 0 gives the discussions alone */
+  depth: number;
+}
+
+const removal = (d: Discussion): DiscussionNode["removed"] =>
+  d.is_deleted ? "deleted" : d.is_hidden ? "hidden" : null;
+
+/**
+ * Reply trees over `rows`: some discussions and every reply below them.
+ * Siblings are ordered by `sort` at every level, newest first on ties.
+ */
+async function buildTrees(db: Repository, rows: Discussion[], options: ThreadOptions) {
+  const live = rows.filter((d) => !removal(d));
+  const votes = new Map(
+    (await db.votes.countsMany("discussion", live.map((d) => d.id))).map((row) => [row.target_id, row])
+  );
+
+  const children = new Map<string, Discussion[]>();
+  for (const row of rows) {
+    if (row.parent_id) children.set(row.parent_id, [...(children.get(row.parent_id) || []), row]);
+  }
+
+  const replyCounts = new Map<string, number>();
+  const replyCount = (id: string): number => {
+    const known = replyCounts.get(id);
+    if (known !== undefined) return known;
+    const count = (children.get(id) || []).reduce((sum, c) => sum + (removal(c) ? 0 : 1) + replyCount(c.id), 0);
+    replyCounts.set(id, count);
+    return count;
+  };
+  const shown = (d: Discussion) => !removal(d) || replyCount(d.id) > 0;
+  const score = (d: Discussion) => {
+    const counts = votes.get(d.id);
+    return counts ? counts.upvotes - counts.downvotes : 0;
+  };
+  const order = (a: Discussion, b: Discussion) =>
+    (options.sort === "top" ? score(b) - score(a) : 0) || b.created_at.localeCompare(a.created_at);
+
+  const toNode = (d: Discussion, level: number): DiscussionNode => {
+    const removed = removal(d);
+    const replies = (children.get(d.id) || []).filter(shown).sort(order);
+    const counts = votes.get(d.id);
+    return {
+      ...d,
+      user_id: removed ? null : d.user_id,
+      content: removed ? null : d.content,
+      removed,
+      edited: !removed && d.updated_at > d.created_at,
+      upvotes: counts?.upvotes ?? 0,
+      downvotes: counts?.downvotes ?? 0,
+      score: score(d),
+      replyCount: replyCount(d.id),
+      replies: level < options.depth ? replies.map((r) => toNode(r, level + 1)) : [],
+      hasMoreReplies: level >= options.depth && replies.length > 0,
+    };
+  };
+
+  return { shown, toNode: (d: Discussion) => toNode(d, 0) };
+}
+
+/** A page of the target's top-level discussions as reply trees */
+export async function loadThreads(
+  db: Repository,
+  targetType: DiscussionTargetType,
+  targetId: string,
+  options: ThreadOptions,
+  page: PageRequest
+): Promise<Page<DiscussionNode>> {
+  const { rows: threads, count } = await db.discussions.listThreads(targetType, targetId, options.sort, page);
+  const replies = await db.discussions.listReplies(threads.map((d) => d.id));
+  const trees = await buildTrees(db, [...threads, ...replies], options);
+  return { rows: threads.map(trees.toNode), count };
+}
+
+/** The tree below one discussion; null once it and every reply below it are removed */
+export async function loadThread(db: Repository, discussion: Discussion, options: ThreadOptions) {
+  const replies = await db.discussions.listReplies([discussion.id]);
+  const trees = await buildTrees(db, [discussion, ...replies], options);
+  return trees.shown(discussion) ? trees.toNode(discussion) : null;
+}
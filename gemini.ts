@@ -1,6 +1,8 @@
 import { GoogleGenAI } from "@google/genai";
 import * as dotenv from "dotenv";
 import * as util from "util";
+import { RECEIPT_PROMPT, detectImageMimeType, parseReceiptJson } from "./parsers/shared";
+import type { ParsedReceipt } from "./parsers/types";
 
 dotenv.config();
 
@@ -12,32 +14,11 @@ if (!genAI) {
   console.warn("⚠️ GEMINI_API_KEY not set - AI receipt parsing disabled");
 }
 
-export interface ParsedReceiptItem {
-  name: string;
-  alternativeName?: string;
-  price: number;
-  quantity?: number;
-  weight?: string; // e.g. "200g", "1kg"
-  unitPrice?: number; // Calculated $ per unit
-  category?: string; // e.g. "Dairy", "Produce", "Beverages"
-  originalPrice?: number; // Pre-discount price if visible
-  tags?: string[]; // "SALE", "ORGANIC", etc.
-  imageUrl?: string; // From Google Search
-}
-
-export interface ParsedReceipt {
-  store: string | null;
-  storeLocation?: string | null;
-  date: string | null;
-  time?: string | null;
-  total: number | null;
-  items: ParsedReceiptItem[];
-  currency?: string;
-}
+export type { ParsedReceipt, ParsedReceiptItem } from "./parsers/types";
 
 /**
  * Parse a receipt image using the new @google/genai SDK
- * Uses Gemini 1.5 Flash with Google Search grounding for enhanced details
+ * Uses GEMINI_MODEL (default gemini-2.0-flash) with Google Search grounding for enhanced details
  * @param imageBase64 Base64 encoded image
  * @returns Parsed receipt data
  */
@@ -48,47 +29,7 @@ export async function parseReceiptImage(
     throw new Error("Gemini API key not configured");
   }
 
-  const model = "gemini-2.0-flash"; 
-
-  const prompt = `You are an expert shopping assistant and data extraction specialist. 
-I will provide a grocery receipt image. Your goal is to extract structured data and enrich it with useful details.
-
-1. **Store Info**: Identify the store name and its location/address if visible.
-2. **Date & Time**: Extract purchase date (YYYY-MM-DD) and time (HH:MM).
-3. **Line Items**: Extract every purchased item. For each item:
-   - **Name**: The name as printed.
-   - **Alternative Name**: A generic, readable name (e.g., "HZ KETCHUP" -> "Heinz Ketchup").
-   - **Price**: Final price paid.
-   - **Weight/Quantity**: Extract weight (g, kg, ml, oz, lb) if printed.
-   - **Tags**: Detect if item is on "SALE", "CLEARANCE", or "TAXABLE".
-   - **Category**: Infer the product category (e.g., "Produce", "Dairy", "Meat", "Bakery", "Beverages", "Pantry", "Household").
-4. **Calculations**:
-   - If weight is available, calculate the price per standard unit (e.g. $ per 100g or $ per 100ml).
-5. **Search**: 
-   - Use your Google Search capabilities to find a representative product image URL for the top 3 most expensive items.
-
-Return strictly valid JSON structure:
-{
-  "store": "Target",
-  "storeLocation": "123 Main St, City",
-  "date": "2024-05-20",
-  "time": "14:30",
-  "total": 45.50,
-  "currency": "USD",
-  "items": [{
-    "name": "HZ KETCHUP 32OZ",
-    "alternativeName": "Heinz Tomato Ketchup",
-    "price": 5.99,
-    "quantity": 1,
-    "weight": "907g",
-    "unitPrice": 0.66, // $/100g
-    "category": "Pantry",
-    "originalPrice": 6.99,
-    "tags": ["SALE"],
-    "imageUrl": "https://..."
-  }]
-}
-Only return the JSON object. Do not wrap in markdown code blocks.`;
+  const model = process.env.GEMINI_MODEL || "gemini-2.0-flash";
 
   // Thinking configuration - only for supported models
   const isThinkingModel = model.includes("thinking");
@@ -105,25 +46,13 @@ Only return the JSON object. Do not wrap in markdown code blocks.`;
     } : {})
   };
 
-  // Detect MIME type from base64 signature
-  let mimeType = "image/jpeg";
-  if (imageBase64.startsWith("iVBORw0KGgo")) {
-    mimeType = "image/png";
-  } else if (imageBase64.startsWith("R0lGOD")) {
-    mimeType = "image/gif";
-  } else if (imageBase64.startsWith("UklGR")) {
-    mimeType = "image/webp";
-  } else if (imageBase64.startsWith("AAAAIGZ0eXBqd2lj")) {
-    mimeType = "image/jxl"; // Just in case
-  } else if (imageBase64.startsWith("AAAAIGZ0eXBoZWlj")) {
-    mimeType = "image/heic";
-  }
+  const mimeType = detectImageMimeType(imageBase64);
 
   const contents = [
     {
       role: "user",
       parts: [
-        { text: prompt },
+        { text: RECEIPT_PROMPT },
         {
           inlineData: {
             data: imageBase64,
@@ -209,38 +138,7 @@ Only return the JSON object. Do not wrap in markdown code blocks.`;
       throw new Error("Gemini response was empty or in an unrecognized format");
     }
     
-    // Robustly extract JSON - find the first '{' and last '}'
-    // This is necessary because 'thinking' models often include thought blocks or prose
-    const jsonStart = content.indexOf("{");
-    const jsonEnd = content.lastIndexOf("}");
-    
-    if (jsonStart === -1 || jsonEnd === -1 || jsonEnd <= jsonStart) {
-      console.error("❌ No valid JSON found in Gemini response. Full content:", content);
-      throw new Error("Gemini response did not contain valid JSON data");
-    }
-    
-    const jsonContent = content.substring(jsonStart, jsonEnd + 1);
-    const parsed = JSON.parse(jsonContent) as ParsedReceipt;
-
-    // Validate and clean up items
-    parsed.items = (parsed.items || []).map((item) => {
-      // Clean up name by removing (SALE) recursively just in case
-      let cleanName = String(item.name || "Unknown Item").trim();
-      cleanName = cleanName.replace(/\(SALE\)/gi, "").trim();
-
-      return {
-        name: cleanName,
-        alternativeName: item.alternativeName ? String(item.alternativeName).trim() : undefined,
-        price: Number(item.price) || 0,
-        quantity: Number(item.quantity) || 1,
-        weight: item.weight,
-        unitPrice: item.unitPrice,
-        category: item.category,
-        originalPrice: Number(item.originalPrice) || undefined,
-        tags: item.tags || [],
-        imageUrl: item.imageUrl,
-      };
-    });
+    const parsed = parseReceiptJson(content, "Gemini");
 
     console.log(`✅ Gemini parsed receipt: ${parsed.store}, ${parsed.items.length} items (Model: ${model})`);
     return parsed;
@@ -0,0 +1,37 @@
+import { TRPCError } from "../trpc";
+import type { HouseholdRole, Repository } from "../repositories/types";
+import type { HouseholdMember } from "../supabase";
+
+/** Roles whose receipts, bookmarks and spending are shared with the household */
+export const SHARING_ROLES: HouseholdRole[] = ["owner", "member"];
+
+/**
+ * The caller's membership. Outsiders get NOT_FOUND, so household ids do not
+ * leak; members without one of `roles` get FORBIDDEN.
+ */
+export async function requireMembership(
+  db: Repository,
+  householdId: string,
+  userId: string,
+  roles?: HouseholdRole[]
+): Promise<HouseholdMember> {
+  const member = await db.households.getMember(householdId, userId);
+  if (!member) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Household not found" });
+  }
+  if (roles && !roles.includes(member.role)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: `Only a household ${roles.join(" or ")} can do this` });
+  }
+  return member;
+}
+
+/**
+ * Whose data a query covers: the caller alone, or with `householdId` the
+ * household's sharing members. Any member, viewers included, may ask.
+ */
+export async function scopeUserIds(db: Repository, userId: string, householdId?: string): Promise<string[]> {
+  if (!householdId) return [userId];
+  await requireMembership(db, householdId, userId);
+  const members = await db.households.listMembers(householdId);
+  return members.filter((m) => SHARING_ROLES.includes(m.role)).map((m) => m.user_id);
+}
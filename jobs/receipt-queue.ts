@@ -0,0 +1,189 @@
+import { EventEmitter, on } from "events";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ReceiptJob } from "../supabase";
+import type { Repository } from "../repositories/types";
+import type { ReceiptParserChain } from "../parsers/types";
+import { applyLearnedAbbreviations } from "../matching/dictionary";
+
+const FINISHED: ReceiptJob["status"][] = ["parsed", "failed"];
+
+export interface ReceiptJobQueueOptions {
+  db: Repository;
+  parser: ReceiptParserChain;
+  /** Where queued images are kept until parsed (default ./uploads) */
+  imageDir?: string;
+  /** How often the worker checks for queued jobs and watchers re-read status */
+  pollIntervalMs?: number;
+  /** Jobs claimed this many times (e.g. the server kept dying mid-parse) are failed */
+  maxAttempts?: number;
+  /** Processing jobs older than this are assumed orphaned and requeued */
+  staleAfterMs?: number;
+}
+
+export interface ReceiptJobQueue {
+  /** Persist the image and queue it for parsing */
+  enqueue(userId: string, imageBase64: string): Promise<ReceiptJob>;
+  /** Yields the job now and after every status change, until parsed or failed */
+  watch(jobId: string, signal?: AbortSignal): AsyncGenerator<ReceiptJob>;
+  /** Process queued jobs until none are left */
+  drain(): Promise<void>;
+  /** Requeue orphaned jobs and start the in-process worker */
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+/**
+ * In-process worker over the receipt_jobs table. Job state lives in the
+ * repository, so queued and interrupted scans survive a restart; status
+ * changes are also published in-process so watchers don't have to poll.
+ */
+export function createReceiptJobQueue(options: ReceiptJobQueueOptions): ReceiptJobQueue {
+  const { db, parser } = options;
+  const imageDir = options.imageDir || path.join(process.cwd(), "uploads");
+  const pollIntervalMs = options.pollIntervalMs ?? 2000;
+  const maxAttempts = options.maxAttempts ?? 3;
+  const staleAfterMs = options.staleAfterMs ?? 5 * 60 * 1000;
+
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+  const publish = (job: ReceiptJob) => {
+    events.emit(job.id, job);
+    return job;
+  };
+
+  let timer: NodeJS.Timeout | null = null;
+  let staleTimer: NodeJS.Timeout | null = null;
+  let draining: Promise<void> | null = null;
+
+  async function processJob(job: ReceiptJob) {
+    const finishedAt = () => new Date().toISOString();
+
+    if (job.attempts > maxAttempts) {
+      publish(await db.receiptJobs.update(job.id, {
+        status: "failed",
+        error: `Gave up after ${maxAttempts} attempts`,
+        finished_at: finishedAt(),
+      }));
+      return;
+    }
+
+    try {
+      const imageBase64 = (await readFile(job.image_path)).toString("base64");
+      const { receipt: parsed, provider } = await parser.parse(imageBase64);
+      const receipt = await applyLearnedAbbreviations(db, parsed);
+      publish(await db.receiptJobs.update(job.id, {
+        status: "parsed",
+        provider,
+        result: receipt,
+        error: null,
+        finished_at: finishedAt(),
+      }));
+      console.log(`✅ Receipt job ${job.id} parsed by ${provider}: ${receipt.items.length} items`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Receipt job ${job.id} failed:`, message);
+      publish(await db.receiptJobs.update(job.id, { status: "failed", error: message, finished_at: finishedAt() }));
+    }
+  }
+
+  async function run() {
+    try {
+      let job = await db.receiptJobs.claimNext();
+      while (job) {
+        publish(job);
+        await processJob(job);
+        job = await db.receiptJobs.claimNext();
+      }
+    } catch (error) {
+      // Anything left in processing is picked up again by requeueStale
+      console.error("❌ Receipt worker error:", error);
+    }
+  }
+
+  async function requeueStale() {
+    const staleBefore = new Date(Date.now() - staleAfterMs).toISOString();
+    const requeued = await db.receiptJobs.requeueStale(staleBefore);
+    if (requeued > 0) console.log(`🔁 Requeued ${requeued} interrupted receipt jobs`);
+  }
+
+  const queue: ReceiptJobQueue = {
+    async enqueue(userId, imageBase64) {
+      await mkdir(imageDir, { recursive: true });
+      const imagePath = path.join(imageDir, `${Date.now()}-${userId}.jpg`);
+      await writeFile(imagePath, Buffer.from(imageBase64, "base64"));
+
+      const job = await db.receiptJobs.create({ user_id: userId, image_path: imagePath });
+      console.log(`📥 Receipt job ${job.id} queued`);
+      if (timer) void queue.drain();
+      return job;
+    },
+
+    async *watch(jobId, signal) {
+      // Listen before the first read so no change can slip in between
+      const updates = on(events, jobId, signal ? { signal } : {});
+      const nextUpdate = () => {
+        const next = updates.next();
+        next.catch(() => {}); // an abort is handled where the promise is awaited
+        return next;
+      };
+      let pending = nextUpdate();
+      let last: ReceiptJob | null = null;
+      try {
+        let job = await db.receiptJobs.getById(jobId);
+        while (job) {
+          if (!last || job.status !== last.status || job.updated_at !== last.updated_at) {
+            yield job;
+            last = job;
+          }
+          if (FINISHED.includes(job.status)) return;
+
+          // Fall back to re-reading the row in case another process updated it
+          let poll: NodeJS.Timeout | undefined;
+          const next = await Promise.race([
+            pending,
+            new Promise<null>((resolve) => { poll = setTimeout(() => resolve(null), pollIntervalMs); }),
+          ]);
+          clearTimeout(poll);
+
+          if (next === null) {
+            job = await db.receiptJobs.getById(jobId);
+          } else if (next.done) {
+            return;
+          } else {
+            job = next.value[0] as ReceiptJob;
+            pending = nextUpdate();
+          }
+        }
+      } catch (error) {
+        if ((error as Error)?.name === "AbortError") return;
+        throw error;
+      } finally {
+        await updates.return?.();
+      }
+    },
+
+    drain() {
+      if (!draining) draining = run().finally(() => { draining = null; });
+      return draining;
+    },
+
+    async start() {
+      await requeueStale();
+      timer = setInterval(() => void queue.drain(), pollIntervalMs);
+      staleTimer = setInterval(() => void requeueStale().catch(() => {}), staleAfterMs);
+      timer.unref();
+      staleTimer.unref();
+      void queue.drain();
+    },
+
+    async stop() {
+      if (timer) clearInterval(timer);
+      if (staleTimer) clearInterval(staleTimer);
+      timer = staleTimer = null;
+      await draining;
+    },
+  };
+
+  return queue;
+}
@@ -0,0 +1,74 @@
+/**
+ * Receipt shorthand, keyed by normalized token. Values may be several words.
+ */
+export type AbbreviationDictionary = Record<string, string>;
+
+// Seen on most grocery receipts regardless of chain
+export const COMMON_ABBREVIATIONS: AbbreviationDictionary = {
+  org: "organic",
+  wht: "white",
+  whl: "whole",
+  grn: "green",
+  rd: "red",
+  ylw: "yellow",
+  lg: "large",
+  med: "medium",
+  sm: "small",
+  chkn: "chicken",
+  chk: "chicken",
+  bnls: "boneless",
+  sknls: "skinless",
+  brst: "breast",
+  grnd: "ground",
+  bf: "beef",
+  trky: "turkey",
+  frz: "frozen",
+  frzn: "frozen",
+  veg: "vegetable",
+  mlk: "milk",
+  btr: "butter",
+  brd: "bread",
+  crm: "cream",
+  chs: "cheese",
+  chdr: "cheddar",
+  ched: "cheddar",
+  mozz: "mozzarella",
+  ygrt: "yogurt",
+  yog: "yogurt",
+  bnna: "banana",
+  tom: "tomato",
+  pot: "potato",
+  oj: "orange juice",
+  pb: "peanut butter",
+  choc: "chocolate",
+  van: "vanilla",
+  strwb: "strawberry",
+  sw: "sweet",
+  bev: "beverage",
+  gal: "gallon",
+  dz: "dozen",
+  hz: "heinz",
+};
+
+// House brands and chain-specific shorthand, picked by store name
+const STORE_ABBREVIATIONS: { pattern: RegExp; entries: AbbreviationDictionary }[] = [
+  { pattern: /walmart/i, entries: { gv: "great value", mktsd: "marketside", eq: "equate" } },
+  { pattern: /costco/i, entries: { ks: "kirkland signature", kirk: "kirkland" } },
+  { pattern: /target/i, entries: { gg: "good gather", mp: "market pantry" } },
+  { pattern: /trader\s*joe/i, entries: { tj: "trader joes", tjs: "trader joes" } },
+  { pattern: /whole\s*foods/i, entries: { wfm: "whole foods market", "365": "365 everyday value" } },
+  { pattern: /safeway|albertsons/i, entries: { sig: "signature select", os: "o organics" } },
+  { pattern: /kroger/i, entries: { kro: "kroger", pt: "private selection" } },
+];
+
+/**
+ * Common shorthand plus whatever applies to this store's chain.
+ */
+export function abbreviationsForStore(storeName?: string | null): AbbreviationDictionary {
+  const dictionary = { ...COMMON_ABBREVIATIONS };
+  if (!storeName) return dictionary;
+  for (const { pattern, entries } of STORE_ABBREVIATIONS) {
+    if (pattern.test(storeName)) Object.assign(dictionary, entries);
+  }
+  return dictionary;
+}
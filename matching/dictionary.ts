@@ -0,0 +1,84 @@
+import type { ParsedReceipt } from "../parsers/types";
+import type { ReceiptAbbreviation } from "../supabase";
+import type { Repository } from "../repositories/types";
+import { normalizeName } from "./normalize";
+
+// Format and branch words that vary between locations of the same chain
+const STORE_NOISE = new Set([
+  "supercenter",
+  "superstore",
+  "neighborhood",
+  "market",
+  "marketplace",
+  "store",
+  "express",
+  "the",
+  "inc",
+  "co",
+]);
+
+/**
+ * Chain a store belongs to, from its display name.
+ * "Walmart Supercenter #1234" -> "walmart", "Whole Foods Market" -> "whole foods"
+ */
+export function chainKey(storeName: string): string {
+  const tokens = normalizeName(storeName)
+    .split(" ")
+    .filter((token) => token && !STORE_NOISE.has(token) && !/^\d+$/.test(token));
+  return tokens.slice(0, 2).join(" ");
+}
+
+export interface LearnedScope {
+  storeId?: string | null;
+  storeName?: string | null;
+}
+
+/**
+ * Learned mappings for each normalized receipt text at the store's chain,
+ * entries from the store itself first, then by number of confirmations.
+ */
+export async function lookupLearned(
+  db: Repository,
+  scope: LearnedScope,
+  receiptTexts: string[]
+): Promise<Map<string, ReceiptAbbreviation[]>> {
+  const learned = new Map<string, ReceiptAbbreviation[]>();
+  const chain = scope.storeName ? chainKey(scope.storeName) : "";
+  const texts = [...new Set(receiptTexts.filter(Boolean))];
+  if (!chain || texts.length === 0) return learned;
+
+  const rank = (entry: ReceiptAbbreviation) => (entry.store_id === scope.storeId ? 1000 : 0) + entry.confirmations;
+  for (const entry of await db.abbreviations.lookup(chain, texts)) {
+    learned.set(entry.receipt_text, [...(learned.get(entry.receipt_text) || []), entry]);
+  }
+  for (const entries of learned.values()) entries.sort((a, b) => rank(b) - rank(a));
+  return learned;
+}
+
+/**
+ * Fill in `productId` and `alternativeName` for parsed lines whose text was
+ * confirmed as a product at the same chain before.
+ */
+export async function applyLearnedAbbreviations(db: Repository, receipt: ParsedReceipt): Promise<ParsedReceipt> {
+  if (!receipt.store || receipt.items.length === 0) return receipt;
+
+  const store = await db.stores.findByName(receipt.store);
+  const learned = await lookupLearned(
+    db,
+    { storeId: store?.id, storeName: receipt.store },
+    receipt.items.map((item) => normalizeName(item.name))
+  );
+  if (learned.size === 0) return receipt;
+
+  const bestIds = [...learned.values()].map((entries) => entries[0].product_id);
+  const products = await db.products.findByIds([...new Set(bestIds)]);
+
+  return {
+    ...receipt,
+    items: receipt.items.map((item) => {
+      const best = learned.get(normalizeName(item.name))?.[0];
+      const product = best && products.find((p) => p.id === best.product_id);
+      return product ? { ...item, productId: product.id, alternativeName: product.name } : item;
+    }),
+  };
+}
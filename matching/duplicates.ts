@@ -0,0 +1,120 @@
+import type { Product } from "../supabase";
+import type { Repository } from "../repositories/types";
+import { nameSimilarity, nameTokens, normalizeName } from "./normalize";
+
+/** Pairs at or above this score are reported by default */
+export const DUPLICATE_SCORE = 0.75;
+
+export type DuplicateReason = "barcode" | "name" | "alternative_name";
+
+export interface DuplicateCandidate {
+  product: Product;
+  duplicate: Product;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateSearch {
+  /** Only look for duplicates of this product; otherwise scan the catalog */
+  productId?: string;
+  minScore: number;
+  limit: number;
+  /** How many products a catalog scan covers, alphabetically */
+  scanLimit: number;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// UPC-A and EAN-13 print the same code with and without a leading zero
+const barcodeKey = (barcode: string | null) => (barcode ? barcode.replace(/^0+/, "") : "");
+
+function namesOf(product: Product) {
+  return {
+    name: normalizeName(product.name),
+    alternative: product.alternative_name ? normalizeName(product.alternative_name) : "",
+  };
+}
+
+/**
+ * How likely two catalog products are the same item, 0-1, and which fields say so.
+ */
+export function compareProducts(a: Product, b: Product): { score: number; reasons: DuplicateReason[] } {
+  const reasons: DuplicateReason[] = [];
+  const left = namesOf(a);
+  const right = namesOf(b);
+
+  const sameBarcode = barcodeKey(a.barcode) !== "" && barcodeKey(a.barcode) === barcodeKey(b.barcode);
+  if (sameBarcode) reasons.push("barcode");
+
+  const byName = nameSimilarity(left.name, right.name);
+  const byAlternative = Math.max(
+    nameSimilarity(left.alternative, right.name),
+    nameSimilarity(left.name, right.alternative),
+    nameSimilarity(left.alternative, right.alternative)
+  );
+  let similarity = Math.max(byName, byAlternative);
+  // Same words in different departments ("Chocolate Milk" / "Milk Chocolate") are usually different items
+  if (a.category && b.category && normalizeName(a.category) !== normalizeName(b.category)) similarity *= 0.85;
+
+  if (similarity >= 0.5) reasons.push(byName >= byAlternative ? "name" : "alternative_name");
+  return { score: round3(sameBarcode ? 1 : similarity), reasons };
+}
+
+/**
+ * Likely duplicate pairs, best first. Catalog scans only compare products
+ * that share a name token or barcode.
+ */
+export async function findDuplicates(db: Repository, search: DuplicateSearch): Promise<DuplicateCandidate[]> {
+  const pairs: DuplicateCandidate[] = [];
+  const consider = (product: Product, other: Product) => {
+    const { score, reasons } = compareProducts(product, other);
+    if (score >= search.minScore) pairs.push({ product, duplicate: other, score, reasons });
+  };
+
+  if (search.productId) {
+    const [product] = await db.products.findByIds([search.productId]);
+    if (!product) return [];
+    const { name, alternative } = namesOf(product);
+    const terms = [...new Set([...nameTokens(name), ...nameTokens(alternative)])].filter((t) => t.length >= 3);
+    const pool = terms.length > 0 ? await db.products.findCandidates(terms, 200) : [];
+    if (product.barcode) {
+      // Same code as UPC-A, EAN-13 or GTIN-14
+      const key = barcodeKey(product.barcode);
+      for (const variant of new Set([key, key.padStart(12, "0"), key.padStart(13, "0"), key.padStart(14, "0")])) {
+        const byBarcode = await db.products.findByBarcode(variant);
+        if (byBarcode) pool.push(byBarcode);
+      }
+    }
+    const seen = new Set([product.id]);
+    for (const other of pool) {
+      if (seen.has(other.id)) continue;
+      seen.add(other.id);
+      consider(product, other);
+    }
+  } else {
+    const products = await db.products.list(search.scanLimit);
+    const buckets = new Map<string, number[]>();
+    products.forEach((product, index) => {
+      const { name, alternative } = namesOf(product);
+      const keys = [...nameTokens(name), ...nameTokens(alternative)].filter((t) => t.length >= 3);
+      if (product.barcode) keys.push(`#${barcodeKey(product.barcode)}`);
+      for (const key of new Set(keys)) buckets.set(key, [...(buckets.get(key) || []), index]);
+    });
+
+    const compared = new Set<string>();
+    for (const indexes of buckets.values()) {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          const key = `${indexes[i]}:${indexes[j]}`;
+          if (compared.has(key)) continue;
+          compared.add(key);
+          consider(products[indexes[i]], products[indexes[j]]);
+        }
+      }
+    }
+  }
+
+  return pairs
+    .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+    .slice(0, search.limit);
+}
@@ -0,0 +1,63 @@
+import type { AbbreviationDictionary } from "./abbreviations";
+
+// Pack sizes and bare numbers ("32oz", "2", "1.5l") say nothing about which product it is
+const SIZE_TOKEN = /^\d+([.,]\d+)?(oz|z|g|kg|lb|lbs|ml|l|ct|pk|fl|gal)?$/;
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace.
+ * "Trader Joe's  Crème" -> "trader joes creme"
+ */
+export function normalizeName(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Replace shorthand tokens with their expansion, e.g. "hz ketchup" -> "heinz ketchup"
+ */
+export function expandAbbreviations(normalized: string, dictionary: AbbreviationDictionary): string {
+  return normalized
+    .split(" ")
+    .map((token) => dictionary[token] ?? token)
+    .join(" ");
+}
+
+export function nameTokens(normalized: string): string[] {
+  return normalized.split(" ").filter((token) => token && !SIZE_TOKEN.test(token));
+}
+
+/**
+ * Token overlap between two normalized names, 0-1. Receipts truncate words,
+ * so a token that is a prefix of the other (3+ characters) counts as most of a match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  let matched = 0;
+  for (const token of left) {
+    let best = 0;
+    for (const other of right) {
+      if (token === other) {
+        best = 1;
+        break;
+      }
+      const [shorter, longer] = token.length < other.length ? [token, other] : [other, token];
+      if (shorter.length >= 3 && longer.startsWith(shorter)) best = Math.max(best, 0.8);
+    }
+    matched += best;
+  }
+
+  const dice = (2 * matched) / (left.length + right.length);
+  const containment = matched / Math.min(left.length, right.length);
+  return Math.min(1, (dice + containment) / 2);
+}
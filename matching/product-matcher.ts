@@ -0,0 +1,191 @@
+import type { Product } from "../supabase";
+import type { Repository } from "../repositories/types";
+import { abbreviationsForStore } from "./abbreviations";
+import { chainKey, lookupLearned } from "./dictionary";
+import { expandAbbreviations, nameSimilarity, nameTokens, normalizeName } from "./normalize";
+
+/** Candidates at or above this score are proposed as the match */
+export const AUTO_MATCH_SCORE = 0.8;
+const MAX_CANDIDATES = 5;
+// Name similarity alone never beats a barcode or a confirmed past match
+const NAME_WEIGHT = 0.9;
+
+export type MatchReason = "barcode" | "history" | "dictionary" | "name" | "alternative_name";
+
+export interface MatchableItem {
+  name: string;
+  alternativeName?: string | null;
+  barcode?: string | null;
+  category?: string | null;
+}
+
+export interface ProductCandidate {
+  product: Product;
+  score: number;
+  reasons: MatchReason[];
+}
+
+export interface ItemMatch {
+  index: number;
+  name: string;
+  /** Normalized line text with abbreviations expanded */
+  normalizedName: string;
+  /** Best first */
+  candidates: ProductCandidate[];
+  suggestion: "match" | "create";
+  /** What products.create would get if the user picks "create new" */
+  createNew: { name: string; category: string | null; barcode: string | null };
+}
+
+export interface MatchRequest {
+  userId: string;
+  storeId?: string | null;
+  storeName?: string | null;
+  items: MatchableItem[];
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Propose a product for every parsed receipt line, combining barcode lookups,
+ * the user's past picks for the same line text, what other shoppers confirmed
+ * at the same chain and fuzzy name matching.
+ */
+export async function matchReceiptItems(db: Repository, request: MatchRequest): Promise<ItemMatch[]> {
+  const dictionary = abbreviationsForStore(request.storeName);
+
+  const lines = request.items.map((item) => {
+    const receiptName = normalizeName(item.name);
+    return {
+      item,
+      receiptName,
+      expanded: expandAbbreviations(receiptName, dictionary),
+      alternative: item.alternativeName ? normalizeName(item.alternativeName) : "",
+    };
+  });
+
+  const history = await db.itemMatches.listForUser(
+    request.userId,
+    [...new Set(lines.map((l) => l.receiptName).filter(Boolean))]
+  );
+  const learned = await lookupLearned(db, request, lines.map((l) => l.receiptName));
+  const learnedIds = [...learned.values()].flatMap((entries) => entries.map((e) => e.product_id));
+  const knownProducts = await db.products.findByIds([...new Set([...history.map((h) => h.product_id), ...learnedIds])]);
+
+  return Promise.all(
+    lines.map(async (line, index): Promise<ItemMatch> => {
+      const candidates = new Map<string, ProductCandidate>();
+      const consider = (product: Product, score: number, reason: MatchReason) => {
+        const existing = candidates.get(product.id);
+        if (!existing) {
+          candidates.set(product.id, { product, score, reasons: [reason] });
+        } else {
+          existing.score = Math.max(existing.score, score);
+          if (!existing.reasons.includes(reason)) existing.reasons.push(reason);
+        }
+      };
+
+      if (line.item.barcode) {
+        const product = await db.products.findByBarcode(line.item.barcode);
+        if (product) consider(product, 1, "barcode");
+      }
+
+      for (const match of history.filter((h) => h.receipt_name === line.receiptName)) {
+        const product = knownProducts.find((p) => p.id === match.product_id);
+        if (!product) continue;
+        // Picks at the same store count most; repeats add confidence
+        const base = match.store_id === request.storeId ? 0.9 : 0.8;
+        consider(product, Math.min(0.99, base + Math.min(match.times_matched, 5) * 0.02), "history");
+      }
+
+      // Someone else's pick is a little weaker than the user's own. The user's
+      // picks are in the dictionary too, so they don't count twice.
+      for (const entry of learned.get(line.receiptName) || []) {
+        const product = knownProducts.find((p) => p.id === entry.product_id);
+        if (!product || candidates.get(product.id)?.reasons.includes("history")) continue;
+        const base = entry.store_id === request.storeId ? 0.86 : 0.8;
+        consider(product, Math.min(0.96, base + Math.min(entry.confirmations, 5) * 0.02), "dictionary");
+      }
+
+      const terms = [...new Set([...nameTokens(line.expanded), ...nameTokens(line.alternative)])]
+        .filter((t) => t.length >= 3)
+        .sort((a, b) => b.length - a.length)
+        .slice(0, 6);
+      const found = terms.length > 0 ? await db.products.findCandidates(terms, 50) : [];
+
+      for (const product of found) {
+        const productName = normalizeName(product.name);
+        const productAlternative = product.alternative_name ? normalizeName(product.alternative_name) : "";
+        const byName = Math.max(
+          nameSimilarity(line.expanded, productName),
+          nameSimilarity(line.alternative, productName)
+        );
+        const byAlternative = Math.max(
+          nameSimilarity(line.expanded, productAlternative),
+          nameSimilarity(line.alternative, productAlternative)
+        );
+        const similarity = Math.max(byName, byAlternative);
+        if (similarity < 0.3) continue;
+        consider(product, similarity * NAME_WEIGHT, byName >= byAlternative ? "name" : "alternative_name");
+      }
+
+      // Independent signals agreeing is worth a little extra
+      const ranked = [...candidates.values()]
+        .map((c) => ({ ...c, score: round3(Math.min(1, c.score + (c.reasons.length - 1) * 0.05)) }))
+        .sort((a, b) => b.score - a.score || a.product.name.localeCompare(b.product.name))
+        .slice(0, MAX_CANDIDATES);
+
+      return {
+        index,
+        name: line.item.name,
+        normalizedName: line.expanded,
+        candidates: ranked,
+        suggestion: ranked[0]?.score >= AUTO_MATCH_SCORE ? "match" : "create",
+        createNew: {
+          name: line.item.alternativeName || line.item.name,
+          category: line.item.category || null,
+          barcode: line.item.barcode || null,
+        },
+      };
+    })
+  );
+}
+
+/**
+ * Remember which product the user picked for each receipt line so the
+ * next scan of the same line at the same store matches straight away.
+ * The picks also go into the store's shared abbreviation dictionary.
+ */
+export async function recordItemMatches(
+  db: Repository,
+  userId: string,
+  storeId: string,
+  items: { productId: string; receiptName?: string }[]
+) {
+  const entries = new Map<string, { user_id: string; store_id: string; receipt_name: string; product_id: string }>();
+  for (const item of items) {
+    const receiptName = item.receiptName ? normalizeName(item.receiptName) : "";
+    if (!receiptName) continue;
+    entries.set(`${receiptName}|${item.productId}`, {
+      user_id: userId,
+      store_id: storeId,
+      receipt_name: receiptName,
+      product_id: item.productId,
+    });
+  }
+  if (entries.size === 0) return;
+  await db.itemMatches.record([...entries.values()]);
+
+  const store = await db.stores.getById(storeId);
+  const chain = store ? chainKey(store.name) : "";
+  if (!chain) return;
+  await db.abbreviations.record(
+    [...entries.values()].map((entry) => ({
+      store_id: storeId,
+      chain,
+      receipt_text: entry.receipt_name,
+      product_id: entry.product_id,
+      created_by: userId,
+    }))
+  );
+}
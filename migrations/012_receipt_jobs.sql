@@ -0,0 +1,71 @@
+-- 012: RECEIPT PROCESSING JOBS
+-- Receipt scans are queued and parsed in the background so clients can poll
+-- for the result instead of holding a request open for the whole AI call.
+
+-- ─────────────────────────────────────────────────────────────
+-- RECEIPT JOBS TABLE
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS receipt_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'parsed', 'failed')),
+  image_path TEXT NOT NULL,
+  provider TEXT,
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS receipt_jobs_user_idx ON receipt_jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS receipt_jobs_queue_idx ON receipt_jobs(status, created_at);
+
+ALTER TABLE receipt_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own receipt jobs" ON receipt_jobs;
+CREATE POLICY "Users can view their own receipt jobs" ON receipt_jobs FOR SELECT USING (auth.uid() = user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- CLAIM: atomically hand the oldest queued job to one worker
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION claim_receipt_job()
+RETURNS SETOF receipt_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE receipt_jobs
+  SET status = 'processing',
+      attempts = attempts + 1,
+      started_at = NOW(),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM receipt_jobs
+    WHERE status = 'queued'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ─────────────────────────────────────────────────────────────
+-- REQUEUE: jobs left in 'processing' by a worker that died or restarted
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION requeue_stale_receipt_jobs(stale_before TIMESTAMPTZ)
+RETURNS INTEGER AS $$
+DECLARE
+  requeued INTEGER;
+BEGIN
+  UPDATE receipt_jobs
+  SET status = 'queued', updated_at = NOW()
+  WHERE status = 'processing' AND started_at < stale_before;
+
+  GET DIAGNOSTICS requeued = ROW_COUNT;
+  RETURN requeued;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Receipt jobs table created.' as status;
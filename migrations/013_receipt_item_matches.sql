@@ -0,0 +1,47 @@
+-- 013: RECEIPT ITEM MATCHES
+-- Remembers which product a user picked for a receipt line ("HZ KETCHUP 32OZ"),
+-- so the matcher can propose the same product next time.
+
+-- ─────────────────────────────────────────────────────────────
+-- MATCH HISTORY TABLE
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS receipt_item_matches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  receipt_name TEXT NOT NULL, -- normalized line text
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  times_matched INTEGER NOT NULL DEFAULT 1,
+  last_matched_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(user_id, store_id, receipt_name, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS receipt_item_matches_lookup_idx ON receipt_item_matches(user_id, receipt_name);
+
+ALTER TABLE receipt_item_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own item matches" ON receipt_item_matches;
+CREATE POLICY "Users can view their own item matches" ON receipt_item_matches FOR SELECT USING (auth.uid() = user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- RECORD: upsert a batch of matches, counting repeats
+-- entries: [{ "user_id", "store_id", "receipt_name", "product_id" }, ...]
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION record_receipt_item_matches(entries JSONB)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO receipt_item_matches (user_id, store_id, receipt_name, product_id)
+  SELECT DISTINCT
+    (e->>'user_id')::UUID,
+    (e->>'store_id')::UUID,
+    e->>'receipt_name',
+    (e->>'product_id')::UUID
+  FROM jsonb_array_elements(entries) e
+  ON CONFLICT (user_id, store_id, receipt_name, product_id)
+  DO UPDATE SET
+    times_matched = receipt_item_matches.times_matched + 1,
+    last_matched_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Receipt item matches table created.' as status;
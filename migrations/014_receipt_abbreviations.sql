@@ -0,0 +1,50 @@
+-- 014: LEARNED RECEIPT ABBREVIATIONS
+-- Shared dictionary of receipt line text ("hz ketchup 32oz") confirmed as a
+-- product at a store. Lookups also fall back to other stores of the same chain.
+
+-- ─────────────────────────────────────────────────────────────
+-- DICTIONARY TABLE
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS receipt_abbreviations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL REFERENCES stores(id) ON DELETE CASCADE,
+  chain TEXT NOT NULL, -- normalized chain name, e.g. 'walmart'
+  receipt_text TEXT NOT NULL, -- normalized line text
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  confirmations INTEGER NOT NULL DEFAULT 1,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(store_id, receipt_text, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS receipt_abbreviations_chain_idx ON receipt_abbreviations(chain, receipt_text);
+
+ALTER TABLE receipt_abbreviations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Receipt abbreviations are viewable by everyone" ON receipt_abbreviations;
+CREATE POLICY "Receipt abbreviations are viewable by everyone" ON receipt_abbreviations FOR SELECT USING (true);
+
+-- ─────────────────────────────────────────────────────────────
+-- RECORD: upsert confirmed mappings, counting repeat confirmations
+-- entries: [{ "store_id", "chain", "receipt_text", "product_id", "created_by" }, ...]
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION record_receipt_abbreviations(entries JSONB)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO receipt_abbreviations (store_id, chain, receipt_text, product_id, created_by)
+  SELECT DISTINCT ON (e->>'store_id', e->>'receipt_text', e->>'product_id')
+    (e->>'store_id')::UUID,
+    e->>'chain',
+    e->>'receipt_text',
+    (e->>'product_id')::UUID,
+    (e->>'created_by')::UUID
+  FROM jsonb_array_elements(entries) e
+  ON CONFLICT (store_id, receipt_text, product_id)
+  DO UPDATE SET
+    confirmations = receipt_abbreviations.confirmations + 1,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Receipt abbreviations table created.' as status;
@@ -0,0 +1,144 @@
+-- 015: PRODUCT MERGES
+-- Folds a duplicate product into the one that survives, re-pointing everything
+-- that referenced it, and keeps an audit row with the removed product.
+
+-- ─────────────────────────────────────────────────────────────
+-- AUDIT TABLE
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS product_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_product_id UUID NOT NULL, -- deleted by the merge, so no FK
+  target_product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  source_product JSONB NOT NULL, -- the removed row as it was
+  moved JSONB NOT NULL DEFAULT '{}'::jsonb, -- rows re-pointed per table
+  merged_by UUID NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_merges_target_idx ON product_merges(target_product_id);
+CREATE INDEX IF NOT EXISTS product_merges_source_idx ON product_merges(source_product_id);
+
+ALTER TABLE product_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Product merges are viewable by everyone" ON product_merges;
+CREATE POLICY "Product merges are viewable by everyone" ON product_merges FOR SELECT USING (true);
+
+-- ─────────────────────────────────────────────────────────────
+-- MERGE: one transaction, returns the audit row
+-- Where a user already has a bookmark or vote on the target, the source
+-- one is dropped (its alerts move to the kept bookmark).
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION merge_products(p_source_id UUID, p_target_id UUID, p_merged_by UUID)
+RETURNS product_merges AS $$
+DECLARE
+  source_row products;
+  moved_prices INTEGER;
+  moved_bookmarks INTEGER;
+  moved_alerts INTEGER;
+  moved_votes INTEGER;
+  moved_discussions INTEGER;
+  moved_drafts INTEGER;
+  merge_row product_merges;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a product into itself';
+  END IF;
+
+  SELECT * INTO source_row FROM products WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_source_id;
+  END IF;
+  PERFORM 1 FROM products WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_target_id;
+  END IF;
+
+  UPDATE prices SET product_id = p_target_id WHERE product_id = p_source_id;
+  GET DIAGNOSTICS moved_prices = ROW_COUNT;
+
+  -- Alerts follow the bookmark the user keeps
+  UPDATE price_alerts a SET bookmark_id = kept.id
+  FROM bookmarks dup, bookmarks kept
+  WHERE a.bookmark_id = dup.id
+    AND dup.product_id = p_source_id
+    AND kept.product_id = p_target_id
+    AND kept.user_id = dup.user_id;
+  DELETE FROM bookmarks dup USING bookmarks kept
+  WHERE dup.product_id = p_source_id AND kept.product_id = p_target_id AND kept.user_id = dup.user_id;
+  UPDATE bookmarks SET product_id = p_target_id WHERE product_id = p_source_id;
+  GET DIAGNOSTICS moved_bookmarks = ROW_COUNT;
+
+  UPDATE price_alerts SET product_id = p_target_id WHERE product_id = p_source_id;
+  GET DIAGNOSTICS moved_alerts = ROW_COUNT;
+
+  DELETE FROM votes dup USING votes kept
+  WHERE dup.target_type = 'product' AND dup.target_id = p_source_id
+    AND kept.target_type = 'product' AND kept.target_id = p_target_id
+    AND kept.user_id = dup.user_id;
+  UPDATE votes SET target_id = p_target_id WHERE target_type = 'product' AND target_id = p_source_id;
+  GET DIAGNOSTICS moved_votes = ROW_COUNT;
+
+  UPDATE discussions SET target_id = p_target_id WHERE target_type = 'product' AND target_id = p_source_id;
+  GET DIAGNOSTICS moved_discussions = ROW_COUNT;
+
+  -- Draft snapshots reference products by id inside JSON
+  UPDATE receipts SET items_snapshot = (
+    SELECT jsonb_agg(
+      CASE WHEN item->>'productId' = p_source_id::TEXT
+        THEN jsonb_set(item, '{productId}', to_jsonb(p_target_id::TEXT))
+        ELSE item END
+      ORDER BY ord)
+    FROM jsonb_array_elements(items_snapshot) WITH ORDINALITY AS s(item, ord)
+  )
+  WHERE status = 'draft' AND items_snapshot @> jsonb_build_array(jsonb_build_object('productId', p_source_id::TEXT));
+  GET DIAGNOSTICS moved_drafts = ROW_COUNT;
+
+  -- Learned receipt lines: fold counts into the target's rows
+  INSERT INTO receipt_item_matches (user_id, store_id, receipt_name, product_id, times_matched, last_matched_at)
+  SELECT user_id, store_id, receipt_name, p_target_id, times_matched, last_matched_at
+  FROM receipt_item_matches WHERE product_id = p_source_id
+  ON CONFLICT (user_id, store_id, receipt_name, product_id)
+  DO UPDATE SET
+    times_matched = receipt_item_matches.times_matched + EXCLUDED.times_matched,
+    last_matched_at = GREATEST(receipt_item_matches.last_matched_at, EXCLUDED.last_matched_at);
+
+  INSERT INTO receipt_abbreviations (store_id, chain, receipt_text, product_id, confirmations, created_by, created_at)
+  SELECT store_id, chain, receipt_text, p_target_id, confirmations, created_by, created_at
+  FROM receipt_abbreviations WHERE product_id = p_source_id
+  ON CONFLICT (store_id, receipt_text, product_id)
+  DO UPDATE SET
+    confirmations = receipt_abbreviations.confirmations + EXCLUDED.confirmations,
+    updated_at = NOW();
+
+  DELETE FROM products WHERE id = p_source_id;
+
+  -- Keep details only the duplicate had
+  UPDATE products SET
+    barcode = COALESCE(barcode, source_row.barcode),
+    category = COALESCE(category, source_row.category),
+    image_url = COALESCE(image_url, source_row.image_url),
+    alternative_name = COALESCE(alternative_name, source_row.alternative_name)
+  WHERE id = p_target_id;
+
+  INSERT INTO product_merges (source_product_id, target_product_id, source_product, moved, merged_by)
+  VALUES (
+    p_source_id,
+    p_target_id,
+    to_jsonb(source_row),
+    jsonb_build_object(
+      'prices', moved_prices,
+      'bookmarks', moved_bookmarks,
+      'price_alerts', moved_alerts,
+      'votes', moved_votes,
+      'discussions', moved_discussions,
+      'drafts', moved_drafts
+    ),
+    p_merged_by
+  )
+  RETURNING * INTO merge_row;
+
+  RETURN merge_row;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Product merge function created.' as status;
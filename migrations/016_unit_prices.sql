@@ -0,0 +1,23 @@
+-- 016: NORMALIZED UNIT PRICES
+-- The server parses prices.weight ("907g", "32OZ", "2 x 500ml", "12ct") into a
+-- canonical package size and recomputes unit_price per 100 g / 100 ml / item,
+-- so prices for different package sizes can be compared.
+
+-- ─────────────────────────────────────────────────────────────
+-- COLUMNS
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS canonical_quantity NUMERIC(12,4);
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS canonical_unit TEXT;
+
+ALTER TABLE prices DROP CONSTRAINT IF EXISTS prices_canonical_unit_check;
+ALTER TABLE prices ADD CONSTRAINT prices_canonical_unit_check
+  CHECK (canonical_unit IS NULL OR canonical_unit IN ('g', 'ml', 'each'));
+
+-- Per-100 g prices of cheap goods need more than two decimals to rank
+ALTER TABLE prices ALTER COLUMN unit_price TYPE NUMERIC(12,4);
+
+COMMENT ON COLUMN prices.unit_price IS 'Price per 100 g, per 100 ml or per item, depending on canonical_unit';
+
+CREATE INDEX IF NOT EXISTS prices_product_unit_idx ON prices(product_id, canonical_unit, unit_price);
+
+SELECT 'Migration complete! Unit price columns added.' as status;
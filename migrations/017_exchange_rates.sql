@@ -0,0 +1,26 @@
+-- 017: EXCHANGE RATES
+-- Daily rates for converting prices into a display currency at the rate of
+-- their purchase date. 1 unit of base_currency = rate units of quote_currency.
+
+-- ─────────────────────────────────────────────────────────────
+-- RATES TABLE
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT, -- 'file', 'admin', ...
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(base_currency, quote_currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS exchange_rates_pair_idx ON exchange_rates(base_currency, quote_currency, rate_date DESC);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Exchange rates are viewable by everyone" ON exchange_rates;
+CREATE POLICY "Exchange rates are viewable by everyone" ON exchange_rates FOR SELECT USING (true);
+
+SELECT 'Migration complete! Exchange rates table created.' as status;
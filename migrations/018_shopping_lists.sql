@@ -0,0 +1,53 @@
+-- 018: SHOPPING LISTS
+-- Lists of products with quantities, and a lookup of the latest known price
+-- per (product, store) used by the list optimizer.
+
+-- ─────────────────────────────────────────────────────────────
+-- LISTS AND ITEMS
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS shopping_lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS shopping_lists_user_idx ON shopping_lists(user_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS shopping_list_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES shopping_lists(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity NUMERIC(10,3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  note TEXT,
+  checked BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(list_id, product_id)
+);
+
+ALTER TABLE shopping_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own shopping lists" ON shopping_lists;
+CREATE POLICY "Users can view their own shopping lists" ON shopping_lists FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own shopping list items" ON shopping_list_items;
+CREATE POLICY "Users can view their own shopping list items" ON shopping_list_items FOR SELECT
+  USING (EXISTS (SELECT 1 FROM shopping_lists l WHERE l.id = list_id AND l.user_id = auth.uid()));
+
+-- ─────────────────────────────────────────────────────────────
+-- LATEST PRICE PER (PRODUCT, STORE)
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION latest_prices(product_ids UUID[], store_ids UUID[])
+RETURNS SETOF prices
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (product_id, store_id) *
+  FROM prices
+  WHERE product_id = ANY(product_ids) AND store_id = ANY(store_ids)
+  ORDER BY product_id, store_id, detected_at DESC;
+$$;
+
+SELECT 'Migration complete! Shopping lists created.' as status;
@@ -0,0 +1,150 @@
+-- 019: PRICE TRENDS
+-- Aggregates behind prices.trends, so the API never loads every price row.
+-- Prices are per package (price / quantity) and dated by purchase_time,
+-- falling back to detected_at, in UTC.
+
+CREATE INDEX IF NOT EXISTS prices_product_observed_idx
+  ON prices(product_id, (COALESCE(purchase_time, detected_at)));
+
+-- ─────────────────────────────────────────────────────────────
+-- TIME BUCKETS
+-- One row per (bucket, store) plus one all-stores row per bucket (store_id NULL).
+-- moving_average is the mean of the last p_moving_average bucket medians of
+-- the same series, counting only buckets that have prices.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_trend_buckets(
+  p_product_id UUID,
+  p_interval TEXT, -- 'day', 'week' (starting Monday) or 'month'
+  p_from DATE DEFAULT NULL,
+  p_until DATE DEFAULT NULL,
+  p_store_id UUID DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL,
+  p_moving_average INT DEFAULT 4
+)
+RETURNS TABLE (
+  bucket_start DATE,
+  store_id UUID,
+  min_price NUMERIC,
+  median_price NUMERIC,
+  max_price NUMERIC,
+  avg_price NUMERIC,
+  price_count INT,
+  moving_average NUMERIC
+) AS $$
+  WITH observed AS (
+    SELECT
+      p.store_id,
+      date_trunc(p_interval, COALESCE(p.purchase_time, p.detected_at) AT TIME ZONE 'UTC')::DATE AS bucket_start,
+      p.price / GREATEST(p.quantity, 1) AS package_price
+    FROM prices p
+    WHERE p.product_id = p_product_id
+      AND (p_store_id IS NULL OR p.store_id = p_store_id)
+      AND (p_currency IS NULL OR p.currency = p_currency)
+      AND (p_from IS NULL OR (COALESCE(p.purchase_time, p.detected_at) AT TIME ZONE 'UTC')::DATE >= p_from)
+      AND (p_until IS NULL OR (COALESCE(p.purchase_time, p.detected_at) AT TIME ZONE 'UTC')::DATE <= p_until)
+  ),
+  buckets AS (
+    SELECT
+      o.bucket_start,
+      o.store_id,
+      MIN(o.package_price) AS min_price,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY o.package_price))::NUMERIC AS median_price,
+      MAX(o.package_price) AS max_price,
+      AVG(o.package_price) AS avg_price,
+      COUNT(*)::INT AS price_count
+    FROM observed o
+    GROUP BY GROUPING SETS ((o.bucket_start, o.store_id), (o.bucket_start))
+  )
+  SELECT
+    b.*,
+    AVG(b.median_price) OVER (
+      PARTITION BY b.store_id
+      ORDER BY b.bucket_start
+      ROWS BETWEEN p_moving_average - 1 PRECEDING AND CURRENT ROW
+    ) AS moving_average
+  FROM buckets b
+  ORDER BY b.bucket_start, b.store_id NULLS FIRST;
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- PERCENT CHANGE
+-- For each window of N days ending at p_as_of: median of the last N days
+-- against the median of the N days before them.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_percent_changes(
+  p_product_id UUID,
+  p_windows INT[],
+  p_as_of TIMESTAMPTZ DEFAULT NOW(),
+  p_store_id UUID DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  window_days INT,
+  current_median NUMERIC,
+  previous_median NUMERIC,
+  percent_change NUMERIC
+) AS $$
+  WITH observed AS (
+    SELECT
+      COALESCE(p.purchase_time, p.detected_at) AS observed_at,
+      p.price / GREATEST(p.quantity, 1) AS package_price
+    FROM prices p
+    WHERE p.product_id = p_product_id
+      AND (p_store_id IS NULL OR p.store_id = p_store_id)
+      AND (p_currency IS NULL OR p.currency = p_currency)
+      AND COALESCE(p.purchase_time, p.detected_at) <= p_as_of
+  ),
+  medians AS (
+    SELECT
+      w.days AS window_days,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY o.package_price)
+        FILTER (WHERE o.observed_at > p_as_of - make_interval(days => w.days)))::NUMERIC AS current_median,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY o.package_price)
+        FILTER (WHERE o.observed_at <= p_as_of - make_interval(days => w.days)
+          AND o.observed_at > p_as_of - make_interval(days => 2 * w.days)))::NUMERIC AS previous_median
+    FROM unnest(p_windows) AS w(days)
+    LEFT JOIN observed o ON o.observed_at > p_as_of - make_interval(days => 2 * w.days)
+    GROUP BY w.days
+  )
+  SELECT
+    m.window_days,
+    m.current_median,
+    m.previous_median,
+    CASE WHEN m.previous_median > 0
+      THEN ROUND((m.current_median - m.previous_median) / m.previous_median * 100, 2)
+    END AS percent_change
+  FROM medians m
+  ORDER BY m.window_days;
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- GOOD-DEAL PERCENTILE
+-- Share (0-100) of recorded prices strictly cheaper than p_price:
+-- 0 means nobody has paid less.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_percentile(
+  p_product_id UUID,
+  p_price NUMERIC,
+  p_since TIMESTAMPTZ DEFAULT NULL,
+  p_store_id UUID DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  percentile NUMERIC,
+  cheaper_count INT,
+  total_count INT
+) AS $$
+  SELECT
+    CASE WHEN COUNT(*) > 0
+      THEN ROUND(COUNT(*) FILTER (WHERE p.price / GREATEST(p.quantity, 1) < p_price) * 100.0 / COUNT(*), 2)
+    END AS percentile,
+    (COUNT(*) FILTER (WHERE p.price / GREATEST(p.quantity, 1) < p_price))::INT AS cheaper_count,
+    COUNT(*)::INT AS total_count
+  FROM prices p
+  WHERE p.product_id = p_product_id
+    AND (p_store_id IS NULL OR p.store_id = p_store_id)
+    AND (p_currency IS NULL OR p.currency = p_currency)
+    AND (p_since IS NULL OR COALESCE(p.purchase_time, p.detected_at) >= p_since);
+$$ LANGUAGE sql STABLE;
+
+SELECT 'Migration complete! Price trend functions created.' as status;
@@ -0,0 +1,87 @@
+-- 020: NOTIFICATIONS
+-- Delivery of price alerts through push, email and webhooks.
+-- The dispatcher picks up alerts with dispatched_at NULL, queues one delivery
+-- per enabled endpoint and retries failed sends with backoff.
+
+-- ─────────────────────────────────────────────────────────────
+-- ALERTS WAITING FOR DISPATCH
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE price_alerts ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMPTZ;
+
+-- Alerts created before this migration were already seen by polling
+UPDATE price_alerts SET dispatched_at = created_at WHERE dispatched_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS price_alerts_undispatched_idx
+  ON price_alerts(created_at) WHERE dispatched_at IS NULL;
+
+-- ─────────────────────────────────────────────────────────────
+-- PREFERENCES
+-- Times are HH:MM in the user's timezone. Quiet hours may wrap midnight.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY,
+  delivery_mode TEXT NOT NULL DEFAULT 'instant' CHECK (delivery_mode IN ('instant', 'digest')),
+  digest_time TEXT NOT NULL DEFAULT '08:00' CHECK (digest_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  quiet_hours_start TEXT CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  quiet_hours_end TEXT CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  -- Local date of the last digest, so at most one goes out per day
+  last_digest_on DATE,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ─────────────────────────────────────────────────────────────
+-- ENDPOINTS
+-- address: Expo push token, web push endpoint, email address, webhook URL
+-- or a label for the log channel. config: web push keys, webhook secret.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS notification_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('expo', 'webpush', 'email', 'webhook', 'log')),
+  address TEXT NOT NULL,
+  config JSONB,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE(user_id, channel, address)
+);
+
+CREATE INDEX IF NOT EXISTS notification_endpoints_user_idx ON notification_endpoints(user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- DELIVERIES
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  endpoint_id UUID REFERENCES notification_endpoints(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('instant', 'digest')),
+  alert_ids UUID[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_due_idx
+  ON notification_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS notification_deliveries_user_idx
+  ON notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view their own notification preferences" ON notification_preferences FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own notification endpoints" ON notification_endpoints;
+CREATE POLICY "Users can view their own notification endpoints" ON notification_endpoints FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own notification deliveries" ON notification_deliveries;
+CREATE POLICY "Users can view their own notification deliveries" ON notification_deliveries FOR SELECT USING (auth.uid() = user_id);
+
+SELECT 'Migration complete! Notification tables created.' as status;
@@ -0,0 +1,122 @@
+-- 021: BOOKMARK ALERT RULES
+-- Per-bookmark rules for check_price_drop_alerts. A bookmark can watch only
+-- some stores or the stores within a radius of a saved location; its
+-- comparisons ("previous lowest", "lowest in N days") use those stores only.
+
+-- ─────────────────────────────────────────────────────────────
+-- RULE COLUMNS
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE bookmarks
+  ADD COLUMN IF NOT EXISTS store_ids UUID[],
+  ADD COLUMN IF NOT EXISTS near_latitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS near_longitude DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS radius_km DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS min_drop_percent NUMERIC(5,2),
+  ADD COLUMN IF NOT EXISTS target_unit_price NUMERIC(12,4),
+  ADD COLUMN IF NOT EXISTS notify_on_sale BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS lowest_in_days INT;
+
+ALTER TABLE bookmarks DROP CONSTRAINT IF EXISTS bookmarks_near_check;
+ALTER TABLE bookmarks ADD CONSTRAINT bookmarks_near_check CHECK (
+  (near_latitude IS NULL AND near_longitude IS NULL AND radius_km IS NULL)
+  OR (near_latitude IS NOT NULL AND near_longitude IS NOT NULL AND radius_km > 0)
+);
+ALTER TABLE bookmarks DROP CONSTRAINT IF EXISTS bookmarks_min_drop_percent_check;
+ALTER TABLE bookmarks ADD CONSTRAINT bookmarks_min_drop_percent_check CHECK (min_drop_percent > 0 AND min_drop_percent <= 100);
+ALTER TABLE bookmarks DROP CONSTRAINT IF EXISTS bookmarks_lowest_in_days_check;
+ALTER TABLE bookmarks ADD CONSTRAINT bookmarks_lowest_in_days_check CHECK (lowest_in_days > 0);
+
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_alert_type_check;
+ALTER TABLE price_alerts ADD CONSTRAINT price_alerts_alert_type_check CHECK (
+  alert_type IN ('price_drop', 'target_reached', 'new_price', 'unit_price_target', 'on_sale', 'lowest_in_days')
+);
+
+-- ─────────────────────────────────────────────────────────────
+-- STORE SCOPE
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION bookmark_covers_store(b bookmarks, p_store_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT (b.store_ids IS NULL OR p_store_id = ANY(b.store_ids))
+    AND (b.radius_km IS NULL OR EXISTS (
+      SELECT 1 FROM stores s
+      WHERE s.id = p_store_id
+        AND ST_DWithin(
+          s.location,
+          ST_SetSRID(ST_MakePoint(b.near_longitude, b.near_latitude), 4326)::geography,
+          b.radius_km * 1000
+        )
+    ));
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- ALERT TRIGGER
+-- notify_on_price_drop still switches a bookmark's alerts on or off.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION check_price_drop_alerts()
+RETURNS TRIGGER AS $$
+DECLARE
+  bookmark bookmarks%ROWTYPE;
+  prev_price DECIMAL(10,2);
+  window_low DECIMAL(10,2);
+  window_count INT;
+  v_store_name TEXT;
+  v_on_sale BOOLEAN;
+BEGIN
+  SELECT name INTO v_store_name FROM stores WHERE id = NEW.store_id;
+  v_on_sale := COALESCE(NEW.original_price > NEW.price, false)
+    OR EXISTS (SELECT 1 FROM unnest(COALESCE(NEW.tags, '{}'::TEXT[])) AS tag WHERE upper(tag) = 'SALE');
+
+  FOR bookmark IN
+    SELECT * FROM bookmarks b
+    WHERE b.product_id = NEW.product_id
+      AND b.notify_on_price_drop = true
+      AND bookmark_covers_store(b, NEW.store_id)
+  LOOP
+    -- Previous lowest price at the stores this bookmark watches
+    SELECT MIN(p.price) INTO prev_price
+    FROM prices p
+    WHERE p.product_id = NEW.product_id AND p.id != NEW.id
+      AND bookmark_covers_store(bookmark, p.store_id);
+
+    IF prev_price IS NOT NULL AND NEW.price < prev_price
+      AND (bookmark.min_drop_percent IS NULL OR (prev_price - NEW.price) / prev_price * 100 >= bookmark.min_drop_percent) THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'price_drop', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_price IS NOT NULL AND NEW.price <= bookmark.target_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'target_reached', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_unit_price IS NOT NULL AND NEW.unit_price IS NOT NULL
+      AND NEW.unit_price <= bookmark.target_unit_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'unit_price_target', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.notify_on_sale AND v_on_sale THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'on_sale', NEW.original_price, NEW.price, v_store_name);
+    END IF;
+
+    -- Needs at least one earlier price in the window to compare with
+    IF bookmark.lowest_in_days IS NOT NULL THEN
+      SELECT MIN(p.price), COUNT(*) INTO window_low, window_count
+      FROM prices p
+      WHERE p.product_id = NEW.product_id AND p.id != NEW.id
+        AND p.detected_at >= NOW() - make_interval(days => bookmark.lowest_in_days)
+        AND bookmark_covers_store(bookmark, p.store_id);
+
+      IF window_count > 0 AND NEW.price < window_low THEN
+        INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+        VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'lowest_in_days', window_low, NEW.price, v_store_name);
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Bookmark alert rules added.' as status;
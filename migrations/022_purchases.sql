@@ -0,0 +1,23 @@
+-- 022: PURCHASES
+-- A user's spending is the prices on their complete receipts; drafts,
+-- soft-deleted receipts and prices entered without a receipt are left out.
+-- stores.stats and the analytics router both read this view so the rule
+-- lives in one place. Totals are added up in the API because each price is
+-- converted at its own purchase-date exchange rate.
+
+CREATE INDEX IF NOT EXISTS prices_user_purchased_idx
+  ON prices(user_id, (COALESCE(purchase_time, detected_at)));
+
+-- ─────────────────────────────────────────────────────────────
+-- PURCHASES VIEW
+-- security_invoker keeps the RLS policies of prices and receipts in force.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE VIEW purchases WITH (security_invoker = true) AS
+SELECT
+  p.*,
+  COALESCE(p.purchase_time, p.detected_at) AS purchased_at
+FROM prices p
+JOIN receipts r ON r.id = p.receipt_id
+WHERE r.status = 'complete' AND r.is_deleted = false;
+
+SELECT 'Migration complete! Purchases view added.' as status;
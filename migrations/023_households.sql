@@ -0,0 +1,89 @@
+-- 023: HOUSEHOLDS
+-- Shared accounts. Owners and members contribute their receipts, bookmarks
+-- and spending to the household; viewers can see that data but their own
+-- is not shared. People join with an invitation code from an owner.
+
+-- ─────────────────────────────────────────────────────────────
+-- HOUSEHOLDS AND MEMBERS
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'member', 'viewer')),
+  joined_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (household_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS household_members_user_idx ON household_members(user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- INVITATIONS
+-- A code is used once; accepted_by/accepted_at are set when it is.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS household_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  role TEXT NOT NULL CHECK (role IN ('member', 'viewer')),
+  invited_by UUID NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID,
+  accepted_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS household_invitations_household_idx ON household_invitations(household_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- SHARED VISIBILITY
+-- ─────────────────────────────────────────────────────────────
+-- True when `viewer` can see `owner`'s data through a household they share
+CREATE OR REPLACE FUNCTION household_can_view(viewer UUID, owner UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM household_members v
+    JOIN household_members o ON o.household_id = v.household_id
+    WHERE v.user_id = viewer AND o.user_id = owner AND o.role IN ('owner', 'member')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- SECURITY DEFINER so policies on household_members can use it without recursing
+CREATE OR REPLACE FUNCTION household_role(p_household_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM household_members WHERE household_id = p_household_id AND user_id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE household_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their households" ON households;
+CREATE POLICY "Members can view their households" ON households FOR SELECT
+  USING (household_role(households.id, auth.uid()) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members can view household members" ON household_members;
+CREATE POLICY "Members can view household members" ON household_members FOR SELECT
+  USING (household_role(household_members.household_id, auth.uid()) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners can view invitations" ON household_invitations;
+CREATE POLICY "Owners can view invitations" ON household_invitations FOR SELECT
+  USING (household_role(household_invitations.household_id, auth.uid()) = 'owner');
+
+DROP POLICY IF EXISTS "Household members can view receipts" ON receipts;
+CREATE POLICY "Household members can view receipts" ON receipts FOR SELECT
+  USING (household_can_view(auth.uid(), user_id));
+
+DROP POLICY IF EXISTS "Household members can view bookmarks" ON bookmarks;
+CREATE POLICY "Household members can view bookmarks" ON bookmarks FOR SELECT
+  USING (household_can_view(auth.uid(), user_id));
+
+SELECT 'Migration complete! Households created.' as status;
@@ -0,0 +1,60 @@
+-- 024: BUDGETS
+-- Weekly or monthly spending limits, overall or for one product category
+-- and/or store. Progress is computed by the API from the purchases view
+-- (migration 022). Crossing a threshold adds a 'budget_threshold' row to
+-- price_alerts, so it shows up in the alert feed and goes out through the
+-- notification dispatcher like price alerts do.
+
+-- ─────────────────────────────────────────────────────────────
+-- BUDGETS
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  period TEXT NOT NULL CHECK (period IN ('weekly', 'monthly')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'USD',
+  -- Matched case-insensitively against products.category; NULL for all categories
+  category TEXT,
+  store_id UUID REFERENCES stores(id) ON DELETE CASCADE,
+  -- Percentages of amount that raise an alert, once per period each
+  thresholds INT[] NOT NULL DEFAULT '{80,100}',
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS budgets_user_idx ON budgets(user_id, created_at);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own budgets" ON budgets;
+CREATE POLICY "Users can view their own budgets" ON budgets FOR SELECT USING (auth.uid() = user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- BUDGET ALERTS IN THE ALERT FEED
+-- For budget alerts old_price is the budget amount and new_price the
+-- amount spent in the period.
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE price_alerts
+  ALTER COLUMN bookmark_id DROP NOT NULL,
+  ALTER COLUMN product_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS budget_id UUID REFERENCES budgets(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS period_start DATE,
+  ADD COLUMN IF NOT EXISTS threshold_percent INT;
+
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_alert_type_check;
+ALTER TABLE price_alerts ADD CONSTRAINT price_alerts_alert_type_check CHECK (
+  alert_type IN ('price_drop', 'target_reached', 'new_price', 'unit_price_target', 'on_sale', 'lowest_in_days', 'budget_threshold')
+);
+
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_source_check;
+ALTER TABLE price_alerts ADD CONSTRAINT price_alerts_source_check CHECK (
+  bookmark_id IS NOT NULL OR budget_id IS NOT NULL
+);
+
+-- One alert per budget, period and threshold
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_budget_threshold_key;
+ALTER TABLE price_alerts ADD CONSTRAINT price_alerts_budget_threshold_key UNIQUE (budget_id, period_start, threshold_percent);
+
+SELECT 'Migration complete! Budgets created.' as status;
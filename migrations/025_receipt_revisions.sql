@@ -0,0 +1,32 @@
+-- 025: RECEIPT REVISIONS
+-- Complete receipts can be edited: the header (store, date, currency, ...)
+-- and their line items, which are the linked prices rows. Every edit stores
+-- the whole receipt as it is afterwards, so any earlier version can be shown
+-- or restored. Version 1 is the receipt as it was before its first edit.
+
+-- ─────────────────────────────────────────────────────────────
+-- REVISIONS
+-- snapshot: the receipt header plus one entry per line item, each with the
+-- id of its prices row ({ store_id, receipt_date, ..., items: [...] })
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS receipt_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  receipt_id UUID NOT NULL REFERENCES receipts(id) ON DELETE CASCADE,
+  version INT NOT NULL CHECK (version > 0),
+  user_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('original', 'update', 'add_item', 'update_item', 'remove_item', 'revert')),
+  -- For reverts, the version that was restored
+  reverted_to INT,
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (receipt_id, version)
+);
+
+ALTER TABLE receipt_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view revisions of their receipts" ON receipt_revisions;
+CREATE POLICY "Users can view revisions of their receipts" ON receipt_revisions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM receipts r WHERE r.id = receipt_id AND r.user_id = auth.uid())
+);
+
+SELECT 'Migration complete! Receipt revisions created.' as status;
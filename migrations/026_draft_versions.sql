@@ -0,0 +1,11 @@
+-- 026: DRAFT VERSIONS
+-- Drafts can be edited piece by piece (header fields, single items, item
+-- order) while the user reviews a scan. draft_version goes up with every
+-- edit; an edit names the version it started from and is rejected when the
+-- draft has moved on, so two devices autosaving cannot overwrite each other.
+-- Items in items_snapshot carry an itemId so they can be addressed one at a
+-- time; older drafts get theirs on their first edit.
+
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS draft_version INT NOT NULL DEFAULT 0;
+
+SELECT 'Migration complete! Draft versions added.' as status;
@@ -0,0 +1,111 @@
+-- 027: ATOMIC RECEIPT SAVES
+-- Saving a receipt used to be two calls (insert the receipt, then its
+-- prices) and completing a draft two more (insert prices, then flip the
+-- status). A failure in between left an orphaned receipt, or prices that a
+-- retry then duplicated. Both flows now run as one function call, so they
+-- either happen completely or not at all.
+--
+-- Clients may send an idempotency key with a save. Saving again with the
+-- same key returns the receipt from the first save instead of a second one.
+-- idempotency_hash fingerprints the request, so the API can tell a retry
+-- from a different receipt that reuses the key.
+
+-- ─────────────────────────────────────────────────────────────
+-- IDEMPOTENCY KEYS
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS idempotency_hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS receipts_idempotency_key_idx
+  ON receipts(user_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- ─────────────────────────────────────────────────────────────
+-- SAVE A RECEIPT WITH ITS PRICES
+-- p_receipt: receipts columns; p_prices: prices columns without receipt_id
+-- Returns { receipt, saved, replayed }
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION save_receipt(p_receipt JSONB, p_prices JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_key TEXT := p_receipt->>'idempotency_key';
+  v_receipt receipts;
+  v_saved INT;
+BEGIN
+  IF v_key IS NOT NULL THEN
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    IF FOUND THEN
+      SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+      RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO receipts (
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash
+    )
+    SELECT
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash
+    FROM jsonb_populate_record(NULL::receipts, p_receipt)
+    RETURNING * INTO v_receipt;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent retry with the same key got there first
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+    RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+  END;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), v_receipt.id, receipt_image_path, purchase_time
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', false);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ─────────────────────────────────────────────────────────────
+-- COMPLETE A DRAFT
+-- Inserts the prices built from the snapshot and marks the receipt complete,
+-- only while the draft is still at p_version (migration 026).
+-- Returns 'completed', 'already_complete', 'stale' or 'not_found'.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION complete_draft(p_receipt_id UUID, p_user_id UUID, p_version INT, p_prices JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_receipt receipts;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts
+  WHERE id = p_receipt_id AND user_id = p_user_id AND NOT is_deleted
+  FOR UPDATE;
+
+  IF NOT FOUND THEN RETURN 'not_found'; END IF;
+  IF v_receipt.status = 'complete' THEN RETURN 'already_complete'; END IF;
+  IF v_receipt.draft_version <> p_version THEN RETURN 'stale'; END IF;
+
+  -- Prices left behind by a completion that failed halfway before this function existed
+  DELETE FROM prices WHERE receipt_id = p_receipt_id;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), p_receipt_id, receipt_image_path, purchase_time
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+
+  UPDATE receipts SET status = 'complete', items_snapshot = NULL WHERE id = p_receipt_id;
+  RETURN 'completed';
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Atomic receipt saves created.' as status;
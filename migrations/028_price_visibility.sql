@@ -0,0 +1,359 @@
+-- 028: PRICE VISIBILITY
+-- prices.published (migration 003) now decides who sees a price: published
+-- prices are shown to everyone, the others only to the user who recorded
+-- them. Every read that shows other users' prices (history, cheapest,
+-- recent, trends, the shopping list optimizer, bookmark alerts) filters on
+-- it. New prices take the user's sharing preference unless the request says
+-- otherwise, and can be published or unpublished afterwards.
+
+-- ─────────────────────────────────────────────────────────────
+-- SHARING PREFERENCES
+-- No row means the defaults: new prices are published.
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS sharing_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  publish_prices BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE sharing_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own sharing preferences" ON sharing_preferences;
+CREATE POLICY "Users can manage their own sharing preferences" ON sharing_preferences
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- EXISTING PRICES
+-- Nothing read the flag before, so every price was shown to everyone. They
+-- stay visible until their owner unpublishes them.
+-- ─────────────────────────────────────────────────────────────
+UPDATE prices SET published = true WHERE published IS DISTINCT FROM true;
+ALTER TABLE prices ALTER COLUMN published SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS prices_user_product_idx ON prices(user_id, product_id);
+
+DROP POLICY IF EXISTS "Prices are viewable by everyone" ON prices;
+DROP POLICY IF EXISTS "Published prices and their owner's are viewable" ON prices;
+CREATE POLICY "Published prices and their owner's are viewable" ON prices
+  FOR SELECT USING (published OR auth.uid() = user_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- VISIBLE TO A VIEWER
+-- Published, or recorded by p_viewer_id; a NULL viewer sees published only.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_visible_to(p prices, p_viewer_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT p.published OR (p_viewer_id IS NOT NULL AND p.user_id = p_viewer_id);
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- LATEST PRICES (migration 018) with a viewer
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS latest_prices(UUID[], UUID[]);
+CREATE OR REPLACE FUNCTION latest_prices(product_ids UUID[], store_ids UUID[], p_viewer_id UUID DEFAULT NULL)
+RETURNS SETOF prices
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (product_id, store_id) *
+  FROM prices p
+  WHERE p.product_id = ANY(product_ids) AND p.store_id = ANY(store_ids)
+    AND price_visible_to(p, p_viewer_id)
+  ORDER BY p.product_id, p.store_id, p.detected_at DESC;
+$$;
+
+-- ─────────────────────────────────────────────────────────────
+-- PRICE TRENDS (migration 019) with a viewer
+-- ─────────────────────────────────────────────────────────────
+DROP FUNCTION IF EXISTS price_trend_buckets(UUID, TEXT, DATE, DATE, UUID, TEXT, INT);
+CREATE OR REPLACE FUNCTION price_trend_buckets(
+  p_product_id UUID,
+  p_interval TEXT, -- 'day', 'week' (starting Monday) or 'month'
+  p_from DATE DEFAULT NULL,
+  p_until DATE DEFAULT NULL,
+  p_store_id UUID DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL,
+  p_moving_average INT DEFAULT 4,
+  p_viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  bucket_start DATE,
+  store_id UUID,
+  min_price NUMERIC,
+  median_price NUMERIC,
+  max_price NUMERIC,
+  avg_price NUMERIC,
+  price_count INT,
+  moving_average NUMERIC
+) AS $$
+  WITH observed AS (
+    SELECT
+      p.store_id,
+      date_trunc(p_interval, COALESCE(p.purchase_time, p.detected_at) AT TIME ZONE 'UTC')::DATE AS bucket_start,
+      p.price / GREATEST(p.quantity, 1) AS package_price
+    FROM prices p
+    WHERE p.product_id = p_product_id
+      AND price_visible_to(p, p_viewer_id)
+      AND (p_store_id IS NULL OR p.store_id = p_store_id)
+      AND (p_currency IS NULL OR p.currency = p_currency)
+      AND (p_from IS NULL OR (COALESCE(p.purchase_time, p.detected_at) AT TIME ZONE 'UTC')::DATE >= p_from)
+      AND (p_until IS NULL OR (COALESCE(p.purchase_time, p.detected_at) AT TIME ZONE 'UTC')::DATE <= p_until)
+  ),
+  buckets AS (
+    SELECT
+      o.bucket_start,
+      o.store_id,
+      MIN(o.package_price) AS min_price,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY o.package_price))::NUMERIC AS median_price,
+      MAX(o.package_price) AS max_price,
+      AVG(o.package_price) AS avg_price,
+      COUNT(*)::INT AS price_count
+    FROM observed o
+    GROUP BY GROUPING SETS ((o.bucket_start, o.store_id), (o.bucket_start))
+  )
+  SELECT
+    b.*,
+    AVG(b.median_price) OVER (
+      PARTITION BY b.store_id
+      ORDER BY b.bucket_start
+      ROWS BETWEEN p_moving_average - 1 PRECEDING AND CURRENT ROW
+    ) AS moving_average
+  FROM buckets b
+  ORDER BY b.bucket_start, b.store_id NULLS FIRST;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS price_percent_changes(UUID, INT[], TIMESTAMPTZ, UUID, TEXT);
+CREATE OR REPLACE FUNCTION price_percent_changes(
+  p_product_id UUID,
+  p_windows INT[],
+  p_as_of TIMESTAMPTZ DEFAULT NOW(),
+  p_store_id UUID DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL,
+  p_viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  window_days INT,
+  current_median NUMERIC,
+  previous_median NUMERIC,
+  percent_change NUMERIC
+) AS $$
+  WITH observed AS (
+    SELECT
+      COALESCE(p.purchase_time, p.detected_at) AS observed_at,
+      p.price / GREATEST(p.quantity, 1) AS package_price
+    FROM prices p
+    WHERE p.product_id = p_product_id
+      AND price_visible_to(p, p_viewer_id)
+      AND (p_store_id IS NULL OR p.store_id = p_store_id)
+      AND (p_currency IS NULL OR p.currency = p_currency)
+      AND COALESCE(p.purchase_time, p.detected_at) <= p_as_of
+  ),
+  medians AS (
+    SELECT
+      w.days AS window_days,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY o.package_price)
+        FILTER (WHERE o.observed_at > p_as_of - make_interval(days => w.days)))::NUMERIC AS current_median,
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY o.package_price)
+        FILTER (WHERE o.observed_at <= p_as_of - make_interval(days => w.days)
+          AND o.observed_at > p_as_of - make_interval(days => 2 * w.days)))::NUMERIC AS previous_median
+    FROM unnest(p_windows) AS w(days)
+    LEFT JOIN observed o ON o.observed_at > p_as_of - make_interval(days => 2 * w.days)
+    GROUP BY w.days
+  )
+  SELECT
+    m.window_days,
+    m.current_median,
+    m.previous_median,
+    CASE WHEN m.previous_median > 0
+      THEN ROUND((m.current_median - m.previous_median) / m.previous_median * 100, 2)
+    END AS percent_change
+  FROM medians m
+  ORDER BY m.window_days;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS price_percentile(UUID, NUMERIC, TIMESTAMPTZ, UUID, TEXT);
+CREATE OR REPLACE FUNCTION price_percentile(
+  p_product_id UUID,
+  p_price NUMERIC,
+  p_since TIMESTAMPTZ DEFAULT NULL,
+  p_store_id UUID DEFAULT NULL,
+  p_currency TEXT DEFAULT NULL,
+  p_viewer_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  percentile NUMERIC,
+  cheaper_count INT,
+  total_count INT
+) AS $$
+  SELECT
+    CASE WHEN COUNT(*) > 0
+      THEN ROUND(COUNT(*) FILTER (WHERE p.price / GREATEST(p.quantity, 1) < p_price) * 100.0 / COUNT(*), 2)
+    END AS percentile,
+    (COUNT(*) FILTER (WHERE p.price / GREATEST(p.quantity, 1) < p_price))::INT AS cheaper_count,
+    COUNT(*)::INT AS total_count
+  FROM prices p
+  WHERE p.product_id = p_product_id
+    AND price_visible_to(p, p_viewer_id)
+    AND (p_store_id IS NULL OR p.store_id = p_store_id)
+    AND (p_currency IS NULL OR p.currency = p_currency)
+    AND (p_since IS NULL OR COALESCE(p.purchase_time, p.detected_at) >= p_since);
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- RECEIPT SAVES (migration 027) store the published flag
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION save_receipt(p_receipt JSONB, p_prices JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_key TEXT := p_receipt->>'idempotency_key';
+  v_receipt receipts;
+  v_saved INT;
+BEGIN
+  IF v_key IS NOT NULL THEN
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    IF FOUND THEN
+      SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+      RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO receipts (
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash
+    )
+    SELECT
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash
+    FROM jsonb_populate_record(NULL::receipts, p_receipt)
+    RETURNING * INTO v_receipt;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent retry with the same key got there first
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+    RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+  END;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time, published
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), v_receipt.id, receipt_image_path, purchase_time,
+    COALESCE(published, false)
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', false);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION complete_draft(p_receipt_id UUID, p_user_id UUID, p_version INT, p_prices JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_receipt receipts;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts
+  WHERE id = p_receipt_id AND user_id = p_user_id AND NOT is_deleted
+  FOR UPDATE;
+
+  IF NOT FOUND THEN RETURN 'not_found'; END IF;
+  IF v_receipt.status = 'complete' THEN RETURN 'already_complete'; END IF;
+  IF v_receipt.draft_version <> p_version THEN RETURN 'stale'; END IF;
+
+  -- Prices left behind by a completion that failed halfway before migration 027
+  DELETE FROM prices WHERE receipt_id = p_receipt_id;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time, published
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), p_receipt_id, receipt_image_path, purchase_time,
+    COALESCE(published, false)
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+
+  UPDATE receipts SET status = 'complete', items_snapshot = NULL WHERE id = p_receipt_id;
+  RETURN 'completed';
+END;
+$$ LANGUAGE plpgsql;
+
+-- ─────────────────────────────────────────────────────────────
+-- ALERT TRIGGER (migration 021)
+-- A bookmark only hears about, and compares against, prices its owner can see.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION check_price_drop_alerts()
+RETURNS TRIGGER AS $$
+DECLARE
+  bookmark bookmarks%ROWTYPE;
+  prev_price DECIMAL(10,2);
+  window_low DECIMAL(10,2);
+  window_count INT;
+  v_store_name TEXT;
+  v_on_sale BOOLEAN;
+BEGIN
+  SELECT name INTO v_store_name FROM stores WHERE id = NEW.store_id;
+  v_on_sale := COALESCE(NEW.original_price > NEW.price, false)
+    OR EXISTS (SELECT 1 FROM unnest(COALESCE(NEW.tags, '{}'::TEXT[])) AS tag WHERE upper(tag) = 'SALE');
+
+  FOR bookmark IN
+    SELECT * FROM bookmarks b
+    WHERE b.product_id = NEW.product_id
+      AND b.notify_on_price_drop = true
+      AND (NEW.published OR NEW.user_id = b.user_id)
+      AND bookmark_covers_store(b, NEW.store_id)
+  LOOP
+    -- Previous lowest price at the stores this bookmark watches
+    SELECT MIN(p.price) INTO prev_price
+    FROM prices p
+    WHERE p.product_id = NEW.product_id AND p.id != NEW.id
+      AND price_visible_to(p, bookmark.user_id)
+      AND bookmark_covers_store(bookmark, p.store_id);
+
+    IF prev_price IS NOT NULL AND NEW.price < prev_price
+      AND (bookmark.min_drop_percent IS NULL OR (prev_price - NEW.price) / prev_price * 100 >= bookmark.min_drop_percent) THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'price_drop', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_price IS NOT NULL AND NEW.price <= bookmark.target_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'target_reached', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_unit_price IS NOT NULL AND NEW.unit_price IS NOT NULL
+      AND NEW.unit_price <= bookmark.target_unit_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'unit_price_target', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.notify_on_sale AND v_on_sale THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'on_sale', NEW.original_price, NEW.price, v_store_name);
+    END IF;
+
+    -- Needs at least one earlier price in the window to compare with
+    IF bookmark.lowest_in_days IS NOT NULL THEN
+      SELECT MIN(p.price), COUNT(*) INTO window_low, window_count
+      FROM prices p
+      WHERE p.product_id = NEW.product_id AND p.id != NEW.id
+        AND p.detected_at >= NOW() - make_interval(days => bookmark.lowest_in_days)
+        AND price_visible_to(p, bookmark.user_id)
+        AND bookmark_covers_store(bookmark, p.store_id);
+
+      IF window_count > 0 AND NEW.price < window_low THEN
+        INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+        VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'lowest_in_days', window_low, NEW.price, v_store_name);
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Price visibility enforced.' as status;
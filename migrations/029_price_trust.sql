@@ -0,0 +1,183 @@
+-- 029: PRICE TRUST
+-- A confidence score (0-1) per price, so one typo or a bogus price cannot
+-- become a store's "cheapest" price or alert every bookmark holder. It is
+-- the weighted sum of five factors, each 0-1:
+--   votes       0.35  share of up votes on the price, starting from 1 up / 1 down
+--   outlier     0.30  closeness to the median of the product's other published
+--                     prices (same currency, unit prices against unit prices);
+--                     1 with fewer than 3 to compare, 0 at 5x off either way
+--   reputation  0.15  the contributor's experience (100 prices counts fully)
+--                     averaged with the votes on all their prices
+--   receipt     0.10  1 when a receipt image backs the price
+--   age         0.10  halves every 30 days after the purchase
+-- The weights match prices/trust.ts. Prices below 0.5 are questionable: the
+-- API leaves them out of cheapest and recent unless asked, and they raise no
+-- bookmark alerts.
+
+CREATE INDEX IF NOT EXISTS votes_target_idx ON votes(target_type, target_id);
+
+-- ─────────────────────────────────────────────────────────────
+-- TRUST SCORES
+-- One row per existing price in p_price_ids, scored as of p_as_of
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_trust(p_price_ids UUID[], p_as_of TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  price_id UUID,
+  score NUMERIC,
+  upvotes INT,
+  downvotes INT,
+  votes_factor NUMERIC,
+  outlier_factor NUMERIC,
+  reputation_factor NUMERIC,
+  receipt_factor NUMERIC,
+  age_factor NUMERIC
+) AS $$
+  WITH target AS (
+    SELECT p.*, COALESCE(p.unit_price, p.price / GREATEST(p.quantity, 1)) AS compared_price
+    FROM prices p
+    WHERE p.id = ANY(p_price_ids)
+  ),
+  price_votes AS (
+    SELECT
+      v.target_id,
+      COUNT(*) FILTER (WHERE v.vote_type = 'up')::INT AS upvotes,
+      COUNT(*) FILTER (WHERE v.vote_type = 'down')::INT AS downvotes
+    FROM votes v
+    WHERE v.target_type = 'price' AND v.target_id = ANY(p_price_ids)
+    GROUP BY v.target_id
+  ),
+  contributors AS (
+    SELECT
+      p.user_id,
+      COUNT(DISTINCT p.id) AS price_count,
+      COUNT(v.id) FILTER (WHERE v.vote_type = 'up') AS upvotes,
+      COUNT(v.id) FILTER (WHERE v.vote_type = 'down') AS downvotes
+    FROM prices p
+    LEFT JOIN votes v ON v.target_type = 'price' AND v.target_id = p.id
+    WHERE p.user_id IN (SELECT user_id FROM target)
+    GROUP BY p.user_id
+  ),
+  factors AS (
+    SELECT
+      t.id AS price_id,
+      COALESCE(pv.upvotes, 0) AS upvotes,
+      COALESCE(pv.downvotes, 0) AS downvotes,
+      (COALESCE(pv.upvotes, 0) + 1.0) / (COALESCE(pv.upvotes, 0) + COALESCE(pv.downvotes, 0) + 2) AS votes_factor,
+      CASE WHEN m.sample_count >= 3 AND m.median_price > 0
+        THEN GREATEST(0, 1 - power(ln(GREATEST(t.compared_price, 0.0001) / m.median_price) / ln(5), 2))
+        ELSE 1
+      END AS outlier_factor,
+      (LEAST(1, ln(1 + c.price_count) / ln(101)) + (c.upvotes + 1.0) / (c.upvotes + c.downvotes + 2)) / 2 AS reputation_factor,
+      CASE WHEN t.receipt_image_path IS NOT NULL THEN 1 ELSE 0 END AS receipt_factor,
+      power(0.5, GREATEST(0, EXTRACT(EPOCH FROM p_as_of - COALESCE(t.purchase_time, t.detected_at)) / 86400) / 30) AS age_factor
+    FROM target t
+    JOIN contributors c ON c.user_id = t.user_id
+    LEFT JOIN price_votes pv ON pv.target_id = t.id
+    CROSS JOIN LATERAL (
+      SELECT
+        COUNT(*) AS sample_count,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(o.unit_price, o.price / GREATEST(o.quantity, 1))) AS median_price
+      FROM prices o
+      WHERE o.product_id = t.product_id
+        AND o.id <> t.id
+        AND o.published
+        AND o.currency = t.currency
+        AND (o.unit_price IS NULL) = (t.unit_price IS NULL)
+        AND o.canonical_unit IS NOT DISTINCT FROM t.canonical_unit
+    ) m
+  )
+  SELECT
+    f.price_id,
+    ROUND((0.35 * f.votes_factor + 0.30 * f.outlier_factor + 0.15 * f.reputation_factor
+      + 0.10 * f.receipt_factor + 0.10 * f.age_factor)::NUMERIC, 4) AS score,
+    f.upvotes,
+    f.downvotes,
+    f.votes_factor::NUMERIC,
+    f.outlier_factor::NUMERIC,
+    f.reputation_factor::NUMERIC,
+    f.receipt_factor::NUMERIC,
+    f.age_factor::NUMERIC
+  FROM factors f;
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- ALERT TRIGGER (migration 028)
+-- Questionable prices raise no alerts.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION check_price_drop_alerts()
+RETURNS TRIGGER AS $$
+DECLARE
+  bookmark bookmarks%ROWTYPE;
+  prev_price DECIMAL(10,2);
+  window_low DECIMAL(10,2);
+  window_count INT;
+  v_store_name TEXT;
+  v_on_sale BOOLEAN;
+  v_trust NUMERIC;
+BEGIN
+  SELECT score INTO v_trust FROM price_trust(ARRAY[NEW.id], NEW.detected_at);
+  IF v_trust < 0.5 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO v_store_name FROM stores WHERE id = NEW.store_id;
+  v_on_sale := COALESCE(NEW.original_price > NEW.price, false)
+    OR EXISTS (SELECT 1 FROM unnest(COALESCE(NEW.tags, '{}'::TEXT[])) AS tag WHERE upper(tag) = 'SALE');
+
+  FOR bookmark IN
+    SELECT * FROM bookmarks b
+    WHERE b.product_id = NEW.product_id
+      AND b.notify_on_price_drop = true
+      AND (NEW.published OR NEW.user_id = b.user_id)
+      AND bookmark_covers_store(b, NEW.store_id)
+  LOOP
+    -- Previous lowest price at the stores this bookmark watches
+    SELECT MIN(p.price) INTO prev_price
+    FROM prices p
+    WHERE p.product_id = NEW.product_id AND p.id != NEW.id
+      AND price_visible_to(p, bookmark.user_id)
+      AND bookmark_covers_store(bookmark, p.store_id);
+
+    IF prev_price IS NOT NULL AND NEW.price < prev_price
+      AND (bookmark.min_drop_percent IS NULL OR (prev_price - NEW.price) / prev_price * 100 >= bookmark.min_drop_percent) THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'price_drop', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_price IS NOT NULL AND NEW.price <= bookmark.target_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'target_reached', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_unit_price IS NOT NULL AND NEW.unit_price IS NOT NULL
+      AND NEW.unit_price <= bookmark.target_unit_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'unit_price_target', prev_price, NEW.price, v_store_name);
+    END IF;
+
+    IF bookmark.notify_on_sale AND v_on_sale THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'on_sale', NEW.original_price, NEW.price, v_store_name);
+    END IF;
+
+    -- Needs at least one earlier price in the window to compare with
+    IF bookmark.lowest_in_days IS NOT NULL THEN
+      SELECT MIN(p.price), COUNT(*) INTO window_low, window_count
+      FROM prices p
+      WHERE p.product_id = NEW.product_id AND p.id != NEW.id
+        AND p.detected_at >= NOW() - make_interval(days => bookmark.lowest_in_days)
+        AND price_visible_to(p, bookmark.user_id)
+        AND bookmark_covers_store(bookmark, p.store_id);
+
+      IF window_count > 0 AND NEW.price < window_low THEN
+        INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+        VALUES (bookmark.user_id, bookmark.id, NEW.product_id, NEW.id, 'lowest_in_days', window_low, NEW.price, v_store_name);
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Price trust scores created.' as status;
@@ -0,0 +1,331 @@
+-- 030: PRICE REVIEWS
+-- An anomaly detector (prices/anomalies.ts) screens every price about to be
+-- published against robust statistics: the median and median absolute
+-- deviation of the product's other published prices, and of the
+-- contributor's own history. Prices far off either, and every price from a
+-- contributor with a record of rejected prices, are stored unpublished with
+-- review_status 'pending' instead. An admin confirms (publishes) or rejects
+-- them; bookmark alerts wait until a price is confirmed.
+
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS review_status TEXT
+  CHECK (review_status IN ('pending', 'confirmed', 'rejected'));
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS review_reasons TEXT[];
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES auth.users(id);
+ALTER TABLE prices ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS prices_pending_review_idx ON prices(detected_at)
+  WHERE review_status = 'pending';
+CREATE INDEX IF NOT EXISTS prices_user_review_idx ON prices(user_id, review_status)
+  WHERE review_status IS NOT NULL;
+
+-- ─────────────────────────────────────────────────────────────
+-- ROBUST STATISTICS
+-- Prices comparable with one being checked: same product and currency, unit
+-- prices in p_canonical_unit (package prices when NULL). Everyone else's
+-- published prices, or with p_own the user's own prices except rejected ones.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_robust_stats(
+  p_product_id UUID,
+  p_currency TEXT,
+  p_canonical_unit TEXT,
+  p_user_id UUID,
+  p_own BOOLEAN
+)
+RETURNS TABLE (sample_count INT, median NUMERIC, mad NUMERIC) AS $$
+  WITH sample AS (
+    SELECT CASE WHEN p_canonical_unit IS NULL THEN p.price / GREATEST(p.quantity, 1) ELSE p.unit_price END AS value
+    FROM prices p
+    WHERE p.product_id = p_product_id
+      AND p.currency = p_currency
+      AND CASE WHEN p_canonical_unit IS NULL
+        THEN p.unit_price IS NULL
+        ELSE p.unit_price IS NOT NULL AND p.canonical_unit = p_canonical_unit
+      END
+      AND CASE WHEN p_own
+        THEN p.user_id = p_user_id AND p.review_status IS DISTINCT FROM 'rejected'
+        ELSE p.user_id <> p_user_id AND p.published
+      END
+  ),
+  middle AS (
+    SELECT COUNT(*)::INT AS sample_count, percentile_cont(0.5) WITHIN GROUP (ORDER BY value) AS median
+    FROM sample
+  )
+  SELECT
+    m.sample_count,
+    m.median::NUMERIC,
+    (SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY abs(s.value - m.median)) FROM sample s)::NUMERIC AS mad
+  FROM middle m;
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- TRUST SCORES (migration 029)
+-- A reviewer confirmed price is not an outlier, however unusual it is.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION price_trust(p_price_ids UUID[], p_as_of TIMESTAMPTZ DEFAULT NOW())
+RETURNS TABLE (
+  price_id UUID,
+  score NUMERIC,
+  upvotes INT,
+  downvotes INT,
+  votes_factor NUMERIC,
+  outlier_factor NUMERIC,
+  reputation_factor NUMERIC,
+  receipt_factor NUMERIC,
+  age_factor NUMERIC
+) AS $$
+  WITH target AS (
+    SELECT p.*, COALESCE(p.unit_price, p.price / GREATEST(p.quantity, 1)) AS compared_price
+    FROM prices p
+    WHERE p.id = ANY(p_price_ids)
+  ),
+  price_votes AS (
+    SELECT
+      v.target_id,
+      COUNT(*) FILTER (WHERE v.vote_type = 'up')::INT AS upvotes,
+      COUNT(*) FILTER (WHERE v.vote_type = 'down')::INT AS downvotes
+    FROM votes v
+    WHERE v.target_type = 'price' AND v.target_id = ANY(p_price_ids)
+    GROUP BY v.target_id
+  ),
+  contributors AS (
+    SELECT
+      p.user_id,
+      COUNT(DISTINCT p.id) AS price_count,
+      COUNT(v.id) FILTER (WHERE v.vote_type = 'up') AS upvotes,
+      COUNT(v.id) FILTER (WHERE v.vote_type = 'down') AS downvotes
+    FROM prices p
+    LEFT JOIN votes v ON v.target_type = 'price' AND v.target_id = p.id
+    WHERE p.user_id IN (SELECT user_id FROM target)
+    GROUP BY p.user_id
+  ),
+  factors AS (
+    SELECT
+      t.id AS price_id,
+      COALESCE(pv.upvotes, 0) AS upvotes,
+      COALESCE(pv.downvotes, 0) AS downvotes,
+      (COALESCE(pv.upvotes, 0) + 1.0) / (COALESCE(pv.upvotes, 0) + COALESCE(pv.downvotes, 0) + 2) AS votes_factor,
+      CASE WHEN m.sample_count >= 3 AND m.median_price > 0 AND t.review_status IS DISTINCT FROM 'confirmed'
+        THEN GREATEST(0, 1 - power(ln(GREATEST(t.compared_price, 0.0001) / m.median_price) / ln(5), 2))
+        ELSE 1
+      END AS outlier_factor,
+      (LEAST(1, ln(1 + c.price_count) / ln(101)) + (c.upvotes + 1.0) / (c.upvotes + c.downvotes + 2)) / 2 AS reputation_factor,
+      CASE WHEN t.receipt_image_path IS NOT NULL THEN 1 ELSE 0 END AS receipt_factor,
+      power(0.5, GREATEST(0, EXTRACT(EPOCH FROM p_as_of - COALESCE(t.purchase_time, t.detected_at)) / 86400) / 30) AS age_factor
+    FROM target t
+    JOIN contributors c ON c.user_id = t.user_id
+    LEFT JOIN price_votes pv ON pv.target_id = t.id
+    CROSS JOIN LATERAL (
+      SELECT
+        COUNT(*) AS sample_count,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY COALESCE(o.unit_price, o.price / GREATEST(o.quantity, 1))) AS median_price
+      FROM prices o
+      WHERE o.product_id = t.product_id
+        AND o.id <> t.id
+        AND o.published
+        AND o.currency = t.currency
+        AND (o.unit_price IS NULL) = (t.unit_price IS NULL)
+        AND o.canonical_unit IS NOT DISTINCT FROM t.canonical_unit
+    ) m
+  )
+  SELECT
+    f.price_id,
+    ROUND((0.35 * f.votes_factor + 0.30 * f.outlier_factor + 0.15 * f.reputation_factor
+      + 0.10 * f.receipt_factor + 0.10 * f.age_factor)::NUMERIC, 4) AS score,
+    f.upvotes,
+    f.downvotes,
+    f.votes_factor::NUMERIC,
+    f.outlier_factor::NUMERIC,
+    f.reputation_factor::NUMERIC,
+    f.receipt_factor::NUMERIC,
+    f.age_factor::NUMERIC
+  FROM factors f;
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- RECEIPT SAVES (migration 028) store the review fields
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION save_receipt(p_receipt JSONB, p_prices JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_key TEXT := p_receipt->>'idempotency_key';
+  v_receipt receipts;
+  v_saved INT;
+BEGIN
+  IF v_key IS NOT NULL THEN
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    IF FOUND THEN
+      SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+      RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO receipts (
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash
+    )
+    SELECT
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash
+    FROM jsonb_populate_record(NULL::receipts, p_receipt)
+    RETURNING * INTO v_receipt;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent retry with the same key got there first
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+    RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+  END;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time, published,
+    review_status, review_reasons
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), v_receipt.id, receipt_image_path, purchase_time,
+    COALESCE(published, false), review_status, review_reasons
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', false);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION complete_draft(p_receipt_id UUID, p_user_id UUID, p_version INT, p_prices JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_receipt receipts;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts
+  WHERE id = p_receipt_id AND user_id = p_user_id AND NOT is_deleted
+  FOR UPDATE;
+
+  IF NOT FOUND THEN RETURN 'not_found'; END IF;
+  IF v_receipt.status = 'complete' THEN RETURN 'already_complete'; END IF;
+  IF v_receipt.draft_version <> p_version THEN RETURN 'stale'; END IF;
+
+  -- Prices left behind by a completion that failed halfway before migration 027
+  DELETE FROM prices WHERE receipt_id = p_receipt_id;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time, published,
+    review_status, review_reasons
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), p_receipt_id, receipt_image_path, purchase_time,
+    COALESCE(published, false), review_status, review_reasons
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+
+  UPDATE receipts SET status = 'complete', items_snapshot = NULL WHERE id = p_receipt_id;
+  RETURN 'completed';
+END;
+$$ LANGUAGE plpgsql;
+
+-- ─────────────────────────────────────────────────────────────
+-- PRICE ALERTS
+-- The bookmark rules of the alert trigger (migration 029), callable on their
+-- own so a confirmed price raises the alerts it was held back from.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION create_price_alerts(p_price_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_price prices%ROWTYPE;
+  bookmark bookmarks%ROWTYPE;
+  prev_price DECIMAL(10,2);
+  window_low DECIMAL(10,2);
+  window_count INT;
+  v_store_name TEXT;
+  v_on_sale BOOLEAN;
+BEGIN
+  SELECT * INTO v_price FROM prices WHERE id = p_price_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT name INTO v_store_name FROM stores WHERE id = v_price.store_id;
+  v_on_sale := COALESCE(v_price.original_price > v_price.price, false)
+    OR EXISTS (SELECT 1 FROM unnest(COALESCE(v_price.tags, '{}'::TEXT[])) AS tag WHERE upper(tag) = 'SALE');
+
+  FOR bookmark IN
+    SELECT * FROM bookmarks b
+    WHERE b.product_id = v_price.product_id
+      AND b.notify_on_price_drop = true
+      AND (v_price.published OR v_price.user_id = b.user_id)
+      AND bookmark_covers_store(b, v_price.store_id)
+  LOOP
+    -- Previous lowest price at the stores this bookmark watches
+    SELECT MIN(p.price) INTO prev_price
+    FROM prices p
+    WHERE p.product_id = v_price.product_id AND p.id != v_price.id
+      AND price_visible_to(p, bookmark.user_id)
+      AND bookmark_covers_store(bookmark, p.store_id);
+
+    IF prev_price IS NOT NULL AND v_price.price < prev_price
+      AND (bookmark.min_drop_percent IS NULL OR (prev_price - v_price.price) / prev_price * 100 >= bookmark.min_drop_percent) THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'price_drop', prev_price, v_price.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_price IS NOT NULL AND v_price.price <= bookmark.target_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'target_reached', prev_price, v_price.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_unit_price IS NOT NULL AND v_price.unit_price IS NOT NULL
+      AND v_price.unit_price <= bookmark.target_unit_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'unit_price_target', prev_price, v_price.price, v_store_name);
+    END IF;
+
+    IF bookmark.notify_on_sale AND v_on_sale THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'on_sale', v_price.original_price, v_price.price, v_store_name);
+    END IF;
+
+    -- Needs at least one earlier price in the window to compare with
+    IF bookmark.lowest_in_days IS NOT NULL THEN
+      SELECT MIN(p.price), COUNT(*) INTO window_low, window_count
+      FROM prices p
+      WHERE p.product_id = v_price.product_id AND p.id != v_price.id
+        AND p.detected_at >= NOW() - make_interval(days => bookmark.lowest_in_days)
+        AND price_visible_to(p, bookmark.user_id)
+        AND bookmark_covers_store(bookmark, p.store_id);
+
+      IF window_count > 0 AND v_price.price < window_low THEN
+        INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+        VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'lowest_in_days', window_low, v_price.price, v_store_name);
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ─────────────────────────────────────────────────────────────
+-- ALERT TRIGGER (migration 029)
+-- Prices waiting for review and questionable prices raise no alerts.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION check_price_drop_alerts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_trust NUMERIC;
+BEGIN
+  IF NEW.review_status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT score INTO v_trust FROM price_trust(ARRAY[NEW.id], NEW.detected_at);
+  IF v_trust < 0.5 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM create_price_alerts(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Price reviews created.' as status;
@@ -0,0 +1,107 @@
+-- 031: MODERATION
+-- Users report discussions, prices and stores; moderators (JWT role
+-- 'moderator' or 'admin') work through the reported content and hide,
+-- restore or dismiss it. Every moderator action is logged. Hidden means:
+--   discussion  is_hidden, left out of every listing
+--   price       unpublished and review_status 'rejected' (migration 030)
+--   store       is_deleted (migration 006)
+-- A discussion with 3 open reports is hidden until a moderator decides
+-- (hidden_by NULL). Deleting a store now takes its creator or a moderator;
+-- the API checks stores.created_by.
+
+-- ─────────────────────────────────────────────────────────────
+-- HIDDEN DISCUSSIONS
+-- ─────────────────────────────────────────────────────────────
+ALTER TABLE discussions ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE discussions ADD COLUMN IF NOT EXISTS hidden_by UUID REFERENCES auth.users(id);
+ALTER TABLE discussions ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMPTZ;
+
+DROP POLICY IF EXISTS "Discussions are viewable by everyone" ON discussions;
+DROP POLICY IF EXISTS "Visible discussions are viewable by everyone" ON discussions;
+CREATE POLICY "Visible discussions are viewable by everyone" ON discussions
+  FOR SELECT USING (NOT is_hidden);
+
+-- Authors cannot unhide their own discussions
+DROP POLICY IF EXISTS "Users can update their own discussions" ON discussions;
+CREATE POLICY "Users can update their own discussions" ON discussions
+  FOR UPDATE USING (auth.uid() = user_id AND NOT is_hidden) WITH CHECK (NOT is_hidden);
+
+-- ─────────────────────────────────────────────────────────────
+-- REPORTS
+-- One open report per reporter and target
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS content_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (target_type IN ('discussion', 'price', 'store')),
+  target_id UUID NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'incorrect', 'duplicate', 'other')),
+  details TEXT CHECK (length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS content_reports_open_idx ON content_reports(reporter_id, target_type, target_id)
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS content_reports_target_idx ON content_reports(target_type, target_id)
+  WHERE status = 'open';
+
+ALTER TABLE content_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own reports" ON content_reports;
+CREATE POLICY "Users can view their own reports" ON content_reports
+  FOR SELECT USING (auth.uid() = reporter_id);
+
+DROP POLICY IF EXISTS "Users can create reports" ON content_reports;
+CREATE POLICY "Users can create reports" ON content_reports
+  FOR INSERT WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+-- ─────────────────────────────────────────────────────────────
+-- MODERATION LOG
+-- Only the API (service role) reads and writes it
+-- ─────────────────────────────────────────────────────────────
+CREATE TABLE IF NOT EXISTS moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  moderator_id UUID NOT NULL REFERENCES auth.users(id),
+  target_type TEXT NOT NULL CHECK (target_type IN ('discussion', 'price', 'store')),
+  target_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'restore', 'dismiss')),
+  note TEXT CHECK (length(note) <= 500),
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS moderation_actions_target_idx ON moderation_actions(target_type, target_id, created_at DESC);
+
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+-- ─────────────────────────────────────────────────────────────
+-- MODERATION QUEUE
+-- Targets with open reports, most reported first, then longest waiting
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION moderation_queue(p_target_type TEXT DEFAULT NULL, p_limit INT DEFAULT 50)
+RETURNS TABLE (
+  target_type TEXT,
+  target_id UUID,
+  report_count INT,
+  reasons TEXT[],
+  first_reported_at TIMESTAMPTZ,
+  last_reported_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    r.target_type,
+    r.target_id,
+    COUNT(*)::INT AS report_count,
+    array_agg(DISTINCT r.reason ORDER BY r.reason) AS reasons,
+    MIN(r.created_at) AS first_reported_at,
+    MAX(r.created_at) AS last_reported_at
+  FROM content_reports r
+  WHERE r.status = 'open'
+    AND (p_target_type IS NULL OR r.target_type = p_target_type)
+  GROUP BY r.target_type, r.target_id
+  ORDER BY COUNT(*) DESC, MIN(r.created_at) ASC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+SELECT 'Migration complete! Moderation created.' as status;
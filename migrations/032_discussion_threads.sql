@@ -0,0 +1,36 @@
+-- 032: DISCUSSION THREADS
+-- Discussions are listed as reply trees (parent_id, migration 002), sorted
+-- newest first or by vote score. Authors edit their discussions (updated_at
+-- moves on); deleting one, by its author or a moderator, leaves a tombstone
+-- so the replies below it keep their place. Tombstones without replies are
+-- left out of listings.
+
+ALTER TABLE discussions ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE discussions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Threads load every discussion on a target at once
+CREATE INDEX IF NOT EXISTS discussions_target_created_idx ON discussions(target_type, target_id, created_at);
+
+-- Rows are tombstoned, never removed, so replies are not cascaded away
+DROP POLICY IF EXISTS "Users can delete their own discussions" ON discussions;
+
+DROP POLICY IF EXISTS "Visible discussions are viewable by everyone" ON discussions;
+CREATE POLICY "Visible discussions are viewable by everyone" ON discussions
+  FOR SELECT USING (NOT is_hidden AND NOT is_deleted);
+
+-- ─────────────────────────────────────────────────────────────
+-- VOTE COUNTS (migration 002) for many targets at once
+-- One row per target with any votes
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION get_vote_counts(p_target_type TEXT, p_target_ids UUID[])
+RETURNS TABLE(target_id UUID, upvotes BIGINT, downvotes BIGINT) AS $$
+  SELECT
+    v.target_id,
+    COUNT(*) FILTER (WHERE v.vote_type = 'up') AS upvotes,
+    COUNT(*) FILTER (WHERE v.vote_type = 'down') AS downvotes
+  FROM votes v
+  WHERE v.target_type = p_target_type AND v.target_id = ANY(p_target_ids)
+  GROUP BY v.target_id;
+$$ LANGUAGE sql STABLE;
+
+SELECT 'Migration complete! Discussion threads created.' as status;
@@ -0,0 +1,63 @@
+-- 034: DRAFT RECEIPT VISIBILITY
+-- A draft saved with `published` keeps it until completion, so completing
+-- it no longer falls back to the sharing preference (migration 028). NULL
+-- still means the preference, read when the draft is completed. The API
+-- passes the value to complete_draft with the prices, so only save_receipt
+-- changes.
+
+ALTER TABLE receipts ADD COLUMN IF NOT EXISTS publish_prices BOOLEAN;
+
+-- ─────────────────────────────────────────────────────────────
+-- SAVE: as in 030, plus publish_prices
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION save_receipt(p_receipt JSONB, p_prices JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_key TEXT := p_receipt->>'idempotency_key';
+  v_receipt receipts;
+  v_saved INT;
+BEGIN
+  IF v_key IS NOT NULL THEN
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    IF FOUND THEN
+      SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+      RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO receipts (
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash, publish_prices
+    )
+    SELECT
+      user_id, store_id, total_price, store_location, receipt_date, receipt_time,
+      currency, status, image_path, items_snapshot, idempotency_key, idempotency_hash, publish_prices
+    FROM jsonb_populate_record(NULL::receipts, p_receipt)
+    RETURNING * INTO v_receipt;
+  EXCEPTION WHEN unique_violation THEN
+    -- A concurrent retry with the same key got there first
+    SELECT * INTO v_receipt FROM receipts
+    WHERE user_id = (p_receipt->>'user_id')::uuid AND idempotency_key = v_key;
+    SELECT count(*) INTO v_saved FROM prices WHERE receipt_id = v_receipt.id;
+    RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', true);
+  END;
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time, published,
+    review_status, review_reasons
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), v_receipt.id, receipt_image_path, purchase_time,
+    COALESCE(published, false), review_status, review_reasons
+  FROM jsonb_populate_recordset(NULL::prices, p_prices);
+  GET DIAGNOSTICS v_saved = ROW_COUNT;
+
+  RETURN jsonb_build_object('receipt', to_jsonb(v_receipt), 'saved', v_saved, 'replayed', false);
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Drafts keep their price visibility.' as status;
@@ -0,0 +1,10 @@
+-- 035: RESTORING HIDDEN PRICES
+-- Hiding a price (migration 031) unpublishes and rejects it. Restoring used to
+-- publish and confirm it whatever it was before, sharing prices their owner
+-- kept private and skipping reviews still pending. A price hide now logs how
+-- the price was, and restoring puts that back. Prices rejected in review have
+-- nothing logged; restoring them only clears the rejection.
+
+ALTER TABLE moderation_actions ADD COLUMN IF NOT EXISTS previous_state JSONB;
+
+SELECT 'Migration complete! Hidden prices restore their previous state.' as status;
@@ -0,0 +1,86 @@
+-- 036: ALERTS FOR PRICES PUBLISHED LATER
+-- A price saved private only alerted its owner's bookmarks. Publishing it
+-- afterwards now runs create_price_alerts for everyone else; bookmarks that
+-- were already alerted about the price are skipped, so the owner hears
+-- about it once.
+
+-- ─────────────────────────────────────────────────────────────
+-- PRICE ALERTS: as in 030, once per bookmark and price
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION create_price_alerts(p_price_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_price prices%ROWTYPE;
+  bookmark bookmarks%ROWTYPE;
+  prev_price DECIMAL(10,2);
+  window_low DECIMAL(10,2);
+  window_count INT;
+  v_store_name TEXT;
+  v_on_sale BOOLEAN;
+BEGIN
+  SELECT * INTO v_price FROM prices WHERE id = p_price_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT name INTO v_store_name FROM stores WHERE id = v_price.store_id;
+  v_on_sale := COALESCE(v_price.original_price > v_price.price, false)
+    OR EXISTS (SELECT 1 FROM unnest(COALESCE(v_price.tags, '{}'::TEXT[])) AS tag WHERE upper(tag) = 'SALE');
+
+  FOR bookmark IN
+    SELECT * FROM bookmarks b
+    WHERE b.product_id = v_price.product_id
+      AND b.notify_on_price_drop = true
+      AND (v_price.published OR v_price.user_id = b.user_id)
+      AND bookmark_covers_store(b, v_price.store_id)
+      -- Its owner's bookmarks heard about it while it was private
+      AND NOT EXISTS (SELECT 1 FROM price_alerts a WHERE a.bookmark_id = b.id AND a.price_id = v_price.id)
+  LOOP
+    -- Previous lowest price at the stores this bookmark watches
+    SELECT MIN(p.price) INTO prev_price
+    FROM prices p
+    WHERE p.product_id = v_price.product_id AND p.id != v_price.id
+      AND price_visible_to(p, bookmark.user_id)
+      AND bookmark_covers_store(bookmark, p.store_id);
+
+    IF prev_price IS NOT NULL AND v_price.price < prev_price
+      AND (bookmark.min_drop_percent IS NULL OR (prev_price - v_price.price) / prev_price * 100 >= bookmark.min_drop_percent) THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'price_drop', prev_price, v_price.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_price IS NOT NULL AND v_price.price <= bookmark.target_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'target_reached', prev_price, v_price.price, v_store_name);
+    END IF;
+
+    IF bookmark.target_unit_price IS NOT NULL AND v_price.unit_price IS NOT NULL
+      AND v_price.unit_price <= bookmark.target_unit_price THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'unit_price_target', prev_price, v_price.price, v_store_name);
+    END IF;
+
+    IF bookmark.notify_on_sale AND v_on_sale THEN
+      INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+      VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'on_sale', v_price.original_price, v_price.price, v_store_name);
+    END IF;
+
+    -- Needs at least one earlier price in the window to compare with
+    IF bookmark.lowest_in_days IS NOT NULL THEN
+      SELECT MIN(p.price), COUNT(*) INTO window_low, window_count
+      FROM prices p
+      WHERE p.product_id = v_price.product_id AND p.id != v_price.id
+        AND p.detected_at >= NOW() - make_interval(days => bookmark.lowest_in_days)
+        AND price_visible_to(p, bookmark.user_id)
+        AND bookmark_covers_store(bookmark, p.store_id);
+
+      IF window_count > 0 AND v_price.price < window_low THEN
+        INSERT INTO price_alerts (user_id, bookmark_id, product_id, price_id, alert_type, old_price, new_price, store_name)
+        VALUES (bookmark.user_id, bookmark.id, v_price.product_id, v_price.id, 'lowest_in_days', window_low, v_price.price, v_store_name);
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Published prices raise alerts.' as status;
@@ -0,0 +1,128 @@
+-- 037: ATOMIC RECEIPT EDITS
+-- Editing a complete receipt (migration 025) was a string of calls: update
+-- the header, then each changed prices row, delete the removed rows, insert
+-- the added ones and finally store the revision. A failure in between left
+-- the header and line items out of step, with no revision describing either.
+-- The whole edit, revisions included, now runs as one function call.
+
+-- ─────────────────────────────────────────────────────────────
+-- APPLY AN EDIT
+-- p_header:  the receipt's new store_id, total_price, store_location,
+--            receipt_date, receipt_time and currency
+-- p_updates: [{ id, patch }], the changed columns of each kept prices row
+-- p_deletes: prices rows no longer on the receipt
+-- p_inserts: new prices rows, as in save_receipt
+-- p_original: the receipt before the edit, stored as version 1 by its first edit
+-- Returns the new revision; its snapshot is read back from the stored rows.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION apply_receipt_edit(
+  p_receipt_id UUID,
+  p_header JSONB,
+  p_updates JSONB,
+  p_deletes UUID[],
+  p_inserts JSONB,
+  p_original JSONB,
+  p_user_id UUID,
+  p_action TEXT,
+  p_reverted_to INT
+)
+RETURNS receipt_revisions AS $$
+DECLARE
+  v_receipt receipts;
+  v_update JSONB;
+  v_price prices;
+  v_snapshot JSONB;
+  v_revision receipt_revisions;
+BEGIN
+  SELECT * INTO v_receipt FROM receipts WHERE id = p_receipt_id AND NOT is_deleted FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Receipt % not found', p_receipt_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM receipt_revisions WHERE receipt_id = p_receipt_id) THEN
+    INSERT INTO receipt_revisions (receipt_id, version, user_id, action, reverted_to, snapshot)
+    VALUES (p_receipt_id, 1, v_receipt.user_id, 'original', NULL, p_original);
+  END IF;
+
+  UPDATE receipts r SET
+    store_id = h.store_id,
+    total_price = h.total_price,
+    store_location = h.store_location,
+    receipt_date = h.receipt_date,
+    receipt_time = h.receipt_time,
+    currency = h.currency
+  FROM jsonb_populate_record(NULL::receipts, p_header) h
+  WHERE r.id = p_receipt_id
+  RETURNING r.* INTO v_receipt;
+
+  -- Columns missing from a patch keep their value
+  FOR v_update IN SELECT * FROM jsonb_array_elements(p_updates) LOOP
+    SELECT * INTO v_price FROM prices WHERE id = (v_update->>'id')::uuid AND receipt_id = p_receipt_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Price % is not on receipt %', v_update->>'id', p_receipt_id;
+    END IF;
+    v_price := jsonb_populate_record(v_price, v_update->'patch');
+    UPDATE prices SET
+      product_id = v_price.product_id,
+      store_id = v_price.store_id,
+      price = v_price.price,
+      quantity = v_price.quantity,
+      weight = v_price.weight,
+      unit_price = v_price.unit_price,
+      canonical_quantity = v_price.canonical_quantity,
+      canonical_unit = v_price.canonical_unit,
+      original_price = v_price.original_price,
+      tags = v_price.tags,
+      currency = v_price.currency,
+      purchase_time = v_price.purchase_time,
+      published = v_price.published,
+      review_status = v_price.review_status,
+      review_reasons = v_price.review_reasons
+    WHERE id = v_price.id;
+  END LOOP;
+
+  DELETE FROM prices WHERE receipt_id = p_receipt_id AND id = ANY(p_deletes);
+
+  INSERT INTO prices (
+    product_id, store_id, user_id, price, quantity, weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, currency, receipt_id, receipt_image_path, purchase_time, published,
+    review_status, review_reasons
+  )
+  SELECT
+    product_id, store_id, user_id, price, COALESCE(quantity, 1), weight, unit_price, canonical_quantity,
+    canonical_unit, original_price, tags, COALESCE(currency, 'USD'), p_receipt_id, receipt_image_path, purchase_time,
+    COALESCE(published, false), review_status, review_reasons
+  FROM jsonb_populate_recordset(NULL::prices, p_inserts);
+
+  -- The receipt as it is now, line items oldest first
+  SELECT jsonb_build_object(
+    'store_id', v_receipt.store_id,
+    'total_price', v_receipt.total_price,
+    'store_location', v_receipt.store_location,
+    'receipt_date', v_receipt.receipt_date,
+    'receipt_time', v_receipt.receipt_time,
+    'currency', v_receipt.currency,
+    'items', COALESCE(jsonb_agg(jsonb_build_object(
+      'priceId', p.id,
+      'productId', p.product_id,
+      'price', p.price,
+      'quantity', p.quantity,
+      'weight', p.weight,
+      'unitPrice', p.unit_price,
+      'originalPrice', p.original_price,
+      'tags', to_jsonb(p.tags)
+    ) ORDER BY p.detected_at, p.id) FILTER (WHERE p.id IS NOT NULL), '[]'::jsonb)
+  ) INTO v_snapshot
+  FROM (SELECT 1) AS one
+  LEFT JOIN prices p ON p.receipt_id = p_receipt_id;
+
+  INSERT INTO receipt_revisions (receipt_id, version, user_id, action, reverted_to, snapshot)
+  SELECT p_receipt_id, COALESCE(MAX(version), 0) + 1, p_user_id, p_action, p_reverted_to, v_snapshot
+  FROM receipt_revisions WHERE receipt_id = p_receipt_id
+  RETURNING * INTO v_revision;
+
+  RETURN v_revision;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT 'Migration complete! Receipt edits are atomic.' as status;
@@ -0,0 +1,73 @@
+-- 038: DISCUSSION THREAD PAGES
+-- Thread listings (migration 032) loaded every discussion on the target and
+-- paged the top-level ones in the API. The page is now picked in the
+-- database, and only the replies below it are loaded.
+
+-- ─────────────────────────────────────────────────────────────
+-- TOP-LEVEL DISCUSSIONS ON A TARGET
+-- p_sort: 'newest', or 'top' for vote score with newest first on ties
+-- Hidden and deleted discussions count while live replies remain below them;
+-- replies whose parent is not on the target count as top-level.
+-- Returns { rows, count }, count being every thread on the target.
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION discussion_threads(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_sort TEXT,
+  p_offset INT,
+  p_limit INT
+)
+RETURNS JSONB AS $$
+  WITH RECURSIVE on_target AS (
+    SELECT * FROM discussions WHERE target_type = p_target_type AND target_id = p_target_id
+  ),
+  threads AS (
+    SELECT d.* FROM on_target d
+    WHERE d.parent_id IS NULL OR NOT EXISTS (SELECT 1 FROM on_target p WHERE p.id = d.parent_id)
+  ),
+  tree AS (
+    SELECT t.id AS thread_id, t.id, NOT (t.is_hidden OR t.is_deleted) AS live FROM threads t
+    UNION ALL
+    SELECT tree.thread_id, d.id, NOT (d.is_hidden OR d.is_deleted)
+    FROM tree JOIN on_target d ON d.parent_id = tree.id
+  ),
+  ranked AS (
+    SELECT
+      t.*,
+      ROW_NUMBER() OVER (
+        ORDER BY CASE WHEN p_sort = 'top' THEN COALESCE(s.score, 0) ELSE 0 END DESC, t.created_at DESC, t.id
+      ) AS position
+    FROM threads t
+    LEFT JOIN (
+      SELECT v.target_id, SUM(CASE WHEN v.vote_type = 'up' THEN 1 ELSE -1 END) AS score
+      FROM votes v
+      WHERE v.target_type = 'discussion' AND v.target_id IN (SELECT id FROM threads)
+      GROUP BY v.target_id
+    ) s ON s.target_id = t.id
+    WHERE EXISTS (SELECT 1 FROM tree WHERE tree.thread_id = t.id AND tree.live)
+  )
+  SELECT jsonb_build_object(
+    'rows', COALESCE((
+      SELECT jsonb_agg(to_jsonb(r) - 'position' ORDER BY r.position)
+      FROM ranked r
+      WHERE r.position > p_offset AND r.position <= p_offset + p_limit
+    ), '[]'::jsonb),
+    'count', (SELECT COUNT(*) FROM ranked)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- ─────────────────────────────────────────────────────────────
+-- EVERY DISCUSSION BELOW THE GIVEN ONES, oldest first
+-- Hidden and deleted ones included, so their replies keep their place
+-- ─────────────────────────────────────────────────────────────
+CREATE OR REPLACE FUNCTION discussion_replies(p_parent_ids UUID[])
+RETURNS SETOF discussions AS $$
+  WITH RECURSIVE below AS (
+    SELECT d.* FROM discussions d WHERE d.parent_id = ANY(p_parent_ids)
+    UNION ALL
+    SELECT d.* FROM discussions d JOIN below b ON d.parent_id = b.id
+  )
+  SELECT * FROM below ORDER BY created_at;
+$$ LANGUAGE sql STABLE;
+
+SELECT 'Migration complete! Discussion threads are paged in the database.' as status;
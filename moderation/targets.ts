@@ -0,0 +1,94 @@
+import { TRPCError, isModerator } from "../trpc";
+import type { Repository } from "../repositories/types";
+import type { Discussion, HiddenPriceState, ModerationTargetType, Price, Store } from "../supabase";
+
+/**
+ * Reportable content. What hiding means differs per type: a discussion is
+ * flagged hidden, a price is unpublished and rejected (so its owner cannot
+ * publish it again), and a store is deleted.
+ */
+export type ModerationTarget =
+  | { type: "discussion"; ownerId: string; hidden: boolean; content: Discussion }
+  | { type: "price"; ownerId: string; hidden: boolean; content: Price }
+  | { type: "store"; ownerId: string | null; hidden: boolean; content: Store };
+
+export async function findTarget(
+  db: Repository,
+  type: ModerationTargetType,
+  id: string
+): Promise<ModerationTarget | null> {
+  if (type === "discussion") {
+    const discussion = await db.discussions.getById(id);
+    return discussion && { type, ownerId: discussion.user_id, hidden: discussion.is_hidden, content: discussion };
+  }
+  if (type === "price") {
+    const price = await db.prices.findById(id);
+    return price && { type, ownerId: price.user_id, hidden: price.review_status === "rejected", content: price };
+  }
+  const store = await db.stores.findWithDeleted(id);
+  return store && { type, ownerId: store.created_by ?? null, hidden: !!store.is_deleted, content: store };
+}
+
+/** Content the user (null: anonymous) can see, and so report or vote on; NOT_FOUND otherwise */
+export async function requireVisibleTarget(
+  db: Repository,
+  type: ModerationTargetType,
+  id: string,
+  userId: string | null
+): Promise<ModerationTarget> {
+  const target = await findTarget(db, type, id);
+  const visible =
+    target &&
+    !target.hidden &&
+    (target.type !== "price" || target.content.published || target.ownerId === userId) &&
+    (target.type !== "discussion" || !target.content.is_deleted);
+  if (!target || !visible) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `${type[0].toUpperCase()}${type.slice(1)} not found` });
+  }
+  return target;
+}
+
+/** FORBIDDEN unless the user created the content or is a moderator */
+export function assertOwnerOrModerator(user: { userId: string; role?: string }, ownerId: string | null, message: string) {
+  if (ownerId !== user.userId && !isModerator(user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message });
+  }
+}
+
+// How the price was before the hide still in force, as logged with it
+async function stateBeforeHide(db: Repository, priceId: string): Promise<HiddenPriceState | null> {
+  const last = (await db.moderation.listActions("price", priceId)).find((a) => a.action !== "dismiss");
+  return last?.action === "hide" ? last.previous_state ?? null : null;
+}
+
+/**
+ * `moderatorId` null: hidden automatically because of reports (discussions only).
+ * Hiding a price returns how it was, to log with the action; restoring it puts
+ * that back. A price rejected in review has none logged, so it is only cleared
+ * of the rejection and stays unpublished.
+ */
+export async function setTargetHidden(
+  db: Repository,
+  target: ModerationTarget,
+  hidden: boolean,
+  moderatorId: string | null
+): Promise<HiddenPriceState | null> {
+  const id = target.content.id;
+  if (target.type === "discussion") {
+    await db.discussions.setHidden(id, hidden, moderatorId);
+  } else if (target.type === "price") {
+    const previous = await stateBeforeHide(db, id);
+    if (hidden) {
+      const { published, review_status, review_reasons } = target.content;
+      await db.prices.update(id, { published: false, review_status: "rejected" });
+      // Hiding it again keeps the state from before the first hide
+      return target.hidden ? previous : { published, review_status, review_reasons };
+    }
+    await db.prices.update(id, previous ?? { review_status: null, review_reasons: null });
+  } else if (hidden) {
+    await db.stores.softDelete(id);
+  } else {
+    await db.stores.restore(id);
+  }
+  return null;
+}
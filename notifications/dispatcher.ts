@@ -0,0 +1,182 @@
+import type { NotificationDelivery, NotificationPreferences } from "../supabase";
+import type { PriceAlertWithProduct, Repository } from "../repositories/types";
+import { buildNotificationMessage } from "./message";
+import type { ChannelName, NotificationChannel } from "./types";
+
+export const DEFAULT_PREFERENCES: Omit<NotificationPreferences, "user_id" | "updated_at"> = {
+  delivery_mode: "instant",
+  digest_time: "08:00",
+  timezone: "UTC",
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  last_digest_on: null,
+};
+
+export interface NotificationDispatcherOptions {
+  db: Repository;
+  channels: NotificationChannel[];
+  /** How often new alerts and due retries are checked */
+  pollIntervalMs?: number;
+  /** Sends per delivery before it is marked failed */
+  maxAttempts?: number;
+  /** First retry delay; doubles with every failed attempt */
+  retryDelayMs?: number;
+  batchSize?: number;
+  /** Clock, replaceable in tests */
+  now?: () => Date;
+}
+
+export interface NotificationDispatcher {
+  /** Queue deliveries for waiting alerts and send everything due, once */
+  drain(): Promise<void>;
+  start(): void;
+  stop(): Promise<void>;
+}
+
+const minutes = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+
+/** Local date (YYYY-MM-DD) and minutes since midnight in `timeZone` */
+export function localTime(at: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(at)
+      .map((p) => [p.type, p.value])
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+}
+
+/** Quiet hours are [start, end) in local time and may wrap midnight, e.g. 22:00-07:00 */
+export function isQuietTime(preferences: Pick<NotificationPreferences, "quiet_hours_start" | "quiet_hours_end" | "timezone">, at: Date) {
+  const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+  if (!start || !end || start === end) return false;
+  const now = localTime(at, preferences.timezone).minutes;
+  return minutes(start) < minutes(end)
+    ? now >= minutes(start) && now < minutes(end)
+    : now >= minutes(start) || now < minutes(end);
+}
+
+/**
+ * Turns new price alerts into deliveries and sends them through the
+ * configured channels. Alerts wait (undispatched) through quiet hours and,
+ * for digest users, until the daily digest time. Failed sends are retried
+ * with exponential backoff.
+ */
+export function createNotificationDispatcher(options: NotificationDispatcherOptions): NotificationDispatcher {
+  const { db } = options;
+  const channels = new Map<ChannelName, NotificationChannel>(options.channels.map((c) => [c.name, c]));
+  const pollIntervalMs = options.pollIntervalMs ?? 30000;
+  const maxAttempts = options.maxAttempts ?? 5;
+  const retryDelayMs = options.retryDelayMs ?? 60000;
+  const batchSize = options.batchSize ?? 200;
+  const clock = options.now ?? (() => new Date());
+
+  let timer: NodeJS.Timeout | null = null;
+  let draining: Promise<void> | null = null;
+
+  async function queueUserAlerts(userId: string, alerts: PriceAlertWithProduct[], at: Date) {
+    const preferences = { ...DEFAULT_PREFERENCES, ...(await db.notifications.getPreferences(userId)) };
+    if (isQuietTime(preferences, at)) return;
+
+    const local = localTime(at, preferences.timezone);
+    const digest = preferences.delivery_mode === "digest";
+    if (digest) {
+      const due = local.minutes >= minutes(preferences.digest_time) && preferences.last_digest_on !== local.date;
+      if (!due) return;
+    }
+
+    // Channels without a configured transport are skipped rather than retried forever
+    const endpoints = (await db.notifications.listEndpoints(userId)).filter((e) => e.enabled && channels.has(e.channel));
+    const alertIds = alerts.map((a) => a.id);
+    await db.notifications.createDeliveries(
+      endpoints.map((endpoint) => ({
+        user_id: userId,
+        endpoint_id: endpoint.id,
+        channel: endpoint.channel,
+        kind: digest ? "digest" : "instant",
+        alert_ids: alertIds,
+        next_attempt_at: at.toISOString(),
+      }))
+    );
+    await db.alerts.markDispatched(alertIds);
+    if (digest) await db.notifications.upsertPreferences(userId, { last_digest_on: local.date });
+    if (endpoints.length > 0) {
+      console.log(`📨 Queued ${endpoints.length} ${digest ? "digest" : "instant"} notifications for ${alertIds.length} alerts`);
+    }
+  }
+
+  async function send(delivery: NotificationDelivery, at: Date) {
+    const attempts = delivery.attempts + 1;
+    try {
+      const endpoint = delivery.endpoint_id ? await db.notifications.getEndpoint(delivery.endpoint_id) : null;
+      if (!endpoint || !endpoint.enabled) throw new Error("Endpoint was removed or disabled");
+      const channel = channels.get(endpoint.channel);
+      if (!channel) throw new Error(`Channel "${endpoint.channel}" is not configured`);
+
+      const alerts = await db.alerts.findByIds(delivery.alert_ids);
+      await channel.send(endpoint, buildNotificationMessage(delivery.user_id, delivery.kind, alerts));
+      await db.notifications.updateDelivery(delivery.id, {
+        status: "sent",
+        attempts,
+        last_error: null,
+        sent_at: at.toISOString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = attempts >= maxAttempts;
+      await db.notifications.updateDelivery(delivery.id, {
+        status: failed ? "failed" : "pending",
+        attempts,
+        last_error: message,
+        next_attempt_at: new Date(at.getTime() + retryDelayMs * 2 ** (attempts - 1)).toISOString(),
+      });
+      console.error(`❌ Notification ${delivery.id} via ${delivery.channel} failed (attempt ${attempts}):`, message);
+    }
+  }
+
+  async function run() {
+    try {
+      const at = clock();
+      const alerts = await db.alerts.listUndispatched(batchSize);
+      const byUser = new Map<string, PriceAlertWithProduct[]>();
+      for (const alert of alerts) byUser.set(alert.user_id, [...(byUser.get(alert.user_id) || []), alert]);
+      for (const [userId, userAlerts] of byUser) {
+        await queueUserAlerts(userId, userAlerts, at);
+      }
+
+      for (const delivery of await db.notifications.listDueDeliveries(at.toISOString(), batchSize)) {
+        await send(delivery, at);
+      }
+    } catch (error) {
+      console.error("❌ Notification dispatcher error:", error);
+    }
+  }
+
+  const dispatcher: NotificationDispatcher = {
+    drain() {
+      if (!draining) draining = run().finally(() => { draining = null; });
+      return draining;
+    },
+
+    start() {
+      timer = setInterval(() => void dispatcher.drain(), pollIntervalMs);
+      timer.unref();
+      void dispatcher.drain();
+    },
+
+    async stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      await draining;
+    },
+  };
+
+  return dispatcher;
+}
@@ -0,0 +1,18 @@
+import { sendMail, type SmtpConfig } from "./smtp";
+import type { NotificationChannel } from "./types";
+
+/**
+ * Plain-text email through an SMTP relay; the endpoint address is the recipient.
+ */
+export function createEmailChannel(config: SmtpConfig): NotificationChannel {
+  return {
+    name: "email",
+    async send(endpoint, message) {
+      await sendMail(config, {
+        to: endpoint.address,
+        subject: message.title,
+        text: `${message.body}\n\nManage alerts and notification settings in the FlyerSync app.`,
+      });
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { NotificationChannel } from "./types";
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+
+/**
+ * Expo push notifications to an `ExponentPushToken[...]`.
+ * EXPO_ACCESS_TOKEN is only needed when push security is enabled for the project.
+ */
+export function createExpoChannel(options: { accessToken?: string; url?: string; timeoutMs?: number } = {}): NotificationChannel {
+  return {
+    name: "expo",
+    async send(endpoint, message) {
+      const headers: Record<string, string> = { "content-type": "application/json", accept: "application/json" };
+      if (options.accessToken) headers.authorization = `Bearer ${options.accessToken}`;
+
+      const response = await fetch(options.url || EXPO_PUSH_URL, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          to: endpoint.address,
+          title: message.title,
+          body: message.body,
+          sound: "default",
+          data: { type: "price_alerts", alertIds: message.alerts.map((a) => a.id) },
+        }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10000),
+      });
+      if (!response.ok) throw new Error(`Expo push responded ${response.status}`);
+
+      // Per-message errors (e.g. DeviceNotRegistered) come back with status 200
+      const result = (await response.json()) as { data?: { status: string; message?: string } };
+      if (result.data?.status === "error") {
+        throw new Error(`Expo push rejected: ${result.data.message || "unknown error"}`);
+      }
+    },
+  };
+}
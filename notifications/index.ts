@@ -0,0 +1,56 @@
+import * as dotenv from "dotenv";
+import { createEmailChannel } from "./email.channel";
+import { createExpoChannel } from "./expo.channel";
+import { createLogChannel } from "./log.channel";
+import { createWebhookChannel } from "./webhook.channel";
+import { createWebPushChannel } from "./webpush.channel";
+import type { NotificationChannel } from "./types";
+
+dotenv.config();
+
+export type * from "./types";
+export { createNotificationDispatcher, isQuietTime, localTime, DEFAULT_PREFERENCES } from "./dispatcher";
+export type { NotificationDispatcher, NotificationDispatcherOptions } from "./dispatcher";
+export { buildNotificationMessage, describeAlert } from "./message";
+export { createLogChannel, type LogChannel } from "./log.channel";
+export { createWebhookChannel, SIGNATURE_HEADER } from "./webhook.channel";
+export { createExpoChannel } from "./expo.channel";
+export { createWebPushChannel, encryptWebPushPayload, vapidAuthorization } from "./webpush.channel";
+export { createEmailChannel } from "./email.channel";
+
+/**
+ * Channels available from the environment. Log, webhook and Expo push need
+ * no setup; web push needs VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY / VAPID_SUBJECT
+ * and email needs SMTP_HOST and SMTP_FROM.
+ */
+export function createNotificationChannels(): NotificationChannel[] {
+  const channels: NotificationChannel[] = [
+    createLogChannel(),
+    createWebhookChannel(),
+    createExpoChannel({ accessToken: process.env.EXPO_ACCESS_TOKEN }),
+  ];
+
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    channels.push(createWebPushChannel({
+      vapid: {
+        publicKey: process.env.VAPID_PUBLIC_KEY,
+        privateKey: process.env.VAPID_PRIVATE_KEY,
+        subject: process.env.VAPID_SUBJECT || "mailto:alerts@flyersync.app",
+      },
+    }));
+  }
+
+  if (process.env.SMTP_HOST && process.env.SMTP_FROM) {
+    const secure = process.env.SMTP_SECURE === "true";
+    channels.push(createEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || (secure ? 465 : 587)),
+      secure,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+      from: process.env.SMTP_FROM,
+    }));
+  }
+
+  return channels;
+}
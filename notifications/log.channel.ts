@@ -0,0 +1,24 @@
+import type { NotificationEndpoint } from "../supabase";
+import type { NotificationChannel, NotificationMessage } from "./types";
+
+export interface LogChannel extends NotificationChannel {
+  /** Everything sent so far, for tests and local development */
+  sent: { endpoint: NotificationEndpoint; message: NotificationMessage }[];
+}
+
+/**
+ * Prints notifications to the console instead of delivering them.
+ */
+export function createLogChannel(options: { quiet?: boolean } = {}): LogChannel {
+  const sent: LogChannel["sent"] = [];
+  return {
+    name: "log",
+    sent,
+    async send(endpoint, message) {
+      sent.push({ endpoint, message });
+      if (!options.quiet) {
+        console.log(`🔔 [${endpoint.address}] ${message.title}\n${message.body}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import type { PriceAlertWithProduct } from "../repositories/types";
+import type { NotificationDelivery } from "../supabase";
+import type { NotificationMessage } from "./types";
+
+const ALERT_TITLES: Partial<Record<PriceAlertWithProduct["alert_type"], string>> = {
+  target_reached: "Target price reached",
+  unit_price_target: "Unit price target reached",
+  on_sale: "On sale",
+  lowest_in_days: "Lowest recent price",
+  budget_threshold: "Budget alert",
+};
+
+const money = (value: number | null) => (value === null ? "?" : Number(value).toFixed(2));
+
+/** One line per alert, e.g. "Milk 1 Gallon dropped to 2.99 at Walmart (was 3.49)" */
+export function describeAlert(alert: PriceAlertWithProduct): string {
+  const product = alert.products?.name || "A bookmarked product";
+  const store = alert.store_name ? ` at ${alert.store_name}` : "";
+  switch (alert.alert_type) {
+    case "price_drop":
+      return `${product} dropped to ${money(alert.new_price)}${store} (was ${money(alert.old_price)})`;
+    case "target_reached":
+      return `${product} reached your target: ${money(alert.new_price)}${store}`;
+    case "unit_price_target":
+      return `${product} reached your unit price target: ${money(alert.new_price)}${store}`;
+    case "on_sale":
+      return alert.old_price === null
+        ? `${product} is on sale: ${money(alert.new_price)}${store}`
+        : `${product} is on sale: ${money(alert.new_price)}${store} (regular ${money(alert.old_price)})`;
+    case "lowest_in_days":
+      return `${product} is at its lowest recent price: ${money(alert.new_price)}${store} (previous low ${money(alert.old_price)})`;
+    case "budget_threshold":
+      // old_price is the budget amount and new_price what was spent
+      return `Budget "${alert.budgets?.name || "Budget"}"${store} is at ${alert.threshold_percent}%: spent ${money(alert.new_price)} of ${money(alert.old_price)}`;
+    default:
+      return `${product} has a new price: ${money(alert.new_price)}${store}`;
+  }
+}
+
+export function buildNotificationMessage(
+  userId: string,
+  kind: NotificationDelivery["kind"],
+  alerts: PriceAlertWithProduct[]
+): NotificationMessage {
+  const lines = alerts.map(describeAlert);
+  const title =
+    kind === "digest"
+      ? `Your daily price digest: ${alerts.length} alert${alerts.length === 1 ? "" : "s"}`
+      : alerts.length === 1
+        ? ALERT_TITLES[alerts[0].alert_type] || "Price drop"
+        : `${alerts.length} price alerts`;
+  return { userId, kind, title, body: lines.join("\n"), alerts };
+}
@@ -0,0 +1,150 @@
+import net from "net";
+import tls from "tls";
+import { once } from "events";
+import { hostname } from "os";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+  /** Accept self-signed certificates (local relays, tests) */
+  allowUnauthorized?: boolean;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+// Reads multi-line SMTP replies ("250-..." continued, "250 ..." final)
+function createReplyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: Reply[] = [];
+  const waiting: { resolve: (reply: Reply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), lines };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    for (const waiter of waiting.splice(0)) waiter.reject(error);
+  };
+  const onClose = () => onError(failure || new Error("SMTP connection closed"));
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    next(): Promise<Reply> {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+// RFC 5322 header value; non-ASCII subjects are sent as an encoded word
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+/**
+ * Send one plain-text mail over SMTP (EHLO, optional STARTTLS and AUTH PLAIN).
+ */
+export async function sendMail(config: SmtpConfig, mail: MailMessage): Promise<void> {
+  const tlsOptions = { servername: config.host, rejectUnauthorized: !config.allowUnauthorized };
+  let socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, ...tlsOptions })
+    : net.connect({ host: config.host, port: config.port });
+  socket.setTimeout(config.timeoutMs ?? 15000, () => socket.destroy(new Error("SMTP timed out")));
+  let reader = createReplyReader(socket);
+
+  const expect = async (step: string, accepted: number[]) => {
+    const reply = await reader.next();
+    if (!accepted.includes(reply.code)) {
+      throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  };
+  const command = async (line: string, accepted: number[], step = line.split(" ")[0]) => {
+    socket.write(`${line}\r\n`);
+    return await expect(step, accepted);
+  };
+
+  try {
+    await expect("greeting", [220]);
+    let ehlo = await command(`EHLO ${hostname() || "localhost"}`, [250]);
+
+    if (!config.secure && ehlo.lines.some((l) => l.toUpperCase() === "STARTTLS")) {
+      await command("STARTTLS", [220]);
+      reader.detach();
+      const secured = tls.connect({ socket, ...tlsOptions });
+      await once(secured, "secureConnect");
+      socket = secured;
+      socket.setTimeout(config.timeoutMs ?? 15000, () => socket.destroy(new Error("SMTP timed out")));
+      reader = createReplyReader(socket);
+      ehlo = await command(`EHLO ${hostname() || "localhost"}`, [250]);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.pass || ""}`).toString("base64");
+      await command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+    }
+
+    await command(`MAIL FROM:<${config.from}>`, [250], "MAIL FROM");
+    await command(`RCPT TO:<${mail.to}>`, [250, 251], "RCPT TO");
+    await command("DATA", [354]);
+
+    const headers = [
+      `From: ${config.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${encodeHeader(mail.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      "MIME-Version: 1.0",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: 8bit",
+    ];
+    // Lines starting with "." are doubled so they can't end the message early
+    const body = mail.text.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+    socket.write(`${headers.join("\r\n")}\r\n\r\n${body}\r\n.\r\n`);
+    await expect("message", [250]);
+
+    socket.write("QUIT\r\n");
+    await reader.next().catch(() => null);
+  } finally {
+    reader.detach();
+    socket.destroy();
+  }
+}
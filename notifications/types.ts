@@ -0,0 +1,21 @@
+import type { NotificationDelivery, NotificationEndpoint } from "../supabase";
+import type { PriceAlertWithProduct } from "../repositories/types";
+
+export type ChannelName = NotificationEndpoint["channel"];
+
+export interface NotificationMessage {
+  userId: string;
+  kind: NotificationDelivery["kind"];
+  title: string;
+  body: string;
+  alerts: PriceAlertWithProduct[];
+}
+
+/**
+ * One way of reaching users (Expo push, web push, email, webhook, log).
+ * `send` throws when the message was not accepted; the dispatcher retries.
+ */
+export interface NotificationChannel {
+  name: ChannelName;
+  send(endpoint: NotificationEndpoint, message: NotificationMessage): Promise<void>;
+}
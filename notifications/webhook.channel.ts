@@ -0,0 +1,48 @@
+import { createHmac } from "crypto";
+import type { NotificationChannel } from "./types";
+
+export const SIGNATURE_HEADER = "x-flyersync-signature";
+
+/**
+ * POSTs alerts as JSON to the endpoint URL. With a `secret` in the endpoint
+ * config the body is signed: `x-flyersync-signature: sha256=<hex HMAC>`.
+ */
+export function createWebhookChannel(options: { timeoutMs?: number } = {}): NotificationChannel {
+  const timeoutMs = options.timeoutMs ?? 10000;
+  return {
+    name: "webhook",
+    async send(endpoint, message) {
+      const body = JSON.stringify({
+        type: "price_alerts",
+        kind: message.kind,
+        userId: message.userId,
+        title: message.title,
+        body: message.body,
+        alerts: message.alerts.map((a) => ({
+          id: a.id,
+          type: a.alert_type,
+          productId: a.product_id,
+          productName: a.products?.name ?? null,
+          budgetId: a.budget_id ?? null,
+          storeName: a.store_name,
+          oldPrice: a.old_price,
+          newPrice: a.new_price,
+          createdAt: a.created_at,
+        })),
+        sentAt: new Date().toISOString(),
+      });
+
+      const headers: Record<string, string> = { "content-type": "application/json" };
+      const secret = endpoint.config?.secret;
+      if (secret) headers[SIGNATURE_HEADER] = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+      const response = await fetch(endpoint.address, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+    },
+  };
+}
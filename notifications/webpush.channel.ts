@@ -0,0 +1,109 @@
+import { createCipheriv, createECDH, createHmac, createPrivateKey, randomBytes, sign } from "crypto";
+import type { NotificationChannel } from "./types";
+
+const RECORD_SIZE = 4096;
+// Keeps the encrypted payload inside one record and under push service limits
+const MAX_BODY_LENGTH = 2000;
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key, base64url (what the browser subscribes with) */
+  publicKey: string;
+  /** P-256 private scalar, base64url */
+  privateKey: string;
+  /** mailto: or https: contact for the push service */
+  subject: string;
+}
+
+const hmac = (key: Buffer, data: Buffer) => createHmac("sha256", key).update(data).digest();
+const info = (label: string) => Buffer.concat([Buffer.from(`${label}\0`), Buffer.from([1])]);
+
+/**
+ * Encrypt a push payload for a subscription's p256dh/auth keys
+ * (RFC 8291, aes128gcm content encoding, single record).
+ */
+export function encryptWebPushPayload(payload: Buffer, p256dh: string, auth: string): Buffer {
+  const userAgentKey = Buffer.from(p256dh, "base64url");
+  const authSecret = Buffer.from(auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const serverKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentKey);
+
+  const keyInfo = Buffer.concat([Buffer.from("WebPush: info\0"), userAgentKey, serverKey, Buffer.from([1])]);
+  const ikm = hmac(hmac(authSecret, sharedSecret), keyInfo);
+  const salt = randomBytes(16);
+  const prk = hmac(salt, ikm);
+  const contentKey = hmac(prk, info("Content-Encoding: aes128gcm")).subarray(0, 16);
+  const nonce = hmac(prk, info("Content-Encoding: nonce")).subarray(0, 12);
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverKey.length, 20);
+  return Buffer.concat([header, serverKey, encrypted]);
+}
+
+/**
+ * `Authorization` header value for a push service (RFC 8292).
+ */
+export function vapidAuthorization(endpointUrl: string, vapid: VapidKeys, expiresAt = Date.now() + 12 * 60 * 60 * 1000) {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const unsigned = `${encode({ typ: "JWT", alg: "ES256" })}.${encode({
+    aud: new URL(endpointUrl).origin,
+    exp: Math.floor(expiresAt / 1000),
+    sub: vapid.subject,
+  })}`;
+
+  const publicKey = Buffer.from(vapid.publicKey, "base64url");
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString("base64url"),
+      y: publicKey.subarray(33, 65).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  const signature = sign("sha256", Buffer.from(unsigned), { key, dsaEncoding: "ieee-p1363" });
+  return `vapid t=${unsigned}.${signature.toString("base64url")}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Browser push through the subscription endpoint. The endpoint config holds
+ * the subscription's `p256dh` and `auth` keys.
+ */
+export function createWebPushChannel(options: { vapid: VapidKeys; ttlSeconds?: number; timeoutMs?: number }): NotificationChannel {
+  return {
+    name: "webpush",
+    async send(endpoint, message) {
+      const { p256dh, auth } = endpoint.config || {};
+      if (!p256dh || !auth) throw new Error("Web push subscription is missing its keys");
+
+      const body = message.body.length > MAX_BODY_LENGTH ? `${message.body.slice(0, MAX_BODY_LENGTH - 1)}…` : message.body;
+      const payload = Buffer.from(JSON.stringify({
+        title: message.title,
+        body,
+        data: { type: "price_alerts", alertIds: message.alerts.map((a) => a.id) },
+      }));
+
+      const response = await fetch(endpoint.address, {
+        method: "POST",
+        headers: {
+          authorization: vapidAuthorization(endpoint.address, options.vapid),
+          "content-encoding": "aes128gcm",
+          "content-type": "application/octet-stream",
+          ttl: String(options.ttlSeconds ?? 24 * 60 * 60),
+        },
+        body: encryptWebPushPayload(payload, p256dh, auth),
+        signal: AbortSignal.timeout(options.timeoutMs ?? 10000),
+      });
+      if (response.status === 404 || response.status === 410) throw new Error("Web push subscription has expired");
+      if (!response.ok) throw new Error(`Web push responded ${response.status}`);
+    },
+  };
+}
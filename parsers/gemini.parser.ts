@@ -0,0 +1,9 @@
+import { parseReceiptImage } from "../gemini";
+import type { ReceiptParser } from "./types";
+
+export function createGeminiParser(): ReceiptParser {
+  return {
+    name: "gemini",
+    parse: (imageBase64) => parseReceiptImage(imageBase64),
+  };
+}
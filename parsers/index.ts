@@ -0,0 +1,89 @@
+import * as dotenv from "dotenv";
+import path from "path";
+import { createGeminiParser } from "./gemini.parser";
+import { createOpenAIParser } from "./openai.parser";
+import { createReplayParser, recordFixture } from "./replay.parser";
+import type { ReceiptParser, ReceiptParserChain } from "./types";
+
+dotenv.config();
+
+export type * from "./types";
+export { createGeminiParser } from "./gemini.parser";
+export { createOpenAIParser } from "./openai.parser";
+export { createReplayParser, recordFixture, fixtureKey } from "./replay.parser";
+
+const DEFAULT_ORDER = "gemini,openai";
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "fixtures", "receipts");
+
+/**
+ * Try each provider in order and return the first successful result.
+ */
+export function createReceiptParserChain(
+  parsers: ReceiptParser[],
+  options: { recordTo?: string } = {}
+): ReceiptParserChain {
+  return {
+    providers: parsers.map((p) => p.name),
+
+    async parse(imageBase64) {
+      if (parsers.length === 0) {
+        throw new Error("No receipt parser configured (set GEMINI_API_KEY, OPENAI_API_KEY or RECEIPT_PARSERS=replay)");
+      }
+
+      const failures: string[] = [];
+      for (const parser of parsers) {
+        try {
+          const receipt = await parser.parse(imageBase64);
+          if (options.recordTo && parser.name !== "replay") {
+            await recordFixture(options.recordTo, imageBase64, receipt).catch((err) =>
+              console.warn("⚠️ Failed to record receipt fixture:", err.message)
+            );
+          }
+          return { receipt, provider: parser.name };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`⚠️ Receipt parser "${parser.name}" failed: ${message}`);
+          failures.push(`${parser.name}: ${message}`);
+        }
+      }
+
+      throw new Error(`All receipt parsers failed (${failures.join("; ")})`);
+    },
+  };
+}
+
+/**
+ * Build the provider chain from the environment.
+ * RECEIPT_PARSERS is a comma-separated fallback order (default "gemini,openai");
+ * providers without credentials are skipped.
+ * RECEIPT_FIXTURES_DIR points the replay provider at recorded results, and
+ * RECEIPT_FIXTURES_RECORD=true saves every live result there.
+ */
+export function createReceiptParser(): ReceiptParserChain {
+  const order = (process.env.RECEIPT_PARSERS || DEFAULT_ORDER)
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const fixturesDir = process.env.RECEIPT_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+  const parsers: ReceiptParser[] = [];
+  for (const name of order) {
+    switch (name) {
+      case "gemini":
+        if (process.env.GEMINI_API_KEY) parsers.push(createGeminiParser());
+        break;
+      case "openai":
+        if (process.env.OPENAI_API_KEY) parsers.push(createOpenAIParser(process.env.OPENAI_API_KEY));
+        break;
+      case "replay":
+        parsers.push(createReplayParser({ directory: fixturesDir }));
+        break;
+      default:
+        console.warn(`⚠️ Unknown receipt parser "${name}" in RECEIPT_PARSERS - ignored`);
+    }
+  }
+
+  return createReceiptParserChain(parsers, {
+    recordTo: process.env.RECEIPT_FIXTURES_RECORD === "true" ? fixturesDir : undefined,
+  });
+}
@@ -0,0 +1,40 @@
+import OpenAI from "openai";
+import { RECEIPT_PROMPT, detectImageMimeType, parseReceiptJson } from "./shared";
+import type { ReceiptParser } from "./types";
+
+/**
+ * Receipt parsing through the OpenAI chat completions API (vision input, JSON mode).
+ * Uses OPENAI_MODEL, defaulting to gpt-4o-mini.
+ */
+export function createOpenAIParser(apiKey: string, model = process.env.OPENAI_MODEL || "gpt-4o-mini"): ReceiptParser {
+  const client = new OpenAI({ apiKey });
+
+  return {
+    name: "openai",
+    async parse(imageBase64) {
+      const mimeType = detectImageMimeType(imageBase64);
+      console.log(`📡 Sending request to OpenAI (Model: ${model}, Type: ${mimeType})`);
+
+      const completion = await client.chat.completions.create({
+        model,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: RECEIPT_PROMPT },
+              { type: "image_url", image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+            ],
+          },
+        ],
+      });
+
+      const content = completion.choices[0]?.message?.content || "";
+      if (!content) throw new Error("OpenAI response was empty");
+
+      const parsed = parseReceiptJson(content, "OpenAI");
+      console.log(`✅ OpenAI parsed receipt: ${parsed.store}, ${parsed.items.length} items (Model: ${model})`);
+      return parsed;
+    },
+  };
+}
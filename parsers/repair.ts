@@ -0,0 +1,88 @@
+/**
+ * Best-effort repair of almost-JSON from model responses:
+ * markdown fences, surrounding prose, comments, trailing commas,
+ * NaN/undefined, raw newlines in strings and truncated output.
+ */
+export function repairJson(content: string): string {
+  const source = content.replace(/```(?:json)?/gi, "");
+  const start = source.indexOf("{");
+  if (start === -1) throw new Error("No JSON object found");
+
+  let out = "";
+  let stack: string[] = [];
+  let inString = false;
+  // Last point where the output could be cut and closed cleanly. Only taken
+  // between array elements or top-level fields, so a half-written item is
+  // dropped rather than kept with missing fields.
+  let checkpoint: { length: number; stack: string[] } | null = null;
+  const canCut = () => stack.length === 1 || stack[stack.length - 1] === "]";
+
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+
+    if (inString) {
+      if (ch === "\\") {
+        out += ch + (source[i + 1] ?? "");
+        i++;
+      } else if (ch === "\n") {
+        out += "\\n";
+      } else {
+        out += ch;
+        if (ch === '"') inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "/" && source[i + 1] === "/") {
+      while (i + 1 < source.length && source[i + 1] !== "\n") i++;
+    } else if (ch === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      i = end === -1 ? source.length : end + 1;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch === "{" ? "}" : "]");
+      out += ch;
+    } else if (ch === "}" || ch === "]") {
+      out = out.replace(/,\s*$/, "") + ch;
+      stack.pop();
+      if (stack.length === 0) return out; // ignore anything after the top-level object
+      if (canCut()) checkpoint = { length: out.length, stack: [...stack] };
+    } else if (ch === ",") {
+      if (canCut()) checkpoint = { length: out.length, stack: [...stack] };
+      out += ch;
+    } else if (source.startsWith("NaN", i) || source.startsWith("undefined", i)) {
+      out += "null";
+      i += source.startsWith("NaN", i) ? 2 : 8;
+    } else {
+      out += ch;
+    }
+  }
+
+  // Truncated response: drop the incomplete trailing element and close what is still open
+  if (inString) out += '"';
+  if (checkpoint) {
+    out = out.slice(0, checkpoint.length);
+    stack = checkpoint.stack;
+  }
+  return out.replace(/,\s*$/, "") + stack.reverse().join("");
+}
+
+/**
+ * JSON.parse the object in a model response, falling back to repairJson.
+ */
+export function parseJsonWithRepair(content: string): { value: unknown; repaired: boolean } {
+  const jsonStart = content.indexOf("{");
+  const jsonEnd = content.lastIndexOf("}");
+
+  if (jsonStart !== -1 && jsonEnd > jsonStart) {
+    try {
+      return { value: JSON.parse(content.substring(jsonStart, jsonEnd + 1)), repaired: false };
+    } catch {
+      // fall through to repair
+    }
+  }
+
+  return { value: JSON.parse(repairJson(content)), repaired: true };
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+/**
+ * Zod schemas for model output. Every field is optional here: missing values
+ * are defaulted (and scored) in validation.ts, and a field that fails its
+ * schema is dropped and reported instead of failing the whole receipt.
+ */
+
+// "$5.99", "5,99" and "1,299.00" all show up in model output
+const toNumber = (value: unknown) => {
+  if (typeof value !== "string") return value;
+  let cleaned = value.replace(/[^0-9.,-]/g, "");
+  cleaned = cleaned.includes(".") ? cleaned.replace(/,/g, "") : cleaned.replace(",", ".");
+  return cleaned === "" ? value : Number(cleaned);
+};
+
+const toText = (value: unknown) => (typeof value === "number" ? String(value) : value);
+
+const amount = z.preprocess(toNumber, z.number().finite().nonnegative());
+const text = z.preprocess(toText, z.string().trim().min(1));
+
+// Models sometimes answer in percent (95) instead of a fraction (0.95)
+const score = z
+  .preprocess(toNumber, z.number().finite().nonnegative())
+  .transform((value) => Math.min(1, value > 1 ? value / 100 : value));
+
+export const itemConfidenceSchema = z
+  .object({
+    name: score,
+    price: score,
+    quantity: score,
+    weight: score,
+    unitPrice: score,
+    originalPrice: score,
+  })
+  .partial();
+
+export const parsedReceiptItemSchema = z
+  .object({
+    name: text,
+    alternativeName: text,
+    barcode: z.preprocess(toText, z.string().trim().regex(/^\d{6,14}$/)),
+    price: amount,
+    quantity: z.preprocess(toNumber, z.number().finite().positive()),
+    weight: text,
+    unitPrice: amount,
+    category: text,
+    originalPrice: amount,
+    tags: z.array(text),
+    imageUrl: z.string().url(),
+    // A single number applies to every field
+    confidence: z.union([score, itemConfidenceSchema]),
+  })
+  .partial();
+
+export const parsedReceiptSchema = z
+  .object({
+    store: text,
+    storeLocation: text,
+    date: z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/),
+    time: z.string().trim().regex(/^\d{1,2}:\d{2}(:\d{2})?$/),
+    total: amount,
+    currency: z.string().trim().regex(/^[A-Za-z]{3}$/).transform((code) => code.toUpperCase()),
+    items: z.array(z.unknown()),
+  })
+  .partial();
+
+export type RawReceiptItem = z.infer<typeof parsedReceiptItemSchema>;
+export type RawReceipt = z.infer<typeof parsedReceiptSchema>;
+
+/**
+ * Parse `raw` field by field: nulls count as missing, and fields that fail
+ * validation are removed and returned in `invalid`.
+ */
+export function parseFields<T>(
+  schema: z.ZodType<T>,
+  raw: Record<string, unknown>
+): { data: T; invalid: { field: string; message: string }[] } {
+  const input: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value !== null && value !== undefined) input[key] = value;
+  }
+
+  const first = schema.safeParse(input);
+  if (first.success) return { data: first.data, invalid: [] };
+
+  const invalid = new Map<string, string>();
+  for (const issue of first.error.issues) {
+    const field = String(issue.path[0] ?? "");
+    if (field && !invalid.has(field)) invalid.set(field, issue.message);
+    delete input[field];
+  }
+
+  const second = schema.safeParse(input);
+  if (!second.success) throw new Error(`Schema validation failed: ${second.error.message}`);
+
+  return {
+    data: second.data,
+    invalid: [...invalid].map(([field, message]) => ({ field, message })),
+  };
+}
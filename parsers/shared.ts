@@ -0,0 +1,88 @@
+import { parseJsonWithRepair } from "./repair";
+import { validateParsedReceipt } from "./validation";
+import type { ParsedReceipt, ReceiptIssue } from "./types";
+
+export const RECEIPT_PROMPT = `You are an expert shopping assistant and data extraction specialist.
+I will provide a grocery receipt image. Your goal is to extract structured data and enrich it with useful details.
+
+1. **Store Info**: Identify the store name and its location/address if visible.
+2. **Date & Time**: Extract purchase date (YYYY-MM-DD) and time (HH:MM).
+3. **Line Items**: Extract every purchased item. For each item:
+   - **Name**: The name as printed.
+   - **Alternative Name**: A generic, readable name (e.g., "HZ KETCHUP" -> "Heinz Ketchup").
+   - **Barcode**: The UPC/EAN digits if printed next to the item.
+   - **Price**: Final price paid.
+   - **Weight/Quantity**: Extract weight (g, kg, ml, oz, lb) if printed.
+   - **Tags**: Detect if item is on "SALE", "CLEARANCE", or "TAXABLE".
+   - **Category**: Infer the product category (e.g., "Produce", "Dairy", "Meat", "Bakery", "Beverages", "Pantry", "Household").
+   - **Confidence**: For name, price, quantity, weight, unitPrice and originalPrice, how sure you are that the value is read correctly (0 to 1). Use a low score for blurry, cut-off or guessed values.
+4. **Calculations**:
+   - If weight is available, calculate the price per standard unit (e.g. $ per 100g or $ per 100ml).
+5. **Search**:
+   - Use your Google Search capabilities to find a representative product image URL for the top 3 most expensive items.
+
+Return strictly valid JSON structure:
+{
+  "store": "Target",
+  "storeLocation": "123 Main St, City",
+  "date": "2024-05-20",
+  "time": "14:30",
+  "total": 45.50,
+  "currency": "USD",
+  "items": [{
+    "name": "HZ KETCHUP 32OZ",
+    "alternativeName": "Heinz Tomato Ketchup",
+    "barcode": "013000006408",
+    "price": 5.99,
+    "quantity": 1,
+    "weight": "907g",
+    "unitPrice": 0.66, // $/100g
+    "category": "Pantry",
+    "originalPrice": 6.99,
+    "tags": ["SALE"],
+    "imageUrl": "https://...",
+    "confidence": { "name": 0.9, "price": 0.99, "quantity": 0.95, "weight": 0.8, "unitPrice": 0.8, "originalPrice": 0.7 }
+  }]
+}
+Only return the JSON object. Do not wrap in markdown code blocks.`;
+
+/**
+ * Detect MIME type from the base64 signature
+ */
+export function detectImageMimeType(imageBase64: string): string {
+  if (imageBase64.startsWith("iVBORw0KGgo")) return "image/png";
+  if (imageBase64.startsWith("R0lGOD")) return "image/gif";
+  if (imageBase64.startsWith("UklGR")) return "image/webp";
+  if (imageBase64.startsWith("AAAAIGZ0eXBqd2lj")) return "image/jxl"; // Just in case
+  if (imageBase64.startsWith("AAAAIGZ0eXBoZWlj")) return "image/heic";
+  return "image/jpeg";
+}
+
+/**
+ * Pull the receipt JSON out of a model response, repairing it if needed,
+ * then validate it against the receipt schema.
+ */
+export function parseReceiptJson(content: string, provider: string): ParsedReceipt {
+  let value: unknown;
+  let repaired: boolean;
+  try {
+    ({ value, repaired } = parseJsonWithRepair(content));
+  } catch {
+    console.error(`❌ No valid JSON found in ${provider} response. Full content:`, content);
+    throw new Error(`${provider} response did not contain valid JSON data`);
+  }
+
+  const issues: ReceiptIssue[] = [];
+  if (repaired) {
+    console.warn(`⚠️ ${provider} returned malformed JSON - repaired`);
+    issues.push({ code: "JSON_REPAIRED", message: "The response was malformed and had to be repaired; check every item" });
+  }
+
+  try {
+    return validateParsedReceipt(value, issues);
+  } catch (error) {
+    throw new Error(
+      `${provider} response did not match the receipt schema: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
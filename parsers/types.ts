@@ -0,0 +1,81 @@
+export interface ParsedReceiptItem {
+  name: string;
+  alternativeName?: string;
+  barcode?: string; // UPC/EAN when printed on the line
+  price: number;
+  quantity?: number;
+  weight?: string; // e.g. "200g", "1kg"
+  unitPrice?: number; // Calculated $ per unit
+  category?: string; // e.g. "Dairy", "Produce", "Beverages"
+  originalPrice?: number; // Pre-discount price if visible
+  tags?: string[]; // "SALE", "ORGANIC", etc.
+  imageUrl?: string; // From Google Search
+  confidence?: ParsedItemConfidence;
+  productId?: string; // Learned from earlier receipts at the same chain
+}
+
+/**
+ * 0-1 confidence per extracted field; fields absent from the item are omitted.
+ * `overall` is the lowest field score so the client can flag the whole row.
+ */
+export interface ParsedItemConfidence {
+  overall: number;
+  name: number;
+  price: number;
+  quantity: number;
+  weight?: number;
+  unitPrice?: number;
+  originalPrice?: number;
+}
+
+export type ReceiptIssueCode =
+  | "JSON_REPAIRED"
+  | "INVALID_FIELD"
+  | "INVALID_ITEM"
+  | "TOTAL_MISMATCH"
+  | "ORIGINAL_PRICE_BELOW_PRICE"
+  | "UNIT_PRICE_MISMATCH";
+
+export interface ReceiptIssue {
+  code: ReceiptIssueCode;
+  message: string;
+  /** Index into `items` (after invalid items were dropped) */
+  itemIndex?: number;
+  field?: string;
+}
+
+export interface ParsedReceipt {
+  store: string | null;
+  storeLocation?: string | null;
+  date: string | null;
+  time?: string | null;
+  total: number | null;
+  items: ParsedReceiptItem[];
+  currency?: string;
+  /** Sum of item prices, for comparison with `total` */
+  itemsTotal?: number;
+  /** Validation and consistency problems the user should review */
+  issues?: ReceiptIssue[];
+}
+
+/**
+ * A single OCR / extraction backend (Gemini, OpenAI, fixture replay...).
+ */
+export interface ReceiptParser {
+  name: string;
+  parse(imageBase64: string): Promise<ParsedReceipt>;
+}
+
+export interface ReceiptParseResult {
+  receipt: ParsedReceipt;
+  /** Name of the provider that produced `receipt` */
+  provider: string;
+}
+
+/**
+ * Ordered list of providers; each is tried until one succeeds.
+ */
+export interface ReceiptParserChain {
+  providers: string[];
+  parse(imageBase64: string): Promise<ReceiptParseResult>;
+}
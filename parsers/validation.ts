@@ -0,0 +1,157 @@
+import { parseFields, parsedReceiptItemSchema, parsedReceiptSchema, type RawReceiptItem } from "./schema";
+import type { ParsedItemConfidence, ParsedReceipt, ParsedReceiptItem, ReceiptIssue } from "./types";
+import { weightInGrams } from "../units/quantity";
+
+/** Score for a field the model returned without its own confidence */
+export const DEFAULT_CONFIDENCE = 0.8;
+/** Cap applied to fields involved in a failed consistency check */
+export const LOW_CONFIDENCE = 0.3;
+/** Items below this overall score should be highlighted for review */
+export const REVIEW_THRESHOLD = 0.5;
+
+// Receipt totals usually include tax, so only flag clear mismatches
+const TOTAL_TOLERANCE = 0.05;
+const UNIT_PRICE_TOLERANCE = 0.05;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+type ConfidenceField = Exclude<keyof ParsedItemConfidence, "overall">;
+
+function scoreItem(raw: RawReceiptItem, item: ParsedReceiptItem, invalid: Set<string>): ParsedItemConfidence {
+  const reported = raw.confidence;
+  const score = (field: ConfidenceField) => {
+    if (invalid.has(field)) return 0;
+    if (typeof reported === "number") return reported;
+    return reported?.[field] ?? DEFAULT_CONFIDENCE;
+  };
+
+  const confidence: ParsedItemConfidence = {
+    overall: 1,
+    // Defaulted names and prices are guesses
+    name: raw.name === undefined ? 0 : score("name"),
+    price: raw.price === undefined ? 0 : score("price"),
+    quantity: score("quantity"),
+  };
+  for (const field of ["weight", "unitPrice", "originalPrice"] as const) {
+    if (item[field] !== undefined || invalid.has(field)) confidence[field] = score(field);
+  }
+  return confidence;
+}
+
+function cap(confidence: ParsedItemConfidence, field: ConfidenceField) {
+  confidence[field] = Math.min(confidence[field] ?? LOW_CONFIDENCE, LOW_CONFIDENCE);
+}
+
+function checkItem(item: ParsedReceiptItem, confidence: ParsedItemConfidence, itemIndex: number, issues: ReceiptIssue[]) {
+  if (item.originalPrice !== undefined && item.originalPrice < item.price) {
+    cap(confidence, "originalPrice");
+    issues.push({
+      code: "ORIGINAL_PRICE_BELOW_PRICE",
+      itemIndex,
+      field: "originalPrice",
+      message: `"${item.name}": original price ${item.originalPrice} is below the paid price ${item.price}`,
+    });
+  }
+
+  if (item.unitPrice !== undefined && item.weight) {
+    const grams = weightInGrams(item.weight);
+    if (grams) {
+      // The weight may be per unit or for the whole line
+      const candidates = [grams, grams * (item.quantity || 1)].map((g) => (item.price / g) * 100);
+      const matches = candidates.some(
+        (expected) => Math.abs(item.unitPrice! - expected) <= Math.max(0.01, expected * UNIT_PRICE_TOLERANCE)
+      );
+      if (!matches) {
+        cap(confidence, "unitPrice");
+        cap(confidence, "weight");
+        issues.push({
+          code: "UNIT_PRICE_MISMATCH",
+          itemIndex,
+          field: "unitPrice",
+          message: `"${item.name}": unit price ${item.unitPrice} does not match ${item.price} for ${item.weight} (expected ${round2(candidates[0])} per 100)`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Validate raw model output against the receipt schema, score every item
+ * and run the arithmetic checks. Throws only when the result is not a
+ * receipt at all; anything recoverable is reported in `issues`.
+ */
+export function validateParsedReceipt(raw: unknown, issues: ReceiptIssue[] = []): ParsedReceipt {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Receipt data is not a JSON object");
+  }
+
+  const header = parseFields(parsedReceiptSchema, raw as Record<string, unknown>);
+  for (const { field, message } of header.invalid) {
+    if (field === "items") throw new Error(`Receipt items are not a list: ${message}`);
+    issues.push({ code: "INVALID_FIELD", field, message: `Receipt ${field} is invalid: ${message}` });
+  }
+
+  const items: ParsedReceiptItem[] = [];
+  (header.data.items || []).forEach((rawItem, position) => {
+    if (!rawItem || typeof rawItem !== "object" || Array.isArray(rawItem)) {
+      issues.push({ code: "INVALID_ITEM", message: `Item ${position + 1} is not an object and was dropped` });
+      return;
+    }
+
+    const itemIndex = items.length;
+    const { data, invalid } = parseFields(parsedReceiptItemSchema, rawItem as Record<string, unknown>);
+    for (const { field, message } of invalid) {
+      issues.push({ code: "INVALID_FIELD", itemIndex, field, message: `Item ${position + 1} ${field} is invalid: ${message}` });
+    }
+
+    const item: ParsedReceiptItem = {
+      // Clean up name by removing (SALE) recursively just in case
+      name: (data.name || "").replace(/\(SALE\)/gi, "").trim() || "Unknown Item",
+      alternativeName: data.alternativeName,
+      barcode: data.barcode,
+      price: data.price ?? 0,
+      quantity: data.quantity ?? 1,
+      weight: data.weight,
+      unitPrice: data.unitPrice,
+      category: data.category,
+      originalPrice: data.originalPrice,
+      tags: data.tags || [],
+      imageUrl: data.imageUrl,
+    };
+
+    const confidence = scoreItem(data, item, new Set(invalid.map((i) => i.field)));
+    checkItem(item, confidence, itemIndex, issues);
+    confidence.overall = Math.min(
+      confidence.name,
+      confidence.price,
+      confidence.quantity,
+      confidence.weight ?? 1,
+      confidence.unitPrice ?? 1,
+      confidence.originalPrice ?? 1
+    );
+
+    items.push({ ...item, confidence });
+  });
+
+  const itemsTotal = round2(items.reduce((sum, item) => sum + item.price, 0));
+  const total = header.data.total ?? null;
+  if (total !== null && items.length > 0 && Math.abs(itemsTotal - total) > TOTAL_TOLERANCE) {
+    issues.push({
+      code: "TOTAL_MISMATCH",
+      field: "total",
+      message: `Items add up to ${itemsTotal} but the receipt total is ${total} (missed items, misread prices or tax)`,
+    });
+  }
+
+  return {
+    store: header.data.store ?? null,
+    storeLocation: header.data.storeLocation ?? null,
+    date: header.data.date ?? null,
+    time: header.data.time ?? null,
+    total,
+    currency: header.data.currency,
+    items,
+    itemsTotal,
+    issues,
+  };
+}
@@ -0,0 +1,114 @@
+import type { NewPrice, PriceStats, Repository } from "../repositories/types";
+import type { AnomalyReason, Price } from "../supabase";
+
+// A price further than this many robust standard deviations from the median
+// of its comparable prices is an outlier
+const OUTLIER_Z = 4;
+// Fewer comparable prices than these say nothing either way
+const MIN_MARKET_SAMPLES = 5;
+const MIN_OWN_SAMPLES = 3;
+// Scales the median absolute deviation to a standard deviation
+const MAD_SCALE = 1.4826;
+// Identical prices have no spread; allow 10% of the median either way
+const MIN_SPREAD = 0.1;
+// Contributors with at least this many rejected prices, more than they had
+// confirmed, get all their published prices reviewed
+const REJECTED_LIMIT = 2;
+
+export interface PriceAssessment {
+  suspicious: boolean;
+  reasons: AnomalyReason[];
+}
+
+type ScreenedPrice = Pick<
+  NewPrice,
+  "product_id" | "user_id" | "price" | "quantity" | "unit_price" | "canonical_unit" | "currency"
+>;
+
+const isOutlier = (value: number, stats: PriceStats, minSamples: number) => {
+  if (stats.sample_count < minSamples || stats.median === null || stats.mad === null) return null;
+  const spread = Math.max(MAD_SCALE * stats.mad, MIN_SPREAD * stats.median);
+  return spread > 0 && Math.abs(value - stats.median) / spread > OUTLIER_Z;
+};
+
+/**
+ * Compares a price with everyone else's published prices of the product and
+ * with the contributor's own history. Far from the market is suspicious unless
+ * the contributor's history backs it up (their local shop may simply be
+ * dearer); far from their own history counts when the market says nothing.
+ */
+export async function assessPrice(db: Repository, price: ScreenedPrice): Promise<PriceAssessment> {
+  const canonicalUnit = price.unit_price == null ? null : price.canonical_unit ?? null;
+  const value = canonicalUnit === null ? price.price / (price.quantity || 1) : Number(price.unit_price);
+  const filter = { productId: price.product_id, currency: price.currency || "USD", canonicalUnit, userId: price.user_id };
+
+  const [market, own, record] = await Promise.all([
+    db.prices.stats({ ...filter, own: false }),
+    db.prices.stats({ ...filter, own: true }),
+    db.prices.reviewCounts(price.user_id),
+  ]);
+
+  const reasons: AnomalyReason[] = [];
+  const marketOutlier = isOutlier(value, market, MIN_MARKET_SAMPLES);
+  const ownOutlier = isOutlier(value, own, MIN_OWN_SAMPLES);
+  if (marketOutlier && ownOutlier !== false) reasons.push("far_from_market");
+  if (ownOutlier && marketOutlier !== false) reasons.push("far_from_own_history");
+  if (record.rejected >= REJECTED_LIMIT && record.rejected > record.confirmed) reasons.push("contributor_record");
+
+  return { suspicious: reasons.length > 0, reasons };
+}
+
+/**
+ * Holds suspicious prices back from publishing: they are stored unpublished
+ * and pending review instead. Prices their owner keeps private are not checked.
+ */
+export async function screenPrices<T extends ScreenedPrice & Pick<NewPrice, "published">>(
+  db: Repository,
+  prices: T[]
+): Promise<T[]> {
+  return Promise.all(
+    prices.map(async (price) => {
+      if (!price.published) return price;
+      const { suspicious, reasons } = await assessPrice(db, price);
+      if (!suspicious) return price;
+      console.log(`🚩 Price ${price.price} for product ${price.product_id} held for review: ${reasons.join(", ")}`);
+      return { ...price, published: false, review_status: "pending" as const, review_reasons: reasons };
+    })
+  );
+}
+
+/**
+ * The prices that may be published now. Rejected prices and those already
+ * waiting for review stay unpublished, and prices that look suspicious are
+ * put up for review instead.
+ */
+export async function clearForPublishing(db: Repository, prices: Price[]): Promise<Price[]> {
+  const cleared: Price[] = [];
+  for (const price of prices) {
+    if (price.published) {
+      cleared.push(price);
+      continue;
+    }
+    if (price.review_status === "pending" || price.review_status === "rejected") continue;
+    // A reviewer already vouched for it
+    if (price.review_status === "confirmed") {
+      cleared.push(price);
+      continue;
+    }
+    const { suspicious, reasons } = await assessPrice(db, price);
+    if (!suspicious) {
+      cleared.push(price);
+      continue;
+    }
+    await db.prices.update(price.id, { review_status: "pending", review_reasons: reasons });
+    console.log(`🚩 Price ${price.id} held for review: ${reasons.join(", ")}`);
+  }
+  return cleared;
+}
+
+/** Unpublished prices need no review; withdraws those still waiting */
+export async function withdrawFromReview(db: Repository, prices: Price[]) {
+  for (const price of prices) {
+    if (price.review_status === "pending") await db.prices.update(price.id, { review_status: null, review_reasons: null });
+  }
+}
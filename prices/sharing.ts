@@ -0,0 +1,13 @@
+import type { Repository } from "../repositories/types";
+import type { SharingPreferences } from "../supabase";
+
+// Until a user says otherwise their prices are shared, as they always were
+export const DEFAULT_SHARING: Omit<SharingPreferences, "user_id" | "updated_at"> = {
+  publish_prices: true,
+};
+
+/** Whether the user's new prices are published when they don't say */
+export async function publishesPrices(db: Repository, userId: string): Promise<boolean> {
+  const stored = await db.sharing.getPreferences(userId);
+  return (stored || DEFAULT_SHARING).publish_prices;
+}
@@ -0,0 +1,76 @@
+import type { PriceTrust, Repository } from "../repositories/types";
+import type { Price } from "../supabase";
+
+// How much each factor (0-1) counts towards a price's trust score. The
+// price_trust SQL function (migration 029) uses the same weights.
+export const TRUST_WEIGHTS = {
+  votes: 0.35,
+  outlier: 0.3,
+  reputation: 0.15,
+  receipt: 0.1,
+  age: 0.1,
+} as const;
+
+export type TrustFactors = { [K in keyof typeof TRUST_WEIGHTS]: number };
+
+// Prices scoring below this are questionable: left out of cheapest and
+// recent by default, and they raise no bookmark alerts
+export const QUESTIONABLE_TRUST = 0.5;
+const HIGH_TRUST = 0.7;
+
+export type TrustLevel = "high" | "medium" | "low";
+
+export interface PriceTrustSummary {
+  score: number;
+  level: TrustLevel;
+  upvotes: number;
+  downvotes: number;
+  factors: TrustFactors;
+}
+
+export const trustScore = (factors: TrustFactors) =>
+  Math.round(
+    (Object.keys(TRUST_WEIGHTS) as (keyof TrustFactors)[]).reduce(
+      (sum, factor) => sum + TRUST_WEIGHTS[factor] * factors[factor],
+      0
+    ) * 10000
+  ) / 10000;
+
+export const trustLevel = (score: number): TrustLevel =>
+  score >= HIGH_TRUST ? "high" : score >= QUESTIONABLE_TRUST ? "medium" : "low";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toSummary = (row: PriceTrust): PriceTrustSummary => ({
+  score: row.score,
+  level: trustLevel(row.score),
+  upvotes: row.upvotes,
+  downvotes: row.downvotes,
+  factors: {
+    votes: round2(row.votes_factor),
+    outlier: round2(row.outlier_factor),
+    reputation: round2(row.reputation_factor),
+    receipt: round2(row.receipt_factor),
+    age: round2(row.age_factor),
+  },
+});
+
+/** Trust of each price, by price id */
+export async function loadTrust(db: Repository, prices: Price[]): Promise<Map<string, PriceTrustSummary>> {
+  if (prices.length === 0) return new Map();
+  const rows = await db.prices.trust([...new Set(prices.map((p) => p.id))], new Date().toISOString());
+  return new Map(rows.map((row) => [row.price_id, toSummary(row)]));
+}
+
+/** The prices with their trust attached, leaving out those scoring below `minTrust` */
+export async function withTrust<T extends Price>(
+  db: Repository,
+  prices: T[],
+  minTrust = QUESTIONABLE_TRUST
+): Promise<(T & { trust: PriceTrustSummary })[]> {
+  const trust = await loadTrust(db, prices);
+  return prices.flatMap((price) => {
+    const summary = trust.get(price.id);
+    return summary && summary.score >= minTrust ? [{ ...price, trust: summary }] : [];
+  });
+}
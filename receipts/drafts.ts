@@ -0,0 +1,65 @@
+import { randomUUID } from "crypto";
+import { TRPCError, errorWithReason } from "../trpc";
+import type { ReceiptPatch, Repository } from "../repositories/types";
+import type { Receipt, ReceiptSnapshotItem } from "../supabase";
+
+export type DraftItem = ReceiptSnapshotItem & { itemId: string };
+
+/** Gives every snapshot item an itemId; drafts saved before migration 026 have none */
+export const withItemIds = (items: ReceiptSnapshotItem[]): DraftItem[] =>
+  items.map((item) => (item.itemId ? (item as DraftItem) : { ...item, itemId: randomUUID() }));
+
+/** The caller's draft; other users' receipts and discarded drafts are NOT_FOUND */
+export async function requireDraft(db: Repository, receiptId: string, userId: string): Promise<Receipt> {
+  const receipt = await db.receipts.findForUser(receiptId, userId);
+  if (!receipt || receipt.is_deleted) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Receipt not found" });
+  }
+  if (receipt.status !== "draft") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Receipt is not a draft" });
+  }
+  return receipt;
+}
+
+export const staleDraftError = (current: number) =>
+  errorWithReason("CONFLICT", "DRAFT_CHANGED", `Draft has changed since this edit started (now at version ${current})`);
+
+/** CONFLICT unless the draft is still at `version` */
+export function assertDraftVersion(draft: Receipt, version: number) {
+  if (draft.draft_version !== version) throw staleDraftError(draft.draft_version);
+}
+
+/**
+ * Applies one edit to a draft that is still at `version` and returns it at
+ * the next version. `change` gets the items (all with an itemId) and returns
+ * the fields to store; items_snapshot defaults to those items.
+ */
+export async function changeDraft(
+  db: Repository,
+  receiptId: string,
+  userId: string,
+  version: number,
+  change: (items: DraftItem[], draft: Receipt) => ReceiptPatch
+): Promise<Receipt> {
+  const draft = await requireDraft(db, receiptId, userId);
+  assertDraftVersion(draft, version);
+  const items = withItemIds(draft.items_snapshot || []);
+  const updated = await db.receipts.updateDraft(draft.id, userId, version, {
+    items_snapshot: items,
+    ...change(items, draft),
+  });
+  // Another edit got in between the read and the write
+  if (!updated) {
+    const current = await requireDraft(db, receiptId, userId);
+    throw staleDraftError(current.draft_version);
+  }
+  return updated;
+}
+
+export function findDraftItem(items: DraftItem[], itemId: string): DraftItem {
+  const item = items.find((i) => i.itemId === itemId);
+  if (!item) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Draft item not found" });
+  }
+  return item;
+}
@@ -0,0 +1,169 @@
+import { TRPCError, errorWithReason } from "../trpc";
+import type { NewReceiptPrice, PricePatch, ReceiptEdit, Repository } from "../repositories/types";
+import type {
+  Price,
+  Receipt,
+  ReceiptRevision,
+  ReceiptRevisionItem,
+  ReceiptRevisionSnapshot,
+  ReceiptWithDetails,
+} from "../supabase";
+import { normalizeUnitPrice } from "../units/quantity";
+import { checkBudgetAlerts } from "../budgets/progress";
+import { publishesPrices } from "../prices/sharing";
+import { screenPrices } from "../prices/anomalies";
+
+/** A line item to store; without priceId it becomes a new prices row */
+export type ReceiptItemInput = Omit<ReceiptRevisionItem, "priceId"> & { priceId?: string };
+
+export type ReceiptTarget = Omit<ReceiptRevisionSnapshot, "items"> & { items: ReceiptItemInput[] };
+
+export type ReceiptEditResult = ReceiptWithDetails & { version: number };
+
+/** When a receipt's prices were paid: its date at its time (noon when unknown), or null without a date */
+export function receiptPurchaseTime(date: string | null, time: string | null): string | null {
+  if (!date) return null;
+  const withTime = new Date(`${date}T${(time || "12:00").slice(0, 5)}:00`);
+  if (!isNaN(withTime.getTime())) return withTime.toISOString();
+  const dayOnly = new Date(date);
+  return isNaN(dayOnly.getTime()) ? null : dayOnly.toISOString();
+}
+
+const toRevisionItem = (price: Price): ReceiptRevisionItem => ({
+  priceId: price.id,
+  productId: price.product_id,
+  price: Number(price.price),
+  quantity: price.quantity,
+  weight: price.weight,
+  unitPrice: price.unit_price,
+  originalPrice: price.original_price,
+  tags: price.tags,
+});
+
+/** The receipt header and its line items (prices rows), oldest item first */
+async function loadReceiptSnapshot(db: Repository, receipt: Receipt): Promise<ReceiptRevisionSnapshot> {
+  const prices = await db.prices.listByReceipt(receipt.id);
+  return {
+    store_id: receipt.store_id,
+    total_price: receipt.total_price,
+    store_location: receipt.store_location,
+    receipt_date: receipt.receipt_date,
+    receipt_time: receipt.receipt_time,
+    currency: receipt.currency,
+    items: prices.reverse().map(toRevisionItem),
+  };
+}
+
+// Edits to these change what a price row says was paid
+const REPRICING_FIELDS = new Set(["price", "quantity", "unit_price"]);
+
+/**
+ * The changes that make the receipt and its prices rows match `target`. Items
+ * whose prices row is still on the receipt are updated in place, the others
+ * are inserted and rows no longer listed are deleted. Header changes (store,
+ * date, currency) are carried over to every row.
+ */
+async function planEdit(
+  db: Repository,
+  receipt: Receipt,
+  target: ReceiptTarget
+): Promise<Pick<ReceiptEdit, "header" | "updates" | "deletes" | "inserts">> {
+  const prices = await db.prices.listByReceipt(receipt.id);
+  const storeId = target.store_id;
+
+  // Receipts saved without a date keep the time they were saved at
+  const purchaseTime =
+    receiptPurchaseTime(target.receipt_date, target.receipt_time) ?? prices[0]?.purchase_time ?? receipt.created_at;
+  // Added items are shared like the receipt's other items
+  const published = prices.length > 0 ? prices.some((p) => p.published) : await publishesPrices(db, receipt.user_id);
+  const kept = new Set<string>();
+  const updates: ReceiptEdit["updates"] = [];
+  const inserts: NewReceiptPrice[] = [];
+
+  for (const item of target.items) {
+    if (!storeId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "A receipt with items needs a store" });
+    }
+    const fields = {
+      product_id: item.productId,
+      store_id: storeId,
+      price: item.price,
+      quantity: Math.max(1, Math.round(item.quantity || 1)),
+      weight: item.weight,
+      ...normalizeUnitPrice(item),
+      original_price: item.originalPrice,
+      tags: item.tags,
+      currency: target.currency,
+      purchase_time: purchaseTime,
+    };
+    const existing = item.priceId ? prices.find((p) => p.id === item.priceId) : undefined;
+    if (!existing) {
+      inserts.push({ ...fields, user_id: receipt.user_id, receipt_image_path: receipt.image_path, published });
+      continue;
+    }
+    kept.add(existing.id);
+    const changed = Object.entries(fields).filter(
+      ([key, value]) => JSON.stringify(existing[key as keyof Price] ?? null) !== JSON.stringify(value ?? null)
+    );
+    if (changed.length === 0) continue;
+    let patch: PricePatch = Object.fromEntries(changed);
+    // A published price edited to a new amount is screened like a new one
+    if (existing.published && changed.some(([key]) => REPRICING_FIELDS.has(key))) {
+      const [screened] = await screenPrices(db, [{ ...existing, ...patch }]);
+      if (!screened.published) {
+        patch = { ...patch, published: false, review_status: "pending", review_reasons: screened.review_reasons };
+      }
+    }
+    updates.push({ id: existing.id, patch });
+  }
+
+  return {
+    header: {
+      store_id: storeId,
+      total_price: target.total_price,
+      store_location: target.store_location,
+      receipt_date: target.receipt_date,
+      receipt_time: target.receipt_time,
+      currency: target.currency,
+    },
+    updates,
+    deletes: prices.filter((p) => !kept.has(p.id)).map((p) => p.id),
+    inserts: await screenPrices(db, inserts),
+  };
+}
+
+/**
+ * Applies one edit to a complete receipt and stores the result as its next
+ * revision, all at once. The first edit also stores the receipt as it was,
+ * as version 1. When the database call fails nothing was changed, and the
+ * error's data.reason is RECEIPT_NOT_EDITED.
+ */
+export async function editReceipt(
+  db: Repository,
+  receipt: Receipt,
+  userId: string,
+  action: Exclude<ReceiptRevision["action"], "original">,
+  edit: (current: ReceiptRevisionSnapshot) => ReceiptTarget,
+  revertedTo: number | null = null
+): Promise<ReceiptEditResult> {
+  const current = await loadReceiptSnapshot(db, receipt);
+  const changes = await planEdit(db, receipt, edit(current));
+
+  const revision = await db.receipts
+    .applyEdit(receipt.id, {
+      ...changes,
+      original: current,
+      revision: { user_id: userId, action, reverted_to: revertedTo },
+    })
+    .catch((err) => {
+      console.error("❌ Receipt edit failed:", err.message);
+      throw errorWithReason("INTERNAL_SERVER_ERROR", "RECEIPT_NOT_EDITED", "Receipt was not changed; it is safe to retry");
+    });
+  await checkBudgetAlerts(db, receipt.user_id).catch((err) =>
+    console.warn("⚠️ Failed to check budgets:", err.message)
+  );
+
+  const updated = (await db.receipts.getById(receipt.id))!;
+  console.log(`✏️ Receipt ${receipt.id} is at version ${revision.version} (${action})`);
+  return { ...updated, prices: await db.prices.listByReceipt(receipt.id), version: revision.version };
+}
@@ -0,0 +1,175 @@
+import { createHash } from "crypto";
+import { TRPCError, errorWithReason } from "../trpc";
+import type { NewReceiptPrice, Repository } from "../repositories/types";
+import type { Receipt, ReceiptSnapshotItem } from "../supabase";
+import { normalizeUnitPrice } from "../units/quantity";
+import { receiptPurchaseTime } from "./revisions";
+import { assertDraftVersion, requireDraft, staleDraftError, withItemIds } from "./drafts";
+import { publishesPrices } from "../prices/sharing";
+import { screenPrices } from "../prices/anomalies";
+
+// Reasons (data.reason) when a save fails. Every save is one transaction, so
+// in each case nothing was written:
+// - RECEIPT_NOT_SAVED / DRAFT_NOT_COMPLETED: the database call failed; retrying is safe
+// - IDEMPOTENCY_KEY_REUSED: the key belongs to a different receipt
+// - DRAFT_CHANGED: the draft was edited since the given version
+
+export interface ReceiptSaveInput {
+  storeId: string;
+  storeLocation?: string;
+  totalPrice?: number;
+  receiptDate?: string;
+  receiptTime?: string;
+  currency: string;
+  status: "complete" | "draft";
+  items: ReceiptSnapshotItem[];
+  receiptImagePath?: string;
+  /**
+   * Publish the receipt's prices; defaults to the user's sharing preference.
+   * A draft keeps it for completeDraft.
+   */
+  published?: boolean;
+  /** Retries with the same key return the first save instead of adding another receipt */
+  idempotencyKey?: string;
+}
+
+function toPriceRecords(
+  items: ReceiptSnapshotItem[],
+  receipt: {
+    userId: string;
+    storeId: string;
+    currency: string;
+    imagePath: string | null;
+    purchaseTime: string;
+    published: boolean;
+  }
+): NewReceiptPrice[] {
+  return items.map((item) => ({
+    product_id: item.productId,
+    store_id: receipt.storeId,
+    user_id: receipt.userId,
+    price: item.price,
+    quantity: Math.round(item.quantity || 1),
+    weight: item.weight || null,
+    ...normalizeUnitPrice(item),
+    original_price: item.originalPrice || null,
+    tags: item.tags || null,
+    currency: receipt.currency,
+    receipt_image_path: receipt.imagePath,
+    purchase_time: receipt.purchaseTime,
+    published: receipt.published,
+  }));
+}
+
+// Fingerprint of everything but the key, to tell a retry from a different receipt
+const requestHash = ({ idempotencyKey, ...request }: ReceiptSaveInput) =>
+  createHash("sha256").update(JSON.stringify(request)).digest("hex");
+
+/** Stores a receipt and, unless it is a draft, its prices, all at once. replayed: an earlier save with the same key */
+export async function saveReceipt(
+  db: Repository,
+  userId: string,
+  input: ReceiptSaveInput
+): Promise<{ saved: number; receiptId: string; replayed: boolean }> {
+  const isDraft = input.status === "draft";
+  const purchaseTime = receiptPurchaseTime(input.receiptDate || null, input.receiptTime || null) ?? new Date().toISOString();
+  const hash = input.idempotencyKey ? requestHash(input) : null;
+
+  const result = await db.receipts
+    .saveWithPrices(
+      {
+        user_id: userId,
+        store_id: input.storeId,
+        total_price: input.totalPrice || null,
+        store_location: input.storeLocation || null,
+        receipt_date: input.receiptDate || null,
+        receipt_time: input.receiptTime || null,
+        currency: input.currency,
+        status: input.status,
+        image_path: input.receiptImagePath || null,
+        items_snapshot: isDraft ? withItemIds(input.items) : null,
+        idempotency_key: input.idempotencyKey ?? null,
+        idempotency_hash: hash,
+        publish_prices: isDraft ? input.published ?? null : null,
+      },
+      isDraft
+        ? []
+        : await screenPrices(
+            db,
+            toPriceRecords(input.items, {
+              userId,
+              storeId: input.storeId,
+              currency: input.currency,
+              imagePath: input.receiptImagePath || null,
+              purchaseTime,
+              published: input.published ?? (await publishesPrices(db, userId)),
+            })
+          )
+    )
+    .catch((err) => {
+      console.error("❌ Receipt save failed:", err.message);
+      throw errorWithReason("INTERNAL_SERVER_ERROR", "RECEIPT_NOT_SAVED", "Receipt was not saved; it is safe to retry");
+    });
+
+  if (result.replayed && result.receipt.idempotency_hash !== hash) {
+    throw errorWithReason("CONFLICT", "IDEMPOTENCY_KEY_REUSED", "This idempotency key was already used for a different receipt");
+  }
+  if (result.replayed) {
+    console.log(`🔁 Receipt ${result.receipt.id} was already saved with this idempotency key`);
+  }
+  return { saved: result.saved, receiptId: result.receipt.id, replayed: result.replayed };
+}
+
+/**
+ * Turns the caller's draft into a complete receipt with its prices, all at
+ * once. With `version` the draft must still be at that draft_version.
+ * Returns the draft as it was, or null when it was already complete.
+ */
+export async function completeDraft(
+  db: Repository,
+  userId: string,
+  receiptId: string,
+  version?: number
+): Promise<Receipt | null> {
+  const receipt = await db.receipts.findForUser(receiptId, userId);
+  if (receipt?.status === "complete" && !receipt.is_deleted) return null;
+  const draft = await requireDraft(db, receiptId, userId);
+  if (version !== undefined) assertDraftVersion(draft, version);
+  if (!draft.items_snapshot) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "No draft data found for this receipt" });
+  }
+  const storeId = draft.store_id;
+  if (!storeId && draft.items_snapshot.length > 0) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A receipt with items needs a store" });
+  }
+
+  // Without a store there are no items to turn into prices
+  const prices = storeId
+    ? await screenPrices(
+        db,
+        toPriceRecords(draft.items_snapshot, {
+          userId,
+          storeId,
+          currency: draft.currency,
+          imagePath: draft.image_path || null,
+          purchaseTime: receiptPurchaseTime(draft.receipt_date, draft.receipt_time) ?? draft.created_at,
+          published: draft.publish_prices ?? (await publishesPrices(db, userId)),
+        })
+      )
+    : [];
+  const before = { ...draft };
+  const outcome = await db.receipts.completeDraft(draft.id, userId, draft.draft_version, prices).catch((err) => {
+    console.error("❌ Draft completion failed:", err.message);
+    throw errorWithReason("INTERNAL_SERVER_ERROR", "DRAFT_NOT_COMPLETED", "Draft was not completed; it is safe to retry");
+  });
+
+  if (outcome === "already_complete") return null;
+  if (outcome === "stale") {
+    const current = await db.receipts.findForUser(receiptId, userId);
+    throw staleDraftError(current?.draft_version ?? draft.draft_version);
+  }
+  if (outcome === "not_found") {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Receipt not found" });
+  }
+  return before;
+}
@@ -0,0 +1,26 @@
+import * as dotenv from "dotenv";
+import { supabase } from "../supabase";
+import { createSupabaseRepository } from "./supabase.repository";
+import { createMemoryRepository } from "./memory.repository";
+import type { Repository } from "./types";
+
+dotenv.config();
+
+export type * from "./types";
+export { createSupabaseRepository } from "./supabase.repository";
+export { createMemoryRepository, createMemoryTables, type MemoryTables } from "./memory.repository";
+
+/**
+ * Pick the data store for this process.
+ * DATA_STORE=memory forces the in-memory store; otherwise Supabase is used when configured.
+ */
+export function createRepository(): Repository {
+  if (process.env.DATA_STORE !== "memory" && supabase) {
+    return createSupabaseRepository(supabase);
+  }
+
+  if (process.env.DATA_STORE !== "memory") {
+    console.warn("⚠️ Supabase not configured - using in-memory data store (data is lost on restart)");
+  }
+  return createMemoryRepository();
+}
@@ -0,0 +1,2001 @@
+import { randomUUID } from "crypto";
+import { TRPCError } from "../trpc";
+import type {
+  Product,
+  Store,
+  Price,
+  PriceWithDetails,
+  Receipt,
+  Vote,
+  Discussion,
+  Bookmark,
+  PriceAlert,
+  ReceiptJob,
+  ReceiptRevision,
+  ReceiptRevisionSnapshot,
+  ReceiptItemMatch,
+  ReceiptAbbreviation,
+  ProductMerge,
+  ExchangeRate,
+  ShoppingList,
+  ShoppingListItem,
+  NotificationPreferences,
+  SharingPreferences,
+  NotificationEndpoint,
+  NotificationDelivery,
+  Household,
+  HouseholdMember,
+  HouseholdInvitation,
+  Budget,
+  ContentReport,
+  ModerationAction,
+} from "../supabase";
+import type {
+  Repository,
+  NewPrice,
+  NewReceipt,
+  NewReceiptPrice,
+  NewReceiptRevision,
+  PriceTrendBucket,
+  PriceTrust,
+  TrendInterval,
+  VoteCounts,
+} from "./types";
+import { QUESTIONABLE_TRUST, trustScore } from "../prices/trust";
+
+/**
+ * Plain arrays standing in for the Supabase tables. Tests can build one,
+ * seed it, hand it to createMemoryRepository and inspect it afterwards.
+ */
+export interface MemoryTables {
+  products: Product[];
+  stores: Store[];
+  prices: Price[];
+  receipts: Receipt[];
+  votes: Vote[];
+  discussions: Discussion[];
+  bookmarks: Bookmark[];
+  price_alerts: PriceAlert[];
+  receipt_jobs: ReceiptJob[];
+  receipt_revisions: ReceiptRevision[];
+  receipt_item_matches: ReceiptItemMatch[];
+  receipt_abbreviations: ReceiptAbbreviation[];
+  product_merges: ProductMerge[];
+  exchange_rates: ExchangeRate[];
+  shopping_lists: ShoppingList[];
+  shopping_list_items: ShoppingListItem[];
+  notification_preferences: NotificationPreferences[];
+  sharing_preferences: SharingPreferences[];
+  notification_endpoints: NotificationEndpoint[];
+  notification_deliveries: NotificationDelivery[];
+  households: Household[];
+  household_members: HouseholdMember[];
+  household_invitations: HouseholdInvitation[];
+  budgets: Budget[];
+  content_reports: ContentReport[];
+  moderation_actions: ModerationAction[];
+}
+
+export function createMemoryTables(): MemoryTables {
+  return {
+    products: [],
+    stores: [],
+    prices: [],
+    receipts: [],
+    votes: [],
+    discussions: [],
+    bookmarks: [],
+    price_alerts: [],
+    receipt_jobs: [],
+    receipt_revisions: [],
+    receipt_item_matches: [],
+    receipt_abbreviations: [],
+    product_merges: [],
+    exchange_rates: [],
+    shopping_lists: [],
+    shopping_list_items: [],
+    notification_preferences: [],
+    sharing_preferences: [],
+    notification_endpoints: [],
+    notification_deliveries: [],
+    households: [],
+    household_members: [],
+    household_invitations: [],
+    budgets: [],
+    content_reports: [],
+    moderation_actions: [],
+  };
+}
+
+// Strictly increasing timestamps so "newest first" ordering is deterministic
+function createClock() {
+  let last = 0;
+  return () => {
+    let t = Date.now();
+    if (t <= last) t = last + 1;
+    last = t;
+    return new Date(t).toISOString();
+  };
+}
+
+function byKey<T>(key: (row: T) => string | number | null | undefined, ascending = true) {
+  return (a: T, b: T) => {
+    const ka = key(a) ?? "";
+    const kb = key(b) ?? "";
+    if (ka === kb) return 0;
+    const order = ka < kb ? -1 : 1;
+    return ascending ? order : -order;
+  };
+}
+
+function sameText(a: string | null | undefined, b: string) {
+  return (a || "").toLowerCase() === b.toLowerCase();
+}
+
+function containsText(a: string | null | undefined, b: string) {
+  return (a || "").toLowerCase().includes(b.toLowerCase());
+}
+
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stands in for a deleted discussion's text (discussions.content may not be empty)
+const DELETED_CONTENT = "[deleted]";
+
+// Published prices plus the viewer's own (see PricesRepository)
+const visibleTo = (viewerId: string | null) => (price: Price) => !!price.published || price.user_id === viewerId;
+
+// Same rules as the price trend SQL functions: per package, dated by purchase
+const observedAt = (price: Price) => price.purchase_time || price.detected_at;
+const packagePrice = (price: Price) => Number(price.price) / Math.max(Number(price.quantity) || 1, 1);
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// UTC start of the bucket as YYYY-MM-DD; weeks start on Monday like date_trunc
+function bucketStart(iso: string, interval: TrendInterval) {
+  const date = new Date(iso);
+  if (interval === "month") return date.toISOString().slice(0, 7) + "-01";
+  if (interval === "week") date.setTime(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+  return date.toISOString().slice(0, 10);
+}
+
+export function createMemoryRepository(tables: MemoryTables = createMemoryTables()): Repository {
+  const now = createClock();
+
+  const productOf = (id: string) => tables.products.find((p) => p.id === id);
+  const storeOf = (id: string | null) => tables.stores.find((s) => s.id === id);
+  const receiptOf = (id: string | null) => tables.receipts.find((r) => r.id === id);
+  // Mirrors the purchases view (migration 022)
+  const isPurchase = (price: Price) => {
+    const receipt = receiptOf(price.receipt_id);
+    return !!receipt && receipt.status === "complete" && !receipt.is_deleted;
+  };
+
+  const withProduct = (price: Price): PriceWithDetails => ({ ...price, products: productOf(price.product_id) });
+  const withAlertDetails = (alert: PriceAlert) => ({
+    ...alert,
+    products: alert.product_id ? productOf(alert.product_id) : undefined,
+    budgets: alert.budget_id ? tables.budgets.find((b) => b.id === alert.budget_id) : undefined,
+  });
+  const withStore = (price: Price): PriceWithDetails => ({ ...price, stores: storeOf(price.store_id) });
+  const withDetails = (price: Price): PriceWithDetails => ({
+    ...price,
+    products: productOf(price.product_id),
+    stores: storeOf(price.store_id),
+  });
+
+  const newestFirst = byKey<Price>((p) => p.detected_at, false);
+
+  function insertPrice(input: NewPrice): Price {
+    if (!(input.price > 0)) {
+      throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "price must be greater than 0" });
+    }
+    const row: Price = {
+      id: randomUUID(),
+      product_id: input.product_id,
+      store_id: input.store_id,
+      user_id: input.user_id,
+      price: input.price,
+      quantity: input.quantity ?? 1,
+      weight: input.weight ?? null,
+      unit_price: input.unit_price ?? null,
+      canonical_quantity: input.canonical_quantity ?? null,
+      canonical_unit: input.canonical_unit ?? null,
+      original_price: input.original_price ?? null,
+      tags: input.tags ?? null,
+      currency: input.currency || "USD",
+      receipt_image_path: input.receipt_image_path ?? null,
+      receipt_id: input.receipt_id ?? null,
+      purchase_time: input.purchase_time ?? null,
+      published: input.published ?? false,
+      review_status: input.review_status ?? null,
+      review_reasons: input.review_reasons ?? null,
+      reviewed_by: null,
+      reviewed_at: null,
+      detected_at: now(),
+    };
+    tables.prices.push(row);
+    checkPriceDropAlerts(row);
+    return row;
+  }
+
+  function insertReceipt(input: NewReceipt): Receipt {
+    const row: Receipt = {
+      id: randomUUID(),
+      user_id: input.user_id,
+      store_id: input.store_id,
+      total_price: input.total_price ?? null,
+      store_location: input.store_location ?? null,
+      receipt_date: input.receipt_date ?? null,
+      receipt_time: input.receipt_time ?? null,
+      currency: input.currency || "USD",
+      image_path: input.image_path ?? null,
+      status: input.status || "complete",
+      items_snapshot: input.items_snapshot ?? null,
+      draft_version: 0,
+      idempotency_key: input.idempotency_key ?? null,
+      idempotency_hash: input.idempotency_hash ?? null,
+      publish_prices: input.publish_prices ?? null,
+      is_deleted: false,
+      created_at: now(),
+    };
+    tables.receipts.push(row);
+    return row;
+  }
+
+  function deletePrices(ids: string[]) {
+    tables.prices = tables.prices.filter((p) => !ids.includes(p.id));
+    // price_alerts.price_id is ON DELETE SET NULL
+    for (const alert of tables.price_alerts) {
+      if (alert.price_id && ids.includes(alert.price_id)) alert.price_id = null;
+    }
+  }
+
+  function insertRevision(input: NewReceiptRevision): ReceiptRevision {
+    const versions = tables.receipt_revisions.filter((r) => r.receipt_id === input.receipt_id).map((r) => r.version);
+    const row: ReceiptRevision = {
+      id: randomUUID(),
+      ...structuredClone(input),
+      version: Math.max(0, ...versions) + 1,
+      created_at: now(),
+    };
+    tables.receipt_revisions.push(row);
+    return structuredClone(row);
+  }
+
+  // The receipt and its line items oldest first, as apply_receipt_edit (migration 037) reads them back
+  function revisionSnapshot(receipt: Receipt): ReceiptRevisionSnapshot {
+    return {
+      store_id: receipt.store_id,
+      total_price: receipt.total_price,
+      store_location: receipt.store_location,
+      receipt_date: receipt.receipt_date,
+      receipt_time: receipt.receipt_time,
+      currency: receipt.currency,
+      items: tables.prices
+        .filter((p) => p.receipt_id === receipt.id)
+        .sort(byKey((p) => p.detected_at))
+        .map((p) => ({
+          priceId: p.id,
+          productId: p.product_id,
+          price: Number(p.price),
+          quantity: p.quantity,
+          weight: p.weight,
+          unitPrice: p.unit_price,
+          originalPrice: p.original_price,
+          tags: p.tags,
+        })),
+    };
+  }
+
+  // The foreign key and CHECK violations Postgres would roll a save back for
+  function assertReceiptPrices(prices: NewReceiptPrice[]) {
+    for (const price of prices) {
+      if (!productOf(price.product_id) || !storeOf(price.store_id)) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "insert on table prices violates a foreign key constraint" });
+      }
+      if (!(price.price > 0)) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "price must be greater than 0" });
+      }
+    }
+  }
+
+  // Mirrors bookmark_covers_store (migration 021)
+  function bookmarkCoversStore(bookmark: Bookmark, storeId: string) {
+    if (bookmark.store_ids && !bookmark.store_ids.includes(storeId)) return false;
+    if (bookmark.radius_km === null || bookmark.near_latitude === null || bookmark.near_longitude === null) return true;
+    const store = storeOf(storeId);
+    return (
+      !!store &&
+      distanceKm(bookmark.near_latitude, bookmark.near_longitude, store.latitude, store.longitude) <= bookmark.radius_km
+    );
+  }
+
+  // Mirrors price_trust (migrations 029 and 030)
+  function priceTrust(price: Price, asOf: string): PriceTrust {
+    const votesOn = (priceIds: string[]) => {
+      const votes = tables.votes.filter((v) => v.target_type === "price" && priceIds.includes(v.target_id));
+      return { up: votes.filter((v) => v.vote_type === "up").length, down: votes.filter((v) => v.vote_type === "down").length };
+    };
+    const own = votesOn([price.id]);
+    const contributed = tables.prices.filter((p) => p.user_id === price.user_id);
+    const received = votesOn(contributed.map((p) => p.id));
+
+    // Unit prices are compared with unit prices in the same unit, package prices with package prices
+    const comparedPrice = (p: Price) => (p.unit_price !== null ? Number(p.unit_price) : packagePrice(p));
+    const comparable = tables.prices
+      .filter(
+        (o) =>
+          o.product_id === price.product_id &&
+          o.id !== price.id &&
+          o.published &&
+          o.currency === price.currency &&
+          (o.unit_price === null) === (price.unit_price === null) &&
+          o.canonical_unit === price.canonical_unit
+      )
+      .map(comparedPrice);
+    // A reviewer confirmed it, however unusual it is
+    const middle = comparable.length >= 3 && price.review_status !== "confirmed" ? median(comparable) : null;
+    const distance = middle ? Math.log(Math.max(comparedPrice(price), 0.0001) / middle) / Math.log(5) : 0;
+    const ageDays = Math.max(0, (Date.parse(asOf) - Date.parse(observedAt(price))) / DAY_MS);
+
+    const factors = {
+      votes: (own.up + 1) / (own.up + own.down + 2),
+      outlier: Math.max(0, 1 - distance ** 2),
+      reputation:
+        (Math.min(1, Math.log(1 + contributed.length) / Math.log(101)) +
+          (received.up + 1) / (received.up + received.down + 2)) /
+        2,
+      receipt: price.receipt_image_path ? 1 : 0,
+      age: 0.5 ** (ageDays / 30),
+    };
+    return {
+      price_id: price.id,
+      score: trustScore(factors),
+      upvotes: own.up,
+      downvotes: own.down,
+      votes_factor: factors.votes,
+      outlier_factor: factors.outlier,
+      reputation_factor: factors.reputation,
+      receipt_factor: factors.receipt,
+      age_factor: factors.age,
+    };
+  }
+
+  // Mirrors the check_price_drop_alerts trigger (migration 030): prices held
+  // for review and questionable prices raise no alerts
+  function checkPriceDropAlerts(price: Price) {
+    if (price.review_status === "pending") return;
+    if (priceTrust(price, price.detected_at).score < QUESTIONABLE_TRUST) return;
+    createPriceAlerts(price);
+  }
+
+  // Mirrors create_price_alerts (migration 036): bookmarks only hear about,
+  // and compare against, prices their owner can see, and only once
+  function createPriceAlerts(price: Price) {
+    const bookmarks = tables.bookmarks.filter(
+      (b) =>
+        b.product_id === price.product_id &&
+        b.notify_on_price_drop &&
+        visibleTo(b.user_id)(price) &&
+        bookmarkCoversStore(b, price.store_id) &&
+        !tables.price_alerts.some((a) => a.bookmark_id === b.id && a.price_id === price.id)
+    );
+    if (bookmarks.length === 0) return;
+
+    const storeName = storeOf(price.store_id)?.name ?? null;
+    const onSale =
+      (price.original_price !== null && Number(price.original_price) > Number(price.price)) ||
+      (price.tags || []).some((tag) => tag.toUpperCase() === "SALE");
+    const lowest = (prices: Price[]) => (prices.length > 0 ? Math.min(...prices.map((p) => Number(p.price))) : null);
+
+    const alert = (
+      bookmark: Bookmark,
+      alertType: PriceAlert["alert_type"],
+      oldPrice: number | null
+    ) => {
+      tables.price_alerts.push({
+        id: randomUUID(),
+        user_id: bookmark.user_id,
+        bookmark_id: bookmark.id,
+        product_id: price.product_id,
+        price_id: price.id,
+        alert_type: alertType,
+        old_price: oldPrice,
+        new_price: price.price,
+        store_name: storeName,
+        is_read: false,
+        dispatched_at: null,
+        created_at: now(),
+      });
+    };
+
+    for (const bookmark of bookmarks) {
+      const previous = tables.prices.filter(
+        (p) =>
+          p.product_id === price.product_id &&
+          p.id !== price.id &&
+          visibleTo(bookmark.user_id)(p) &&
+          bookmarkCoversStore(bookmark, p.store_id)
+      );
+      const prevPrice = lowest(previous);
+
+      if (
+        prevPrice !== null &&
+        price.price < prevPrice &&
+        (bookmark.min_drop_percent === null || ((prevPrice - price.price) / prevPrice) * 100 >= bookmark.min_drop_percent)
+      ) {
+        alert(bookmark, "price_drop", prevPrice);
+      }
+      if (bookmark.target_price !== null && price.price <= bookmark.target_price) {
+        alert(bookmark, "target_reached", prevPrice);
+      }
+      if (
+        bookmark.target_unit_price !== null &&
+        price.unit_price !== null &&
+        Number(price.unit_price) <= bookmark.target_unit_price
+      ) {
+        alert(bookmark, "unit_price_target", prevPrice);
+      }
+      if (bookmark.notify_on_sale && onSale) alert(bookmark, "on_sale", price.original_price);
+      if (bookmark.lowest_in_days !== null) {
+        const since = Date.parse(price.detected_at) - bookmark.lowest_in_days * DAY_MS;
+        const windowLow = lowest(previous.filter((p) => Date.parse(p.detected_at) >= since));
+        if (windowLow !== null && price.price < windowLow) alert(bookmark, "lowest_in_days", windowLow);
+      }
+    }
+  }
+
+  return {
+    kind: "memory",
+
+    products: {
+      async list(limit) {
+        return [...tables.products].sort(byKey((p) => p.name)).slice(0, limit);
+      },
+
+      async search(query, limit) {
+        return tables.products
+          .filter((p) => containsText(p.name, query) || p.barcode === query)
+          .slice(0, limit);
+      },
+
+      async findByBarcode(barcode) {
+        return tables.products.find((p) => p.barcode === barcode) || null;
+      },
+
+      async findByName(name) {
+        return tables.products.find((p) => sameText(p.name, name)) || null;
+      },
+
+      async findByIds(ids) {
+        return tables.products.filter((p) => ids.includes(p.id));
+      },
+
+      async findCandidates(terms, limit) {
+        return tables.products
+          .filter((p) => terms.some((t) => containsText(p.name, t) || containsText(p.alternative_name, t)))
+          .slice(0, limit);
+      },
+
+      async create(input) {
+        if (input.barcode && tables.products.some((p) => p.barcode === input.barcode)) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: 'duplicate key value violates unique constraint "products_barcode_key"',
+          });
+        }
+        const row: Product = {
+          id: randomUUID(),
+          barcode: input.barcode || null,
+          name: input.name,
+          category: input.category || null,
+          image_url: input.image_url || null,
+          alternative_name: null,
+          created_at: now(),
+        };
+        tables.products.push(row);
+        return row;
+      },
+
+      async merge(sourceId, targetId, mergedBy) {
+        const source = productOf(sourceId);
+        const target = productOf(targetId);
+        if (!source || !target || sourceId === targetId) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Cannot merge these products" });
+        }
+        const moved = { prices: 0, bookmarks: 0, price_alerts: 0, votes: 0, discussions: 0, drafts: 0, shopping_list_items: 0 };
+
+        for (const price of tables.prices.filter((p) => p.product_id === sourceId)) {
+          price.product_id = targetId;
+          moved.prices++;
+        }
+
+        // A user's existing bookmark on the target wins; alerts follow it
+        for (const bookmark of tables.bookmarks.filter((b) => b.product_id === sourceId)) {
+          const kept = tables.bookmarks.find((b) => b.product_id === targetId && b.user_id === bookmark.user_id);
+          if (kept) {
+            for (const alert of tables.price_alerts.filter((a) => a.bookmark_id === bookmark.id)) alert.bookmark_id = kept.id;
+            tables.bookmarks = tables.bookmarks.filter((b) => b !== bookmark);
+          } else {
+            bookmark.product_id = targetId;
+            moved.bookmarks++;
+          }
+        }
+        for (const alert of tables.price_alerts.filter((a) => a.product_id === sourceId)) {
+          alert.product_id = targetId;
+          moved.price_alerts++;
+        }
+
+        const onSource = (row: { target_type: string; target_id: string }) =>
+          row.target_type === "product" && row.target_id === sourceId;
+        for (const vote of tables.votes.filter(onSource)) {
+          const kept = tables.votes.find(
+            (v) => v.target_type === "product" && v.target_id === targetId && v.user_id === vote.user_id
+          );
+          if (kept) {
+            tables.votes = tables.votes.filter((v) => v !== vote);
+          } else {
+            vote.target_id = targetId;
+            moved.votes++;
+          }
+        }
+        for (const discussion of tables.discussions.filter(onSource)) {
+          discussion.target_id = targetId;
+          moved.discussions++;
+        }
+
+        for (const receipt of tables.receipts.filter((r) => r.status === "draft" && r.items_snapshot)) {
+          const items = receipt.items_snapshot!;
+          if (!items.some((item) => item.productId === sourceId)) continue;
+          receipt.items_snapshot = items.map((item) => (item.productId === sourceId ? { ...item, productId: targetId } : item));
+          moved.drafts++;
+        }
+
+        // A list holding both keeps the target's line with the quantities added up
+        for (const item of tables.shopping_list_items.filter((i) => i.product_id === sourceId)) {
+          const kept = tables.shopping_list_items.find((i) => i.product_id === targetId && i.list_id === item.list_id);
+          if (kept) {
+            kept.quantity += item.quantity;
+            kept.note = kept.note ?? item.note;
+            kept.checked = kept.checked && item.checked;
+            tables.shopping_list_items = tables.shopping_list_items.filter((i) => i !== item);
+          } else {
+            item.product_id = targetId;
+            moved.shopping_list_items++;
+          }
+        }
+
+        for (const match of tables.receipt_item_matches.filter((m) => m.product_id === sourceId)) {
+          const kept = tables.receipt_item_matches.find(
+            (m) =>
+              m.product_id === targetId &&
+              m.user_id === match.user_id &&
+              m.store_id === match.store_id &&
+              m.receipt_name === match.receipt_name
+          );
+          if (kept) {
+            kept.times_matched += match.times_matched;
+            if (match.last_matched_at > kept.last_matched_at) kept.last_matched_at = match.last_matched_at;
+            tables.receipt_item_matches = tables.receipt_item_matches.filter((m) => m !== match);
+          } else {
+            match.product_id = targetId;
+          }
+        }
+        for (const entry of tables.receipt_abbreviations.filter((a) => a.product_id === sourceId)) {
+          const kept = tables.receipt_abbreviations.find(
+            (a) => a.product_id === targetId && a.store_id === entry.store_id && a.receipt_text === entry.receipt_text
+          );
+          if (kept) {
+            kept.confirmations += entry.confirmations;
+            kept.updated_at = now();
+            tables.receipt_abbreviations = tables.receipt_abbreviations.filter((a) => a !== entry);
+          } else {
+            entry.product_id = targetId;
+          }
+        }
+
+        tables.products = tables.products.filter((p) => p !== source);
+        target.barcode = target.barcode ?? source.barcode;
+        target.category = target.category ?? source.category;
+        target.image_url = target.image_url ?? source.image_url;
+        target.alternative_name = target.alternative_name ?? source.alternative_name ?? null;
+
+        const merge: ProductMerge = {
+          id: randomUUID(),
+          source_product_id: sourceId,
+          target_product_id: targetId,
+          source_product: { ...source },
+          moved,
+          merged_by: mergedBy,
+          created_at: now(),
+        };
+        tables.product_merges.push(merge);
+        return { ...merge };
+      },
+
+      async listMerges(productId) {
+        return tables.product_merges
+          .filter((m) => m.source_product_id === productId || m.target_product_id === productId)
+          .sort(byKey((m) => m.created_at, false));
+      },
+    },
+
+    stores: {
+      async list() {
+        return tables.stores.filter((s) => !s.is_deleted).sort(byKey((s) => s.name));
+      },
+
+      async nearby(latitude, longitude, radiusKm) {
+        return tables.stores
+          .filter((s) => !s.is_deleted)
+          .map((s) => ({ store: s, km: distanceKm(latitude, longitude, s.latitude, s.longitude) }))
+          .filter(({ km }) => km <= radiusKm)
+          .sort(byKey(({ km }) => km))
+          .map(({ store }) => store);
+      },
+
+      async getById(id) {
+        return tables.stores.find((s) => s.id === id && !s.is_deleted) || null;
+      },
+
+      async findByIds(ids) {
+        return tables.stores.filter((s) => ids.includes(s.id) && !s.is_deleted);
+      },
+
+      async findByName(name) {
+        return tables.stores.find((s) => !s.is_deleted && sameText(s.name, name)) || null;
+      },
+
+      async findByNameLike(name) {
+        return tables.stores.find((s) => !s.is_deleted && containsText(s.name, name)) || null;
+      },
+
+      async findNear(latitude, longitude, delta) {
+        return (
+          tables.stores.find(
+            (s) =>
+              !s.is_deleted &&
+              Math.abs(s.latitude - latitude) <= delta &&
+              Math.abs(s.longitude - longitude) <= delta
+          ) || null
+        );
+      },
+
+      async create(input) {
+        const row: Store = {
+          id: randomUUID(),
+          name: input.name,
+          address: input.address || null,
+          latitude: input.latitude,
+          longitude: input.longitude,
+          is_deleted: false,
+          created_by: input.created_by ?? null,
+          created_at: now(),
+        };
+        tables.stores.push(row);
+        return row;
+      },
+
+      async softDelete(id) {
+        const store = tables.stores.find((s) => s.id === id);
+        if (store) store.is_deleted = true;
+      },
+
+      async findWithDeleted(id) {
+        return tables.stores.find((s) => s.id === id) || null;
+      },
+
+      async restore(id) {
+        const store = tables.stores.find((s) => s.id === id);
+        if (store) store.is_deleted = false;
+      },
+    },
+
+    prices: {
+      async create(input) {
+        return withDetails(insertPrice(input));
+      },
+
+      async createMany(inputs) {
+        return inputs.map(insertPrice);
+      },
+
+      async findById(id) {
+        const price = tables.prices.find((p) => p.id === id);
+        return price ? { ...price } : null;
+      },
+
+      async findForUser(id, userId) {
+        const price = tables.prices.find((p) => p.id === id && p.user_id === userId);
+        return price ? { ...price } : null;
+      },
+
+      async history(productId, limit, viewerId) {
+        return tables.prices
+          .filter((p) => p.product_id === productId && visibleTo(viewerId)(p))
+          .sort(byKey((p) => p.detected_at))
+          .slice(0, limit)
+          .map(withStore);
+      },
+
+      async listByProduct(productId, viewerId) {
+        return tables.prices
+          .filter((p) => p.product_id === productId && visibleTo(viewerId)(p))
+          .sort(newestFirst)
+          .map(withStore);
+      },
+
+      async recent(limit, viewerId) {
+        return tables.prices.filter(visibleTo(viewerId)).sort(newestFirst).slice(0, limit).map(withDetails);
+      },
+
+      async listByStore(storeId, userId, limit) {
+        return tables.prices
+          .filter((p) => p.store_id === storeId && p.user_id === userId)
+          .sort(newestFirst)
+          .slice(0, limit)
+          .map(withProduct);
+      },
+
+      async listByReceipt(receiptId) {
+        return tables.prices
+          .filter((p) => p.receipt_id === receiptId)
+          .sort(newestFirst)
+          .map(withProduct);
+      },
+
+      async listByUser(userId, limit) {
+        return tables.prices
+          .filter((p) => p.user_id === userId)
+          .sort(newestFirst)
+          .slice(0, limit)
+          .map(withDetails);
+      },
+
+      async listPurchasesAtStore(userIds, storeId, since) {
+        return tables.prices.filter(
+          (p) => userIds.includes(p.user_id) && p.store_id === storeId && (!since || p.detected_at >= since) && isPurchase(p)
+        );
+      },
+
+      async listPurchases(filter) {
+        const from = filter.from ? Date.parse(`${filter.from}T00:00:00Z`) : -Infinity;
+        const until = filter.until ? Date.parse(`${filter.until}T23:59:59.999Z`) : Infinity;
+        return tables.prices
+          .filter((p) => {
+            if (!filter.userIds.includes(p.user_id) || !isPurchase(p)) return false;
+            if (filter.storeId && p.store_id !== filter.storeId) return false;
+            const at = Date.parse(observedAt(p));
+            return at >= from && at <= until;
+          })
+          .sort(byKey((p) => observedAt(p)))
+          .map(withDetails);
+      },
+
+      async latestForProducts(productIds, storeIds, viewerId) {
+        const latest = new Map<string, Price>();
+        for (const price of tables.prices.filter(visibleTo(viewerId)).sort(newestFirst)) {
+          if (!productIds.includes(price.product_id) || !storeIds.includes(price.store_id)) continue;
+          const key = `${price.product_id}:${price.store_id}`;
+          if (!latest.has(key)) latest.set(key, { ...price });
+        }
+        return [...latest.values()];
+      },
+
+      async trendBuckets(filter) {
+        const groups = new Map<string, { bucket_start: string; store_id: string | null; prices: number[] }>();
+        for (const price of tables.prices.filter(visibleTo(filter.viewerId))) {
+          if (price.product_id !== filter.productId) continue;
+          if (filter.storeId && price.store_id !== filter.storeId) continue;
+          if (filter.currency && price.currency !== filter.currency) continue;
+          const day = new Date(observedAt(price)).toISOString().slice(0, 10);
+          if ((filter.from && day < filter.from) || (filter.until && day > filter.until)) continue;
+          const start = bucketStart(observedAt(price), filter.interval);
+          for (const storeId of [price.store_id, null]) {
+            const key = `${start}:${storeId}`;
+            const group = groups.get(key) || { bucket_start: start, store_id: storeId, prices: [] };
+            group.prices.push(packagePrice(price));
+            groups.set(key, group);
+          }
+        }
+
+        const rows = [...groups.values()]
+          .sort(byKey((g) => `${g.bucket_start}:${g.store_id ?? ""}`))
+          .map((g): PriceTrendBucket => ({
+            bucket_start: g.bucket_start,
+            store_id: g.store_id,
+            min_price: Math.min(...g.prices),
+            median_price: median(g.prices)!,
+            max_price: Math.max(...g.prices),
+            avg_price: g.prices.reduce((sum, p) => sum + p, 0) / g.prices.length,
+            price_count: g.prices.length,
+            moving_average: 0,
+          }));
+        for (const row of rows) {
+          const series = rows.filter((r) => r.store_id === row.store_id && r.bucket_start <= row.bucket_start);
+          const window = series.slice(-filter.movingAverage);
+          row.moving_average = window.reduce((sum, r) => sum + r.median_price, 0) / window.length;
+        }
+        return rows;
+      },
+
+      async percentChanges(filter) {
+        const asOf = new Date(filter.asOf).getTime();
+        const observed = tables.prices
+          .filter(
+            (p) =>
+              p.product_id === filter.productId &&
+              visibleTo(filter.viewerId)(p) &&
+              (!filter.storeId || p.store_id === filter.storeId) &&
+              (!filter.currency || p.currency === filter.currency)
+          )
+          .map((p) => ({ at: new Date(observedAt(p)).getTime(), price: packagePrice(p) }))
+          .filter((p) => p.at <= asOf);
+
+        return [...filter.windowsDays].sort((a, b) => a - b).map((days) => {
+          const start = asOf - days * DAY_MS;
+          const current = median(observed.filter((p) => p.at > start).map((p) => p.price));
+          const previous = median(observed.filter((p) => p.at <= start && p.at > start - days * DAY_MS).map((p) => p.price));
+          return {
+            window_days: days,
+            current_median: current,
+            previous_median: previous,
+            percent_change:
+              current !== null && previous ? Math.round(((current - previous) / previous) * 10000) / 100 : null,
+          };
+        });
+      },
+
+      async percentile(filter) {
+        const prices = tables.prices
+          .filter(
+            (p) =>
+              p.product_id === filter.productId &&
+              visibleTo(filter.viewerId)(p) &&
+              (!filter.storeId || p.store_id === filter.storeId) &&
+              (!filter.currency || p.currency === filter.currency) &&
+              (!filter.since || observedAt(p) >= filter.since)
+          )
+          .map(packagePrice);
+        const cheaper = prices.filter((p) => p < filter.price).length;
+        return {
+          percentile: prices.length > 0 ? Math.round((cheaper * 10000) / prices.length) / 100 : null,
+          cheaper_count: cheaper,
+          total_count: prices.length,
+        };
+      },
+
+      async trust(priceIds, asOf) {
+        return tables.prices.filter((p) => priceIds.includes(p.id)).map((p) => priceTrust(p, asOf));
+      },
+
+      // Mirrors price_robust_stats (migration 030)
+      async stats(filter) {
+        const values = tables.prices
+          .filter(
+            (p) =>
+              p.product_id === filter.productId &&
+              p.currency === filter.currency &&
+              (filter.canonicalUnit === null
+                ? p.unit_price === null
+                : p.unit_price !== null && p.canonical_unit === filter.canonicalUnit) &&
+              (filter.own
+                ? p.user_id === filter.userId && p.review_status !== "rejected"
+                : p.user_id !== filter.userId && !!p.published)
+          )
+          .map((p) => (filter.canonicalUnit === null ? packagePrice(p) : Number(p.unit_price)));
+        const middle = median(values);
+        return {
+          sample_count: values.length,
+          median: middle,
+          mad: middle === null ? null : median(values.map((v) => Math.abs(v - middle))),
+        };
+      },
+
+      async reviewCounts(userId) {
+        const reviewed = tables.prices.filter((p) => p.user_id === userId);
+        const count = (status: Price["review_status"]) => reviewed.filter((p) => p.review_status === status).length;
+        return { pending: count("pending"), confirmed: count("confirmed"), rejected: count("rejected") };
+      },
+
+      async listPendingReview(limit) {
+        return tables.prices
+          .filter((p) => p.review_status === "pending")
+          .sort(byKey((p) => p.detected_at))
+          .slice(0, limit)
+          .map(withDetails);
+      },
+
+      async resolveReview(id, status, reviewerId) {
+        const price = tables.prices.find((p) => p.id === id && p.review_status === "pending");
+        if (!price) return null;
+        Object.assign(price, {
+          review_status: status,
+          reviewed_by: reviewerId,
+          reviewed_at: now(),
+          ...(status === "confirmed" && { published: true }),
+        });
+        return { ...price };
+      },
+
+      async countByUser(userId, options) {
+        return tables.prices.filter((p) => {
+          if (p.user_id !== userId) return false;
+          if (!options?.completeReceiptsOnly) return true;
+          const receipt = receiptOf(p.receipt_id);
+          return !!receipt && receipt.status === "complete" && !receipt.is_deleted;
+        }).length;
+      },
+
+      async update(id, patch) {
+        const price = tables.prices.find((p) => p.id === id);
+        if (!price) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `price ${id} not found` });
+        }
+        if (patch.price !== undefined && !(patch.price > 0)) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "price must be greater than 0" });
+        }
+        Object.assign(price, patch);
+      },
+
+      async setPublished(ids, published) {
+        const changed = tables.prices.filter((p) => ids.includes(p.id) && !!p.published !== published);
+        for (const price of changed) price.published = published;
+        return changed.length;
+      },
+
+      async deleteMany(ids) {
+        deletePrices(ids);
+      },
+    },
+
+    receipts: {
+      async create(input) {
+        return insertReceipt(input);
+      },
+
+      // Mirrors save_receipt (migration 027): checks run before anything is written
+      async saveWithPrices(input, prices) {
+        const replay = input.idempotency_key
+          ? tables.receipts.find((r) => r.user_id === input.user_id && r.idempotency_key === input.idempotency_key)
+          : undefined;
+        if (replay) {
+          return { receipt: { ...replay }, saved: tables.prices.filter((p) => p.receipt_id === replay.id).length, replayed: true };
+        }
+        assertReceiptPrices(prices);
+        const receipt = insertReceipt(input);
+        for (const price of prices) insertPrice({ ...price, receipt_id: receipt.id });
+        return { receipt: { ...receipt }, saved: prices.length, replayed: false };
+      },
+
+      // Mirrors complete_draft (migration 027)
+      async completeDraft(id, userId, version, prices) {
+        const receipt = tables.receipts.find((r) => r.id === id && r.user_id === userId && !r.is_deleted);
+        if (!receipt) return "not_found";
+        if (receipt.status === "complete") return "already_complete";
+        if (receipt.draft_version !== version) return "stale";
+        assertReceiptPrices(prices);
+        tables.prices = tables.prices.filter((p) => p.receipt_id !== id);
+        for (const price of prices) insertPrice({ ...price, receipt_id: id });
+        Object.assign(receipt, { status: "complete", items_snapshot: null });
+        return "completed";
+      },
+
+      async list(filter) {
+        return tables.receipts
+          .filter(
+            (r) =>
+              filter.userIds.includes(r.user_id) &&
+              !r.is_deleted &&
+              r.status === filter.status &&
+              (!filter.startDate || (r.receipt_date !== null && r.receipt_date >= filter.startDate)) &&
+              (!filter.endDate || (r.receipt_date !== null && r.receipt_date <= filter.endDate))
+          )
+          .sort((a, b) => byKey<Receipt>((r) => r.receipt_date, false)(a, b) || byKey<Receipt>((r) => r.created_at, false)(a, b))
+          .slice(0, filter.limit)
+          .map((r) => ({ ...r, stores: storeOf(r.store_id) }));
+      },
+
+      async getById(id) {
+        const receipt = receiptOf(id);
+        return receipt ? { ...receipt, stores: storeOf(receipt.store_id) } : null;
+      },
+
+      async findForUser(id, userId) {
+        return tables.receipts.find((r) => r.id === id && r.user_id === userId) || null;
+      },
+
+      async update(id, patch, userId) {
+        const receipt = tables.receipts.find((r) => r.id === id && (!userId || r.user_id === userId));
+        if (receipt) Object.assign(receipt, patch);
+      },
+
+      async updateDraft(id, userId, version, patch) {
+        const draft = tables.receipts.find(
+          (r) => r.id === id && r.user_id === userId && r.status === "draft" && !r.is_deleted && r.draft_version === version
+        );
+        if (!draft) return null;
+        Object.assign(draft, patch, { draft_version: version + 1 });
+        return { ...draft };
+      },
+
+      async listForDay(userId, storeId, receiptDate) {
+        return tables.receipts.filter(
+          (r) => r.user_id === userId && r.store_id === storeId && r.receipt_date === receiptDate
+        );
+      },
+
+      async storeIdsForUsers(userIds) {
+        const ids = tables.receipts
+          .filter((r) => userIds.includes(r.user_id) && r.store_id !== null)
+          .map((r) => r.store_id as string);
+        return [...new Set(ids)];
+      },
+
+      async countByUser(userId, options) {
+        return tables.receipts.filter(
+          (r) => r.user_id === userId && (!options?.completeOnly || (r.status === "complete" && !r.is_deleted))
+        ).length;
+      },
+
+      async listRevisions(receiptId) {
+        return tables.receipt_revisions
+          .filter((r) => r.receipt_id === receiptId)
+          .sort(byKey((r) => r.version, false))
+          .map((r) => structuredClone(r));
+      },
+
+      async getRevision(receiptId, version) {
+        const revision = tables.receipt_revisions.find((r) => r.receipt_id === receiptId && r.version === version);
+        return revision ? structuredClone(revision) : null;
+      },
+
+      // Mirrors apply_receipt_edit (migration 037): everything is checked before anything changes
+      async applyEdit(receiptId, edit) {
+        const receipt = tables.receipts.find((r) => r.id === receiptId && !r.is_deleted);
+        if (!receipt) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `receipt ${receiptId} not found` });
+        const updates = edit.updates.map(({ id, patch }) => {
+          const price = tables.prices.find((p) => p.id === id && p.receipt_id === receiptId);
+          if (!price) {
+            throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `price ${id} is not on receipt ${receiptId}` });
+          }
+          if (patch.price !== undefined && !(patch.price > 0)) {
+            throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "price must be greater than 0" });
+          }
+          return { price, patch };
+        });
+        assertReceiptPrices(edit.inserts);
+
+        if (!tables.receipt_revisions.some((r) => r.receipt_id === receiptId)) {
+          insertRevision({
+            receipt_id: receiptId,
+            user_id: receipt.user_id,
+            action: "original",
+            reverted_to: null,
+            snapshot: edit.original,
+          });
+        }
+        Object.assign(receipt, edit.header);
+        for (const { price, patch } of updates) Object.assign(price, patch);
+        deletePrices(tables.prices.filter((p) => p.receipt_id === receiptId && edit.deletes.includes(p.id)).map((p) => p.id));
+        for (const price of edit.inserts) insertPrice({ ...price, receipt_id: receiptId });
+        return insertRevision({ ...edit.revision, receipt_id: receiptId, snapshot: revisionSnapshot(receipt) });
+      },
+    },
+
+    rankings: {
+      // Mirrors get_top_contributors (migration 010)
+      async topContributors(limit) {
+        const counts = new Map<string, number>();
+        for (const price of tables.prices) {
+          const receipt = receiptOf(price.receipt_id);
+          if (!receipt || receipt.status !== "complete" || receipt.is_deleted) continue;
+          counts.set(price.user_id, (counts.get(price.user_id) || 0) + 1);
+        }
+        return [...counts.entries()]
+          .map(([userId, count]) => ({ userId, count }))
+          .sort(byKey((c) => c.count, false))
+          .slice(0, limit);
+      },
+    },
+
+    votes: {
+      async counts(targetType, targetId) {
+        const votes = tables.votes.filter((v) => v.target_type === targetType && v.target_id === targetId);
+        return {
+          upvotes: votes.filter((v) => v.vote_type === "up").length,
+          downvotes: votes.filter((v) => v.vote_type === "down").length,
+        };
+      },
+
+      async countsMany(targetType, targetIds) {
+        const counts = new Map<string, VoteCounts>();
+        for (const vote of tables.votes) {
+          if (vote.target_type !== targetType || !targetIds.includes(vote.target_id)) continue;
+          const row = counts.get(vote.target_id) || { target_id: vote.target_id, upvotes: 0, downvotes: 0 };
+          if (vote.vote_type === "up") row.upvotes++;
+          else row.downvotes++;
+          counts.set(vote.target_id, row);
+        }
+        return [...counts.values()];
+      },
+
+      async getUserVote(userId, targetType, targetId) {
+        const vote = tables.votes.find(
+          (v) => v.user_id === userId && v.target_type === targetType && v.target_id === targetId
+        );
+        return vote?.vote_type || null;
+      },
+
+      async upsert(userId, targetType, targetId, voteType) {
+        const existing = tables.votes.find(
+          (v) => v.user_id === userId && v.target_type === targetType && v.target_id === targetId
+        );
+        if (existing) {
+          existing.vote_type = voteType;
+          return;
+        }
+        tables.votes.push({
+          id: randomUUID(),
+          user_id: userId,
+          target_type: targetType,
+          target_id: targetId,
+          vote_type: voteType,
+          created_at: now(),
+        });
+      },
+
+      async remove(userId, targetType, targetId) {
+        tables.votes = tables.votes.filter(
+          (v) => !(v.user_id === userId && v.target_type === targetType && v.target_id === targetId)
+        );
+      },
+    },
+
+    discussions: {
+      async list(targetType, targetId, page) {
+        const matching = tables.discussions
+          .filter((d) => d.target_type === targetType && d.target_id === targetId && !d.is_hidden && !d.is_deleted)
+          .sort(byKey((d) => d.created_at, false));
+        return {
+          rows: matching.slice(page.offset, page.offset + page.limit),
+          count: matching.length,
+        };
+      },
+
+      async create(input) {
+        const timestamp = now();
+        const row: Discussion = {
+          id: randomUUID(),
+          user_id: input.user_id,
+          target_type: input.target_type,
+          target_id: input.target_id,
+          parent_id: input.parent_id || null,
+          content: input.content,
+          is_hidden: false,
+          hidden_by: null,
+          hidden_at: null,
+          is_deleted: false,
+          deleted_at: null,
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        tables.discussions.push(row);
+        return row;
+      },
+
+      async listThreads(targetType, targetId, sort, page) {
+        const onTarget = tables.discussions.filter((d) => d.target_type === targetType && d.target_id === targetId);
+        const ids = new Set(onTarget.map((d) => d.id));
+        const live = (d: Discussion): boolean =>
+          (!d.is_hidden && !d.is_deleted) || onTarget.some((reply) => reply.parent_id === d.id && live(reply));
+        const score = (d: Discussion) =>
+          tables.votes
+            .filter((v) => v.target_type === "discussion" && v.target_id === d.id)
+            .reduce((sum, v) => sum + (v.vote_type === "up" ? 1 : -1), 0);
+        // Replies whose parent is gone count as top-level, as in the SQL function
+        const matching = onTarget
+          .filter((d) => !(d.parent_id && ids.has(d.parent_id)) && live(d))
+          .sort(byKey((d) => d.created_at, false));
+        if (sort === "top") matching.sort((a, b) => score(b) - score(a));
+        return {
+          rows: matching.slice(page.offset, page.offset + page.limit).map((d) => ({ ...d })),
+          count: matching.length,
+        };
+      },
+
+      async listReplies(parentIds) {
+        const below: Discussion[] = [];
+        let parents = new Set(parentIds);
+        while (parents.size) {
+          const replies = tables.discussions.filter((d) => d.parent_id && parents.has(d.parent_id));
+          below.push(...replies);
+          parents = new Set(replies.map((d) => d.id));
+        }
+        return below.sort(byKey((d) => d.created_at)).map((d) => ({ ...d }));
+      },
+
+      async getById(id) {
+        const discussion = tables.discussions.find((d) => d.id === id);
+        return discussion ? { ...discussion } : null;
+      },
+
+      async updateContent(id, content) {
+        const discussion = tables.discussions.find((d) => d.id === id);
+        if (!discussion) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `discussion ${id} not found` });
+        }
+        Object.assign(discussion, { content, updated_at: now() });
+        return { ...discussion };
+      },
+
+      async markDeleted(id) {
+        const discussion = tables.discussions.find((d) => d.id === id);
+        if (!discussion) return;
+        const deletedAt = now();
+        Object.assign(discussion, { is_deleted: true, deleted_at: deletedAt, content: DELETED_CONTENT, updated_at: deletedAt });
+      },
+
+      async setHidden(id, hidden, moderatorId) {
+        const discussion = tables.discussions.find((d) => d.id === id);
+        if (!discussion) return;
+        Object.assign(discussion, {
+          is_hidden: hidden,
+          hidden_by: hidden ? moderatorId : null,
+          hidden_at: hidden ? now() : null,
+        });
+      },
+    },
+
+    bookmarks: {
+      async list(userIds, page) {
+        const matching = tables.bookmarks
+          .filter((b) => userIds.includes(b.user_id))
+          .sort(byKey((b) => b.created_at, false));
+        return {
+          rows: matching
+            .slice(page.offset, page.offset + page.limit)
+            .map((b) => ({ ...b, products: productOf(b.product_id) })),
+          count: matching.length,
+        };
+      },
+
+      async upsert(input) {
+        const existing = tables.bookmarks.find(
+          (b) => b.user_id === input.user_id && b.product_id === input.product_id
+        );
+        if (existing) {
+          Object.assign(existing, input);
+          return { ...existing };
+        }
+        const row: Bookmark = {
+          id: randomUUID(),
+          store_ids: null,
+          near_latitude: null,
+          near_longitude: null,
+          radius_km: null,
+          min_drop_percent: null,
+          target_unit_price: null,
+          notify_on_sale: false,
+          lowest_in_days: null,
+          ...input,
+          created_at: now(),
+        };
+        tables.bookmarks.push(row);
+        return { ...row };
+      },
+
+      async delete(userId, productId) {
+        const removed = tables.bookmarks.filter((b) => b.user_id === userId && b.product_id === productId);
+        tables.bookmarks = tables.bookmarks.filter((b) => !removed.includes(b));
+        // ON DELETE CASCADE
+        const removedIds = removed.map((b) => b.id);
+        tables.price_alerts = tables.price_alerts.filter((a) => !a.bookmark_id || !removedIds.includes(a.bookmark_id));
+      },
+
+      async get(userId, productId) {
+        const bookmark = tables.bookmarks.find((b) => b.user_id === userId && b.product_id === productId);
+        return bookmark ? { ...bookmark } : null;
+      },
+
+      async update(userId, productId, patch) {
+        const bookmark = tables.bookmarks.find((b) => b.user_id === userId && b.product_id === productId);
+        if (!bookmark) return null;
+        Object.assign(bookmark, patch);
+        return { ...bookmark };
+      },
+    },
+
+    alerts: {
+      async list(userId, options) {
+        const matching = tables.price_alerts
+          .filter((a) => a.user_id === userId && (!options.unreadOnly || !a.is_read))
+          .sort(byKey((a) => a.created_at, false));
+        return {
+          rows: matching.slice(0, options.limit).map(withAlertDetails),
+          count: matching.length,
+        };
+      },
+
+      async markAsRead(userId, alertId) {
+        for (const alert of tables.price_alerts) {
+          if (alert.user_id !== userId) continue;
+          if (alertId && alert.id !== alertId) continue;
+          alert.is_read = true;
+        }
+      },
+
+      async listUndispatched(limit) {
+        return tables.price_alerts
+          .filter((a) => !a.dispatched_at)
+          .sort(byKey((a) => a.created_at))
+          .slice(0, limit)
+          .map(withAlertDetails);
+      },
+
+      async findByIds(ids) {
+        return tables.price_alerts
+          .filter((a) => ids.includes(a.id))
+          .sort(byKey((a) => a.created_at))
+          .map(withAlertDetails);
+      },
+
+      async markDispatched(ids) {
+        const timestamp = now();
+        for (const alert of tables.price_alerts) {
+          if (ids.includes(alert.id)) alert.dispatched_at = timestamp;
+        }
+      },
+
+      async createBudgetAlerts(inputs) {
+        const created: PriceAlert[] = [];
+        for (const input of inputs) {
+          const exists = tables.price_alerts.some(
+            (a) =>
+              a.budget_id === input.budget_id &&
+              a.period_start === input.period_start &&
+              a.threshold_percent === input.threshold_percent
+          );
+          if (exists) continue;
+          const row: PriceAlert = {
+            id: randomUUID(),
+            bookmark_id: null,
+            product_id: null,
+            price_id: null,
+            alert_type: "budget_threshold",
+            ...input,
+            is_read: false,
+            dispatched_at: null,
+            created_at: now(),
+          };
+          tables.price_alerts.push(row);
+          created.push({ ...row });
+        }
+        return created;
+      },
+
+      async createForPrice(priceId) {
+        const price = tables.prices.find((p) => p.id === priceId);
+        if (price) createPriceAlerts(price);
+      },
+    },
+
+    budgets: {
+      async list(userId) {
+        return tables.budgets
+          .filter((b) => b.user_id === userId)
+          .sort(byKey((b) => b.created_at))
+          .map((b) => ({ ...b }));
+      },
+
+      async get(id) {
+        const row = tables.budgets.find((b) => b.id === id);
+        return row ? { ...row } : null;
+      },
+
+      async create(input) {
+        const timestamp = now();
+        const row: Budget = { id: randomUUID(), ...input, created_at: timestamp, updated_at: timestamp };
+        tables.budgets.push(row);
+        return { ...row };
+      },
+
+      async update(id, patch) {
+        const row = tables.budgets.find((b) => b.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Budget not found" });
+        Object.assign(row, patch, { updated_at: now() });
+        return { ...row };
+      },
+
+      async delete(id) {
+        tables.budgets = tables.budgets.filter((b) => b.id !== id);
+        // ON DELETE CASCADE
+        tables.price_alerts = tables.price_alerts.filter((a) => a.budget_id !== id);
+      },
+    },
+
+    receiptJobs: {
+      async create(input) {
+        const timestamp = now();
+        const row: ReceiptJob = {
+          id: randomUUID(),
+          user_id: input.user_id,
+          status: "queued",
+          image_path: input.image_path,
+          provider: null,
+          result: null,
+          error: null,
+          attempts: 0,
+          created_at: timestamp,
+          updated_at: timestamp,
+          started_at: null,
+          finished_at: null,
+        };
+        tables.receipt_jobs.push(row);
+        return { ...row };
+      },
+
+      async getById(id, userId) {
+        const job = tables.receipt_jobs.find((j) => j.id === id && (!userId || j.user_id === userId));
+        return job ? { ...job } : null;
+      },
+
+      async claimNext() {
+        const job = tables.receipt_jobs
+          .filter((j) => j.status === "queued")
+          .sort(byKey((j) => j.created_at))[0];
+        if (!job) return null;
+        const timestamp = now();
+        Object.assign(job, { status: "processing", attempts: job.attempts + 1, started_at: timestamp, updated_at: timestamp });
+        return { ...job };
+      },
+
+      async update(id, patch) {
+        const job = tables.receipt_jobs.find((j) => j.id === id);
+        if (!job) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Receipt job not found" });
+        Object.assign(job, patch, { updated_at: now() });
+        return { ...job };
+      },
+
+      async requeueStale(staleBefore) {
+        const stale = tables.receipt_jobs.filter(
+          (j) => j.status === "processing" && (j.started_at || "") < staleBefore
+        );
+        for (const job of stale) Object.assign(job, { status: "queued", updated_at: now() });
+        return stale.length;
+      },
+    },
+
+    itemMatches: {
+      async record(entries) {
+        const timestamp = now();
+        for (const entry of entries) {
+          const existing = tables.receipt_item_matches.find(
+            (m) =>
+              m.user_id === entry.user_id &&
+              m.store_id === entry.store_id &&
+              m.receipt_name === entry.receipt_name &&
+              m.product_id === entry.product_id
+          );
+          if (existing) {
+            existing.times_matched++;
+            existing.last_matched_at = timestamp;
+          } else {
+            tables.receipt_item_matches.push({ id: randomUUID(), ...entry, times_matched: 1, last_matched_at: timestamp });
+          }
+        }
+      },
+
+      async listForUser(userId, receiptNames) {
+        return tables.receipt_item_matches
+          .filter((m) => m.user_id === userId && receiptNames.includes(m.receipt_name))
+          .map((m) => ({ ...m }));
+      },
+    },
+
+    abbreviations: {
+      async record(entries) {
+        const timestamp = now();
+        for (const entry of entries) {
+          const existing = tables.receipt_abbreviations.find(
+            (a) =>
+              a.store_id === entry.store_id &&
+              a.receipt_text === entry.receipt_text &&
+              a.product_id === entry.product_id
+          );
+          if (existing) {
+            existing.confirmations++;
+            existing.updated_at = timestamp;
+          } else {
+            tables.receipt_abbreviations.push({
+              id: randomUUID(),
+              ...entry,
+              confirmations: 1,
+              created_at: timestamp,
+              updated_at: timestamp,
+            });
+          }
+        }
+      },
+
+      async lookup(chain, receiptTexts) {
+        return tables.receipt_abbreviations
+          .filter((a) => a.chain === chain && receiptTexts.includes(a.receipt_text))
+          .map((a) => ({ ...a }));
+      },
+
+      async list(filter) {
+        return tables.receipt_abbreviations
+          .filter((a) => !filter.storeId || a.store_id === filter.storeId)
+          .filter((a) => !filter.chain || a.chain === filter.chain)
+          .filter((a) => !filter.query || containsText(a.receipt_text, filter.query))
+          .sort((a, b) => b.confirmations - a.confirmations || byKey<ReceiptAbbreviation>((r) => r.receipt_text)(a, b))
+          .slice(0, filter.limit)
+          .map((a) => ({ ...a, products: productOf(a.product_id), stores: storeOf(a.store_id) }));
+      },
+
+      async getById(id) {
+        const row = tables.receipt_abbreviations.find((a) => a.id === id);
+        return row ? { ...row } : null;
+      },
+
+      async update(id, patch) {
+        const row = tables.receipt_abbreviations.find((a) => a.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Receipt abbreviation not found" });
+        Object.assign(row, patch, { updated_at: now() });
+        return { ...row };
+      },
+
+      async delete(id) {
+        tables.receipt_abbreviations = tables.receipt_abbreviations.filter((a) => a.id !== id);
+      },
+    },
+
+    exchangeRates: {
+      async upsert(rates) {
+        for (const rate of rates) {
+          const existing = tables.exchange_rates.find(
+            (r) =>
+              r.base_currency === rate.base_currency &&
+              r.quote_currency === rate.quote_currency &&
+              r.rate_date === rate.rate_date
+          );
+          if (existing) {
+            Object.assign(existing, rate);
+          } else {
+            tables.exchange_rates.push({ id: randomUUID(), ...rate, created_at: now() });
+          }
+        }
+        return rates.length;
+      },
+
+      async list(filter) {
+        const rows = tables.exchange_rates
+          .filter(
+            (r) =>
+              !filter.currencies ||
+              filter.currencies.includes(r.base_currency) ||
+              filter.currencies.includes(r.quote_currency)
+          )
+          .filter((r) => (!filter.from || r.rate_date >= filter.from) && (!filter.until || r.rate_date <= filter.until))
+          .sort(byKey((r) => r.rate_date, false));
+        return (filter.limit ? rows.slice(0, filter.limit) : rows).map((r) => ({ ...r }));
+      },
+    },
+
+    shoppingLists: {
+      async list(userId) {
+        return tables.shopping_lists
+          .filter((l) => l.user_id === userId)
+          .sort(byKey((l) => l.updated_at, false))
+          .map((l) => ({ ...l }));
+      },
+
+      async get(id, userId) {
+        const list = tables.shopping_lists.find((l) => l.id === id && l.user_id === userId);
+        if (!list) return null;
+        const items = tables.shopping_list_items
+          .filter((i) => i.list_id === id)
+          .sort(byKey((i) => i.created_at))
+          .map((i) => ({ ...i, products: productOf(i.product_id) }));
+        return { ...list, items };
+      },
+
+      async create(userId, name) {
+        const timestamp = now();
+        const row: ShoppingList = { id: randomUUID(), user_id: userId, name, created_at: timestamp, updated_at: timestamp };
+        tables.shopping_lists.push(row);
+        return { ...row };
+      },
+
+      async update(id, patch) {
+        const row = tables.shopping_lists.find((l) => l.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Shopping list not found" });
+        Object.assign(row, patch, { updated_at: now() });
+        return { ...row };
+      },
+
+      async delete(id) {
+        tables.shopping_lists = tables.shopping_lists.filter((l) => l.id !== id);
+        tables.shopping_list_items = tables.shopping_list_items.filter((i) => i.list_id !== id);
+      },
+
+      async upsertItem(input) {
+        const list = tables.shopping_lists.find((l) => l.id === input.list_id);
+        if (list) list.updated_at = now();
+        const existing = tables.shopping_list_items.find(
+          (i) => i.list_id === input.list_id && i.product_id === input.product_id
+        );
+        if (existing) {
+          Object.assign(existing, { quantity: input.quantity, note: input.note ?? existing.note });
+          return { ...existing };
+        }
+        const row: ShoppingListItem = {
+          id: randomUUID(),
+          list_id: input.list_id,
+          product_id: input.product_id,
+          quantity: input.quantity,
+          note: input.note ?? null,
+          checked: false,
+          created_at: now(),
+        };
+        tables.shopping_list_items.push(row);
+        return { ...row };
+      },
+
+      async updateItem(itemId, patch) {
+        const row = tables.shopping_list_items.find((i) => i.id === itemId);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Shopping list item not found" });
+        Object.assign(row, patch);
+        const list = tables.shopping_lists.find((l) => l.id === row.list_id);
+        if (list) list.updated_at = now();
+        return { ...row };
+      },
+
+      async removeItem(itemId) {
+        tables.shopping_list_items = tables.shopping_list_items.filter((i) => i.id !== itemId);
+      },
+    },
+
+    notifications: {
+      async getPreferences(userId) {
+        const row = tables.notification_preferences.find((p) => p.user_id === userId);
+        return row ? { ...row } : null;
+      },
+
+      async upsertPreferences(userId, patch) {
+        let row = tables.notification_preferences.find((p) => p.user_id === userId);
+        if (!row) {
+          row = {
+            user_id: userId,
+            delivery_mode: "instant",
+            digest_time: "08:00",
+            timezone: "UTC",
+            quiet_hours_start: null,
+            quiet_hours_end: null,
+            last_digest_on: null,
+            updated_at: now(),
+          };
+          tables.notification_preferences.push(row);
+        }
+        Object.assign(row, patch, { updated_at: now() });
+        return { ...row };
+      },
+
+      async listEndpoints(userId) {
+        return tables.notification_endpoints
+          .filter((e) => e.user_id === userId)
+          .sort(byKey((e) => e.created_at))
+          .map((e) => ({ ...e }));
+      },
+
+      async getEndpoint(id) {
+        const row = tables.notification_endpoints.find((e) => e.id === id);
+        return row ? { ...row } : null;
+      },
+
+      async upsertEndpoint(input) {
+        const existing = tables.notification_endpoints.find(
+          (e) => e.user_id === input.user_id && e.channel === input.channel && e.address === input.address
+        );
+        if (existing) {
+          Object.assign(existing, { config: input.config ?? null, enabled: true });
+          return { ...existing };
+        }
+        const row: NotificationEndpoint = {
+          id: randomUUID(),
+          user_id: input.user_id,
+          channel: input.channel,
+          address: input.address,
+          config: input.config ?? null,
+          enabled: true,
+          created_at: now(),
+        };
+        tables.notification_endpoints.push(row);
+        return { ...row };
+      },
+
+      async updateEndpoint(id, patch) {
+        const row = tables.notification_endpoints.find((e) => e.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Notification endpoint not found" });
+        Object.assign(row, patch);
+        return { ...row };
+      },
+
+      async deleteEndpoint(id) {
+        tables.notification_endpoints = tables.notification_endpoints.filter((e) => e.id !== id);
+        for (const delivery of tables.notification_deliveries) {
+          if (delivery.endpoint_id === id) delivery.endpoint_id = null;
+        }
+      },
+
+      async createDeliveries(inputs) {
+        const rows = inputs.map((input): NotificationDelivery => {
+          const timestamp = now();
+          return {
+            id: randomUUID(),
+            ...input,
+            status: "pending",
+            attempts: 0,
+            last_error: null,
+            sent_at: null,
+            created_at: timestamp,
+          };
+        });
+        tables.notification_deliveries.push(...rows);
+        return rows.map((r) => ({ ...r }));
+      },
+
+      async listDueDeliveries(at, limit) {
+        return tables.notification_deliveries
+          .filter((d) => d.status === "pending" && d.next_attempt_at <= at)
+          .sort(byKey((d) => d.next_attempt_at))
+          .slice(0, limit)
+          .map((d) => ({ ...d }));
+      },
+
+      async updateDelivery(id, patch) {
+        const row = tables.notification_deliveries.find((d) => d.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Notification delivery not found" });
+        Object.assign(row, patch);
+        return { ...row };
+      },
+
+      async listDeliveries(userId, limit) {
+        return tables.notification_deliveries
+          .filter((d) => d.user_id === userId)
+          .sort(byKey((d) => d.created_at, false))
+          .slice(0, limit)
+          .map((d) => ({ ...d }));
+      },
+    },
+
+    sharing: {
+      async getPreferences(userId) {
+        const row = tables.sharing_preferences.find((p) => p.user_id === userId);
+        return row ? { ...row } : null;
+      },
+
+      async upsertPreferences(userId, patch) {
+        let row = tables.sharing_preferences.find((p) => p.user_id === userId);
+        if (!row) {
+          row = { user_id: userId, publish_prices: true, updated_at: now() };
+          tables.sharing_preferences.push(row);
+        }
+        Object.assign(row, patch, { updated_at: now() });
+        return { ...row };
+      },
+    },
+
+    households: {
+      async create(name, ownerId) {
+        const row: Household = { id: randomUUID(), name, created_by: ownerId, created_at: now() };
+        tables.households.push(row);
+        tables.household_members.push({ household_id: row.id, user_id: ownerId, role: "owner", joined_at: now() });
+        return { ...row };
+      },
+
+      async get(id) {
+        const row = tables.households.find((h) => h.id === id);
+        return row ? { ...row } : null;
+      },
+
+      async rename(id, name) {
+        const row = tables.households.find((h) => h.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Household not found" });
+        row.name = name;
+        return { ...row };
+      },
+
+      async delete(id) {
+        tables.households = tables.households.filter((h) => h.id !== id);
+        // ON DELETE CASCADE
+        tables.household_members = tables.household_members.filter((m) => m.household_id !== id);
+        tables.household_invitations = tables.household_invitations.filter((i) => i.household_id !== id);
+      },
+
+      async listForUser(userId) {
+        return tables.household_members
+          .filter((m) => m.user_id === userId)
+          .sort(byKey((m) => m.joined_at))
+          .flatMap((m) => {
+            const household = tables.households.find((h) => h.id === m.household_id);
+            return household ? [{ ...household, role: m.role }] : [];
+          });
+      },
+
+      async listMembers(householdId) {
+        return tables.household_members
+          .filter((m) => m.household_id === householdId)
+          .sort(byKey((m) => m.joined_at))
+          .map((m) => ({ ...m }));
+      },
+
+      async getMember(householdId, userId) {
+        const row = tables.household_members.find((m) => m.household_id === householdId && m.user_id === userId);
+        return row ? { ...row } : null;
+      },
+
+      async addMember(householdId, userId, role) {
+        const row: HouseholdMember = { household_id: householdId, user_id: userId, role, joined_at: now() };
+        tables.household_members.push(row);
+        return { ...row };
+      },
+
+      async updateMember(householdId, userId, role) {
+        const row = tables.household_members.find((m) => m.household_id === householdId && m.user_id === userId);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Household member not found" });
+        row.role = role;
+        return { ...row };
+      },
+
+      async removeMember(householdId, userId) {
+        tables.household_members = tables.household_members.filter(
+          (m) => !(m.household_id === householdId && m.user_id === userId)
+        );
+      },
+
+      async createInvitation(input) {
+        const row: HouseholdInvitation = {
+          id: randomUUID(),
+          ...input,
+          accepted_by: null,
+          accepted_at: null,
+          revoked_at: null,
+          created_at: now(),
+        };
+        tables.household_invitations.push(row);
+        return { ...row };
+      },
+
+      async findInvitationByCode(code) {
+        const row = tables.household_invitations.find((i) => i.code === code);
+        return row ? { ...row } : null;
+      },
+
+      async getInvitation(id) {
+        const row = tables.household_invitations.find((i) => i.id === id);
+        return row ? { ...row } : null;
+      },
+
+      async listOpenInvitations(householdId) {
+        return tables.household_invitations
+          .filter((i) => i.household_id === householdId && !i.accepted_at && !i.revoked_at)
+          .sort(byKey((i) => i.created_at, false))
+          .map((i) => ({ ...i }));
+      },
+
+      async updateInvitation(id, patch) {
+        const row = tables.household_invitations.find((i) => i.id === id);
+        if (!row) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Household invitation not found" });
+        Object.assign(row, patch);
+        return { ...row };
+      },
+    },
+
+    moderation: {
+      async report(input) {
+        const existing = tables.content_reports.find(
+          (r) =>
+            r.reporter_id === input.reporter_id &&
+            r.target_type === input.target_type &&
+            r.target_id === input.target_id &&
+            r.status === "open"
+        );
+        if (existing) {
+          Object.assign(existing, { reason: input.reason, details: input.details ?? null });
+          return { ...existing };
+        }
+        const row: ContentReport = {
+          id: randomUUID(),
+          reporter_id: input.reporter_id,
+          target_type: input.target_type,
+          target_id: input.target_id,
+          reason: input.reason,
+          details: input.details ?? null,
+          status: "open",
+          resolved_by: null,
+          resolved_at: null,
+          created_at: now(),
+        };
+        tables.content_reports.push(row);
+        return { ...row };
+      },
+
+      // Mirrors moderation_queue (migration 031)
+      async queue(targetType, limit) {
+        const targets = new Map<string, ContentReport[]>();
+        for (const report of tables.content_reports) {
+          if (report.status !== "open" || (targetType && report.target_type !== targetType)) continue;
+          const key = `${report.target_type}:${report.target_id}`;
+          targets.set(key, [...(targets.get(key) || []), report]);
+        }
+        return [...targets.values()]
+          .map((reports) => ({
+            target_type: reports[0].target_type,
+            target_id: reports[0].target_id,
+            report_count: reports.length,
+            reasons: [...new Set(reports.map((r) => r.reason))].sort(),
+            first_reported_at: reports[0].created_at,
+            last_reported_at: reports[reports.length - 1].created_at,
+          }))
+          .sort((a, b) => b.report_count - a.report_count || a.first_reported_at.localeCompare(b.first_reported_at))
+          .slice(0, limit);
+      },
+
+      async openReportCount(targetType, targetId) {
+        return tables.content_reports.filter(
+          (r) => r.target_type === targetType && r.target_id === targetId && r.status === "open"
+        ).length;
+      },
+
+      async closeReports(targetType, targetId, status, moderatorId) {
+        const open = tables.content_reports.filter(
+          (r) => r.target_type === targetType && r.target_id === targetId && r.status === "open"
+        );
+        const resolvedAt = now();
+        for (const report of open) Object.assign(report, { status, resolved_by: moderatorId, resolved_at: resolvedAt });
+        return open.length;
+      },
+
+      async logAction(input) {
+        const row: ModerationAction = {
+          ...input,
+          previous_state: input.previous_state ?? null,
+          id: randomUUID(),
+          created_at: now(),
+        };
+        tables.moderation_actions.push(row);
+        return { ...row };
+      },
+
+      async listActions(targetType, targetId) {
+        return tables.moderation_actions
+          .filter((a) => a.target_type === targetType && a.target_id === targetId)
+          .sort(byKey((a) => a.created_at, false));
+      },
+    },
+
+    storage: {
+      async uploadReceiptImage() {
+        // No remote bucket in memory mode; the local uploads/ copy is the only one
+        return null;
+      },
+    },
+  };
+}
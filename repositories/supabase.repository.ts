@@ -0,0 +1,1547 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { TRPCError } from "../trpc";
+import type {
+  Product,
+  Store,
+  Price,
+  PriceWithDetails,
+  Receipt,
+  ReceiptWithDetails,
+  Vote,
+  Discussion,
+  Bookmark,
+  PriceAlert,
+  ReceiptJob,
+  ReceiptRevision,
+  ReceiptItemMatch,
+  ReceiptAbbreviation,
+  ProductMerge,
+  ExchangeRate,
+  ShoppingList,
+  ShoppingListItem,
+  NotificationPreferences,
+  SharingPreferences,
+  NotificationEndpoint,
+  NotificationDelivery,
+  Household,
+  HouseholdMember,
+  HouseholdInvitation,
+  Budget,
+  ContentReport,
+  ModerationAction,
+} from "../supabase";
+import type {
+  Repository,
+  BookmarkWithProduct,
+  PriceAlertWithProduct,
+  ReceiptAbbreviationWithDetails,
+  ShoppingListWithItems,
+  PriceTrendBucket,
+  PriceChange,
+  PricePercentile,
+  PriceTrust,
+  PriceStats,
+  ReportedTarget,
+  VoteCounts,
+  ReceiptSaveResult,
+  DraftCompletion,
+} from "./types";
+
+// Surface PostgREST errors the same way the routers always have
+function fail(error: { message: string }): never {
+  throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+}
+
+// PostgREST filter for the prices a viewer may see (see PricesRepository)
+const visibleTo = (viewerId: string | null) =>
+  viewerId ? `published.eq.true,user_id.eq.${viewerId}` : "published.eq.true";
+
+// Stands in for a deleted discussion's text (discussions.content may not be empty)
+const DELETED_CONTENT = "[deleted]";
+
+export function createSupabaseRepository(db: SupabaseClient): Repository {
+  return {
+    kind: "supabase",
+
+    products: {
+      async list(limit) {
+        const { data } = await db.from("products").select("*").order("name").limit(limit);
+        return (data || []) as Product[];
+      },
+
+      async search(query, limit) {
+        const { data } = await db
+          .from("products")
+          .select("*")
+          .or(`name.ilike.%${query}%,barcode.eq.${query}`)
+          .limit(limit);
+        return (data || []) as Product[];
+      },
+
+      async findByBarcode(barcode) {
+        const { data } = await db.from("products").select("*").eq("barcode", barcode).single();
+        return (data || null) as Product | null;
+      },
+
+      async findByName(name) {
+        const { data } = await db.from("products").select("*").ilike("name", name).single();
+        return (data || null) as Product | null;
+      },
+
+      async findByIds(ids) {
+        if (ids.length === 0) return [];
+        const { data } = await db.from("products").select("*").in("id", ids);
+        return (data || []) as Product[];
+      },
+
+      async findCandidates(terms, limit) {
+        // Terms end up inside a PostgREST filter string, so keep them plain
+        const safe = terms.map((t) => t.replace(/[^\p{L}\p{N} ]/gu, "").trim()).filter(Boolean);
+        if (safe.length === 0) return [];
+        const { data } = await db
+          .from("products")
+          .select("*")
+          .or(safe.flatMap((t) => [`name.ilike.%${t}%`, `alternative_name.ilike.%${t}%`]).join(","))
+          .limit(limit);
+        return (data || []) as Product[];
+      },
+
+      async create(input) {
+        const { data, error } = await db
+          .from("products")
+          .insert({
+            name: input.name,
+            barcode: input.barcode || null,
+            category: input.category || null,
+            image_url: input.image_url || null,
+          })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as Product;
+      },
+
+      async merge(sourceId, targetId, mergedBy) {
+        const { data, error } = await db.rpc("merge_products", {
+          p_source_id: sourceId,
+          p_target_id: targetId,
+          p_merged_by: mergedBy,
+        });
+        if (error) fail(error);
+        return data as ProductMerge;
+      },
+
+      async listMerges(productId) {
+        const { data } = await db
+          .from("product_merges")
+          .select("*")
+          .or(`source_product_id.eq.${productId},target_product_id.eq.${productId}`)
+          .order("created_at", { ascending: false });
+        return (data || []) as ProductMerge[];
+      },
+    },
+
+    stores: {
+      async list() {
+        const { data } = await db.from("stores").select("*").eq("is_deleted", false).order("name");
+        return (data || []) as Store[];
+      },
+
+      async nearby(latitude, longitude, radiusKm) {
+        // Using PostGIS ST_DWithin for radius search
+        const { data, error } = await db.rpc("stores_nearby", {
+          lat: latitude,
+          lng: longitude,
+          radius_km: radiusKm,
+        });
+
+        if (error) {
+          console.warn("PostGIS query failed, falling back to basic query:", error.message);
+          // Fallback: return all stores (for development without PostGIS)
+          const { data: allStores } = await db.from("stores").select("*").eq("is_deleted", false);
+          return (allStores || []) as Store[];
+        }
+
+        return (data || []) as Store[];
+      },
+
+      async getById(id) {
+        const { data } = await db
+          .from("stores")
+          .select("*")
+          .eq("id", id)
+          .eq("is_deleted", false)
+          .maybeSingle();
+        return (data || null) as Store | null;
+      },
+
+      async findByIds(ids) {
+        if (ids.length === 0) return [];
+        const { data } = await db.from("stores").select("*").in("id", ids).eq("is_deleted", false);
+        return (data || []) as Store[];
+      },
+
+      async findByName(name) {
+        const { data } = await db
+          .from("stores")
+          .select("*")
+          .ilike("name", name)
+          .eq("is_deleted", false)
+          .maybeSingle();
+        return (data || null) as Store | null;
+      },
+
+      async findByNameLike(name) {
+        const { data } = await db
+          .from("stores")
+          .select("*")
+          .ilike("name", `%${name}%`)
+          .eq("is_deleted", false)
+          .limit(1)
+          .single();
+        return (data || null) as Store | null;
+      },
+
+      async findNear(latitude, longitude, delta) {
+        const { data } = await db
+          .from("stores")
+          .select("*")
+          .eq("is_deleted", false)
+          .gte("latitude", latitude - delta)
+          .lte("latitude", latitude + delta)
+          .gte("longitude", longitude - delta)
+          .lte("longitude", longitude + delta)
+          .limit(1)
+          .maybeSingle();
+        return (data || null) as Store | null;
+      },
+
+      async create(input) {
+        const { data, error } = await db
+          .from("stores")
+          .insert({
+            name: input.name,
+            address: input.address || null,
+            latitude: input.latitude,
+            longitude: input.longitude,
+            created_by: input.created_by ?? null,
+          })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as Store;
+      },
+
+      async softDelete(id) {
+        const { error } = await db.from("stores").update({ is_deleted: true }).eq("id", id);
+        if (error) fail(error);
+      },
+
+      async findWithDeleted(id) {
+        const { data } = await db.from("stores").select("*").eq("id", id).maybeSingle();
+        return (data || null) as Store | null;
+      },
+
+      async restore(id) {
+        const { error } = await db.from("stores").update({ is_deleted: false }).eq("id", id);
+        if (error) fail(error);
+      },
+    },
+
+    prices: {
+      async create(input) {
+        const { data, error } = await db
+          .from("prices")
+          .insert(input)
+          .select("*, products(*), stores(*)")
+          .single();
+        if (error) fail(error);
+        return data as PriceWithDetails;
+      },
+
+      async createMany(inputs) {
+        const { data, error } = await db.from("prices").insert(inputs).select();
+        if (error) fail(error);
+        return (data || []) as Price[];
+      },
+
+      async findById(id) {
+        const { data } = await db.from("prices").select("*").eq("id", id).maybeSingle();
+        return (data || null) as Price | null;
+      },
+
+      async findForUser(id, userId) {
+        const { data } = await db.from("prices").select("*").eq("id", id).eq("user_id", userId).maybeSingle();
+        return (data || null) as Price | null;
+      },
+
+      async history(productId, limit, viewerId) {
+        const { data } = await db
+          .from("prices")
+          .select("*, stores(name)")
+          .eq("product_id", productId)
+          .or(visibleTo(viewerId))
+          .order("detected_at", { ascending: true })
+          .limit(limit);
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async listByProduct(productId, viewerId) {
+        const { data } = await db
+          .from("prices")
+          .select("*, stores(*)")
+          .eq("product_id", productId)
+          .or(visibleTo(viewerId))
+          .order("detected_at", { ascending: false });
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async recent(limit, viewerId) {
+        const { data } = await db
+          .from("prices")
+          .select("*, products(*), stores(*)")
+          .or(visibleTo(viewerId))
+          .order("detected_at", { ascending: false })
+          .limit(limit);
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async listByStore(storeId, userId, limit) {
+        const { data } = await db
+          .from("prices")
+          .select("*, products(*)")
+          .eq("store_id", storeId)
+          .eq("user_id", userId)
+          .order("detected_at", { ascending: false })
+          .limit(limit);
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async listByReceipt(receiptId) {
+        const { data } = await db
+          .from("prices")
+          .select("*, products(*)")
+          .eq("receipt_id", receiptId)
+          .order("detected_at", { ascending: false });
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async listByUser(userId, limit) {
+        const { data } = await db
+          .from("prices")
+          .select("*, products(*), stores(*)")
+          .eq("user_id", userId)
+          .order("detected_at", { ascending: false })
+          .limit(limit);
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async listPurchasesAtStore(userIds, storeId, since) {
+        let query = db.from("purchases").select("*").eq("store_id", storeId).in("user_id", userIds);
+        if (since) query = query.gte("detected_at", since);
+        const { data } = await query;
+        return (data || []) as Price[];
+      },
+
+      async listPurchases(filter) {
+        let query = db
+          .from("purchases")
+          .select("*, products(*), stores(*)")
+          .in("user_id", filter.userIds)
+          .order("purchased_at", { ascending: true });
+        if (filter.from) query = query.gte("purchased_at", `${filter.from}T00:00:00Z`);
+        if (filter.until) query = query.lte("purchased_at", `${filter.until}T23:59:59.999Z`);
+        if (filter.storeId) query = query.eq("store_id", filter.storeId);
+        const { data, error } = await query;
+        if (error) fail(error);
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async latestForProducts(productIds, storeIds, viewerId) {
+        if (productIds.length === 0 || storeIds.length === 0) return [];
+        const { data } = await db.rpc("latest_prices", {
+          product_ids: productIds,
+          store_ids: storeIds,
+          p_viewer_id: viewerId,
+        });
+        return (data || []) as Price[];
+      },
+
+      async trendBuckets(filter) {
+        const { data, error } = await db.rpc("price_trend_buckets", {
+          p_product_id: filter.productId,
+          p_interval: filter.interval,
+          p_from: filter.from ?? null,
+          p_until: filter.until ?? null,
+          p_store_id: filter.storeId ?? null,
+          p_currency: filter.currency ?? null,
+          p_moving_average: filter.movingAverage,
+          p_viewer_id: filter.viewerId,
+        });
+        if (error) fail(error);
+        return ((data || []) as PriceTrendBucket[]).map((row) => ({
+          ...row,
+          min_price: Number(row.min_price),
+          median_price: Number(row.median_price),
+          max_price: Number(row.max_price),
+          avg_price: Number(row.avg_price),
+          moving_average: Number(row.moving_average),
+        }));
+      },
+
+      async percentChanges(filter) {
+        const { data, error } = await db.rpc("price_percent_changes", {
+          p_product_id: filter.productId,
+          p_windows: filter.windowsDays,
+          p_as_of: filter.asOf,
+          p_store_id: filter.storeId ?? null,
+          p_currency: filter.currency ?? null,
+          p_viewer_id: filter.viewerId,
+        });
+        if (error) fail(error);
+        const numberOrNull = (value: number | null) => (value === null ? null : Number(value));
+        return ((data || []) as PriceChange[]).map((row) => ({
+          window_days: row.window_days,
+          current_median: numberOrNull(row.current_median),
+          previous_median: numberOrNull(row.previous_median),
+          percent_change: numberOrNull(row.percent_change),
+        }));
+      },
+
+      async percentile(filter) {
+        const { data, error } = await db.rpc("price_percentile", {
+          p_product_id: filter.productId,
+          p_price: filter.price,
+          p_since: filter.since ?? null,
+          p_store_id: filter.storeId ?? null,
+          p_currency: filter.currency ?? null,
+          p_viewer_id: filter.viewerId,
+        });
+        if (error) fail(error);
+        const row = ((data || []) as PricePercentile[])[0];
+        return {
+          percentile: row?.percentile === null || row?.percentile === undefined ? null : Number(row.percentile),
+          cheaper_count: row?.cheaper_count ?? 0,
+          total_count: row?.total_count ?? 0,
+        };
+      },
+
+      async trust(priceIds, asOf) {
+        if (priceIds.length === 0) return [];
+        const { data, error } = await db.rpc("price_trust", { p_price_ids: priceIds, p_as_of: asOf });
+        if (error) fail(error);
+        return ((data || []) as PriceTrust[]).map((row) => ({
+          price_id: row.price_id,
+          score: Number(row.score),
+          upvotes: row.upvotes,
+          downvotes: row.downvotes,
+          votes_factor: Number(row.votes_factor),
+          outlier_factor: Number(row.outlier_factor),
+          reputation_factor: Number(row.reputation_factor),
+          receipt_factor: Number(row.receipt_factor),
+          age_factor: Number(row.age_factor),
+        }));
+      },
+
+      async stats(filter) {
+        const { data, error } = await db.rpc("price_robust_stats", {
+          p_product_id: filter.productId,
+          p_currency: filter.currency,
+          p_canonical_unit: filter.canonicalUnit,
+          p_user_id: filter.userId,
+          p_own: filter.own,
+        });
+        if (error) fail(error);
+        const row = ((data || []) as PriceStats[])[0];
+        return {
+          sample_count: row?.sample_count ?? 0,
+          median: row?.median === null || row?.median === undefined ? null : Number(row.median),
+          mad: row?.mad === null || row?.mad === undefined ? null : Number(row.mad),
+        };
+      },
+
+      async reviewCounts(userId) {
+        const { data } = await db
+          .from("prices")
+          .select("review_status")
+          .eq("user_id", userId)
+          .not("review_status", "is", null);
+        const statuses = ((data || []) as Pick<Price, "review_status">[]).map((row) => row.review_status);
+        return {
+          pending: statuses.filter((s) => s === "pending").length,
+          confirmed: statuses.filter((s) => s === "confirmed").length,
+          rejected: statuses.filter((s) => s === "rejected").length,
+        };
+      },
+
+      async listPendingReview(limit) {
+        const { data } = await db
+          .from("prices")
+          .select("*, products(*), stores(*)")
+          .eq("review_status", "pending")
+          .order("detected_at", { ascending: true })
+          .limit(limit);
+        return (data || []) as PriceWithDetails[];
+      },
+
+      async resolveReview(id, status, reviewerId) {
+        const { data, error } = await db
+          .from("prices")
+          .update({
+            review_status: status,
+            reviewed_by: reviewerId,
+            reviewed_at: new Date().toISOString(),
+            ...(status === "confirmed" && { published: true }),
+          })
+          .eq("id", id)
+          .eq("review_status", "pending")
+          .select()
+          .maybeSingle();
+        if (error) fail(error);
+        return (data || null) as Price | null;
+      },
+
+      async countByUser(userId, options) {
+        if (options?.completeReceiptsOnly) {
+          const { count } = await db
+            .from("prices")
+            .select("*, receipts!inner(*)", { count: "exact", head: true })
+            .eq("user_id", userId)
+            .eq("receipts.status", "complete")
+            .eq("receipts.is_deleted", false);
+          return count || 0;
+        }
+        const { count } = await db
+          .from("prices")
+          .select("*", { count: "exact", head: true })
+          .eq("user_id", userId);
+        return count || 0;
+      },
+
+      async update(id, patch) {
+        const { error } = await db.from("prices").update(patch).eq("id", id);
+        if (error) fail(error);
+      },
+
+      async setPublished(ids, published) {
+        if (ids.length === 0) return 0;
+        const { data, error } = await db
+          .from("prices")
+          .update({ published })
+          .in("id", ids)
+          .neq("published", published)
+          .select("id");
+        if (error) fail(error);
+        return (data || []).length;
+      },
+
+      async deleteMany(ids) {
+        if (ids.length === 0) return;
+        const { error } = await db.from("prices").delete().in("id", ids);
+        if (error) fail(error);
+      },
+    },
+
+    receipts: {
+      async create(input) {
+        const { data, error } = await db.from("receipts").insert(input).select().single();
+        if (error) fail(error);
+        return data as Receipt;
+      },
+
+      async saveWithPrices(input, prices) {
+        const { data, error } = await db.rpc("save_receipt", { p_receipt: input, p_prices: prices });
+        if (error) fail(error);
+        return data as ReceiptSaveResult;
+      },
+
+      async completeDraft(id, userId, version, prices) {
+        const { data, error } = await db.rpc("complete_draft", {
+          p_receipt_id: id,
+          p_user_id: userId,
+          p_version: version,
+          p_prices: prices,
+        });
+        if (error) fail(error);
+        return data as DraftCompletion;
+      },
+
+      async list(filter) {
+        let query = db
+          .from("receipts")
+          .select("*, stores(*)")
+          .in("user_id", filter.userIds)
+          .eq("is_deleted", false)
+          .eq("status", filter.status);
+
+        if (filter.startDate) query = query.gte("receipt_date", filter.startDate);
+        if (filter.endDate) query = query.lte("receipt_date", filter.endDate);
+
+        const { data } = await query
+          .order("receipt_date", { ascending: false })
+          .order("created_at", { ascending: false })
+          .limit(filter.limit);
+        return (data || []) as ReceiptWithDetails[];
+      },
+
+      async getById(id) {
+        const { data } = await db.from("receipts").select("*, stores(*)").eq("id", id).single();
+        return (data || null) as ReceiptWithDetails | null;
+      },
+
+      async findForUser(id, userId) {
+        const { data } = await db
+          .from("receipts")
+          .select("*")
+          .eq("id", id)
+          .eq("user_id", userId)
+          .single();
+        return (data || null) as Receipt | null;
+      },
+
+      async update(id, patch, userId) {
+        let query = db.from("receipts").update(patch).eq("id", id);
+        if (userId) query = query.eq("user_id", userId);
+        const { error } = await query;
+        if (error) fail(error);
+      },
+
+      // One conditional UPDATE, so concurrent edits of the same version cannot both succeed
+      async updateDraft(id, userId, version, patch) {
+        const { data, error } = await db
+          .from("receipts")
+          .update({ ...patch, draft_version: version + 1 })
+          .eq("id", id)
+          .eq("user_id", userId)
+          .eq("status", "draft")
+          .eq("is_deleted", false)
+          .eq("draft_version", version)
+          .select()
+          .maybeSingle();
+        if (error) fail(error);
+        return (data || null) as Receipt | null;
+      },
+
+      async listForDay(userId, storeId, receiptDate) {
+        const { data } = await db
+          .from("receipts")
+          .select("*")
+          .eq("user_id", userId)
+          .eq("store_id", storeId)
+          .eq("receipt_date", receiptDate);
+        return (data || []) as Receipt[];
+      },
+
+      async storeIdsForUsers(userIds) {
+        const { data } = await db
+          .from("receipts")
+          .select("store_id")
+          .in("user_id", userIds)
+          .not("store_id", "is", null);
+        return [...new Set((data || []).map((r) => r.store_id as string))];
+      },
+
+      async countByUser(userId, options) {
+        let query = db
+          .from("receipts")
+          .select("*", { count: "exact", head: true })
+          .eq("user_id", userId);
+        if (options?.completeOnly) query = query.eq("status", "complete").eq("is_deleted", false);
+        const { count } = await query;
+        return count || 0;
+      },
+
+      async listRevisions(receiptId) {
+        const { data } = await db
+          .from("receipt_revisions")
+          .select("*")
+          .eq("receipt_id", receiptId)
+          .order("version", { ascending: false });
+        return (data || []) as ReceiptRevision[];
+      },
+
+      async getRevision(receiptId, version) {
+        const { data } = await db
+          .from("receipt_revisions")
+          .select("*")
+          .eq("receipt_id", receiptId)
+          .eq("version", version)
+          .maybeSingle();
+        return (data || null) as ReceiptRevision | null;
+      },
+
+      async applyEdit(receiptId, edit) {
+        const { data, error } = await db.rpc("apply_receipt_edit", {
+          p_receipt_id: receiptId,
+          p_header: edit.header,
+          p_updates: edit.updates,
+          p_deletes: edit.deletes,
+          p_inserts: edit.inserts,
+          p_original: edit.original,
+          p_user_id: edit.revision.user_id,
+          p_action: edit.revision.action,
+          p_reverted_to: edit.revision.reverted_to,
+        });
+        if (error) fail(error);
+        return data as ReceiptRevision;
+      },
+    },
+
+    rankings: {
+      async topContributors(limit) {
+        const { data, error } = await db.rpc("get_top_contributors", { lim: limit });
+        if (error) {
+          console.error("Ranking RPC failed:", error.message);
+          return [];
+        }
+        return (data || []) as { userId: string; count: number }[];
+      },
+    },
+
+    votes: {
+      async counts(targetType, targetId) {
+        const { data, error } = await db.rpc("get_vote_counts", {
+          p_target_type: targetType,
+          p_target_id: targetId,
+        });
+
+        if (error) {
+          // Fallback if RPC fails
+          const { data: votes } = await db
+            .from("votes")
+            .select("vote_type")
+            .eq("target_type", targetType)
+            .eq("target_id", targetId);
+
+          const upvotes = votes?.filter((v) => v.vote_type === "up").length || 0;
+          const downvotes = votes?.filter((v) => v.vote_type === "down").length || 0;
+          return { upvotes, downvotes };
+        }
+
+        return {
+          upvotes: Number(data[0]?.upvotes || 0),
+          downvotes: Number(data[0]?.downvotes || 0),
+        };
+      },
+
+      async countsMany(targetType, targetIds) {
+        if (targetIds.length === 0) return [];
+        const { data, error } = await db.rpc("get_vote_counts", {
+          p_target_type: targetType,
+          p_target_ids: targetIds,
+        });
+        if (error) fail(error);
+        return ((data || []) as VoteCounts[]).map((row) => ({
+          target_id: row.target_id,
+          upvotes: Number(row.upvotes),
+          downvotes: Number(row.downvotes),
+        }));
+      },
+
+      async getUserVote(userId, targetType, targetId) {
+        const { data } = await db
+          .from("votes")
+          .select("vote_type")
+          .eq("user_id", userId)
+          .eq("target_type", targetType)
+          .eq("target_id", targetId)
+          .maybeSingle();
+        return (data?.vote_type || null) as Vote["vote_type"] | null;
+      },
+
+      async upsert(userId, targetType, targetId, voteType) {
+        const { error } = await db.from("votes").upsert(
+          {
+            user_id: userId,
+            target_type: targetType,
+            target_id: targetId,
+            vote_type: voteType,
+          },
+          { onConflict: "user_id,target_type,target_id" }
+        );
+        if (error) fail(error);
+      },
+
+      async remove(userId, targetType, targetId) {
+        const { error } = await db
+          .from("votes")
+          .delete()
+          .eq("user_id", userId)
+          .eq("target_type", targetType)
+          .eq("target_id", targetId);
+        if (error) fail(error);
+      },
+    },
+
+    discussions: {
+      async list(targetType, targetId, page) {
+        const { data, count, error } = await db
+          .from("discussions")
+          .select("*", { count: "exact" })
+          .eq("target_type", targetType)
+          .eq("target_id", targetId)
+          .eq("is_hidden", false)
+          .eq("is_deleted", false)
+          .order("created_at", { ascending: false })
+          .range(page.offset, page.offset + page.limit - 1);
+        if (error) fail(error);
+        return { rows: (data || []) as Discussion[], count: count || 0 };
+      },
+
+      async create(input) {
+        const { data, error } = await db
+          .from("discussions")
+          .insert({ ...input, parent_id: input.parent_id || null })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as Discussion;
+      },
+
+      async listThreads(targetType, targetId, sort, page) {
+        const { data, error } = await db.rpc("discussion_threads", {
+          p_target_type: targetType,
+          p_target_id: targetId,
+          p_sort: sort,
+          p_offset: page.offset,
+          p_limit: page.limit,
+        });
+        if (error) fail(error);
+        const result = data as { rows: Discussion[]; count: number };
+        return { rows: result.rows, count: result.count };
+      },
+
+      async listReplies(parentIds) {
+        if (!parentIds.length) return [];
+        const { data, error } = await db.rpc("discussion_replies", { p_parent_ids: parentIds });
+        if (error) fail(error);
+        return (data || []) as Discussion[];
+      },
+
+      async getById(id) {
+        const { data } = await db.from("discussions").select("*").eq("id", id).maybeSingle();
+        return (data || null) as Discussion | null;
+      },
+
+      async updateContent(id, content) {
+        const { data, error } = await db
+          .from("discussions")
+          .update({ content, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as Discussion;
+      },
+
+      async markDeleted(id) {
+        const deletedAt = new Date().toISOString();
+        const { error } = await db
+          .from("discussions")
+          .update({ is_deleted: true, deleted_at: deletedAt, content: DELETED_CONTENT, updated_at: deletedAt })
+          .eq("id", id);
+        if (error) fail(error);
+      },
+
+      async setHidden(id, hidden, moderatorId) {
+        const { error } = await db
+          .from("discussions")
+          .update({
+            is_hidden: hidden,
+            hidden_by: hidden ? moderatorId : null,
+            hidden_at: hidden ? new Date().toISOString() : null,
+          })
+          .eq("id", id);
+        if (error) fail(error);
+      },
+    },
+
+    bookmarks: {
+      async list(userIds, page) {
+        const { data, count, error } = await db
+          .from("bookmarks")
+          .select("*, products(*)", { count: "exact" })
+          .in("user_id", userIds)
+          .order("created_at", { ascending: false })
+          .range(page.offset, page.offset + page.limit - 1);
+        if (error) fail(error);
+        return { rows: (data || []) as BookmarkWithProduct[], count: count || 0 };
+      },
+
+      async upsert(input) {
+        const { data, error } = await db
+          .from("bookmarks")
+          .upsert(input, { onConflict: "user_id,product_id" })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as Bookmark;
+      },
+
+      async delete(userId, productId) {
+        const { error } = await db
+          .from("bookmarks")
+          .delete()
+          .eq("user_id", userId)
+          .eq("product_id", productId);
+        if (error) fail(error);
+      },
+
+      async get(userId, productId) {
+        const { data } = await db
+          .from("bookmarks")
+          .select("*")
+          .eq("user_id", userId)
+          .eq("product_id", productId)
+          .maybeSingle();
+        return (data || null) as Bookmark | null;
+      },
+
+      async update(userId, productId, patch) {
+        const { data, error } = await db
+          .from("bookmarks")
+          .update(patch)
+          .eq("user_id", userId)
+          .eq("product_id", productId)
+          .select()
+          .maybeSingle();
+        if (error) fail(error);
+        return (data || null) as Bookmark | null;
+      },
+    },
+
+    alerts: {
+      async list(userId, options) {
+        let query = db
+          .from("price_alerts")
+          .select("*, products(*), budgets(*)", { count: "exact" })
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(options.limit);
+        if (options.unreadOnly) query = query.eq("is_read", false);
+
+        const { data, count, error } = await query;
+        if (error) fail(error);
+        return { rows: (data || []) as PriceAlertWithProduct[], count: count || 0 };
+      },
+
+      async markAsRead(userId, alertId) {
+        let query = db.from("price_alerts").update({ is_read: true }).eq("user_id", userId);
+        query = alertId ? query.eq("id", alertId) : query.eq("is_read", false);
+        const { error } = await query;
+        if (error) fail(error);
+      },
+
+      async listUndispatched(limit) {
+        const { data } = await db
+          .from("price_alerts")
+          .select("*, products(*), budgets(*)")
+          .is("dispatched_at", null)
+          .order("created_at", { ascending: true })
+          .limit(limit);
+        return (data || []) as PriceAlertWithProduct[];
+      },
+
+      async findByIds(ids) {
+        if (ids.length === 0) return [];
+        const { data } = await db
+          .from("price_alerts")
+          .select("*, products(*), budgets(*)")
+          .in("id", ids)
+          .order("created_at", { ascending: true });
+        return (data || []) as PriceAlertWithProduct[];
+      },
+
+      async markDispatched(ids) {
+        if (ids.length === 0) return;
+        const { error } = await db
+          .from("price_alerts")
+          .update({ dispatched_at: new Date().toISOString() })
+          .in("id", ids);
+        if (error) fail(error);
+      },
+
+      async createBudgetAlerts(inputs) {
+        if (inputs.length === 0) return [];
+        const { data, error } = await db
+          .from("price_alerts")
+          .upsert(
+            inputs.map((input) => ({ ...input, alert_type: "budget_threshold" })),
+            { onConflict: "budget_id,period_start,threshold_percent", ignoreDuplicates: true }
+          )
+          .select();
+        if (error) fail(error);
+        return (data || []) as PriceAlert[];
+      },
+
+      async createForPrice(priceId) {
+        const { error } = await db.rpc("create_price_alerts", { p_price_id: priceId });
+        if (error) fail(error);
+      },
+    },
+
+    budgets: {
+      async list(userId) {
+        const { data } = await db
+          .from("budgets")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: true });
+        return (data || []) as Budget[];
+      },
+
+      async get(id) {
+        const { data } = await db.from("budgets").select("*").eq("id", id).maybeSingle();
+        return (data || null) as Budget | null;
+      },
+
+      async create(input) {
+        const { data, error } = await db.from("budgets").insert(input).select().single();
+        if (error) fail(error);
+        return data as Budget;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db
+          .from("budgets")
+          .update({ ...patch, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as Budget;
+      },
+
+      async delete(id) {
+        const { error } = await db.from("budgets").delete().eq("id", id);
+        if (error) fail(error);
+      },
+    },
+
+    receiptJobs: {
+      async create(input) {
+        const { data, error } = await db.from("receipt_jobs").insert(input).select().single();
+        if (error) fail(error);
+        return data as ReceiptJob;
+      },
+
+      async getById(id, userId) {
+        let query = db.from("receipt_jobs").select("*").eq("id", id);
+        if (userId) query = query.eq("user_id", userId);
+        const { data } = await query.maybeSingle();
+        return (data || null) as ReceiptJob | null;
+      },
+
+      async claimNext() {
+        const { data, error } = await db.rpc("claim_receipt_job");
+        if (error) fail(error);
+        return ((data || []) as ReceiptJob[])[0] || null;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db
+          .from("receipt_jobs")
+          .update({ ...patch, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as ReceiptJob;
+      },
+
+      async requeueStale(staleBefore) {
+        const { data, error } = await db.rpc("requeue_stale_receipt_jobs", { stale_before: staleBefore });
+        if (error) fail(error);
+        return (data as number) || 0;
+      },
+    },
+
+    itemMatches: {
+      async record(entries) {
+        if (entries.length === 0) return;
+        const { error } = await db.rpc("record_receipt_item_matches", { entries });
+        if (error) fail(error);
+      },
+
+      async listForUser(userId, receiptNames) {
+        if (receiptNames.length === 0) return [];
+        const { data } = await db
+          .from("receipt_item_matches")
+          .select("*")
+          .eq("user_id", userId)
+          .in("receipt_name", receiptNames);
+        return (data || []) as ReceiptItemMatch[];
+      },
+    },
+
+    abbreviations: {
+      async record(entries) {
+        if (entries.length === 0) return;
+        const { error } = await db.rpc("record_receipt_abbreviations", { entries });
+        if (error) fail(error);
+      },
+
+      async lookup(chain, receiptTexts) {
+        if (receiptTexts.length === 0) return [];
+        const { data } = await db
+          .from("receipt_abbreviations")
+          .select("*")
+          .eq("chain", chain)
+          .in("receipt_text", receiptTexts);
+        return (data || []) as ReceiptAbbreviation[];
+      },
+
+      async list(filter) {
+        let query = db.from("receipt_abbreviations").select("*, products(*), stores(*)");
+        if (filter.storeId) query = query.eq("store_id", filter.storeId);
+        if (filter.chain) query = query.eq("chain", filter.chain);
+        if (filter.query) query = query.ilike("receipt_text", `%${filter.query}%`);
+        const { data } = await query
+          .order("confirmations", { ascending: false })
+          .order("receipt_text")
+          .limit(filter.limit);
+        return (data || []) as ReceiptAbbreviationWithDetails[];
+      },
+
+      async getById(id) {
+        const { data } = await db.from("receipt_abbreviations").select("*").eq("id", id).maybeSingle();
+        return (data || null) as ReceiptAbbreviation | null;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db
+          .from("receipt_abbreviations")
+          .update({ ...patch, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as ReceiptAbbreviation;
+      },
+
+      async delete(id) {
+        const { error } = await db.from("receipt_abbreviations").delete().eq("id", id);
+        if (error) fail(error);
+      },
+    },
+
+    exchangeRates: {
+      async upsert(rates) {
+        if (rates.length === 0) return 0;
+        const { error } = await db
+          .from("exchange_rates")
+          .upsert(rates, { onConflict: "base_currency,quote_currency,rate_date" });
+        if (error) fail(error);
+        return rates.length;
+      },
+
+      async list(filter) {
+        let query = db.from("exchange_rates").select("*");
+        if (filter.currencies) {
+          const codes = filter.currencies.join(",");
+          query = query.or(`base_currency.in.(${codes}),quote_currency.in.(${codes})`);
+        }
+        if (filter.from) query = query.gte("rate_date", filter.from);
+        if (filter.until) query = query.lte("rate_date", filter.until);
+        query = query.order("rate_date", { ascending: false });
+        if (filter.limit) query = query.limit(filter.limit);
+        const { data } = await query;
+        return (data || []) as ExchangeRate[];
+      },
+    },
+
+    shoppingLists: {
+      async list(userId) {
+        const { data } = await db
+          .from("shopping_lists")
+          .select("*")
+          .eq("user_id", userId)
+          .order("updated_at", { ascending: false });
+        return (data || []) as ShoppingList[];
+      },
+
+      async get(id, userId) {
+        const { data } = await db
+          .from("shopping_lists")
+          .select("*, items:shopping_list_items(*, products(*))")
+          .eq("id", id)
+          .eq("user_id", userId)
+          .order("created_at", { referencedTable: "shopping_list_items", ascending: true })
+          .maybeSingle();
+        return (data || null) as ShoppingListWithItems | null;
+      },
+
+      async create(userId, name) {
+        const { data, error } = await db
+          .from("shopping_lists")
+          .insert({ user_id: userId, name })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as ShoppingList;
+      },
+
+      async update(id, patch) {
+        const { data, error } = await db
+          .from("shopping_lists")
+          .update({ ...patch, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as ShoppingList;
+      },
+
+      async delete(id) {
+        const { error } = await db.from("shopping_lists").delete().eq("id", id);
+        if (error) fail(error);
+      },
+
+      async upsertItem(input) {
+        const { data, error } = await db
+          .from("shopping_list_items")
+          .upsert(input, { onConflict: "list_id,product_id" })
+          .select()
+          .single();
+        if (error) fail(error);
+        await db.from("shopping_lists").update({ updated_at: new Date().toISOString() }).eq("id", input.list_id);
+        return data as ShoppingListItem;
+      },
+
+      async updateItem(itemId, patch) {
+        const { data, error } = await db
+          .from("shopping_list_items")
+          .update(patch)
+          .eq("id", itemId)
+          .select()
+          .single();
+        if (error) fail(error);
+        const item = data as ShoppingListItem;
+        await db.from("shopping_lists").update({ updated_at: new Date().toISOString() }).eq("id", item.list_id);
+        return item;
+      },
+
+      async removeItem(itemId) {
+        const { error } = await db.from("shopping_list_items").delete().eq("id", itemId);
+        if (error) fail(error);
+      },
+    },
+
+    notifications: {
+      async getPreferences(userId) {
+        const { data } = await db.from("notification_preferences").select("*").eq("user_id", userId).maybeSingle();
+        return (data || null) as NotificationPreferences | null;
+      },
+
+      async upsertPreferences(userId, patch) {
+        const { data, error } = await db
+          .from("notification_preferences")
+          .upsert({ ...patch, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: "user_id" })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as NotificationPreferences;
+      },
+
+      async listEndpoints(userId) {
+        const { data } = await db
+          .from("notification_endpoints")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: true });
+        return (data || []) as NotificationEndpoint[];
+      },
+
+      async getEndpoint(id) {
+        const { data } = await db.from("notification_endpoints").select("*").eq("id", id).maybeSingle();
+        return (data || null) as NotificationEndpoint | null;
+      },
+
+      async upsertEndpoint(input) {
+        const { data, error } = await db
+          .from("notification_endpoints")
+          .upsert({ ...input, config: input.config ?? null, enabled: true }, { onConflict: "user_id,channel,address" })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as NotificationEndpoint;
+      },
+
+      async updateEndpoint(id, patch) {
+        const { data, error } = await db
+          .from("notification_endpoints")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as NotificationEndpoint;
+      },
+
+      async deleteEndpoint(id) {
+        const { error } = await db.from("notification_endpoints").delete().eq("id", id);
+        if (error) fail(error);
+      },
+
+      async createDeliveries(inputs) {
+        if (inputs.length === 0) return [];
+        const { data, error } = await db.from("notification_deliveries").insert(inputs).select();
+        if (error) fail(error);
+        return (data || []) as NotificationDelivery[];
+      },
+
+      async listDueDeliveries(now, limit) {
+        const { data } = await db
+          .from("notification_deliveries")
+          .select("*")
+          .eq("status", "pending")
+          .lte("next_attempt_at", now)
+          .order("next_attempt_at", { ascending: true })
+          .limit(limit);
+        return (data || []) as NotificationDelivery[];
+      },
+
+      async updateDelivery(id, patch) {
+        const { data, error } = await db
+          .from("notification_deliveries")
+          .update(patch)
+          .eq("id", id)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as NotificationDelivery;
+      },
+
+      async listDeliveries(userId, limit) {
+        const { data } = await db
+          .from("notification_deliveries")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+        return (data || []) as NotificationDelivery[];
+      },
+    },
+
+    sharing: {
+      async getPreferences(userId) {
+        const { data } = await db.from("sharing_preferences").select("*").eq("user_id", userId).maybeSingle();
+        return (data || null) as SharingPreferences | null;
+      },
+
+      async upsertPreferences(userId, patch) {
+        const { data, error } = await db
+          .from("sharing_preferences")
+          .upsert({ ...patch, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: "user_id" })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as SharingPreferences;
+      },
+    },
+
+    households: {
+      async create(name, ownerId) {
+        const { data, error } = await db.from("households").insert({ name, created_by: ownerId }).select().single();
+        if (error) fail(error);
+        const { error: memberError } = await db
+          .from("household_members")
+          .insert({ household_id: data.id, user_id: ownerId, role: "owner" });
+        if (memberError) fail(memberError);
+        return data as Household;
+      },
+
+      async get(id) {
+        const { data } = await db.from("households").select("*").eq("id", id).maybeSingle();
+        return (data || null) as Household | null;
+      },
+
+      async rename(id, name) {
+        const { data, error } = await db.from("households").update({ name }).eq("id", id).select().single();
+        if (error) fail(error);
+        return data as Household;
+      },
+
+      async delete(id) {
+        const { error } = await db.from("households").delete().eq("id", id);
+        if (error) fail(error);
+      },
+
+      async listForUser(userId) {
+        const { data } = await db
+          .from("household_members")
+          .select("role, households(*)")
+          .eq("user_id", userId)
+          .order("joined_at", { ascending: true });
+        return (data || []).flatMap((row: any) =>
+          row.households ? [{ ...(row.households as Household), role: row.role as HouseholdMember["role"] }] : []
+        );
+      },
+
+      async listMembers(householdId) {
+        const { data } = await db
+          .from("household_members")
+          .select("*")
+          .eq("household_id", householdId)
+          .order("joined_at", { ascending: true });
+        return (data || []) as HouseholdMember[];
+      },
+
+      async getMember(householdId, userId) {
+        const { data } = await db
+          .from("household_members")
+          .select("*")
+          .eq("household_id", householdId)
+          .eq("user_id", userId)
+          .maybeSingle();
+        return (data || null) as HouseholdMember | null;
+      },
+
+      async addMember(householdId, userId, role) {
+        const { data, error } = await db
+          .from("household_members")
+          .insert({ household_id: householdId, user_id: userId, role })
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as HouseholdMember;
+      },
+
+      async updateMember(householdId, userId, role) {
+        const { data, error } = await db
+          .from("household_members")
+          .update({ role })
+          .eq("household_id", householdId)
+          .eq("user_id", userId)
+          .select()
+          .single();
+        if (error) fail(error);
+        return data as HouseholdMember;
+      },
+
+      async removeMember(householdId, userId) {
+        const { error } = await db
+          .from("household_members")
+          .delete()
+          .eq("household_id", householdId)
+          .eq("user_id", userId);
+        if (error) fail(error);
+      },
+
+      async createInvitation(input) {
+        const { data, error } = await db.from("household_invitations").insert(input).select().single();
+        if (error) fail(error);
+        return data as HouseholdInvitation;
+      },
+
+      async findInvitationByCode(code) {
+        const { data } = await db.from("household_invitations").select("*").eq("code", code).maybeSingle();
+        return (data || null) as HouseholdInvitation | null;
+      },
+
+      async getInvitation(id) {
+        const { data } = await db.from("household_invitations").select("*").eq("id", id).maybeSingle();
+        return (data || null) as HouseholdInvitation | null;
+      },
+
+      async listOpenInvitations(householdId) {
+        const { data } = await db
+          .from("household_invitations")
+          .select("*")
+          .eq("household_id", householdId)
+          .is("accepted_at", null)
+          .is("revoked_at", null)
+          .order("created_at", { ascending: false });
+        return (data || []) as HouseholdInvitation[];
+      },
+
+      async updateInvitation(id, patch) {
+        const { data, error } = await db.from("household_invitations").update(patch).eq("id", id).select().single();
+        if (error) fail(error);
+        return data as HouseholdInvitation;
+      },
+    },
+
+    moderation: {
+      async report(input) {
+        const { data: existing } = await db
+          .from("content_reports")
+          .select("id")
+          .eq("reporter_id", input.reporter_id)
+          .eq("target_type", input.target_type)
+          .eq("target_id", input.target_id)
+          .eq("status", "open")
+          .maybeSingle();
+        const details = input.details ?? null;
+        const { data, error } = existing
+          ? await db
+              .from("content_reports")
+              .update({ reason: input.reason, details })
+              .eq("id", existing.id)
+              .select()
+              .single()
+          : await db
+              .from("content_reports")
+              .insert({ ...input, details })
+              .select()
+              .single();
+        if (error) fail(error);
+        return data as ContentReport;
+      },
+
+      async queue(targetType, limit) {
+        const { data, error } = await db.rpc("moderation_queue", { p_target_type: targetType, p_limit: limit });
+        if (error) fail(error);
+        return (data || []) as ReportedTarget[];
+      },
+
+      async openReportCount(targetType, targetId) {
+        const { count } = await db
+          .from("content_reports")
+          .select("*", { count: "exact", head: true })
+          .eq("target_type", targetType)
+          .eq("target_id", targetId)
+          .eq("status", "open");
+        return count || 0;
+      },
+
+      async closeReports(targetType, targetId, status, moderatorId) {
+        const { data, error } = await db
+          .from("content_reports")
+          .update({ status, resolved_by: moderatorId, resolved_at: new Date().toISOString() })
+          .eq("target_type", targetType)
+          .eq("target_id", targetId)
+          .eq("status", "open")
+          .select("id");
+        if (error) fail(error);
+        return (data || []).length;
+      },
+
+      async logAction(input) {
+        const { data, error } = await db.from("moderation_actions").insert(input).select().single();
+        if (error) fail(error);
+        return data as ModerationAction;
+      },
+
+      async listActions(targetType, targetId) {
+        const { data } = await db
+          .from("moderation_actions")
+          .select("*")
+          .eq("target_type", targetType)
+          .eq("target_id", targetId)
+          .order("created_at", { ascending: false });
+        return (data || []) as ModerationAction[];
+      },
+    },
+
+    storage: {
+      async uploadReceiptImage(objectPath, data) {
+        const { data: uploaded, error } = await db.storage
+          .from("receipts")
+          .upload(objectPath, data, { contentType: "image/jpeg" });
+        if (error) console.warn("Storage upload failed:", error.message);
+        return uploaded?.path || null;
+      },
+    },
+  };
+}
@@ -0,0 +1,788 @@
+import type {
+  Product,
+  Store,
+  Price,
+  PriceWithDetails,
+  Receipt,
+  ReceiptWithDetails,
+  ReceiptSnapshotItem,
+  ReceiptRevision,
+  ReceiptRevisionSnapshot,
+  Vote,
+  Discussion,
+  Bookmark,
+  PriceAlert,
+  ReceiptJob,
+  ReceiptItemMatch,
+  ReceiptAbbreviation,
+  ProductMerge,
+  ExchangeRate,
+  ShoppingList,
+  ShoppingListItem,
+  NotificationPreferences,
+  SharingPreferences,
+  NotificationEndpoint,
+  NotificationDelivery,
+  Household,
+  HouseholdMember,
+  HouseholdInvitation,
+  Budget,
+  ContentReport,
+  ModerationAction,
+  ModerationTargetType,
+} from "../supabase";
+
+// ─────────────────────────────────────────────────────────────
+// Shared shapes
+// ─────────────────────────────────────────────────────────────
+
+export type VoteTargetType = Vote["target_type"];
+export type DiscussionTargetType = Discussion["target_type"];
+export type DiscussionSort = "newest" | "top";
+export type ReceiptStatus = Receipt["status"];
+export type ReceiptJobStatus = ReceiptJob["status"];
+
+export interface Page<T> {
+  rows: T[];
+  count: number;
+}
+
+export interface PageRequest {
+  offset: number;
+  limit: number;
+}
+
+export interface NewProduct {
+  name: string;
+  barcode?: string | null;
+  category?: string | null;
+  image_url?: string | null;
+}
+
+export interface NewStore {
+  name: string;
+  address?: string | null;
+  latitude: number;
+  longitude: number;
+  created_by?: string | null;
+}
+
+export interface NewPrice {
+  product_id: string;
+  store_id: string;
+  user_id: string;
+  price: number;
+  quantity?: number;
+  weight?: string | null;
+  unit_price?: number | null;
+  canonical_quantity?: number | null;
+  canonical_unit?: Price["canonical_unit"];
+  original_price?: number | null;
+  tags?: string[] | null;
+  currency?: string;
+  receipt_id?: string | null;
+  receipt_image_path?: string | null;
+  purchase_time?: string | null;
+  published?: boolean;
+  review_status?: Price["review_status"];
+  review_reasons?: Price["review_reasons"];
+}
+
+export interface NewReceipt {
+  user_id: string;
+  store_id: string | null;
+  total_price?: number | null;
+  store_location?: string | null;
+  receipt_date?: string | null;
+  receipt_time?: string | null;
+  currency?: string;
+  status?: ReceiptStatus;
+  image_path?: string | null;
+  items_snapshot?: ReceiptSnapshotItem[] | null;
+  idempotency_key?: string | null;
+  idempotency_hash?: string | null;
+  publish_prices?: boolean | null;
+}
+
+/** A receipt's line item; receipt_id is filled in when the receipt is stored */
+export type NewReceiptPrice = Omit<NewPrice, "receipt_id">;
+
+export interface ReceiptSaveResult {
+  receipt: Receipt;
+  saved: number;
+  /** The idempotency key was used before; nothing new was written */
+  replayed: boolean;
+}
+
+export type DraftCompletion = "completed" | "already_complete" | "stale" | "not_found";
+
+export type ReceiptPatch = Partial<
+  Omit<Receipt, "id" | "user_id" | "created_at" | "draft_version" | "idempotency_key" | "idempotency_hash">
+>;
+
+export type PricePatch = Partial<Omit<NewPrice, "user_id" | "receipt_id">>;
+
+export type NewReceiptRevision = Omit<ReceiptRevision, "id" | "version" | "created_at">;
+
+/** One edit of a complete receipt, for receipts.applyEdit */
+export interface ReceiptEdit {
+  header: Pick<Receipt, "store_id" | "total_price" | "store_location" | "receipt_date" | "receipt_time" | "currency">;
+  /** The changed columns of each prices row the receipt keeps */
+  updates: { id: string; patch: PricePatch }[];
+  /** Prices rows no longer on the receipt */
+  deletes: string[];
+  inserts: NewReceiptPrice[];
+  /** The receipt before the edit; stored as version 1 when it has no revisions yet */
+  original: ReceiptRevisionSnapshot;
+  revision: Omit<NewReceiptRevision, "receipt_id" | "snapshot">;
+}
+
+export interface ReceiptListFilter {
+  /** One user, or the sharing members of a household */
+  userIds: string[];
+  status: ReceiptStatus;
+  startDate?: string;
+  endDate?: string;
+  limit: number;
+}
+
+export interface NewDiscussion {
+  user_id: string;
+  target_type: DiscussionTargetType;
+  target_id: string;
+  content: string;
+  parent_id?: string | null;
+}
+
+export interface VoteCounts {
+  target_id: string;
+  upvotes: number;
+  downvotes: number;
+}
+
+export interface NewContentReport {
+  reporter_id: string;
+  target_type: ModerationTargetType;
+  target_id: string;
+  reason: ContentReport["reason"];
+  details?: string | null;
+}
+
+export type NewModerationAction = Omit<ModerationAction, "id" | "created_at">;
+
+/** A target with open reports */
+export interface ReportedTarget {
+  target_type: ModerationTargetType;
+  target_id: string;
+  report_count: number;
+  /** Distinct reasons given */
+  reasons: ContentReport["reason"][];
+  first_reported_at: string;
+  last_reported_at: string;
+}
+
+export interface NewReceiptItemMatch {
+  user_id: string;
+  store_id: string;
+  /** Already normalized */
+  receipt_name: string;
+  product_id: string;
+}
+
+export interface NewReceiptAbbreviation {
+  store_id: string;
+  chain: string;
+  /** Already normalized */
+  receipt_text: string;
+  product_id: string;
+  created_by: string;
+}
+
+export type ReceiptAbbreviationPatch = Partial<Pick<ReceiptAbbreviation, "receipt_text" | "product_id">>;
+
+export interface ReceiptAbbreviationFilter {
+  storeId?: string;
+  chain?: string;
+  /** Substring of the receipt text */
+  query?: string;
+  limit: number;
+}
+
+export interface ReceiptAbbreviationWithDetails extends ReceiptAbbreviation {
+  products?: Product;
+  stores?: Store;
+}
+
+export type NewExchangeRate = Omit<ExchangeRate, "id" | "created_at">;
+
+export interface ExchangeRateFilter {
+  /** Rows where either side is one of these */
+  currencies?: string[];
+  /** Inclusive YYYY-MM-DD bounds */
+  from?: string;
+  until?: string;
+  limit?: number;
+}
+
+export type ShoppingListPatch = Partial<Pick<ShoppingList, "name">>;
+
+export interface NewShoppingListItem {
+  list_id: string;
+  product_id: string;
+  quantity: number;
+  note?: string | null;
+}
+
+export type ShoppingListItemPatch = Partial<Pick<ShoppingListItem, "quantity" | "note" | "checked">>;
+
+export interface ShoppingListItemWithProduct extends ShoppingListItem {
+  products?: Product;
+}
+
+export interface ShoppingListWithItems extends ShoppingList {
+  items: ShoppingListItemWithProduct[];
+}
+
+export type TrendInterval = "day" | "week" | "month";
+
+export interface PriceTrendFilter {
+  productId: string;
+  /** See PricesRepository */
+  viewerId: string | null;
+  interval: TrendInterval;
+  /** Inclusive YYYY-MM-DD bounds on the purchase date */
+  from?: string;
+  until?: string;
+  storeId?: string;
+  currency?: string;
+  /** How many bucket medians each moving average spans */
+  movingAverage: number;
+}
+
+// Per-package prices in one time bucket; store_id null for all stores together
+export interface PriceTrendBucket {
+  bucket_start: string;
+  store_id: string | null;
+  min_price: number;
+  median_price: number;
+  max_price: number;
+  avg_price: number;
+  price_count: number;
+  moving_average: number;
+}
+
+export interface PriceChangeFilter {
+  productId: string;
+  viewerId: string | null;
+  windowsDays: number[];
+  asOf: string;
+  storeId?: string;
+  currency?: string;
+}
+
+// Median of the last window_days against the window_days before them
+export interface PriceChange {
+  window_days: number;
+  current_median: number | null;
+  previous_median: number | null;
+  percent_change: number | null;
+}
+
+export interface PricePercentileFilter {
+  productId: string;
+  viewerId: string | null;
+  price: number;
+  since?: string;
+  storeId?: string;
+  currency?: string;
+}
+
+export interface PricePercentile {
+  /** Share (0-100) of recorded prices cheaper than the given one; null without prices */
+  percentile: number | null;
+  cheaper_count: number;
+  total_count: number;
+}
+
+// Each factor is 0-1; score is their weighted sum (see prices/trust.ts)
+export interface PriceTrust {
+  price_id: string;
+  score: number;
+  upvotes: number;
+  downvotes: number;
+  /** Share of up votes on the price, starting from one up and one down */
+  votes_factor: number;
+  /** Closeness to the median of the product's other published prices; 1 with fewer than 3 */
+  outlier_factor: number;
+  /** The contributor's experience and the votes on their other prices */
+  reputation_factor: number;
+  /** 1 when a receipt image backs the price */
+  receipt_factor: number;
+  /** Halves every 30 days after the purchase */
+  age_factor: number;
+}
+
+/**
+ * Prices comparable with one being checked: same product and currency, and
+ * unit prices in `canonicalUnit` (package prices when null)
+ */
+export interface PriceStatsFilter {
+  productId: string;
+  currency: string;
+  canonicalUnit: Price["canonical_unit"];
+  userId: string;
+  /** The user's own earlier prices (except rejected ones) instead of everyone else's published prices */
+  own: boolean;
+}
+
+// Robust statistics; median and mad (median absolute deviation) are null without prices
+export interface PriceStats {
+  sample_count: number;
+  median: number | null;
+  mad: number | null;
+}
+
+export interface PriceReviewCounts {
+  pending: number;
+  confirmed: number;
+  rejected: number;
+}
+
+/** Dates are inclusive YYYY-MM-DD days in UTC, matched against the purchase time */
+export interface PurchaseFilter {
+  userIds: string[];
+  from?: string;
+  until?: string;
+  storeId?: string;
+}
+
+export type SharingPreferencesPatch = Partial<Omit<SharingPreferences, "user_id" | "updated_at">>;
+
+export type NotificationPreferencesPatch = Partial<Omit<NotificationPreferences, "user_id" | "updated_at">>;
+
+export interface NewNotificationEndpoint {
+  user_id: string;
+  channel: NotificationEndpoint["channel"];
+  address: string;
+  config?: Record<string, string> | null;
+}
+
+export type NotificationEndpointPatch = Partial<Pick<NotificationEndpoint, "enabled" | "config">>;
+
+export type NewNotificationDelivery = Pick<
+  NotificationDelivery,
+  "user_id" | "endpoint_id" | "channel" | "kind" | "alert_ids" | "next_attempt_at"
+>;
+
+export type NotificationDeliveryPatch = Partial<
+  Pick<NotificationDelivery, "status" | "attempts" | "last_error" | "next_attempt_at" | "sent_at">
+>;
+
+export type HouseholdRole = HouseholdMember["role"];
+
+export interface HouseholdWithRole extends Household {
+  /** The requesting user's role */
+  role: HouseholdRole;
+}
+
+export type NewHouseholdInvitation = Pick<
+  HouseholdInvitation,
+  "household_id" | "code" | "role" | "invited_by" | "expires_at"
+>;
+
+export type HouseholdInvitationPatch = Partial<Pick<HouseholdInvitation, "accepted_by" | "accepted_at" | "revoked_at">>;
+
+export type BookmarkRules = Pick<
+  Bookmark,
+  | "store_ids"
+  | "near_latitude"
+  | "near_longitude"
+  | "radius_km"
+  | "min_drop_percent"
+  | "target_unit_price"
+  | "notify_on_sale"
+  | "lowest_in_days"
+>;
+
+/** Rules left out keep their stored value (or the column default on insert) */
+export interface BookmarkInput extends Partial<BookmarkRules> {
+  user_id: string;
+  product_id: string;
+  notify_on_price_drop: boolean;
+  target_price: number | null;
+}
+
+export type BookmarkPatch = Partial<BookmarkRules & Pick<Bookmark, "notify_on_price_drop" | "target_price">>;
+
+export interface BookmarkWithProduct extends Bookmark {
+  products?: Product;
+}
+
+export interface PriceAlertWithProduct extends PriceAlert {
+  products?: Product;
+  /** Joined for budget alerts */
+  budgets?: Budget;
+}
+
+export type NewBudget = Pick<Budget, "user_id" | "name" | "period" | "amount" | "currency" | "category" | "store_id" | "thresholds">;
+
+export type BudgetPatch = Partial<Omit<NewBudget, "user_id">>;
+
+export type NewBudgetAlert = Pick<
+  PriceAlert,
+  "user_id" | "old_price" | "new_price" | "store_name"
+> & { budget_id: string; period_start: string; threshold_percent: number };
+
+// ─────────────────────────────────────────────────────────────
+// Domain repositories
+// ─────────────────────────────────────────────────────────────
+
+export interface ProductsRepository {
+  list(limit: number): Promise<Product[]>;
+  search(query: string, limit: number): Promise<Product[]>;
+  findByBarcode(barcode: string): Promise<Product | null>;
+  findByName(name: string): Promise<Product | null>;
+  findByIds(ids: string[]): Promise<Product[]>;
+  /** Products whose name or alternative name contains any of `terms` */
+  findCandidates(terms: string[], limit: number): Promise<Product[]>;
+  create(input: NewProduct): Promise<Product>;
+  /**
+   * Re-points prices, bookmarks, alerts, votes, discussions, drafts and learned
+   * receipt lines from `sourceId` to `targetId`, deletes the source and records the merge
+   */
+  merge(sourceId: string, targetId: string, mergedBy: string): Promise<ProductMerge>;
+  /** Merges into or out of the product, newest first */
+  listMerges(productId: string): Promise<ProductMerge[]>;
+}
+
+export interface StoresRepository {
+  list(): Promise<Store[]>;
+  nearby(latitude: number, longitude: number, radiusKm: number): Promise<Store[]>;
+  getById(id: string): Promise<Store | null>;
+  findByIds(ids: string[]): Promise<Store[]>;
+  /** Case-insensitive exact name match */
+  findByName(name: string): Promise<Store | null>;
+  /** Case-insensitive substring match, first hit only */
+  findByNameLike(name: string): Promise<Store | null>;
+  /** Bounding-box lookup, `delta` in degrees */
+  findNear(latitude: number, longitude: number, delta: number): Promise<Store | null>;
+  create(input: NewStore): Promise<Store>;
+  softDelete(id: string): Promise<void>;
+  /** Also finds deleted stores */
+  findWithDeleted(id: string): Promise<Store | null>;
+  restore(id: string): Promise<void>;
+}
+
+/**
+ * Reads that take a `viewerId` only see prices visible to that user: the
+ * published ones plus the viewer's own. A null viewer (anonymous) only sees
+ * published prices.
+ */
+export interface PricesRepository {
+  /** Returns the new row with `products` and `stores` joined */
+  create(input: NewPrice): Promise<PriceWithDetails>;
+  createMany(inputs: NewPrice[]): Promise<Price[]>;
+  findForUser(id: string, userId: string): Promise<Price | null>;
+  /** Any user's price, published or not */
+  findById(id: string): Promise<Price | null>;
+  /** Oldest first, `stores` joined */
+  history(productId: string, limit: number, viewerId: string | null): Promise<PriceWithDetails[]>;
+  /** Newest first, `stores` joined */
+  listByProduct(productId: string, viewerId: string | null): Promise<PriceWithDetails[]>;
+  /** Newest first, `products` and `stores` joined */
+  recent(limit: number, viewerId: string | null): Promise<PriceWithDetails[]>;
+  /** Newest first, `products` joined */
+  listByStore(storeId: string, userId: string, limit: number): Promise<PriceWithDetails[]>;
+  /** Newest first, `products` joined */
+  listByReceipt(receiptId: string): Promise<PriceWithDetails[]>;
+  /** Newest first, `products` and `stores` joined */
+  listByUser(userId: string, limit: number): Promise<PriceWithDetails[]>;
+  /** Only prices on complete, non-deleted receipts (the purchases view) */
+  listPurchasesAtStore(userIds: string[], storeId: string, since?: string): Promise<Price[]>;
+  /** The users' purchases (see listPurchasesAtStore), oldest first, `products` and `stores` joined */
+  listPurchases(filter: PurchaseFilter): Promise<PriceWithDetails[]>;
+  /** Most recent price of each product at each store, limited to the given products and stores */
+  latestForProducts(productIds: string[], storeIds: string[], viewerId: string | null): Promise<Price[]>;
+  /** Time-bucketed min/median/max per store and for all stores, oldest bucket first */
+  trendBuckets(filter: PriceTrendFilter): Promise<PriceTrendBucket[]>;
+  /** One row per window, shortest first */
+  percentChanges(filter: PriceChangeFilter): Promise<PriceChange[]>;
+  percentile(filter: PricePercentileFilter): Promise<PricePercentile>;
+  /** One row per existing price, scored as of `asOf` */
+  trust(priceIds: string[], asOf: string): Promise<PriceTrust[]>;
+  stats(filter: PriceStatsFilter): Promise<PriceStats>;
+  /** How the user's flagged prices were reviewed */
+  reviewCounts(userId: string): Promise<PriceReviewCounts>;
+  /** Prices waiting for review, oldest first, `products` and `stores` joined */
+  listPendingReview(limit: number): Promise<PriceWithDetails[]>;
+  /**
+   * Settles a pending review; confirmed prices are published. Null when the
+   * price is not waiting for review.
+   */
+  resolveReview(id: string, status: "confirmed" | "rejected", reviewerId: string): Promise<Price | null>;
+  countByUser(userId: string, options?: { completeReceiptsOnly?: boolean }): Promise<number>;
+  update(id: string, patch: PricePatch): Promise<void>;
+  /** Publishes or unpublishes the prices; returns how many changed */
+  setPublished(ids: string[], published: boolean): Promise<number>;
+  deleteMany(ids: string[]): Promise<void>;
+}
+
+export interface ReceiptsRepository {
+  create(input: NewReceipt): Promise<Receipt>;
+  /**
+   * Inserts the receipt and its prices in one transaction (save_receipt,
+   * migration 027). When the user already saved a receipt with
+   * input.idempotency_key, nothing is written and that receipt comes back.
+   */
+  saveWithPrices(input: NewReceipt, prices: NewReceiptPrice[]): Promise<ReceiptSaveResult>;
+  /** Inserts the draft's prices and marks it complete in one transaction, if it is still at `version` */
+  completeDraft(id: string, userId: string, version: number, prices: NewReceiptPrice[]): Promise<DraftCompletion>;
+  list(filter: ReceiptListFilter): Promise<ReceiptWithDetails[]>;
+  /** `stores` joined */
+  getById(id: string): Promise<ReceiptWithDetails | null>;
+  findForUser(id: string, userId: string): Promise<Receipt | null>;
+  /** When `userId` is given the update only applies to that user's receipt */
+  update(id: string, patch: ReceiptPatch, userId?: string): Promise<void>;
+  /**
+   * Applies `patch` to the user's draft and bumps draft_version, only if the
+   * draft is still at `version`. Null when it is not (or is gone).
+   */
+  updateDraft(id: string, userId: string, version: number, patch: ReceiptPatch): Promise<Receipt | null>;
+  listForDay(userId: string, storeId: string, receiptDate: string): Promise<Receipt[]>;
+  storeIdsForUsers(userIds: string[]): Promise<string[]>;
+  countByUser(userId: string, options?: { completeOnly?: boolean }): Promise<number>;
+  /** Newest first */
+  listRevisions(receiptId: string): Promise<ReceiptRevision[]>;
+  getRevision(receiptId: string, version: number): Promise<ReceiptRevision | null>;
+  /**
+   * Applies the edit and stores the receipt as it is afterwards as its next
+   * revision, all in one transaction (apply_receipt_edit, migration 037)
+   */
+  applyEdit(receiptId: string, edit: ReceiptEdit): Promise<ReceiptRevision>;
+}
+
+export interface RankingsRepository {
+  topContributors(limit: number): Promise<{ userId: string; count: number }[]>;
+}
+
+export interface VotesRepository {
+  counts(targetType: VoteTargetType, targetId: string): Promise<{ upvotes: number; downvotes: number }>;
+  /** One row per target with any votes */
+  countsMany(targetType: VoteTargetType, targetIds: string[]): Promise<VoteCounts[]>;
+  getUserVote(userId: string, targetType: VoteTargetType, targetId: string): Promise<Vote["vote_type"] | null>;
+  upsert(userId: string, targetType: VoteTargetType, targetId: string, voteType: Vote["vote_type"]): Promise<void>;
+  remove(userId: string, targetType: VoteTargetType, targetId: string): Promise<void>;
+}
+
+export interface DiscussionsRepository {
+  /** Newest first, hidden and deleted ones left out */
+  list(targetType: DiscussionTargetType, targetId: string, page: PageRequest): Promise<Page<Discussion>>;
+  /**
+   * The target's top-level discussions, newest first or by vote score ("top").
+   * Hidden and deleted ones are only included while live replies remain below them.
+   */
+  listThreads(
+    targetType: DiscussionTargetType,
+    targetId: string,
+    sort: DiscussionSort,
+    page: PageRequest
+  ): Promise<Page<Discussion>>;
+  /** Every discussion below the given ones at any depth, hidden and deleted ones included, oldest first */
+  listReplies(parentIds: string[]): Promise<Discussion[]>;
+  create(input: NewDiscussion): Promise<Discussion>;
+  /** Also finds hidden and deleted discussions */
+  getById(id: string): Promise<Discussion | null>;
+  updateContent(id: string, content: string): Promise<Discussion>;
+  /** Leaves a tombstone: the row stays, its content does not */
+  markDeleted(id: string): Promise<void>;
+  /** `moderatorId` null: hidden because of reports */
+  setHidden(id: string, hidden: boolean, moderatorId: string | null): Promise<void>;
+}
+
+export interface BookmarksRepository {
+  /** Newest first, `products` joined */
+  list(userIds: string[], page: PageRequest): Promise<Page<BookmarkWithProduct>>;
+  /** Inserts or updates the (user, product) bookmark */
+  upsert(input: BookmarkInput): Promise<Bookmark>;
+  delete(userId: string, productId: string): Promise<void>;
+  get(userId: string, productId: string): Promise<Bookmark | null>;
+  /** Null when the user has no bookmark for the product */
+  update(userId: string, productId: string, patch: BookmarkPatch): Promise<Bookmark | null>;
+}
+
+export interface PriceAlertsRepository {
+  /** Newest first, `products` joined */
+  list(userId: string, options: { unreadOnly: boolean; limit: number }): Promise<Page<PriceAlertWithProduct>>;
+  /** Marks one alert, or every unread alert when `alertId` is omitted */
+  markAsRead(userId: string, alertId?: string): Promise<void>;
+  /** Alerts the notification dispatcher has not picked up yet, oldest first */
+  listUndispatched(limit: number): Promise<PriceAlertWithProduct[]>;
+  findByIds(ids: string[]): Promise<PriceAlertWithProduct[]>;
+  markDispatched(ids: string[]): Promise<void>;
+  /** Skips (budget, period, threshold) combinations that already have an alert; returns the new ones */
+  createBudgetAlerts(inputs: NewBudgetAlert[]): Promise<PriceAlert[]>;
+  /** Runs the bookmark alert rules for a price as if it had just been recorded (create_price_alerts) */
+  createForPrice(priceId: string): Promise<void>;
+}
+
+export interface BudgetsRepository {
+  /** Oldest first */
+  list(userId: string): Promise<Budget[]>;
+  get(id: string): Promise<Budget | null>;
+  create(input: NewBudget): Promise<Budget>;
+  update(id: string, patch: BudgetPatch): Promise<Budget>;
+  /** Its alerts go with it */
+  delete(id: string): Promise<void>;
+}
+
+export interface NotificationsRepository {
+  /** Null until the user saves preferences */
+  getPreferences(userId: string): Promise<NotificationPreferences | null>;
+  upsertPreferences(userId: string, patch: NotificationPreferencesPatch): Promise<NotificationPreferences>;
+  listEndpoints(userId: string): Promise<NotificationEndpoint[]>;
+  getEndpoint(id: string): Promise<NotificationEndpoint | null>;
+  /** Adds the endpoint, or re-enables it with the new config when (user, channel, address) exists */
+  upsertEndpoint(input: NewNotificationEndpoint): Promise<NotificationEndpoint>;
+  updateEndpoint(id: string, patch: NotificationEndpointPatch): Promise<NotificationEndpoint>;
+  deleteEndpoint(id: string): Promise<void>;
+  createDeliveries(inputs: NewNotificationDelivery[]): Promise<NotificationDelivery[]>;
+  /** Pending deliveries with next_attempt_at at or before `now`, oldest first */
+  listDueDeliveries(now: string, limit: number): Promise<NotificationDelivery[]>;
+  updateDelivery(id: string, patch: NotificationDeliveryPatch): Promise<NotificationDelivery>;
+  /** Newest first */
+  listDeliveries(userId: string, limit: number): Promise<NotificationDelivery[]>;
+}
+
+export interface SharingRepository {
+  /** Null until the user saves preferences */
+  getPreferences(userId: string): Promise<SharingPreferences | null>;
+  upsertPreferences(userId: string, patch: SharingPreferencesPatch): Promise<SharingPreferences>;
+}
+
+export interface HouseholdsRepository {
+  /** Creates the household with `ownerId` as its first owner */
+  create(name: string, ownerId: string): Promise<Household>;
+  get(id: string): Promise<Household | null>;
+  rename(id: string, name: string): Promise<Household>;
+  /** Members and invitations go with it */
+  delete(id: string): Promise<void>;
+  /** Oldest membership first */
+  listForUser(userId: string): Promise<HouseholdWithRole[]>;
+  /** Oldest first */
+  listMembers(householdId: string): Promise<HouseholdMember[]>;
+  getMember(householdId: string, userId: string): Promise<HouseholdMember | null>;
+  addMember(householdId: string, userId: string, role: HouseholdRole): Promise<HouseholdMember>;
+  updateMember(householdId: string, userId: string, role: HouseholdRole): Promise<HouseholdMember>;
+  removeMember(householdId: string, userId: string): Promise<void>;
+  createInvitation(input: NewHouseholdInvitation): Promise<HouseholdInvitation>;
+  findInvitationByCode(code: string): Promise<HouseholdInvitation | null>;
+  getInvitation(id: string): Promise<HouseholdInvitation | null>;
+  /** Not yet accepted or revoked, newest first */
+  listOpenInvitations(householdId: string): Promise<HouseholdInvitation[]>;
+  updateInvitation(id: string, patch: HouseholdInvitationPatch): Promise<HouseholdInvitation>;
+}
+
+export interface ReceiptItemMatchesRepository {
+  /** Upserts each (user, store, name, product) and bumps `times_matched` on repeats */
+  record(entries: NewReceiptItemMatch[]): Promise<void>;
+  listForUser(userId: string, receiptNames: string[]): Promise<ReceiptItemMatch[]>;
+}
+
+export interface ReceiptAbbreviationsRepository {
+  /** Upserts each (store, text, product) and bumps `confirmations` on repeats */
+  record(entries: NewReceiptAbbreviation[]): Promise<void>;
+  /** Every store of the chain */
+  lookup(chain: string, receiptTexts: string[]): Promise<ReceiptAbbreviation[]>;
+  /** Most confirmed first, `products` and `stores` joined */
+  list(filter: ReceiptAbbreviationFilter): Promise<ReceiptAbbreviationWithDetails[]>;
+  getById(id: string): Promise<ReceiptAbbreviation | null>;
+  update(id: string, patch: ReceiptAbbreviationPatch): Promise<ReceiptAbbreviation>;
+  delete(id: string): Promise<void>;
+}
+
+export type ReceiptJobPatch = Partial<
+  Pick<ReceiptJob, "status" | "provider" | "result" | "error" | "finished_at">
+>;
+
+export interface ReceiptJobsRepository {
+  create(input: { user_id: string; image_path: string }): Promise<ReceiptJob>;
+  /** When `userId` is given only that user's job is returned */
+  getById(id: string, userId?: string): Promise<ReceiptJob | null>;
+  /** Atomically moves the oldest queued job to processing, counting the attempt */
+  claimNext(): Promise<ReceiptJob | null>;
+  update(id: string, patch: ReceiptJobPatch): Promise<ReceiptJob>;
+  /** Puts jobs stuck in processing since before `staleBefore` back in the queue */
+  requeueStale(staleBefore: string): Promise<number>;
+}
+
+export interface ExchangeRatesRepository {
+  /** Inserts or replaces the rate for each (base, quote, date); returns how many were written */
+  upsert(rates: NewExchangeRate[]): Promise<number>;
+  /** Newest first */
+  list(filter: ExchangeRateFilter): Promise<ExchangeRate[]>;
+}
+
+export interface ShoppingListsRepository {
+  /** Most recently changed first */
+  list(userId: string): Promise<ShoppingList[]>;
+  /** The list with its items (oldest first), or null when it is not the user's */
+  get(id: string, userId: string): Promise<ShoppingListWithItems | null>;
+  create(userId: string, name: string): Promise<ShoppingList>;
+  update(id: string, patch: ShoppingListPatch): Promise<ShoppingList>;
+  delete(id: string): Promise<void>;
+  /** Adds the product, or replaces quantity and note when it is already on the list */
+  upsertItem(input: NewShoppingListItem): Promise<ShoppingListItem>;
+  updateItem(itemId: string, patch: ShoppingListItemPatch): Promise<ShoppingListItem>;
+  removeItem(itemId: string): Promise<void>;
+}
+
+export interface ModerationRepository {
+  /** One open report per reporter and target; reporting again replaces the reason */
+  report(input: NewContentReport): Promise<ContentReport>;
+  /** Targets with open reports, most reported first, then longest waiting */
+  queue(targetType: ModerationTargetType | null, limit: number): Promise<ReportedTarget[]>;
+  openReportCount(targetType: ModerationTargetType, targetId: string): Promise<number>;
+  /** Closes the target's open reports; returns how many */
+  closeReports(
+    targetType: ModerationTargetType,
+    targetId: string,
+    status: "resolved" | "dismissed",
+    moderatorId: string
+  ): Promise<number>;
+  logAction(input: NewModerationAction): Promise<ModerationAction>;
+  /** Newest first */
+  listActions(targetType: ModerationTargetType, targetId: string): Promise<ModerationAction[]>;
+}
+
+export interface StorageRepository {
+  /** Returns the stored object path, or null when no remote storage is available */
+  uploadReceiptImage(objectPath: string, data: Buffer): Promise<string | null>;
+}
+
+/**
+ * Data-access layer handed to every router through the tRPC context.
+ * Implemented over Supabase (production) and in memory (local dev / tests).
+ */
+export interface Repository {
+  kind: "supabase" | "memory";
+  products: ProductsRepository;
+  stores: StoresRepository;
+  prices: PricesRepository;
+  receipts: ReceiptsRepository;
+  rankings: RankingsRepository;
+  votes: VotesRepository;
+  discussions: DiscussionsRepository;
+  bookmarks: BookmarksRepository;
+  alerts: PriceAlertsRepository;
+  receiptJobs: ReceiptJobsRepository;
+  itemMatches: ReceiptItemMatchesRepository;
+  abbreviations: ReceiptAbbreviationsRepository;
+  exchangeRates: ExchangeRatesRepository;
+  shoppingLists: ShoppingListsRepository;
+  notifications: NotificationsRepository;
+  sharing: SharingRepository;
+  households: HouseholdsRepository;
+  budgets: BudgetsRepository;
+  moderation: ModerationRepository;
+  storage: StorageRepository;
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import { chainKey } from "../matching/dictionary";
+import { normalizeName } from "../matching/normalize";
+
+// Mappings are shared, but only the shopper who first confirmed one may change it
+async function getOwnedEntry(db: Repository, id: string, userId: string) {
+  const entry = await db.abbreviations.getById(id);
+  if (!entry) throw new TRPCError({ code: "NOT_FOUND", message: "Abbreviation not found" });
+  if (entry.created_by !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You can only change abbreviations you added" });
+  }
+  return entry;
+}
+
+export const abbreviationsRouter = router({
+  // Learned receipt text -> product mappings, most confirmed first
+  list: protectedProcedure
+    .input(z.object({
+      storeId: z.string().uuid().optional(),
+      // Store or chain name, e.g. "Walmart Supercenter" or "walmart"
+      chain: z.string().min(1).optional(),
+      query: z.string().optional(),
+      limit: z.number().min(1).max(200).default(50),
+    }))
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.abbreviations.list({
+        storeId: input.storeId,
+        chain: input.chain ? chainKey(input.chain) : undefined,
+        query: input.query ? normalizeName(input.query) : undefined,
+        limit: input.limit,
+      });
+    }),
+
+  update: protectedProcedure
+    .input(z.object({
+      id: z.string().uuid(),
+      receiptText: z.string().min(1).optional(),
+      productId: z.string().uuid().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await getOwnedEntry(ctx.db, input.id, ctx.user.userId);
+
+      const receiptText = input.receiptText !== undefined ? normalizeName(input.receiptText) : entry.receipt_text;
+      if (!receiptText) throw new TRPCError({ code: "BAD_REQUEST", message: "Receipt text is empty" });
+      const productId = input.productId ?? entry.product_id;
+      if (input.productId && (await ctx.db.products.findByIds([input.productId])).length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Product not found" });
+      }
+
+      const existing = await ctx.db.abbreviations.lookup(entry.chain, [receiptText]);
+      if (existing.some((e) => e.id !== entry.id && e.store_id === entry.store_id && e.product_id === productId)) {
+        throw new TRPCError({ code: "CONFLICT", message: "This store already maps that text to that product" });
+      }
+
+      return await ctx.db.abbreviations.update(entry.id, { receipt_text: receiptText, product_id: productId });
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await getOwnedEntry(ctx.db, input.id, ctx.user.userId);
+      await ctx.db.abbreviations.delete(entry.id);
+      return { success: true };
+    }),
+});
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import { currencyCode, loadCurrencyConverter } from "../currency/exchange";
+import { scopeUserIds } from "../households/access";
+import {
+  basketTrends,
+  monthOverMonth,
+  previousMonth,
+  spendingByCategory,
+  spendingByMonth,
+  spendingByStore,
+  spendingByTag,
+  spendingTotals,
+  toPurchaseLines,
+  topProducts,
+} from "../analytics/spending";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const isoMonth = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected YYYY-MM");
+
+const rangeInput = z.object({
+  // Inclusive days (UTC) of the purchase time
+  from: isoDate.optional(),
+  until: isoDate.optional(),
+  // Required when purchases are in more than one currency
+  displayCurrency: currencyCode.optional(),
+  // Spending of the household's sharing members instead of only the caller's
+  householdId: z.string().uuid().optional(),
+});
+
+type RangeInput = z.infer<typeof rangeInput>;
+
+const lastDayOfMonth = (month: string) => {
+  const [year, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, m, 0)).toISOString().slice(0, 10);
+};
+
+/**
+ * The caller's (or household's) purchases, complete and non-deleted receipts
+ * only, as lines in one currency.
+ */
+async function loadPurchaseLines(db: Repository, userId: string, input: RangeInput) {
+  if (input.from && input.until && input.from > input.until) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "from must not be after until" });
+  }
+  const userIds = await scopeUserIds(db, userId, input.householdId);
+  const prices = await db.prices.listPurchases({ userIds, from: input.from, until: input.until });
+
+  const currencies = [...new Set(prices.map((p) => p.currency))].sort();
+  if (!input.displayCurrency && currencies.length > 1) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Purchases are in several currencies (${currencies.join(", ")}); pass displayCurrency`,
+    });
+  }
+  const converter = input.displayCurrency
+    ? await loadCurrencyConverter(db, input.displayCurrency, currencies)
+    : null;
+  const { lines, unconvertedCount } = toPurchaseLines(prices, converter);
+
+  return {
+    lines,
+    currency: input.displayCurrency ?? currencies[0] ?? null,
+    unconvertedCount,
+  };
+}
+
+export const analyticsRouter = router({
+  // Totals for the range, for the top of the dashboard
+  summary: protectedProcedure
+    .input(rangeInput)
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return { currency, unconvertedCount, ...spendingTotals(lines) };
+    }),
+
+  byMonth: protectedProcedure
+    .input(rangeInput)
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return { currency, unconvertedCount, months: spendingByMonth(lines) };
+    }),
+
+  byStore: protectedProcedure
+    .input(rangeInput)
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return { currency, unconvertedCount, stores: spendingByStore(lines) };
+    }),
+
+  byCategory: protectedProcedure
+    .input(rangeInput)
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return { currency, unconvertedCount, categories: spendingByCategory(lines) };
+    }),
+
+  // Savings are original_price - price on marked-down items, per tag (SALE, CLEARANCE, ...)
+  byTag: protectedProcedure
+    .input(rangeInput)
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return {
+        currency,
+        unconvertedCount,
+        totalSaved: spendingTotals(lines).saved,
+        tags: spendingByTag(lines),
+      };
+    }),
+
+  topProducts: protectedProcedure
+    .input(rangeInput.extend({
+      limit: z.number().int().min(1).max(100).default(10),
+      sortBy: z.enum(["spent", "quantity"]).default("spent"),
+    }))
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return { currency, unconvertedCount, products: topProducts(lines, input.limit, input.sortBy) };
+    }),
+
+  // Receipts per month with average items and spend per receipt
+  basketTrends: protectedProcedure
+    .input(rangeInput)
+    .query(async ({ input, ctx }) => {
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, input);
+      return { currency, unconvertedCount, months: basketTrends(lines) };
+    }),
+
+  monthOverMonth: protectedProcedure
+    .input(z.object({
+      // Defaults to the current month (UTC)
+      month: isoMonth.optional(),
+      displayCurrency: currencyCode.optional(),
+      householdId: z.string().uuid().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const month = input.month ?? new Date().toISOString().slice(0, 7);
+      const { lines, currency, unconvertedCount } = await loadPurchaseLines(ctx.db, ctx.user.userId, {
+        from: `${previousMonth(month)}-01`,
+        until: lastDayOfMonth(month),
+        displayCurrency: input.displayCurrency,
+        householdId: input.householdId,
+      });
+      return { currency, unconvertedCount, ...monthOverMonth(lines, month) };
+    }),
+});
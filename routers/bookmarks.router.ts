@@ -1,53 +1,101 @@
 import { z } from "zod";
 import { router, protectedProcedure, TRPCError } from "../trpc";
-import { supabase, type Bookmark, type PriceAlert } from "../supabase";
+import type { PriceWithDetails } from "../supabase";
+import type { BookmarkRules, Repository } from "../repositories/types";
+import { currencyCode, loadCurrencyConverter, withDisplayPrices, type DisplayPrice } from "../currency/exchange";
+import { scopeUserIds } from "../households/access";
+
+// Alert rules; null turns a rule off and a missing key leaves it unchanged
+const alertRules = z.object({
+  // Only prices at these stores count, for alerts and for comparisons
+  storeIds: z.array(z.string().uuid()).min(1).max(50).nullable().optional(),
+  // Only stores within radiusKm of a saved location
+  near: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    radiusKm: z.number().positive().max(500),
+  }).nullable().optional(),
+  // price_drop alerts only when the drop is at least this big
+  minDropPercent: z.number().positive().max(100).nullable().optional(),
+  // Per 100 g / 100 ml / item, like prices.unit_price
+  targetUnitPrice: z.number().positive().nullable().optional(),
+  // Prices below their original price or tagged SALE
+  notifyOnSale: z.boolean().optional(),
+  // The lowest price seen at the watched stores in this many days
+  lowestInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+type AlertRulesInput = z.infer<typeof alertRules>;
+
+async function toRuleColumns(db: Repository, rules: AlertRulesInput): Promise<Partial<BookmarkRules>> {
+  const storeIds = rules.storeIds ? [...new Set(rules.storeIds)] : rules.storeIds;
+  if (storeIds) {
+    const stores = await db.stores.findByIds(storeIds);
+    if (stores.length !== storeIds.length) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Store not found" });
+    }
+  }
+  return {
+    ...(storeIds !== undefined && { store_ids: storeIds }),
+    ...(rules.near !== undefined && {
+      near_latitude: rules.near?.latitude ?? null,
+      near_longitude: rules.near?.longitude ?? null,
+      radius_km: rules.near?.radiusKm ?? null,
+    }),
+    ...(rules.minDropPercent !== undefined && { min_drop_percent: rules.minDropPercent }),
+    ...(rules.targetUnitPrice !== undefined && { target_unit_price: rules.targetUnitPrice }),
+    ...(rules.notifyOnSale !== undefined && { notify_on_sale: rules.notifyOnSale }),
+    ...(rules.lowestInDays !== undefined && { lowest_in_days: rules.lowestInDays }),
+  };
+}
 
 export const bookmarksRouter = router({
   list: protectedProcedure
     .input(z.object({
       page: z.number().default(1),
       pageSize: z.number().default(20),
+      // Price stats in this currency, each price at its purchase-date rate
+      displayCurrency: currencyCode.optional(),
+      // Bookmarks of the household's sharing members; each row keeps its user_id
+      householdId: z.string().uuid().optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const db = supabase;
-      if (!db) return { bookmarks: [], totalCount: 0, totalPages: 0, currentPage: 1, hasMore: false };
-      
       const from = (input.page - 1) * input.pageSize;
-      const to = from + input.pageSize - 1;
       
       // 1. Get bookmarks
-      const { data, count, error } = await db
-        .from('bookmarks')
-        .select('*, products(*)', { count: 'exact' })
-        .eq('user_id', ctx.user.userId)
-        .order('created_at', { ascending: false })
-        .range(from, to);
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      const userIds = await scopeUserIds(ctx.db, ctx.user.userId, input.householdId);
+      const { rows, count } = await ctx.db.bookmarks.list(userIds, { offset: from, limit: input.pageSize });
+      const pricesByBookmark = await Promise.all(rows.map((bookmark) => ctx.db.prices.listByProduct(bookmark.product_id, ctx.user.userId)));
+      const converter = input.displayCurrency
+        ? await loadCurrencyConverter(ctx.db, input.displayCurrency, pricesByBookmark.flat().map((p) => p.currency))
+        : null;
       
-      // 2. For each bookmark, fetch price stats
-      const bookmarksWithStats = await Promise.all((data || []).map(async (bookmark) => {
-        const { data: prices } = await db
-          .from('prices')
-          .select('price, detected_at, stores(name)')
-          .eq('product_id', bookmark.product_id)
-          .order('detected_at', { ascending: false });
+      // 2. For each bookmark, compute price stats
+      const bookmarksWithStats = rows.map((bookmark, index) => {
+        const prices: (PriceWithDetails & Partial<DisplayPrice>)[] = converter
+          ? withDisplayPrices(pricesByBookmark[index], converter)
+          : pricesByBookmark[index];
           
-        const priceValues = (prices || []).map(p => Number(p.price));
+        // Prices without an exchange rate are left out
+        const priceValues = prices.flatMap((p) => {
+          const value = converter ? p.displayPrice : Number(p.price);
+          return value === null || value === undefined ? [] : [value];
+        });
         const stats = {
           lowest: priceValues.length > 0 ? Math.min(...priceValues) : null,
           average: priceValues.length > 0 ? priceValues.reduce((a, b) => a + b, 0) / priceValues.length : null,
           highest: priceValues.length > 0 ? Math.max(...priceValues) : null,
-          recentPrices: prices || [],
+          recentPrices: prices,
+          ...(converter && { currency: converter.displayCurrency }),
         };
         
         return {
           ...bookmark,
           priceStats: stats,
         };
-      }));
+      });
       
-      const totalCount = count || 0;
+      const totalCount = count;
       const totalPages = Math.ceil(totalCount / input.pageSize);
       
       return {
@@ -64,25 +112,36 @@ export const bookmarksRouter = router({
       productId: z.string().uuid(),
       notifyOnPriceDrop: z.boolean().default(true),
       targetPrice: z.number().optional(),
+      rules: alertRules.optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { data, error } = await supabase
-        .from('bookmarks')
-        .upsert({
-          user_id: ctx.user.userId,
-          product_id: input.productId,
-          notify_on_price_drop: input.notifyOnPriceDrop,
-          target_price: input.targetPrice || null,
-        }, { 
-          onConflict: 'user_id,product_id' 
-        })
-        .select()
-        .single();
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data as Bookmark;
+      return await ctx.db.bookmarks.upsert({
+        user_id: ctx.user.userId,
+        product_id: input.productId,
+        notify_on_price_drop: input.notifyOnPriceDrop,
+        target_price: input.targetPrice || null,
+        ...(input.rules && await toRuleColumns(ctx.db, input.rules)),
+      });
+    }),
+
+  updateRules: protectedProcedure
+    .input(alertRules.extend({
+      productId: z.string().uuid(),
+      notifyOnPriceDrop: z.boolean().optional(),
+      targetPrice: z.number().positive().nullable().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { productId, notifyOnPriceDrop, targetPrice, ...rules } = input;
+      const patch = {
+        ...(notifyOnPriceDrop !== undefined && { notify_on_price_drop: notifyOnPriceDrop }),
+        ...(targetPrice !== undefined && { target_price: targetPrice }),
+        ...await toRuleColumns(ctx.db, rules),
+      };
+      const updated = await ctx.db.bookmarks.update(ctx.user.userId, productId, patch);
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Bookmark not found" });
+      }
+      return updated;
     }),
 
   delete: protectedProcedure
@@ -90,15 +149,7 @@ export const bookmarksRouter = router({
       productId: z.string().uuid(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { error } = await supabase
-        .from('bookmarks')
-        .delete()
-        .eq('user_id', ctx.user.userId)
-        .eq('product_id', input.productId);
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.bookmarks.delete(ctx.user.userId, input.productId);
       return { success: true };
     }),
 
@@ -107,16 +158,7 @@ export const bookmarksRouter = router({
       productId: z.string().uuid(),
     }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return null;
-      
-      const { data } = await supabase
-        .from('bookmarks')
-        .select('*')
-        .eq('user_id', ctx.user.userId)
-        .eq('product_id', input.productId)
-        .maybeSingle();
-        
-      return data as Bookmark | null;
+      return await ctx.db.bookmarks.get(ctx.user.userId, input.productId);
     }),
 
   // Price Alerts
@@ -126,27 +168,14 @@ export const bookmarksRouter = router({
       limit: z.number().default(50),
     }))
     .query(async ({ input, ctx }) => {
-      const db = supabase;
-      if (!db) return { alerts: [], totalCount: 0 };
-      
-      let query = db
-        .from('price_alerts')
-        .select('*, products(*)', { count: 'exact' })
-        .eq('user_id', ctx.user.userId)
-        .order('created_at', { ascending: false })
-        .limit(input.limit);
-        
-      if (input.unreadOnly) {
-        query = query.eq('is_read', false);
-      }
-      
-      const { data, count, error } = await query;
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      const { rows, count } = await ctx.db.alerts.list(ctx.user.userId, {
+        unreadOnly: input.unreadOnly,
+        limit: input.limit,
+      });
       
       return {
-        alerts: data as PriceAlert[],
-        totalCount: count || 0,
+        alerts: rows,
+        totalCount: count,
       };
     }),
 
@@ -155,23 +184,7 @@ export const bookmarksRouter = router({
       alertId: z.string().uuid().optional(), // If null, mark all as read
     }))
     .mutation(async ({ input, ctx }) => {
-      const db = supabase;
-      if (!db) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      let query = db
-        .from('price_alerts')
-        .update({ is_read: true })
-        .eq('user_id', ctx.user.userId);
-        
-      if (input.alertId) {
-        query = query.eq('id', input.alertId);
-      } else {
-        query = query.eq('is_read', false);
-      }
-      
-      const { error } = await query;
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.alerts.markAsRead(ctx.user.userId, input.alertId);
       return { success: true };
     }),
 });
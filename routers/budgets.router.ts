@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import { currencyCode } from "../currency/exchange";
+import { budgetProgress } from "../budgets/progress";
+
+// Percentages of the amount, e.g. [80, 100]; stored ascending without repeats
+const thresholds = z
+  .array(z.number().int().min(1).max(200))
+  .min(1)
+  .max(5)
+  .transform((values) => [...new Set(values)].sort((a, b) => a - b));
+
+const budgetFields = z.object({
+  name: z.string().trim().min(1).max(80),
+  period: z.enum(["weekly", "monthly"]),
+  amount: z.number().positive(),
+  currency: currencyCode,
+  // Matched case-insensitively against product categories
+  category: z.string().trim().min(1).max(80).nullable(),
+  storeId: z.string().uuid().nullable(),
+  thresholds,
+});
+
+async function requireBudget(db: Repository, budgetId: string, userId: string) {
+  const budget = await db.budgets.get(budgetId);
+  if (!budget || budget.user_id !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Budget not found" });
+  }
+  return budget;
+}
+
+async function requireStore(db: Repository, storeId: string | null | undefined) {
+  if (storeId && !(await db.stores.getById(storeId))) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Store not found" });
+  }
+}
+
+export const budgetsRouter = router({
+  // The caller's budgets with their progress in the current period
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const budgets = await ctx.db.budgets.list(ctx.user.userId);
+    return await Promise.all(budgets.map((budget) => budgetProgress(ctx.db, budget)));
+  }),
+
+  get: protectedProcedure
+    .input(z.object({ budgetId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const budget = await requireBudget(ctx.db, input.budgetId, ctx.user.userId);
+      return await budgetProgress(ctx.db, budget);
+    }),
+
+  create: protectedProcedure
+    .input(budgetFields.extend({
+      currency: currencyCode.default("USD"),
+      category: budgetFields.shape.category.default(null),
+      storeId: budgetFields.shape.storeId.default(null),
+      thresholds: thresholds.default([80, 100]),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await requireStore(ctx.db, input.storeId);
+      const budget = await ctx.db.budgets.create({
+        user_id: ctx.user.userId,
+        name: input.name,
+        period: input.period,
+        amount: input.amount,
+        currency: input.currency,
+        category: input.category,
+        store_id: input.storeId,
+        thresholds: input.thresholds,
+      });
+      console.log(`💸 Budget ${budget.id} created by ${ctx.user.userId}`);
+      return await budgetProgress(ctx.db, budget);
+    }),
+
+  // Missing keys stay unchanged; null clears the category or store
+  update: protectedProcedure
+    .input(budgetFields.partial().extend({ budgetId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireBudget(ctx.db, input.budgetId, ctx.user.userId);
+      await requireStore(ctx.db, input.storeId);
+      const budget = await ctx.db.budgets.update(input.budgetId, {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.period !== undefined && { period: input.period }),
+        ...(input.amount !== undefined && { amount: input.amount }),
+        ...(input.currency !== undefined && { currency: input.currency }),
+        ...(input.category !== undefined && { category: input.category }),
+        ...(input.storeId !== undefined && { store_id: input.storeId }),
+        ...(input.thresholds !== undefined && { thresholds: input.thresholds }),
+      });
+      return await budgetProgress(ctx.db, budget);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ budgetId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireBudget(ctx.db, input.budgetId, ctx.user.userId);
+      await ctx.db.budgets.delete(input.budgetId);
+      return { success: true };
+    }),
+});
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { router, publicProcedure, adminProcedure, TRPCError } from "../trpc";
+import { currencyCode, exchangeRateInput, loadCurrencyConverter, toNewExchangeRate } from "../currency/exchange";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const currencyRouter = router({
+  // Stored rates, newest first
+  rates: publicProcedure
+    .input(z.object({
+      base: currencyCode.optional(),
+      quote: currencyCode.optional(),
+      from: isoDate.optional(),
+      until: isoDate.optional(),
+      limit: z.number().min(1).max(1000).default(100),
+    }))
+    .query(async ({ input, ctx }) => {
+      const currencies = [input.base, input.quote].filter((c): c is string => !!c);
+      const rows = await ctx.db.exchangeRates.list({
+        currencies: currencies.length > 0 ? currencies : undefined,
+        from: input.from,
+        until: input.until,
+      });
+      return rows
+        .filter((r) => !input.base || r.base_currency === input.base)
+        .filter((r) => !input.quote || r.quote_currency === input.quote)
+        .slice(0, input.limit);
+    }),
+
+  convert: publicProcedure
+    .input(z.object({
+      amount: z.number(),
+      from: currencyCode,
+      to: currencyCode,
+      date: isoDate.optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const converter = await loadCurrencyConverter(ctx.db, input.to, [input.from]);
+      const amount = converter.convert(input.amount, input.from, input.date);
+      if (amount === null) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `No exchange rate from ${input.from} to ${input.to}` });
+      }
+      return { amount, currency: input.to };
+    }),
+
+  // Adds or replaces rates for (base, quote, date)
+  setRates: adminProcedure
+    .input(z.object({ rates: z.array(exchangeRateInput).min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const invalid = input.rates.find((r) => r.base === r.quote);
+      if (invalid) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: `Rate from ${invalid.base} to itself` });
+      }
+      const saved = await ctx.db.exchangeRates.upsert(input.rates.map((r) => toNewExchangeRate(r, "admin")));
+      console.log(`✅ Exchange rates updated: ${saved}`);
+      return { saved };
+    }),
+});
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { randomBytes } from "crypto";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import { requireMembership } from "../households/access";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const householdName = z.string().trim().min(1).max(80);
+
+// 10 characters, easy to read out or type
+const newInvitationCode = () => randomBytes(5).toString("hex").toUpperCase();
+
+// Removes a member; the last owner can only go once nobody else is left, and takes the household along
+async function removeMember(db: Repository, householdId: string, userId: string) {
+  const members = await db.households.listMembers(householdId);
+  const member = members.find((m) => m.user_id === userId);
+  if (!member) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Household member not found" });
+  }
+  if (members.length === 1) {
+    await db.households.delete(householdId);
+    return { success: true, householdDeleted: true };
+  }
+  if (member.role === "owner" && !members.some((m) => m.role === "owner" && m.user_id !== userId)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Make another member an owner first" });
+  }
+  await db.households.removeMember(householdId, userId);
+  return { success: true, householdDeleted: false };
+}
+
+export const householdsRouter = router({
+  // Households the caller belongs to, with their role in each
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await ctx.db.households.listForUser(ctx.user.userId);
+  }),
+
+  get: protectedProcedure
+    .input(z.object({ householdId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const { role } = await requireMembership(ctx.db, input.householdId, ctx.user.userId);
+      const [household, members, invitations] = await Promise.all([
+        ctx.db.households.get(input.householdId),
+        ctx.db.households.listMembers(input.householdId),
+        // Open invitation codes are only shown to owners
+        role === "owner" ? ctx.db.households.listOpenInvitations(input.householdId) : [],
+      ]);
+      return { ...household!, role, members, invitations };
+    }),
+
+  create: protectedProcedure
+    .input(z.object({ name: householdName }))
+    .mutation(async ({ input, ctx }) => {
+      const household = await ctx.db.households.create(input.name, ctx.user.userId);
+      console.log(`🏠 Household ${household.id} created by ${ctx.user.userId}`);
+      return { ...household, role: "owner" as const };
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({ householdId: z.string().uuid(), name: householdName }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(ctx.db, input.householdId, ctx.user.userId, ["owner"]);
+      return await ctx.db.households.rename(input.householdId, input.name);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ householdId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(ctx.db, input.householdId, ctx.user.userId, ["owner"]);
+      await ctx.db.households.delete(input.householdId);
+      return { success: true };
+    }),
+
+  // A one-time code to share with the person joining
+  invite: protectedProcedure
+    .input(z.object({
+      householdId: z.string().uuid(),
+      role: z.enum(["member", "viewer"]).default("member"),
+      expiresInDays: z.number().int().min(1).max(30).default(7),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(ctx.db, input.householdId, ctx.user.userId, ["owner"]);
+      return await ctx.db.households.createInvitation({
+        household_id: input.householdId,
+        code: newInvitationCode(),
+        role: input.role,
+        invited_by: ctx.user.userId,
+        expires_at: new Date(Date.now() + input.expiresInDays * DAY_MS).toISOString(),
+      });
+    }),
+
+  revokeInvitation: protectedProcedure
+    .input(z.object({ invitationId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const invitation = await ctx.db.households.getInvitation(input.invitationId);
+      if (!invitation) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+      }
+      await requireMembership(ctx.db, invitation.household_id, ctx.user.userId, ["owner"]);
+      if (invitation.accepted_at) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invitation was already accepted" });
+      }
+      return await ctx.db.households.updateInvitation(invitation.id, {
+        revoked_at: invitation.revoked_at ?? new Date().toISOString(),
+      });
+    }),
+
+  acceptInvitation: protectedProcedure
+    .input(z.object({ code: z.string().trim().min(1).transform((code) => code.toUpperCase()) }))
+    .mutation(async ({ input, ctx }) => {
+      const invitation = await ctx.db.households.findInvitationByCode(input.code);
+      if (!invitation) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+      }
+      if (invitation.accepted_at || invitation.revoked_at) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invitation is no longer valid" });
+      }
+      if (invitation.expires_at <= new Date().toISOString()) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Invitation has expired" });
+      }
+      if (await ctx.db.households.getMember(invitation.household_id, ctx.user.userId)) {
+        throw new TRPCError({ code: "CONFLICT", message: "Already a member of this household" });
+      }
+
+      const member = await ctx.db.households.addMember(invitation.household_id, ctx.user.userId, invitation.role);
+      await ctx.db.households.updateInvitation(invitation.id, {
+        accepted_by: ctx.user.userId,
+        accepted_at: new Date().toISOString(),
+      });
+      const household = await ctx.db.households.get(invitation.household_id);
+      console.log(`🏠 ${ctx.user.userId} joined household ${invitation.household_id} as ${member.role}`);
+      return { ...household!, role: member.role };
+    }),
+
+  updateMemberRole: protectedProcedure
+    .input(z.object({
+      householdId: z.string().uuid(),
+      userId: z.string().uuid(),
+      role: z.enum(["owner", "member", "viewer"]),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(ctx.db, input.householdId, ctx.user.userId, ["owner"]);
+      const members = await ctx.db.households.listMembers(input.householdId);
+      const member = members.find((m) => m.user_id === input.userId);
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Household member not found" });
+      }
+      const otherOwners = members.filter((m) => m.role === "owner" && m.user_id !== input.userId);
+      if (member.role === "owner" && input.role !== "owner" && otherOwners.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A household needs at least one owner" });
+      }
+      return await ctx.db.households.updateMember(input.householdId, input.userId, input.role);
+    }),
+
+  removeMember: protectedProcedure
+    .input(z.object({ householdId: z.string().uuid(), userId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(ctx.db, input.householdId, ctx.user.userId, ["owner"]);
+      return await removeMember(ctx.db, input.householdId, input.userId);
+    }),
+
+  leave: protectedProcedure
+    .input(z.object({ householdId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMembership(ctx.db, input.householdId, ctx.user.userId);
+      return await removeMember(ctx.db, input.householdId, ctx.user.userId);
+    }),
+});
@@ -10,6 +10,23 @@ import { receiptsRouter } from "./receipts.router";
 import { rankingsRouter } from "./rankings.router";
 import { votingRouter } from "./voting.router";
 import { bookmarksRouter } from "./bookmarks.router";
+import { abbreviationsRouter } from "./abbreviations.router";
+import { currencyRouter } from "./currency.router";
+import { shoppingListsRouter } from "./shoppingLists.router";
+import { notificationsRouter } from "./notifications.router";
+import { analyticsRouter } from "./analytics.router";
+import { householdsRouter } from "./households.router";
+import { budgetsRouter } from "./budgets.router";
+import { moderationRouter } from "./moderation.router";
+import { applyLearnedAbbreviations } from "../matching/dictionary";
+import { recordItemMatches } from "../matching/product-matcher";
+import { checkBudgetAlerts } from "../budgets/progress";
+import { completeDraft, saveReceipt } from "../receipts/saving";
+import { publishesPrices } from "../prices/sharing";
+import { screenPrices } from "../prices/anomalies";
+import { withTrust } from "../prices/trust";
+import { assertOwnerOrModerator, requireVisibleTarget } from "../moderation/targets";
+import { postDiscussion } from "../discussions/posting";
 
 export const appRouter = router({
   // Namespaced routers (new API structure)
@@ -20,6 +37,14 @@ export const appRouter = router({
   rankings: rankingsRouter,
   voting: votingRouter,
   bookmarks: bookmarksRouter,
+  abbreviations: abbreviationsRouter,
+  currency: currencyRouter,
+  shoppingLists: shoppingListsRouter,
+  notifications: notificationsRouter,
+  analytics: analyticsRouter,
+  households: householdsRouter,
+  budgets: budgetsRouter,
+  moderation: moderationRouter,
 
   // ─────────────────────────────────────────────────────────────
   // FLAT ENDPOINTS (backward compatibility with existing frontend)
@@ -28,14 +53,7 @@ export const appRouter = router({
   
   // Legacy receipt endpoints
   getReceipts: protectedProcedure.query(async ({ ctx }) => {
-    if (!supabase) return [];
-    const { data } = await supabase
-      .from("prices")
-      .select("*, products(*), stores(*)")
-      .eq("user_id", ctx.user.userId)
-      .order("detected_at", { ascending: false })
-      .limit(50);
-    return data || [];
+    return await ctx.db.prices.listByUser(ctx.user.userId, 50);
   }),
 
   uploadReceipt: protectedProcedure
@@ -52,16 +70,8 @@ export const appRouter = router({
       const filepath = path.join(uploadsDir, filename);
       await writeFile(filepath, buffer);
       
-      let storagePath = filepath;
-      if (supabase) {
-        const { data, error } = await supabase.storage
-          .from("receipts")
-          .upload(`${ctx.user.userId}/${filename}`, buffer, {
-            contentType: "image/jpeg",
-          });
-        if (data) storagePath = data.path;
-        if (error) console.warn("Storage upload failed:", error.message);
-      }
+      const uploaded = await ctx.db.storage.uploadReceiptImage(`${ctx.user.userId}/${filename}`, buffer);
+      const storagePath = uploaded || filepath;
       
       console.log(`✔ Receipt saved: ${storagePath}`);
       return { success: true, path: storagePath };
@@ -70,26 +80,14 @@ export const appRouter = router({
   // Products flat endpoints
   productsList: publicProcedure
     .input(z.object({ limit: z.number().default(50) }).optional())
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase
-        .from("products")
-        .select("*")
-        .order("name")
-        .limit(input?.limit || 50);
-      return data || [];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.products.list(input?.limit || 50);
     }),
 
   productsSearch: publicProcedure
     .input(z.object({ query: z.string().min(1) }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase
-        .from("products")
-        .select("*")
-        .or(`name.ilike.%${input.query}%,barcode.eq.${input.query}`)
-        .limit(20);
-      return data || [];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.products.search(input.query, 20);
     }),
 
   productsCreate: protectedProcedure
@@ -99,11 +97,8 @@ export const appRouter = router({
       category: z.string().optional(),
       image_url: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { data, error } = await supabase.from("products").insert(input).select().single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.db.products.create(input);
     }),
 
   productsGetOrCreate: protectedProcedure
@@ -112,79 +107,51 @@ export const appRouter = router({
       barcode: z.string().optional(),
       category: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
+    .mutation(async ({ input, ctx }) => {
       let product = null;
-      if (input.barcode) {
-        const { data } = await supabase.from("products").select("*").eq("barcode", input.barcode).single();
-        product = data;
-      }
-      if (!product) {
-        const { data } = await supabase.from("products").select("*").ilike("name", input.name).single();
-        product = data;
-      }
+      if (input.barcode) product = await ctx.db.products.findByBarcode(input.barcode);
+      if (!product) product = await ctx.db.products.findByName(input.name);
       if (product) return product;
-      
-      const { data, error } = await supabase.from("products").insert({ name: input.name, barcode: input.barcode || null, category: input.category || null }).select().single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+      return await ctx.db.products.create({ name: input.name, barcode: input.barcode, category: input.category });
     }),
 
   // Stores flat endpoints
-  storesList: publicProcedure.query(async () => {
-    if (!supabase) return [];
-    const { data } = await supabase.from("stores").select("*").eq("is_deleted", false).order("name");
-    return data || [];
+  storesList: publicProcedure.query(async ({ ctx }) => {
+    return await ctx.db.stores.list();
   }),
 
   storesNearby: publicProcedure
     .input(z.object({ latitude: z.number(), longitude: z.number(), radiusKm: z.number().default(5) }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data, error } = await supabase.rpc("stores_nearby", { lat: input.latitude, lng: input.longitude, radius_km: input.radiusKm });
-      if (error) {
-        const { data: allStores } = await supabase.from("stores").select("*").eq("is_deleted", false);
-        return allStores || [];
-      }
-      return data || [];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.stores.nearby(input.latitude, input.longitude, input.radiusKm);
     }),
 
   storesGetById: publicProcedure
     .input(z.object({ storeId: z.string().uuid() }))
-    .query(async ({ input }) => {
-      if (!supabase) return null;
-      const { data } = await supabase.from("stores").select("*").eq("id", input.storeId).eq("is_deleted", false).maybeSingle();
-      return data;
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.stores.getById(input.storeId);
     }),
 
   storesCreate: protectedProcedure
     .input(z.object({ name: z.string().min(1), address: z.string().optional(), latitude: z.number(), longitude: z.number() }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { data, error } = await supabase.from("stores").insert(input).select().single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.db.stores.create({ ...input, created_by: ctx.user.userId });
     }),
 
   storesGetOrCreate: protectedProcedure
     .input(z.object({ name: z.string().min(1), address: z.string().optional(), latitude: z.number(), longitude: z.number() }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { data: existing } = await supabase.from("stores").select("*").ilike("name", `%${input.name}%`).eq("is_deleted", false).limit(1).single();
+    .mutation(async ({ input, ctx }) => {
+      const existing = await ctx.db.stores.findByNameLike(input.name);
       if (existing) return existing;
-      const { data, error } = await supabase.from("stores").insert(input).select().single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+      return await ctx.db.stores.create({ ...input, created_by: ctx.user.userId });
     }),
 
   storesCheckDuplicate: protectedProcedure
     .input(z.object({ name: z.string(), address: z.string().optional(), latitude: z.number(), longitude: z.number() }))
-    .mutation(async ({ input }) => {
-      if (!supabase) return { status: "none" };
-      const { data: nameMatch } = await supabase.from("stores").select("*").ilike("name", input.name).eq("is_deleted", false).maybeSingle();
+    .mutation(async ({ input, ctx }) => {
+      const nameMatch = await ctx.db.stores.findByName(input.name);
       if (nameMatch) return { status: "exact", message: "A store with this exact name already exists.", store: nameMatch };
-      const { data: locMatch } = await supabase.from("stores").select("*").eq("is_deleted", false).gte("latitude", input.latitude - 0.001).lte("latitude", input.latitude + 0.001).gte("longitude", input.longitude - 0.001).lte("longitude", input.longitude + 0.001).limit(1).maybeSingle();
+      const locMatch = await ctx.db.stores.findNear(input.latitude, input.longitude, 0.001);
       if (locMatch) return { status: "location", message: `A store is already at this location: "${locMatch.name}"`, store: locMatch };
       return { status: "none" };
     }),
@@ -195,58 +162,50 @@ export const appRouter = router({
 
   storesSoftDelete: protectedProcedure
     .input(z.object({ storeId: z.string().uuid() }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase.from("stores").update({ is_deleted: true }).eq("id", input.storeId);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+    .mutation(async ({ input, ctx }) => {
+      const store = await ctx.db.stores.getById(input.storeId);
+      if (!store) throw new TRPCError({ code: "NOT_FOUND", message: "Store not found" });
+      assertOwnerOrModerator(ctx.user, store.created_by ?? null, "You can only delete stores you added");
+      await ctx.db.stores.softDelete(store.id);
       return { success: true };
     }),
 
   storesVisited: protectedProcedure.query(async ({ ctx }) => {
-    if (!supabase) return [];
-    const { data: receipts } = await supabase.from("receipts").select("store_id").eq("user_id", ctx.user.userId).not("store_id", "is", null);
-    if (!receipts?.length) return [];
-    const storeIds = [...new Set(receipts.map(r => r.store_id))];
-    const { data: stores } = await supabase.from("stores").select("*").in("id", storeIds).eq("is_deleted", false);
-    return stores || [];
+    const storeIds = await ctx.db.receipts.storeIdsForUsers([ctx.user.userId]);
+    if (!storeIds.length) return [];
+    return await ctx.db.stores.findByIds(storeIds);
   }),
 
   storeStats: protectedProcedure
     .input(z.object({ storeId: z.string().uuid() }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return { totalSpent: 0, avgPerItem: 0, thisMonthSpent: 0, itemCount: 0 };
       const firstDayOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString();
-      const { data: prices } = await supabase.from("prices").select("price").eq("store_id", input.storeId).eq("user_id", ctx.user.userId);
-      const { data: monthlyPrices } = await supabase.from("prices").select("price").eq("store_id", input.storeId).eq("user_id", ctx.user.userId).gte("detected_at", firstDayOfMonth);
-      const totalSpent = prices?.reduce((sum, p) => sum + Number(p.price), 0) || 0;
-      const itemCount = prices?.length || 0;
-      return { totalSpent, avgPerItem: itemCount > 0 ? totalSpent / itemCount : 0, thisMonthSpent: monthlyPrices?.reduce((sum, p) => sum + Number(p.price), 0) || 0, itemCount };
+      const prices = await ctx.db.prices.listPurchasesAtStore([ctx.user.userId], input.storeId);
+      const monthlyPrices = await ctx.db.prices.listPurchasesAtStore([ctx.user.userId], input.storeId, firstDayOfMonth);
+      const totalSpent = prices.reduce((sum, p) => sum + Number(p.price), 0);
+      const itemCount = prices.length;
+      return { totalSpent, avgPerItem: itemCount > 0 ? totalSpent / itemCount : 0, thisMonthSpent: monthlyPrices.reduce((sum, p) => sum + Number(p.price), 0), itemCount };
     }),
 
   // Prices flat endpoints
   pricesAdd: protectedProcedure
     .input(z.object({ productId: z.string().uuid(), storeId: z.string().uuid(), price: z.number().positive(), receiptImagePath: z.string().optional() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { data, error } = await supabase.from("prices").insert({ product_id: input.productId, store_id: input.storeId, user_id: ctx.user.userId, price: input.price, receipt_image_path: input.receiptImagePath || null }).select("*, products(*), stores(*)").single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+      const [record] = await screenPrices(ctx.db, [{ product_id: input.productId, store_id: input.storeId, user_id: ctx.user.userId, price: input.price, receipt_image_path: input.receiptImagePath || null, published: await publishesPrices(ctx.db, ctx.user.userId) }]);
+      return await ctx.db.prices.create(record);
     }),
 
   pricesHistory: publicProcedure
     .input(z.object({ productId: z.string().uuid(), limit: z.number().default(100) }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase.from("prices").select("*, stores(name)").eq("product_id", input.productId).order("detected_at", { ascending: true }).limit(input.limit);
-      return data || [];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.prices.history(input.productId, input.limit, ctx.user?.userId ?? null);
     }),
 
   pricesCheapest: publicProcedure
     .input(z.object({ productId: z.string().uuid(), latitude: z.number().optional(), longitude: z.number().optional(), radiusKm: z.number().default(10) }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase.from("prices").select("*, stores(*)").eq("product_id", input.productId).order("detected_at", { ascending: false });
-      if (!data?.length) return [];
+    .query(async ({ input, ctx }) => {
+      const data = await withTrust(ctx.db, await ctx.db.prices.listByProduct(input.productId, ctx.user?.userId ?? null));
+      if (!data.length) return [];
       const storeMap = new Map<string, any>();
       for (const price of data) { if (!storeMap.has(price.store_id)) storeMap.set(price.store_id, price); }
       return Array.from(storeMap.values()).sort((a, b) => a.price - b.price);
@@ -254,26 +213,23 @@ export const appRouter = router({
 
   pricesRecent: publicProcedure
     .input(z.object({ limit: z.number().default(20) }).optional())
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase.from("prices").select("*, products(*), stores(*)").order("detected_at", { ascending: false }).limit(input?.limit || 20);
-      return data || [];
+    .query(async ({ input, ctx }) => {
+      const limit = input?.limit || 20;
+      return (await withTrust(ctx.db, await ctx.db.prices.recent(limit * 3, ctx.user?.userId ?? null))).slice(0, limit);
     }),
 
   pricesByStore: protectedProcedure
     .input(z.object({ storeId: z.string().uuid(), limit: z.number().default(50) }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return [];
-      const { data } = await supabase.from("prices").select("*, products(*)").eq("store_id", input.storeId).eq("user_id", ctx.user.userId).order("detected_at", { ascending: false }).limit(input.limit);
-      return data || [];
+      return await ctx.db.prices.listByStore(input.storeId, ctx.user.userId, input.limit);
     }),
 
   // Receipts flat endpoints
   receiptsParseWithAI: protectedProcedure
     .input(z.object({ imageBase64: z.string() }))
-    .mutation(async ({ input }) => {
-      const { parseReceiptImage } = await import("../gemini");
-      return await parseReceiptImage(input.imageBase64);
+    .mutation(async ({ input, ctx }) => {
+      const { receipt, provider } = await ctx.receiptParser.parse(input.imageBase64);
+      return { ...(await applyLearnedAbbreviations(ctx.db, receipt)), provider };
     }),
 
   receiptsBulkSave: protectedProcedure
@@ -285,64 +241,22 @@ export const appRouter = router({
       receiptTime: z.string().optional(),
       currency: z.string().default('USD'),
       status: z.enum(['complete', 'draft']).default('complete'),
-      items: z.array(z.object({ productId: z.string().uuid(), price: z.number().positive(), quantity: z.number().optional(), weight: z.string().optional(), unitPrice: z.number().optional(), originalPrice: z.number().optional(), tags: z.array(z.string()).optional() })),
+      items: z.array(z.object({ productId: z.string().uuid(), receiptName: z.string().optional(), price: z.number().positive(), quantity: z.number().optional(), weight: z.string().optional(), unitPrice: z.number().optional(), originalPrice: z.number().optional(), tags: z.array(z.string()).optional() })),
       receiptImagePath: z.string().optional(),
+      published: z.boolean().optional(),
+      idempotencyKey: z.string().min(8).max(128).optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { data: receipt, error: receiptError } = await supabase.from("receipts")
-        .insert({ 
-          user_id: ctx.user.userId, 
-          store_id: input.storeId, 
-          total_price: input.totalPrice || null, 
-          store_location: input.storeLocation || null, 
-          receipt_date: input.receiptDate || null, 
-          receipt_time: input.receiptTime || null, 
-          currency: input.currency, 
-          status: input.status,
-          image_path: input.receiptImagePath || null,
-          items_snapshot: input.status === 'draft' ? input.items : null,
-        })
-        .select()
-        .single();
-
-      if (receiptError) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: receiptError.message });
-      
-      if (input.status === 'draft') {
-        return { saved: 0, receiptId: receipt.id };
+      const { saved, receiptId, replayed } = await saveReceipt(ctx.db, ctx.user.userId, input);
+      if (input.status === 'complete' && !replayed) {
+        await recordItemMatches(ctx.db, ctx.user.userId, input.storeId, input.items).catch((err) =>
+          console.warn("⚠️ Failed to record item matches:", err.message)
+        );
+        await checkBudgetAlerts(ctx.db, ctx.user.userId).catch((err) =>
+          console.warn("⚠️ Failed to check budgets:", err.message)
+        );
       }
-
-      const purchaseTime = (() => {
-        if (!input.receiptDate) return new Date().toISOString();
-        try {
-          const d = new Date(`${input.receiptDate}T${input.receiptTime || '12:00'}:00`);
-          if (!isNaN(d.getTime())) return d.toISOString();
-          const d2 = new Date(input.receiptDate);
-          if (!isNaN(d2.getTime())) return d2.toISOString();
-        } catch (e) {}
-        return new Date().toISOString();
-      })();
-
-      const priceRecords = input.items.map((item) => ({ 
-        product_id: item.productId, 
-        store_id: input.storeId, 
-        user_id: ctx.user.userId, 
-        price: item.price, 
-        quantity: Math.round(item.quantity || 1), 
-        weight: item.weight || null, 
-        unit_price: item.unitPrice || null, 
-        original_price: item.originalPrice || null,
-        tags: item.tags || null, 
-        currency: input.currency, 
-        receipt_id: receipt.id, 
-        receipt_image_path: input.receiptImagePath || null, 
-        purchase_time: purchaseTime,
-      }));
-
-      const { data, error } = await supabase.from("prices").insert(priceRecords).select();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return { saved: data?.length || 0, receiptId: receipt.id };
+      return { saved, receiptId };
     }),
 
   receiptsList: protectedProcedure
@@ -353,42 +267,29 @@ export const appRouter = router({
       endDate: z.string().optional(),
     }).optional())
     .query(async ({ ctx, input }) => {
-      if (!supabase) return [];
-      const statusFilter = input?.status || 'complete';
-      let query = supabase.from("receipts")
-        .select("*, stores(*)")
-        .eq("user_id", ctx.user.userId)
-        .eq("is_deleted", false)
-        .eq("status", statusFilter)
-        .order("receipt_date", { ascending: false })
-        .order("created_at", { ascending: false });
-        
-      if (input?.startDate) {
-        query = query.gte('receipt_date', input.startDate);
-      }
-      if (input?.endDate) {
-        query = query.lte('receipt_date', input.endDate);
-      }
-      
-      const { data } = await query.limit(input?.limit || 20);
-      return data || [];
+      return await ctx.db.receipts.list({
+        userIds: [ctx.user.userId],
+        status: input?.status || 'complete',
+        startDate: input?.startDate,
+        endDate: input?.endDate,
+        limit: input?.limit || 20,
+      });
     }),
 
   receiptsGetById: protectedProcedure
     .input(z.object({ receiptId: z.string().uuid() }))
-    .query(async ({ input }) => {
-      if (!supabase) return null;
-      const { data: receipt } = await supabase.from("receipts").select("*, stores(*)").eq("id", input.receiptId).single();
-      if (!receipt) return null;
+    .query(async ({ input, ctx }) => {
+      const receipt = await ctx.db.receipts.getById(input.receiptId);
+      if (!receipt || receipt.user_id !== ctx.user.userId) return null;
       
       if (receipt.status === 'draft' && receipt.items_snapshot) {
-        const snapshotItems = receipt.items_snapshot as any[];
+        const snapshotItems = receipt.items_snapshot;
         const productIds = snapshotItems.map(i => i.productId);
-        const { data: products } = await supabase.from("products").select("*").in("id", productIds);
-        const productsMap = new Map(products?.map(p => [p.id, p]));
+        const products = await ctx.db.products.findByIds(productIds);
+        const productsMap = new Map(products.map(p => [p.id, p]));
         
-        const items = snapshotItems.map((item, idx) => ({
-          id: `draft-${item.productId}-${idx}`,
+        const items = snapshotItems.map((item: any, idx) => ({
+          id: item.itemId || `draft-${item.productId}-${idx}`,
           receipt_id: receipt.id,
           product_id: item.productId,
           price: item.price,
@@ -402,16 +303,14 @@ export const appRouter = router({
         return { ...receipt, prices: items };
       }
 
-      const { data: prices } = await supabase.from("prices").select("*, products(*)").eq("receipt_id", input.receiptId).order("detected_at", { ascending: false });
-      return { ...receipt, prices: prices || [] };
+      const prices = await ctx.db.prices.listByReceipt(input.receiptId);
+      return { ...receipt, prices };
     }),
 
   receiptsSoftDelete: protectedProcedure
     .input(z.object({ receiptId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase.from("receipts").update({ is_deleted: true }).eq("id", input.receiptId).eq("user_id", ctx.user.userId);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.receipts.update(input.receiptId, { is_deleted: true }, ctx.user.userId);
       return { success: true };
     }),
 
@@ -419,218 +318,136 @@ export const appRouter = router({
     .input(z.object({ receiptId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
       console.log(`🚀 [CompleteDraft] Finalizing receipt: ${input.receiptId} for user: ${ctx.user.userId}`);
-      if (!supabase) {
-        console.error("❌ [CompleteDraft] Supabase not configured");
-        throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      }
-      
-      const { data: receipt, error: fetchError } = await supabase.from("receipts").select("*").eq("id", input.receiptId).eq("user_id", ctx.user.userId).single();
       
-      if (fetchError) {
-        console.error("❌ [CompleteDraft] Error fetching receipt:", fetchError);
-        throw new TRPCError({ code: "NOT_FOUND", message: "Receipt not found" });
-      }
-
-      if (!receipt || receipt.status === 'complete' || !receipt.items_snapshot) {
-        console.log(`ℹ️ [CompleteDraft] Receipt ${input.receiptId} already complete or no snapshot`);
+      const draft = await completeDraft(ctx.db, ctx.user.userId, input.receiptId);
+      if (!draft) {
+        console.log(`ℹ️ [CompleteDraft] Receipt ${input.receiptId} already complete`);
         return { success: true };
       }
-
-      console.log(`📦 [CompleteDraft] Recreating ${receipt.items_snapshot.length} price records from snapshot`);
-      const items = receipt.items_snapshot as any[];
-      const purchaseTime = (() => {
-        if (!receipt.receipt_date) return receipt.created_at;
-        try {
-          const d = new Date(`${receipt.receipt_date}T${receipt.receipt_time || '12:00'}:00`);
-          if (!isNaN(d.getTime())) return d.toISOString();
-          const d2 = new Date(receipt.receipt_date);
-          if (!isNaN(d2.getTime())) return d2.toISOString();
-        } catch (e) {}
-        return receipt.created_at;
-      })();
-
-      const priceRecords = items.map((item: any) => ({
-        product_id: item.productId,
-        store_id: receipt.store_id,
-        user_id: ctx.user.userId,
-        price: item.price,
-        quantity: Math.round(item.quantity || 1),
-        weight: item.weight || null,
-        unit_price: item.unitPrice || null,
-        original_price: item.originalPrice || null,
-        tags: item.tags || null,
-        currency: receipt.currency,
-        receipt_id: receipt.id,
-        receipt_image_path: receipt.image_path || null,
-        purchase_time: purchaseTime,
-      }));
-
-      const { error: priceError } = await supabase.from("prices").insert(priceRecords);
-      if (priceError) {
-        console.error("❌ [CompleteDraft] Error inserting prices:", priceError);
-        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Failed to save items: ${priceError.message}` });
-      }
-
-      const { error: updateError } = await supabase.from("receipts").update({ status: 'complete', items_snapshot: null }).eq("id", input.receiptId);
-      if (updateError) {
-        console.error("❌ [CompleteDraft] Error updating receipt status:", updateError);
-        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: `Failed to update status: ${updateError.message}` });
+      if (draft.store_id) {
+        await recordItemMatches(ctx.db, ctx.user.userId, draft.store_id, draft.items_snapshot || []).catch((err) =>
+          console.warn("⚠️ Failed to record item matches:", err.message)
+        );
       }
+      await checkBudgetAlerts(ctx.db, ctx.user.userId).catch((err) =>
+        console.warn("⚠️ Failed to check budgets:", err.message)
+      );
       
       console.log(`✅ [CompleteDraft] Receipt ${input.receiptId} finalized successfully`);
       return { success: true };
     }),
 
   // Rankings flat endpoints
-  rankingsGetTop: publicProcedure.query(async () => {
-    if (!supabase) return [];
-    const { data, error } = await supabase.rpc("get_top_contributors", { lim: 10 });
-    if (error) return [];
-    return data || [];
+  rankingsGetTop: publicProcedure.query(async ({ ctx }) => {
+    return await ctx.db.rankings.topContributors(10);
   }),
 
   userProfileGet: protectedProcedure.query(async ({ ctx }) => {
-    if (!supabase) return { priceCount: 0, receiptCount: 0 };
-    const { count: priceCount } = await supabase.from("prices").select("*", { count: "exact", head: true }).eq("user_id", ctx.user.userId);
-    const { count: receiptCount } = await supabase.from("receipts").select("*", { count: "exact", head: true }).eq("user_id", ctx.user.userId);
-    return { userId: ctx.user.userId, priceCount: priceCount || 0, receiptCount: receiptCount || 0 };
+    const priceCount = await ctx.db.prices.countByUser(ctx.user.userId);
+    const receiptCount = await ctx.db.receipts.countByUser(ctx.user.userId);
+    return { userId: ctx.user.userId, priceCount, receiptCount };
   }),
 
   // Voting flat endpoints
   voteGetCounts: publicProcedure
     .input(z.object({ targetType: z.enum(['product', 'price', 'discussion', 'store']), targetId: z.string().uuid() }))
-    .query(async ({ input }) => {
-      if (!supabase) return { upvotes: 0, downvotes: 0 };
-      const { data, error } = await supabase.rpc('get_vote_counts', { p_target_type: input.targetType, p_target_id: input.targetId });
-      if (error) {
-        const { data: votes } = await supabase.from('votes').select('vote_type').eq('target_type', input.targetType).eq('target_id', input.targetId);
-        return { upvotes: votes?.filter(v => v.vote_type === 'up').length || 0, downvotes: votes?.filter(v => v.vote_type === 'down').length || 0 };
-      }
-      return { upvotes: Number(data[0]?.upvotes || 0), downvotes: Number(data[0]?.downvotes || 0) };
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.votes.counts(input.targetType, input.targetId);
     }),
 
   voteGetUserVote: protectedProcedure
     .input(z.object({ targetType: z.enum(['product', 'price', 'discussion', 'store']), targetId: z.string().uuid() }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return null;
-      const { data } = await supabase.from('votes').select('vote_type').eq('user_id', ctx.user.userId).eq('target_type', input.targetType).eq('target_id', input.targetId).maybeSingle();
-      return data?.vote_type || null;
+      return await ctx.db.votes.getUserVote(ctx.user.userId, input.targetType, input.targetId);
     }),
 
   voteSubmit: protectedProcedure
     .input(z.object({ targetType: z.enum(['product', 'price', 'discussion', 'store']), targetId: z.string().uuid(), voteType: z.enum(['up', 'down']) }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase.from('votes').upsert({ user_id: ctx.user.userId, target_type: input.targetType, target_id: input.targetId, vote_type: input.voteType }, { onConflict: 'user_id,target_type,target_id' });
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      if (input.targetType !== "product") await requireVisibleTarget(ctx.db, input.targetType, input.targetId, ctx.user.userId);
+      await ctx.db.votes.upsert(ctx.user.userId, input.targetType, input.targetId, input.voteType);
       return { success: true };
     }),
 
   voteRemove: protectedProcedure
     .input(z.object({ targetType: z.enum(['product', 'price', 'discussion', 'store']), targetId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase.from('votes').delete().eq('user_id', ctx.user.userId).eq('target_type', input.targetType).eq('target_id', input.targetId);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.votes.remove(ctx.user.userId, input.targetType, input.targetId);
       return { success: true };
     }),
 
   // Discussion flat endpoints
   discussionList: publicProcedure
     .input(z.object({ targetType: z.enum(['product', 'price', 'store']), targetId: z.string().uuid(), page: z.number().default(1), pageSize: z.number().default(10) }))
-    .query(async ({ input }) => {
-      if (!supabase) return { discussions: [], totalCount: 0, totalPages: 0, currentPage: 1, hasMore: false };
+    .query(async ({ input, ctx }) => {
+      if (input.targetType !== 'product') await requireVisibleTarget(ctx.db, input.targetType, input.targetId, ctx.user?.userId ?? null);
       const from = (input.page - 1) * input.pageSize;
-      const { data, count, error } = await supabase.from('discussions').select('*', { count: 'exact' }).eq('target_type', input.targetType).eq('target_id', input.targetId).order('created_at', { ascending: false }).range(from, from + input.pageSize - 1);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      const totalCount = count || 0;
-      const totalPages = Math.ceil(totalCount / input.pageSize);
-      return { discussions: data || [], totalCount, totalPages, currentPage: input.page, hasMore: input.page < totalPages };
+      const { rows, count } = await ctx.db.discussions.list(input.targetType, input.targetId, { offset: from, limit: input.pageSize });
+      const totalPages = Math.ceil(count / input.pageSize);
+      return { discussions: rows, totalCount: count, totalPages, currentPage: input.page, hasMore: input.page < totalPages };
     }),
 
   discussionCreate: protectedProcedure
-    .input(z.object({ targetType: z.enum(['product', 'price', 'store']), targetId: z.string().uuid(), content: z.string().min(1).max(2000), parentId: z.string().uuid().optional() }))
+    .input(z.object({ targetType: z.enum(['product', 'price', 'store']), targetId: z.string().uuid(), content: z.string().trim().min(1).max(2000), parentId: z.string().uuid().optional() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { data, error } = await supabase.from('discussions').insert({ user_id: ctx.user.userId, target_type: input.targetType, target_id: input.targetId, content: input.content, parent_id: input.parentId || null }).select().single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+      return await postDiscussion(ctx.db, ctx.user.userId, input);
     }),
 
   // Bookmarks flat endpoints
   bookmarksList: protectedProcedure
     .input(z.object({ page: z.number().default(1), pageSize: z.number().default(20) }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return { bookmarks: [], totalCount: 0, totalPages: 0, currentPage: 1, hasMore: false };
       const from = (input.page - 1) * input.pageSize;
-      const { data, count, error } = await supabase.from('bookmarks').select('*, products(*)', { count: 'exact' }).eq('user_id', ctx.user.userId).order('created_at', { ascending: false }).range(from, from + input.pageSize - 1);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      const { rows, count } = await ctx.db.bookmarks.list([ctx.user.userId], { offset: from, limit: input.pageSize });
       
-      const bookmarksWithStats = await Promise.all((data || []).map(async (bookmark) => {
-        if (!supabase) return { ...bookmark, priceStats: { lowest: null, average: null, highest: null, recentPrices: [] } };
-        const { data: prices } = await supabase.from('prices').select('price, detected_at, stores(name)').eq('product_id', bookmark.product_id).order('detected_at', { ascending: false });
-        const priceValues = (prices || []).map(p => Number(p.price));
-        return { ...bookmark, priceStats: { lowest: priceValues.length ? Math.min(...priceValues) : null, average: priceValues.length ? priceValues.reduce((a, b) => a + b, 0) / priceValues.length : null, highest: priceValues.length ? Math.max(...priceValues) : null, recentPrices: prices || [] } };
+      const bookmarksWithStats = await Promise.all(rows.map(async (bookmark) => {
+        const prices = await ctx.db.prices.listByProduct(bookmark.product_id, ctx.user.userId);
+        const priceValues = prices.map(p => Number(p.price));
+        return { ...bookmark, priceStats: { lowest: priceValues.length ? Math.min(...priceValues) : null, average: priceValues.length ? priceValues.reduce((a, b) => a + b, 0) / priceValues.length : null, highest: priceValues.length ? Math.max(...priceValues) : null, recentPrices: prices } };
       }));
       
-      const totalCount = count || 0;
-      const totalPages = Math.ceil(totalCount / input.pageSize);
-      return { bookmarks: bookmarksWithStats, totalCount, totalPages, currentPage: input.page, hasMore: input.page < totalPages };
+      const totalPages = Math.ceil(count / input.pageSize);
+      return { bookmarks: bookmarksWithStats, totalCount: count, totalPages, currentPage: input.page, hasMore: input.page < totalPages };
     }),
 
   bookmarkCreate: protectedProcedure
     .input(z.object({ productId: z.string().uuid(), notifyOnPriceDrop: z.boolean().default(true), targetPrice: z.number().optional() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { data, error } = await supabase.from('bookmarks').upsert({ user_id: ctx.user.userId, product_id: input.productId, notify_on_price_drop: input.notifyOnPriceDrop, target_price: input.targetPrice || null }, { onConflict: 'user_id,product_id' }).select().single();
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data;
+      return await ctx.db.bookmarks.upsert({ user_id: ctx.user.userId, product_id: input.productId, notify_on_price_drop: input.notifyOnPriceDrop, target_price: input.targetPrice || null });
     }),
 
   bookmarkDelete: protectedProcedure
     .input(z.object({ productId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase.from('bookmarks').delete().eq('user_id', ctx.user.userId).eq('product_id', input.productId);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.bookmarks.delete(ctx.user.userId, input.productId);
       return { success: true };
     }),
 
   bookmarkCheck: protectedProcedure
     .input(z.object({ productId: z.string().uuid() }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return null;
-      const { data } = await supabase.from('bookmarks').select('*').eq('user_id', ctx.user.userId).eq('product_id', input.productId).maybeSingle();
-      return data;
+      return await ctx.db.bookmarks.get(ctx.user.userId, input.productId);
     }),
 
   priceAlertsList: protectedProcedure
     .input(z.object({ unreadOnly: z.boolean().default(false), limit: z.number().default(50) }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return { alerts: [], totalCount: 0 };
-      let query = supabase.from('price_alerts').select('*, products(*)', { count: 'exact' }).eq('user_id', ctx.user.userId).order('created_at', { ascending: false }).limit(input.limit);
-      if (input.unreadOnly) query = query.eq('is_read', false);
-      const { data, count, error } = await query;
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return { alerts: data || [], totalCount: count || 0 };
+      const { rows, count } = await ctx.db.alerts.list(ctx.user.userId, { unreadOnly: input.unreadOnly, limit: input.limit });
+      return { alerts: rows, totalCount: count };
     }),
 
   priceAlertsMarkAsRead: protectedProcedure
     .input(z.object({ alertId: z.string().uuid().optional() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      let query = supabase.from('price_alerts').update({ is_read: true }).eq('user_id', ctx.user.userId);
-      if (input.alertId) query = query.eq('id', input.alertId);
-      else query = query.eq('is_read', false);
-      const { error } = await query;
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.alerts.markAsRead(ctx.user.userId, input.alertId);
       return { success: true };
     }),
 
   // Health check
-  health: publicProcedure.query(() => ({
+  health: publicProcedure.query(({ ctx }) => ({
     status: "ok",
     supabase: !!supabase,
+    dataStore: ctx.db.kind,
     timestamp: new Date().toISOString(),
   })),
 });
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { router, protectedProcedure, moderatorProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import type { ModerationTargetType } from "../supabase";
+import { findTarget, requireVisibleTarget, setTargetHidden } from "../moderation/targets";
+
+// A discussion with this many open reports is hidden until a moderator looks at it
+const REPORTS_TO_HIDE = 3;
+
+const targetType = z.enum(["discussion", "price", "store"]);
+
+const target = z.object({
+  targetType,
+  targetId: z.string().uuid(),
+});
+
+async function requireTarget(db: Repository, type: ModerationTargetType, id: string) {
+  const found = await findTarget(db, type, id);
+  if (!found) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Content not found" });
+  }
+  return found;
+}
+
+export const moderationRouter = router({
+  // Flags content for the moderators; reporting again replaces the reason
+  report: protectedProcedure
+    .input(target.extend({
+      reason: z.enum(["spam", "offensive", "incorrect", "duplicate", "other"]),
+      details: z.string().trim().max(500).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const found = await requireVisibleTarget(ctx.db, input.targetType, input.targetId, ctx.user.userId);
+      if (found.ownerId === ctx.user.userId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot report your own content" });
+      }
+      const report = await ctx.db.moderation.report({
+        reporter_id: ctx.user.userId,
+        target_type: input.targetType,
+        target_id: input.targetId,
+        reason: input.reason,
+        details: input.details || null,
+      });
+      console.log(`🚩 ${input.targetType} ${input.targetId} reported as ${input.reason}`);
+
+      if (found.type === "discussion") {
+        const open = await ctx.db.moderation.openReportCount(input.targetType, input.targetId);
+        if (open >= REPORTS_TO_HIDE) {
+          await setTargetHidden(ctx.db, found, true, null);
+          console.log(`🙈 Discussion ${input.targetId} hidden after ${open} reports`);
+        }
+      }
+      return report;
+    }),
+
+  // Reported content, most reported first
+  queue: moderatorProcedure
+    .input(z.object({
+      targetType: targetType.optional(),
+      limit: z.number().int().min(1).max(200).default(50),
+    }))
+    .query(async ({ input, ctx }) => {
+      const reported = await ctx.db.moderation.queue(input.targetType ?? null, input.limit);
+      return await Promise.all(
+        reported.map(async (row) => {
+          const found = await findTarget(ctx.db, row.target_type, row.target_id);
+          return {
+            targetType: row.target_type,
+            targetId: row.target_id,
+            reportCount: row.report_count,
+            reasons: row.reasons,
+            firstReportedAt: row.first_reported_at,
+            lastReportedAt: row.last_reported_at,
+            hidden: found?.hidden ?? null,
+            // Null when the content is gone
+            content: found?.content ?? null,
+          };
+        })
+      );
+    }),
+
+  // Hides the content from everyone and resolves its reports
+  hide: moderatorProcedure
+    .input(target.extend({ note: z.string().trim().max(500).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      const found = await requireTarget(ctx.db, input.targetType, input.targetId);
+      const previous = await setTargetHidden(ctx.db, found, true, ctx.user.userId);
+      const resolved = await ctx.db.moderation.closeReports(input.targetType, input.targetId, "resolved", ctx.user.userId);
+      await ctx.db.moderation.logAction({
+        moderator_id: ctx.user.userId,
+        target_type: input.targetType,
+        target_id: input.targetId,
+        action: "hide",
+        note: input.note || null,
+        previous_state: previous,
+      });
+      console.log(`🙈 ${input.targetType} ${input.targetId} hidden by ${ctx.user.userId}`);
+      return { targetType: input.targetType, targetId: input.targetId, hidden: true, resolvedReports: resolved };
+    }),
+
+  // Shows hidden content again; any reports still open are dismissed
+  restore: moderatorProcedure
+    .input(target.extend({ note: z.string().trim().max(500).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      const found = await requireTarget(ctx.db, input.targetType, input.targetId);
+      if (!found.hidden) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Content is not hidden" });
+      }
+      await setTargetHidden(ctx.db, found, false, ctx.user.userId);
+      const dismissed = await ctx.db.moderation.closeReports(input.targetType, input.targetId, "dismissed", ctx.user.userId);
+      await ctx.db.moderation.logAction({
+        moderator_id: ctx.user.userId,
+        target_type: input.targetType,
+        target_id: input.targetId,
+        action: "restore",
+        note: input.note || null,
+      });
+      console.log(`👁️ ${input.targetType} ${input.targetId} restored by ${ctx.user.userId}`);
+      return { targetType: input.targetType, targetId: input.targetId, hidden: false, dismissedReports: dismissed };
+    }),
+
+  // The reports were unfounded: closes them, and shows a discussion they hid again
+  dismiss: moderatorProcedure
+    .input(target.extend({ note: z.string().trim().max(500).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      const found = await requireTarget(ctx.db, input.targetType, input.targetId);
+      const dismissed = await ctx.db.moderation.closeReports(input.targetType, input.targetId, "dismissed", ctx.user.userId);
+      const autoHidden = found.type === "discussion" && found.hidden && found.content.hidden_by === null;
+      if (autoHidden) await setTargetHidden(ctx.db, found, false, ctx.user.userId);
+      await ctx.db.moderation.logAction({
+        moderator_id: ctx.user.userId,
+        target_type: input.targetType,
+        target_id: input.targetId,
+        action: "dismiss",
+        note: input.note || null,
+      });
+      return {
+        targetType: input.targetType,
+        targetId: input.targetId,
+        hidden: found.hidden && !autoHidden,
+        dismissedReports: dismissed,
+      };
+    }),
+
+  // What moderators did to the content, newest first
+  actions: moderatorProcedure
+    .input(target)
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.moderation.listActions(input.targetType, input.targetId);
+    }),
+});
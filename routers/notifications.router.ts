@@ -0,0 +1,115 @@
+import { z } from "zod";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import { DEFAULT_PREFERENCES } from "../notifications/dispatcher";
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM");
+
+const timeZone = z.string().refine((zone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Unknown time zone");
+
+const endpointInput = z.discriminatedUnion("channel", [
+  z.object({ channel: z.literal("expo"), token: z.string().regex(/^Expo(nent)?PushToken\[.+\]$/, "Expected an Expo push token") }),
+  // Same shape as the browser's PushSubscription.toJSON()
+  z.object({
+    channel: z.literal("webpush"),
+    endpoint: z.string().url(),
+    keys: z.object({ p256dh: z.string().min(1), auth: z.string().min(1) }),
+  }),
+  z.object({ channel: z.literal("email"), email: z.string().email() }),
+  z.object({ channel: z.literal("webhook"), url: z.string().url(), secret: z.string().min(8).optional() }),
+  z.object({ channel: z.literal("log"), label: z.string().min(1).default("console") }),
+]);
+
+async function getOwnedEndpoint(db: Repository, id: string, userId: string) {
+  const endpoint = await db.notifications.getEndpoint(id);
+  if (!endpoint || endpoint.user_id !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Notification endpoint not found" });
+  }
+  return endpoint;
+}
+
+export const notificationsRouter = router({
+  preferences: protectedProcedure.query(async ({ ctx }) => {
+    const stored = await ctx.db.notifications.getPreferences(ctx.user.userId);
+    return stored || { ...DEFAULT_PREFERENCES, user_id: ctx.user.userId, updated_at: null };
+  }),
+
+  updatePreferences: protectedProcedure
+    .input(z.object({
+      // instant: as alerts arrive; digest: one message a day at digestTime
+      deliveryMode: z.enum(["instant", "digest"]).optional(),
+      digestTime: clockTime.optional(),
+      timezone: timeZone.optional(),
+      // Both set, or both null to turn quiet hours off
+      quietHoursStart: clockTime.nullable().optional(),
+      quietHoursEnd: clockTime.nullable().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if ((input.quietHoursStart === null) !== (input.quietHoursEnd === null)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Set both quiet hours or clear both" });
+      }
+      return await ctx.db.notifications.upsertPreferences(ctx.user.userId, {
+        ...(input.deliveryMode && { delivery_mode: input.deliveryMode }),
+        ...(input.digestTime && { digest_time: input.digestTime }),
+        ...(input.timezone && { timezone: input.timezone }),
+        ...(input.quietHoursStart !== undefined && { quiet_hours_start: input.quietHoursStart }),
+        ...(input.quietHoursEnd !== undefined && { quiet_hours_end: input.quietHoursEnd }),
+      });
+    }),
+
+  endpoints: protectedProcedure.query(async ({ ctx }) => {
+    return await ctx.db.notifications.listEndpoints(ctx.user.userId);
+  }),
+
+  // Registering the same address again re-enables it
+  addEndpoint: protectedProcedure
+    .input(endpointInput)
+    .mutation(async ({ input, ctx }) => {
+      const base = { user_id: ctx.user.userId, channel: input.channel };
+      switch (input.channel) {
+        case "expo":
+          return await ctx.db.notifications.upsertEndpoint({ ...base, address: input.token });
+        case "webpush":
+          return await ctx.db.notifications.upsertEndpoint({ ...base, address: input.endpoint, config: input.keys });
+        case "email":
+          return await ctx.db.notifications.upsertEndpoint({ ...base, address: input.email.toLowerCase() });
+        case "webhook":
+          return await ctx.db.notifications.upsertEndpoint({
+            ...base,
+            address: input.url,
+            config: input.secret ? { secret: input.secret } : null,
+          });
+        case "log":
+          return await ctx.db.notifications.upsertEndpoint({ ...base, address: input.label });
+      }
+    }),
+
+  updateEndpoint: protectedProcedure
+    .input(z.object({ endpointId: z.string().uuid(), enabled: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedEndpoint(ctx.db, input.endpointId, ctx.user.userId);
+      return await ctx.db.notifications.updateEndpoint(input.endpointId, { enabled: input.enabled });
+    }),
+
+  removeEndpoint: protectedProcedure
+    .input(z.object({ endpointId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedEndpoint(ctx.db, input.endpointId, ctx.user.userId);
+      await ctx.db.notifications.deleteEndpoint(input.endpointId);
+      return { success: true };
+    }),
+
+  // Delivery history with status, attempts and the last error
+  deliveries: protectedProcedure
+    .input(z.object({ limit: z.number().min(1).max(200).default(50) }).optional())
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.notifications.listDeliveries(ctx.user.userId, input?.limit ?? 50);
+    }),
+});
@@ -1,6 +1,71 @@
 import { z } from "zod";
-import { router, publicProcedure, protectedProcedure, TRPCError } from "../trpc";
-import { supabase, type PriceWithDetails } from "../supabase";
+import { router, publicProcedure, protectedProcedure, moderatorProcedure, TRPCError } from "../trpc";
+import type { PriceWithDetails } from "../supabase";
+import type { PriceTrendBucket, Repository } from "../repositories/types";
+import { normalizeUnitPrice } from "../units/quantity";
+import { currencyCode, loadCurrencyConverter, withDisplayPrices, type DisplayPrice } from "../currency/exchange";
+import { DEFAULT_SHARING, publishesPrices } from "../prices/sharing";
+import { QUESTIONABLE_TRUST, loadTrust, withTrust, type PriceTrustSummary } from "../prices/trust";
+import { clearForPublishing, screenPrices, withdrawFromReview } from "../prices/anomalies";
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+// A price cheaper than at least this share of recorded prices is a good deal
+const GOOD_DEAL_PERCENTILE = 25;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Prices whose trust score (0-1) is lower are left out
+const minTrust = z.number().min(0).max(1).default(QUESTIONABLE_TRUST);
+
+type TrustedPrice = PriceWithDetails & { trust: PriceTrustSummary };
+
+const toTrendPoint = (row: PriceTrendBucket) => ({
+  bucketStart: row.bucket_start,
+  min: round2(row.min_price),
+  median: round2(row.median_price),
+  max: round2(row.max_price),
+  average: round2(row.avg_price),
+  count: row.price_count,
+  movingAverage: round2(row.moving_average),
+});
+
+async function setPricePublished(db: Repository, priceId: string, userId: string, published: boolean) {
+  const price = await db.prices.findForUser(priceId, userId);
+  if (!price) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Price not found" });
+  }
+  if (!published) {
+    await db.prices.setPublished([price.id], false);
+    await withdrawFromReview(db, [price]);
+    console.log(`🔒 Price ${price.id} unpublished`);
+    return { priceId: price.id, published };
+  }
+  if (price.review_status === "rejected") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Price was rejected in review" });
+  }
+  const cleared = await clearForPublishing(db, [price]);
+  if (cleared.length === 0) {
+    // Published once a reviewer confirms it
+    return { priceId: price.id, published: false, pendingReview: true };
+  }
+  await db.prices.setPublished([price.id], true);
+  // Bookmarks hear about it now that it is shared
+  if (!price.published) await db.alerts.createForPrice(price.id);
+  console.log(`📢 Price ${price.id} published`);
+  return { priceId: price.id, published };
+}
+
+async function resolvePriceReview(db: Repository, priceId: string, status: "confirmed" | "rejected", reviewerId: string) {
+  const price = await db.prices.resolveReview(priceId, status, reviewerId);
+  if (!price) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "No price waiting for review with this id" });
+  }
+  // Alerts were held back while the price waited
+  if (status === "confirmed") await db.alerts.createForPrice(price.id);
+  console.log(`${status === "confirmed" ? "✅" : "🚫"} Price ${price.id} ${status} by ${reviewerId}`);
+  return price;
+}
 
 export const pricesRouter = router({
   add: protectedProcedure
@@ -8,28 +73,34 @@ export const pricesRouter = router({
       productId: z.string().uuid(),
       storeId: z.string().uuid(),
       price: z.number().positive(),
+      quantity: z.number().positive().optional(),
+      // Package size as printed, e.g. "907g", "32 oz", "2 x 500ml", "12ct"
+      weight: z.string().optional(),
+      unitPrice: z.number().optional(),
       originalPrice: z.number().optional(),
+      currency: currencyCode.optional(),
       receiptImagePath: z.string().optional(),
+      // Defaults to the caller's sharing preference
+      published: z.boolean().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { data, error } = await supabase
-        .from("prices")
-        .insert({
-          product_id: input.productId,
-          store_id: input.storeId,
-          user_id: ctx.user.userId,
-          price: input.price,
-          original_price: input.originalPrice || null,
-          receipt_image_path: input.receiptImagePath || null,
-        })
-        .select("*, products(*), stores(*)")
-        .single();
-      
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      const [record] = await screenPrices(ctx.db, [{
+        product_id: input.productId,
+        store_id: input.storeId,
+        user_id: ctx.user.userId,
+        price: input.price,
+        quantity: Math.round(input.quantity || 1),
+        weight: input.weight || null,
+        ...normalizeUnitPrice(input),
+        original_price: input.originalPrice || null,
+        currency: input.currency,
+        receipt_image_path: input.receiptImagePath || null,
+        published: input.published ?? (await publishesPrices(ctx.db, ctx.user.userId)),
+      }]);
+      const data = await ctx.db.prices.create(record);
+
       console.log(`✅ Price added: ${input.price} for product ${input.productId}`);
-      return data as PriceWithDetails;
+      return data;
     }),
 
   history: publicProcedure
@@ -37,17 +108,83 @@ export const pricesRouter = router({
       productId: z.string().uuid(),
       limit: z.number().default(100),
     }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      
-      const { data } = await supabase
-        .from("prices")
-        .select("*, stores(name)")
-        .eq("product_id", input.productId)
-        .order("detected_at", { ascending: true })
-        .limit(input.limit);
-      
-      return data || [];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.prices.history(input.productId, input.limit, ctx.user?.userId ?? null);
+    }),
+
+  // Bucketed per-package price series, aggregated in the database
+  trends: publicProcedure
+    .input(z.object({
+      productId: z.string().uuid(),
+      interval: z.enum(["day", "week", "month"]).default("week"),
+      from: isoDate.optional(),
+      until: isoDate.optional(),
+      storeId: z.string().uuid().optional(),
+      // Only prices recorded in this currency; mixed currencies are not converted
+      currency: currencyCode.optional(),
+      // Moving average over this many buckets
+      movingAverage: z.number().int().min(1).max(52).default(4),
+      // Percent change of the median over the last N days against the N days before
+      windows: z.array(z.number().int().min(1).max(365)).max(6).default([7, 30, 90]),
+      // Where this price ranks among recorded prices
+      price: z.number().positive().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const scope = {
+        productId: input.productId,
+        storeId: input.storeId,
+        currency: input.currency,
+        viewerId: ctx.user?.userId ?? null,
+      };
+      const [buckets, changes, deal] = await Promise.all([
+        ctx.db.prices.trendBuckets({
+          ...scope,
+          interval: input.interval,
+          from: input.from,
+          until: input.until,
+          movingAverage: input.movingAverage,
+        }),
+        ctx.db.prices.percentChanges({
+          ...scope,
+          windowsDays: [...new Set(input.windows)],
+          asOf: input.until ? `${input.until}T23:59:59.999Z` : new Date().toISOString(),
+        }),
+        input.price === undefined
+          ? null
+          : ctx.db.prices.percentile({ ...scope, price: input.price, since: input.from }),
+      ]);
+
+      const storeIds = [...new Set(buckets.flatMap((b) => (b.store_id ? [b.store_id] : [])))];
+      const stores = await ctx.db.stores.findByIds(storeIds);
+
+      return {
+        productId: input.productId,
+        interval: input.interval,
+        currency: input.currency ?? null,
+        series: buckets.filter((b) => b.store_id === null).map(toTrendPoint),
+        stores: storeIds
+          .map((storeId) => ({
+            storeId,
+            storeName: stores.find((s) => s.id === storeId)?.name ?? null,
+            buckets: buckets.filter((b) => b.store_id === storeId).map(toTrendPoint),
+          }))
+          .sort((a, b) => (a.storeName ?? "").localeCompare(b.storeName ?? "")),
+        changes: changes.map((c) => ({
+          windowDays: c.window_days,
+          currentMedian: c.current_median === null ? null : round2(c.current_median),
+          previousMedian: c.previous_median === null ? null : round2(c.previous_median),
+          percentChange: c.percent_change,
+        })),
+        deal: deal && input.price !== undefined
+          ? {
+              price: input.price,
+              percentile: deal.percentile,
+              cheaperCount: deal.cheaper_count,
+              totalCount: deal.total_count,
+              isGoodDeal: deal.percentile !== null && deal.percentile <= GOOD_DEAL_PERCENTILE,
+            }
+          : null,
+      };
     }),
 
   cheapest: publicProcedure
@@ -56,62 +193,129 @@ export const pricesRouter = router({
       latitude: z.number().optional(),
       longitude: z.number().optional(),
       radiusKm: z.number().default(10),
+      // unitPrice compares across package sizes (per 100 g / 100 ml / item)
+      rankBy: z.enum(["price", "unitPrice"]).default("price"),
+      // Convert and compare in this currency at each price's purchase-date rate
+      displayCurrency: currencyCode.optional(),
+      minTrust,
     }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      
+    .query(async ({ input, ctx }) => {
       // Get most recent price for each store
-      const { data } = await supabase
-        .from("prices")
-        .select("*, stores(*)")
-        .eq("product_id", input.productId)
-        .order("detected_at", { ascending: false });
-      
-      if (!data || data.length === 0) return [];
-      
-      // Group by store and get latest price
-      const storeMap = new Map<string, any>();
+      const data = await ctx.db.prices.listByProduct(input.productId, ctx.user?.userId ?? null);
+      if (data.length === 0) return [];
+      const trust = await loadTrust(ctx.db, data);
+
+      // Group by store and get the latest price that is trusted enough
+      const storeMap = new Map<string, TrustedPrice>();
       for (const price of data) {
-        if (!storeMap.has(price.store_id)) {
-          storeMap.set(price.store_id, price);
+        const summary = trust.get(price.id);
+        if (!storeMap.has(price.store_id) && summary && summary.score >= input.minTrust) {
+          storeMap.set(price.store_id, { ...price, trust: summary });
         }
       }
-      
+
+      const converter = input.displayCurrency
+        ? await loadCurrencyConverter(ctx.db, input.displayCurrency, [...storeMap.values()].map((p) => p.currency))
+        : null;
+      const latest: (TrustedPrice & Partial<DisplayPrice>)[] = converter
+        ? withDisplayPrices(Array.from(storeMap.values()), converter)
+        : Array.from(storeMap.values());
+
+      // Prices without an exchange rate can't be compared and sort last
+      const amount = (p: PriceWithDetails & Partial<DisplayPrice>) => (converter ? p.displayPrice ?? null : p.price);
+      const unitAmount = (p: PriceWithDetails & Partial<DisplayPrice>) =>
+        converter ? p.displayUnitPrice ?? null : p.unit_price;
+      // Equal prices rank the more trusted one first
+      const byPrice = (a: TrustedPrice, b: TrustedPrice) =>
+        (amount(a) ?? Infinity) - (amount(b) ?? Infinity) || b.trust.score - a.trust.score;
+
       // Sort by price
-      const sorted = Array.from(storeMap.values()).sort((a, b) => a.price - b.price);
-      return sorted;
+      if (input.rankBy === "price") return latest.sort(byPrice);
+
+      // Only prices in the product's usual unit are comparable; the rest follow by price
+      const unitCounts = new Map<string, number>();
+      for (const price of latest) {
+        if (price.canonical_unit && unitAmount(price) !== null) {
+          unitCounts.set(price.canonical_unit, (unitCounts.get(price.canonical_unit) || 0) + 1);
+        }
+      }
+      const unit = [...unitCounts].sort((a, b) => b[1] - a[1])[0]?.[0];
+      const comparable = latest.filter((p) => unit && p.canonical_unit === unit && unitAmount(p) !== null);
+      const rest = latest.filter((p) => !comparable.includes(p));
+      return [
+        ...comparable.sort((a, b) => Number(unitAmount(a)) - Number(unitAmount(b)) || byPrice(a, b)),
+        ...rest.sort(byPrice),
+      ];
     }),
 
   recent: publicProcedure
-    .input(z.object({ limit: z.number().default(20) }).optional())
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      
-      const { data } = await supabase
-        .from("prices")
-        .select("*, products(*), stores(*)")
-        .order("detected_at", { ascending: false })
-        .limit(input?.limit || 20);
-      
-      return (data || []) as PriceWithDetails[];
+    .input(z.object({ limit: z.number().default(20), minTrust }).optional())
+    .query(async ({ input, ctx }) => {
+      const limit = input?.limit || 20;
+      // Read ahead so that leaving out questionable prices still fills the page
+      const prices = await ctx.db.prices.recent(limit * 3, ctx.user?.userId ?? null);
+      return (await withTrust(ctx.db, prices, input?.minTrust ?? QUESTIONABLE_TRUST)).slice(0, limit);
     }),
 
   byStore: protectedProcedure
-    .input(z.object({ 
+    .input(z.object({
       storeId: z.string().uuid(),
       limit: z.number().default(50)
     }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return [];
-      
-      const { data } = await supabase
-        .from("prices")
-        .select("*, products(*)")
-        .eq("store_id", input.storeId)
-        .eq("user_id", ctx.user.userId)
-        .order("detected_at", { ascending: false })
-        .limit(input.limit);
-      
-      return (data || []) as PriceWithDetails[];
+      return await ctx.db.prices.listByStore(input.storeId, ctx.user.userId, input.limit);
+    }),
+
+  // Whether the caller's new prices are published by default
+  sharingPreferences: protectedProcedure.query(async ({ ctx }) => {
+    const stored = await ctx.db.sharing.getPreferences(ctx.user.userId);
+    return stored || { ...DEFAULT_SHARING, user_id: ctx.user.userId, updated_at: null };
+  }),
+
+  updateSharingPreferences: protectedProcedure
+    .input(z.object({ publishPrices: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.db.sharing.upsertPreferences(ctx.user.userId, { publish_prices: input.publishPrices });
+    }),
+
+  // Only the price's owner can change who sees it
+  publish: protectedProcedure
+    .input(z.object({ priceId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await setPricePublished(ctx.db, input.priceId, ctx.user.userId, true);
+    }),
+
+  unpublish: protectedProcedure
+    .input(z.object({ priceId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await setPricePublished(ctx.db, input.priceId, ctx.user.userId, false);
+    }),
+
+  // Prices the anomaly detector held back, oldest first
+  reviewQueue: moderatorProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(200).default(50) }))
+    .query(async ({ input, ctx }) => {
+      const prices = await ctx.db.prices.listPendingReview(input.limit);
+      const records = await Promise.all(
+        [...new Set(prices.map((p) => p.user_id))].map(
+          async (userId) => [userId, await ctx.db.prices.reviewCounts(userId)] as const
+        )
+      );
+      const contributors = new Map(records);
+      return prices.map((price) => ({ ...price, contributorReviews: contributors.get(price.user_id) }));
+    }),
+
+  // Publishes the price and sends the alerts it was held back from
+  confirmReview: moderatorProcedure
+    .input(z.object({ priceId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await resolvePriceReview(ctx.db, input.priceId, "confirmed", ctx.user.userId);
+    }),
+
+  // The price stays visible to its owner only and counts against them
+  rejectReview: moderatorProcedure
+    .input(z.object({ priceId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await resolvePriceReview(ctx.db, input.priceId, "rejected", ctx.user.userId);
     }),
 });
@@ -1,30 +1,19 @@
 import { z } from "zod";
-import { router, publicProcedure, protectedProcedure, TRPCError } from "../trpc";
-import { supabase, type Product } from "../supabase";
+import { router, publicProcedure, protectedProcedure, moderatorProcedure, TRPCError } from "../trpc";
+import { type Product } from "../supabase";
+import { DUPLICATE_SCORE, findDuplicates } from "../matching/duplicates";
 
 export const productsRouter = router({
   list: publicProcedure
     .input(z.object({ limit: z.number().default(50) }).optional())
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase
-        .from("products")
-        .select("*")
-        .order("name")
-        .limit(input?.limit || 50);
-      return (data || []) as Product[];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.products.list(input?.limit || 50);
     }),
 
   search: publicProcedure
     .input(z.object({ query: z.string().min(1) }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      const { data } = await supabase
-        .from("products")
-        .select("*")
-        .or(`name.ilike.%${input.query}%,barcode.eq.${input.query}`)
-        .limit(20);
-      return (data || []) as Product[];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.products.search(input.query, 20);
     }),
 
   create: protectedProcedure
@@ -34,22 +23,8 @@ export const productsRouter = router({
       category: z.string().optional(),
       image_url: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { data, error } = await supabase
-        .from("products")
-        .insert({
-          name: input.name,
-          barcode: input.barcode || null,
-          category: input.category || null,
-          image_url: input.image_url || null,
-        })
-        .select()
-        .single();
-      
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data as Product;
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.db.products.create(input);
     }),
 
   getOrCreate: protectedProcedure
@@ -58,44 +33,61 @@ export const productsRouter = router({
       barcode: z.string().optional(),
       category: z.string().optional(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
+    .mutation(async ({ input, ctx }) => {
       // Try to find by barcode first, then by name
       let product: Product | null = null;
-      
+
       if (input.barcode) {
-        const { data } = await supabase
-          .from("products")
-          .select("*")
-          .eq("barcode", input.barcode)
-          .single();
-        product = data;
+        product = await ctx.db.products.findByBarcode(input.barcode);
       }
-      
+
       if (!product) {
-        const { data } = await supabase
-          .from("products")
-          .select("*")
-          .ilike("name", input.name)
-          .single();
-        product = data;
+        product = await ctx.db.products.findByName(input.name);
       }
-      
+
       if (product) return product;
-      
+
       // Create new product
-      const { data, error } = await supabase
-        .from("products")
-        .insert({
-          name: input.name,
-          barcode: input.barcode || null,
-          category: input.category || null,
-        })
-        .select()
-        .single();
-      
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data as Product;
+      return await ctx.db.products.create({
+        name: input.name,
+        barcode: input.barcode,
+        category: input.category,
+      });
+    }),
+
+  // Likely duplicate pairs for review before merge
+  duplicates: protectedProcedure
+    .input(z.object({
+      productId: z.string().uuid().optional(),
+      minScore: z.number().min(0).max(1).default(DUPLICATE_SCORE),
+      limit: z.number().min(1).max(100).default(20),
+      scanLimit: z.number().min(1).max(2000).default(500),
+    }))
+    .query(async ({ input, ctx }) => {
+      return await findDuplicates(ctx.db, input);
+    }),
+
+  // Folds sourceId into targetId; the source product is deleted
+  merge: moderatorProcedure
+    .input(z.object({
+      sourceId: z.string().uuid(),
+      targetId: z.string().uuid(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.sourceId === input.targetId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot merge a product into itself" });
+      }
+      const found = await ctx.db.products.findByIds([input.sourceId, input.targetId]);
+      if (found.length < 2) throw new TRPCError({ code: "NOT_FOUND", message: "Product not found" });
+
+      const merge = await ctx.db.products.merge(input.sourceId, input.targetId, ctx.user.userId);
+      const [product] = await ctx.db.products.findByIds([input.targetId]);
+      return { product, merge };
+    }),
+
+  merges: moderatorProcedure
+    .input(z.object({ productId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.products.listMerges(input.productId);
     }),
 });
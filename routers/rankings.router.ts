@@ -1,41 +1,18 @@
 import { router, publicProcedure, protectedProcedure } from "../trpc";
-import { supabase } from "../supabase";
 
 export const rankingsRouter = router({
-  getTop: publicProcedure.query(async () => {
-    if (!supabase) return [];
-    
-    const { data, error } = await supabase.rpc("get_top_contributors", { lim: 10 });
-    
-    if (error) {
-      console.error("Ranking RPC failed:", error.message);
-      return [];
-    }
-    
-    return (data || []) as { userId: string; count: number }[];
+  getTop: publicProcedure.query(async ({ ctx }) => {
+    return await ctx.db.rankings.topContributors(10);
   }),
 
   userProfile: protectedProcedure.query(async ({ ctx }) => {
-    if (!supabase) return { priceCount: 0, receiptCount: 0 };
-    
-    const { count: priceCount } = await supabase
-      .from("prices")
-      .select("*, receipts!inner(*)", { count: "exact", head: true })
-      .eq("user_id", ctx.user.userId)
-      .eq("receipts.status", "complete")
-      .eq("receipts.is_deleted", false);
-      
-    const { count: receiptCount } = await supabase
-      .from("receipts")
-      .select("*", { count: "exact", head: true })
-      .eq("user_id", ctx.user.userId)
-      .eq("status", "complete") 
-      .eq("is_deleted", false);
+    const priceCount = await ctx.db.prices.countByUser(ctx.user.userId, { completeReceiptsOnly: true });
+    const receiptCount = await ctx.db.receipts.countByUser(ctx.user.userId, { completeOnly: true });
       
     return {
       userId: ctx.user.userId,
-      priceCount: priceCount || 0,
-      receiptCount: receiptCount || 0,
+      priceCount,
+      receiptCount,
     };
   }),
 });
@@ -1,15 +1,151 @@
 import { z } from "zod";
 import path from "path";
+import { randomUUID } from "crypto";
 import { writeFile, mkdir } from "fs/promises";
-import { router, publicProcedure, protectedProcedure, TRPCError } from "../trpc";
-import { supabase, type ReceiptWithDetails } from "../supabase";
-import { parseReceiptImage, type ParsedReceipt } from "../gemini";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import { type ReceiptWithDetails } from "../supabase";
+import type { ParsedReceipt } from "../gemini";
+import { matchReceiptItems, recordItemMatches } from "../matching/product-matcher";
+import { applyLearnedAbbreviations } from "../matching/dictionary";
+import { scopeUserIds } from "../households/access";
+import { checkBudgetAlerts } from "../budgets/progress";
+import { currencyCode } from "../currency/exchange";
+import { editReceipt, type ReceiptItemInput } from "../receipts/revisions";
+import { changeDraft, findDraftItem, requireDraft } from "../receipts/drafts";
+import { completeDraft, saveReceipt } from "../receipts/saving";
+import { clearForPublishing, withdrawFromReview } from "../prices/anomalies";
+import type { Repository } from "../repositories/types";
+
+// Only the owner's complete, non-deleted receipts can be edited
+async function requireEditableReceipt(db: Repository, receiptId: string, userId: string) {
+  const receipt = await db.receipts.findForUser(receiptId, userId);
+  if (!receipt || receipt.is_deleted) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Receipt not found" });
+  }
+  if (receipt.status !== "complete") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Only complete receipts can be edited" });
+  }
+  return receipt;
+}
+
+// Publishes or unpublishes every price on the caller's receipt. Rejected and
+// suspicious prices are not published; the latter wait for review.
+async function setReceiptPublished(db: Repository, receiptId: string, userId: string, published: boolean) {
+  const receipt = await requireEditableReceipt(db, receiptId, userId);
+  const prices = await db.prices.listByReceipt(receipt.id);
+  if (!published) await withdrawFromReview(db, prices);
+  const cleared = published ? await clearForPublishing(db, prices) : prices;
+  const newlyShared = published ? cleared.filter((p) => !p.published) : [];
+  const changed = await db.prices.setPublished(cleared.map((p) => p.id), published);
+  // Bookmarks hear about prices that were private until now
+  for (const price of newlyShared) await db.alerts.createForPrice(price.id);
+  console.log(`${published ? "📢" : "🔒"} ${changed} prices ${published ? "published" : "unpublished"} on receipt ${receipt.id}`);
+  return { receiptId: receipt.id, published, changed };
+}
+
+async function requireProduct(db: Repository, productId: string | undefined) {
+  if (productId && (await db.products.findByIds([productId])).length === 0) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Product not found" });
+  }
+}
+
+const receiptItem = z.object({
+  productId: z.string().uuid(),
+  price: z.number().positive(),
+  quantity: z.number().positive().optional(),
+  weight: z.string().nullable().optional(),
+  unitPrice: z.number().positive().nullable().optional(),
+  originalPrice: z.number().positive().nullable().optional(),
+  tags: z.array(z.string()).nullable().optional(),
+});
+
+// A draft line item as stored in items_snapshot
+const snapshotItem = z.object({
+  productId: z.string().uuid(),
+  receiptName: z.string().optional(), // Line text as printed, used to learn matches
+  price: z.number().positive(),
+  quantity: z.number().optional(),
+  weight: z.string().optional(),
+  unitPrice: z.number().optional(),
+  originalPrice: z.number().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+// Draft edits name the draft_version they started from
+const draftVersion = z.number().int().min(0);
+
+const toItemInput = (item: z.infer<typeof receiptItem>): ReceiptItemInput => ({
+  productId: item.productId,
+  price: item.price,
+  quantity: item.quantity ?? 1,
+  weight: item.weight ?? null,
+  unitPrice: item.unitPrice ?? null,
+  originalPrice: item.originalPrice ?? null,
+  tags: item.tags ?? null,
+});
+
+const findItem = <T extends { priceId: string }>(items: T[], priceId: string) => {
+  const item = items.find((i) => i.priceId === priceId);
+  if (!item) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Receipt item not found" });
+  }
+  return item;
+};
 
 export const receiptsRouter = router({
   parseWithAI: protectedProcedure
     .input(z.object({ imageBase64: z.string() }))
-    .mutation(async ({ input }): Promise<ParsedReceipt> => {
-      return await parseReceiptImage(input.imageBase64);
+    .mutation(async ({ input, ctx }): Promise<ParsedReceipt & { provider: string }> => {
+      const { receipt, provider } = await ctx.receiptParser.parse(input.imageBase64);
+      return { ...(await applyLearnedAbbreviations(ctx.db, receipt)), provider };
+    }),
+
+  // Queue a scan for the background worker; poll jobStatus or subscribe to onJobStatus
+  parseAsync: protectedProcedure
+    .input(z.object({ imageBase64: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const job = await ctx.receiptJobs.enqueue(ctx.user.userId, input.imageBase64);
+      return { jobId: job.id, status: job.status };
+    }),
+
+  jobStatus: protectedProcedure
+    .input(z.object({ jobId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const job = await ctx.db.receiptJobs.getById(input.jobId, ctx.user.userId);
+      if (!job) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      return job;
+    }),
+
+  onJobStatus: protectedProcedure
+    .input(z.object({ jobId: z.string().uuid() }))
+    .subscription(async function* ({ input, ctx, signal }) {
+      const job = await ctx.db.receiptJobs.getById(input.jobId, ctx.user.userId);
+      if (!job) throw new TRPCError({ code: "NOT_FOUND", message: "Job not found" });
+      yield* ctx.receiptJobs.watch(job.id, signal);
+    }),
+
+  // Propose products for parsed lines before bulkSave
+  matchProducts: protectedProcedure
+    .input(z.object({
+      storeId: z.string().uuid().optional(),
+      receipt: z.object({
+        store: z.string().nullish(),
+        items: z.array(z.object({
+          name: z.string().min(1),
+          alternativeName: z.string().nullish(),
+          barcode: z.string().nullish(),
+          category: z.string().nullish(),
+        })),
+      }),
+    }))
+    .query(async ({ input, ctx }) => {
+      const store = input.storeId ? await ctx.db.stores.getById(input.storeId) : null;
+      return await matchReceiptItems(ctx.db, {
+        userId: ctx.user.userId,
+        storeId: input.storeId,
+        storeName: store?.name || input.receipt.store,
+        items: input.receipt.items,
+      });
     }),
 
   bulkSave: protectedProcedure
@@ -21,83 +157,30 @@ export const receiptsRouter = router({
       receiptTime: z.string().optional(),
       currency: z.string().default('USD'),
       status: z.enum(['complete', 'draft']).default('complete'),
-      items: z.array(z.object({
-        productId: z.string().uuid(),
-        price: z.number().positive(),
-        quantity: z.number().optional(),
-        weight: z.string().optional(),
-        unitPrice: z.number().optional(),
-        originalPrice: z.number().optional(),
-        tags: z.array(z.string()).optional(),
-      })),
+      items: z.array(snapshotItem),
       receiptImagePath: z.string().optional(),
+      // Publish the prices; defaults to the caller's sharing preference
+      published: z.boolean().optional(),
+      // Retrying with the same key returns the first save instead of adding another receipt
+      idempotencyKey: z.string().min(8).max(128).optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      // Create receipt record first
-      const { data: receipt, error: receiptError } = await supabase
-        .from("receipts")
-        .insert({
-          user_id: ctx.user.userId,
-          store_id: input.storeId,
-          total_price: input.totalPrice || null,
-          store_location: input.storeLocation || null,
-          receipt_date: input.receiptDate || null,
-          receipt_time: input.receiptTime || null,
-          currency: input.currency,
-          status: input.status,
-          image_path: input.receiptImagePath || null,
-          items_snapshot: input.status === 'draft' ? input.items : null,
-        })
-        .select()
-        .single();
-      
-      if (receiptError) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: receiptError.message });
-      
-      // If it's a draft, we're done (don't populate prices table yet)
+      const { saved, receiptId, replayed } = await saveReceipt(ctx.db, ctx.user.userId, input);
       if (input.status === 'draft') {
-        console.log(`✅ Draft receipt ${receipt.id} saved with ${input.items.length} items in snapshot`);
-        return { saved: 0, receiptId: receipt.id };
+        console.log(`✅ Draft receipt ${receiptId} saved with ${input.items.length} items in snapshot`);
+        return { saved, receiptId };
       }
+      if (replayed) return { saved, receiptId };
 
-      // Create price records linked to receipt (Only for completed receipts)
-      const purchaseTime = (() => {
-        if (!input.receiptDate) return new Date().toISOString();
-        try {
-          const d = new Date(`${input.receiptDate}T${input.receiptTime || '12:00'}:00`);
-          if (!isNaN(d.getTime())) return d.toISOString();
-          const d2 = new Date(input.receiptDate);
-          if (!isNaN(d2.getTime())) return d2.toISOString();
-        } catch (e) {}
-        return new Date().toISOString();
-      })();
-
-      const priceRecords = input.items.map((item: any) => ({
-        product_id: item.productId,
-        store_id: input.storeId,
-        user_id: ctx.user.userId,
-        price: item.price,
-        quantity: Math.round(item.quantity || 1),
-        weight: item.weight || null,
-        unit_price: item.unitPrice || null,
-        original_price: item.originalPrice || null,
-        tags: item.tags || null,
-        currency: input.currency || "USD",
-        receipt_id: receipt.id,
-        receipt_image_path: input.receiptImagePath || null,
-        purchase_time: purchaseTime,
-      }));
+      await recordItemMatches(ctx.db, ctx.user.userId, input.storeId, input.items).catch((err) =>
+        console.warn("⚠️ Failed to record item matches:", err.message)
+      );
+      await checkBudgetAlerts(ctx.db, ctx.user.userId).catch((err) =>
+        console.warn("⚠️ Failed to check budgets:", err.message)
+      );
       
-      const { data, error } = await supabase
-        .from("prices")
-        .insert(priceRecords)
-        .select();
-      
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      
-      console.log(`✅ Bulk saved ${input.items.length} prices in receipt ${receipt.id} (Status: ${input.status})`);
-      return { saved: data?.length || 0, receiptId: receipt.id };
+      console.log(`✅ Bulk saved ${saved} prices in receipt ${receiptId} (Status: ${input.status})`);
+      return { saved, receiptId };
     }),
 
   list: protectedProcedure
@@ -106,66 +189,49 @@ export const receiptsRouter = router({
       status: z.enum(['complete', 'draft']).optional(),
       startDate: z.string().optional(),
       endDate: z.string().optional(),
+      // Receipts of the household's sharing members instead of only the caller's
+      householdId: z.string().uuid().optional(),
     }).optional())
     .query(async ({ ctx, input }) => {
-      if (!supabase) return [];
-      
       // Default to showing only completed receipts unless specified
       const statusFilter = (input?.status || 'complete') as 'complete' | 'draft';
       
       console.log(`🔍 [Receipts List] Fetching status: ${statusFilter} for user: ${ctx.user.userId}`);
       
-      let query = supabase
-        .from("receipts")
-        .select("*, stores(*)")
-        .eq("user_id", ctx.user.userId)
-        .eq("is_deleted", false)
-        .eq("status", statusFilter);
-
-      if (input?.startDate) {
-        query = query.gte("receipt_date", input.startDate);
-      }
-      if (input?.endDate) {
-        query = query.lte("receipt_date", input.endDate);
-      }
-
-      const { data } = await query
-        .order("receipt_date", { ascending: false })
-        .order("created_at", { ascending: false })
-        .limit(input?.limit || 20);
-      
-      return (data || []) as ReceiptWithDetails[];
+      return await ctx.db.receipts.list({
+        userIds: await scopeUserIds(ctx.db, ctx.user.userId, input?.householdId),
+        status: statusFilter,
+        startDate: input?.startDate,
+        endDate: input?.endDate,
+        limit: input?.limit || 20,
+      });
     }),
 
   getById: protectedProcedure
-    .input(z.object({ receiptId: z.string().uuid() }))
-    .query(async ({ input }) => {
-      if (!supabase) return null;
-      
-      const { data: receipt } = await supabase
-        .from("receipts")
-        .select("*, stores(*)")
-        .eq("id", input.receiptId)
-        .single();
+    .input(z.object({
+      receiptId: z.string().uuid(),
+      // A receipt of one of the household's sharing members
+      householdId: z.string().uuid().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const receipt = await ctx.db.receipts.getById(input.receiptId);
+      const userIds = await scopeUserIds(ctx.db, ctx.user.userId, input.householdId);
       
-      if (!receipt) return null;
+      if (!receipt || !userIds.includes(receipt.user_id)) return null;
       
       // If it's a draft, items are in items_snapshot
       if (receipt.status === 'draft' && receipt.items_snapshot) {
-        const snapshotItems = receipt.items_snapshot as any[];
+        const snapshotItems = receipt.items_snapshot;
         
         // Fetch product details for the items in snapshot
         const productIds = snapshotItems.map(i => i.productId);
-        const { data: products } = await supabase
-          .from("products")
-          .select("*")
-          .in("id", productIds);
+        const products = await ctx.db.products.findByIds(productIds);
         
-        const productsMap = new Map(products?.map(p => [p.id, p]));
+        const productsMap = new Map(products.map(p => [p.id, p]));
         
         // Reconstruct "prices" format for consistent frontend rendering
         const items = snapshotItems.map((item, idx) => ({
-          id: `draft-${item.productId}-${idx}`,
+          id: item.itemId || `draft-${item.productId}-${idx}`,
           receipt_id: receipt.id,
           product_id: item.productId,
           price: item.price,
@@ -177,97 +243,233 @@ export const receiptsRouter = router({
           products: productsMap.get(item.productId) || { name: "Unknown Item" },
         }));
 
-        return { ...receipt, prices: items } as ReceiptWithDetails;
+        return { ...receipt, prices: items } as unknown as ReceiptWithDetails;
       }
 
       // If it's complete, get associated prices from prices table
-      const { data: prices } = await supabase
-        .from("prices")
-        .select("*, products(*)")
-        .eq("receipt_id", input.receiptId)
-        .order("detected_at", { ascending: false });
+      const prices = await ctx.db.prices.listByReceipt(input.receiptId);
       
-      return { ...receipt, prices: prices || [] } as ReceiptWithDetails;
+      return { ...receipt, prices } as ReceiptWithDetails;
     }),
 
   softDelete: protectedProcedure
     .input(z.object({ receiptId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase
-        .from("receipts")
-        .update({ is_deleted: true })
-        .eq("id", input.receiptId)
-        .eq("user_id", ctx.user.userId);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.receipts.update(input.receiptId, { is_deleted: true }, ctx.user.userId);
       return { success: true };
     }),
 
-  completeDraft: protectedProcedure
-    .input(z.object({ receiptId: z.string().uuid() }))
+  // Header fields of a draft
+  updateDraft: protectedProcedure
+    .input(z.object({
+      receiptId: z.string().uuid(),
+      version: draftVersion,
+      storeId: z.string().uuid().optional(),
+      storeLocation: z.string().nullable().optional(),
+      totalPrice: z.number().positive().nullable().optional(),
+      receiptDate: z.string().nullable().optional(),
+      receiptTime: z.string().nullable().optional(),
+      currency: currencyCode.optional(),
+    }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      // 1. Get the receipt and its snapshot
-      const { data: receipt, error: fetchError } = await supabase
-        .from("receipts")
-        .select("*")
-        .eq("id", input.receiptId)
-        .eq("user_id", ctx.user.userId)
-        .single();
-      
-      if (fetchError || !receipt) throw new TRPCError({ code: "NOT_FOUND", message: "Receipt not found" });
-      if (receipt.status === 'complete') return { success: true }; // Already done
-      if (!receipt.items_snapshot) throw new TRPCError({ code: "BAD_REQUEST", message: "No draft data found for this receipt" });
-
-      const items = receipt.items_snapshot as any[];
-      
-      const purchaseTime = (() => {
-        if (!receipt.receipt_date) return receipt.created_at;
-        try {
-          const d = new Date(`${receipt.receipt_date}T${receipt.receipt_time || '12:00'}:00`);
-          if (!isNaN(d.getTime())) return d.toISOString();
-          const d2 = new Date(receipt.receipt_date);
-          if (!isNaN(d2.getTime())) return d2.toISOString();
-        } catch (e) {}
-        return receipt.created_at;
-      })();
-
-      // 2. Insert into prices table
-      const priceRecords = items.map((item: any) => ({
-        product_id: item.productId,
-        store_id: receipt.store_id,
-        user_id: ctx.user.userId,
-        price: item.price,
-        quantity: Math.round(item.quantity || 1),
-        weight: item.weight || null,
-        unit_price: item.unitPrice || null,
-        original_price: item.originalPrice || null,
-        tags: item.tags || null,
-        currency: receipt.currency,
-        receipt_id: receipt.id,
-        receipt_image_path: receipt.image_path || null,
-        purchase_time: purchaseTime,
+      if (input.storeId && !(await ctx.db.stores.getById(input.storeId))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Store not found" });
+      }
+      return await changeDraft(ctx.db, input.receiptId, ctx.user.userId, input.version, () => ({
+        ...(input.storeId !== undefined && { store_id: input.storeId }),
+        ...(input.storeLocation !== undefined && { store_location: input.storeLocation }),
+        ...(input.totalPrice !== undefined && { total_price: input.totalPrice }),
+        ...(input.receiptDate !== undefined && { receipt_date: input.receiptDate }),
+        ...(input.receiptTime !== undefined && { receipt_time: input.receiptTime }),
+        ...(input.currency !== undefined && { currency: input.currency }),
       }));
+    }),
 
-      const { error: priceError } = await supabase
-        .from("prices")
-        .insert(priceRecords);
-      
-      if (priceError) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: priceError.message });
+  // Replaces the item with item.itemId, or adds a new one; position moves it (default: where it is, or last)
+  upsertDraftItem: protectedProcedure
+    .input(z.object({
+      receiptId: z.string().uuid(),
+      version: draftVersion,
+      item: snapshotItem.extend({ itemId: z.string().uuid().optional() }),
+      position: z.number().int().min(0).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return await changeDraft(ctx.db, input.receiptId, ctx.user.userId, input.version, (items) => {
+        const existing = input.item.itemId ? findDraftItem(items, input.item.itemId) : null;
+        const item = { ...input.item, itemId: existing?.itemId ?? randomUUID() };
+        const rest = items.filter((i) => i !== existing);
+        const position = input.position ?? (existing ? items.indexOf(existing) : rest.length);
+        rest.splice(Math.min(position, rest.length), 0, item);
+        return { items_snapshot: rest };
+      });
+    }),
+
+  removeDraftItem: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid(), version: draftVersion, itemId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await changeDraft(ctx.db, input.receiptId, ctx.user.userId, input.version, (items) => {
+        const item = findDraftItem(items, input.itemId);
+        return { items_snapshot: items.filter((i) => i !== item) };
+      });
+    }),
+
+  // itemIds lists every item of the draft once, in the new order
+  reorderDraftItems: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid(), version: draftVersion, itemIds: z.array(z.string().uuid()) }))
+    .mutation(async ({ input, ctx }) => {
+      return await changeDraft(ctx.db, input.receiptId, ctx.user.userId, input.version, (items) => {
+        const byId = new Map(items.map((i) => [i.itemId, i]));
+        const unique = new Set(input.itemIds);
+        if (input.itemIds.length !== items.length || unique.size !== items.length || ![...unique].every((id) => byId.has(id))) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "itemIds must list every draft item exactly once" });
+        }
+        return { items_snapshot: input.itemIds.map((id) => byId.get(id)!) };
+      });
+    }),
+
+  // Drops a draft the user does not want to save; with a version only if nothing changed since
+  discardDraft: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid(), version: draftVersion.optional() }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.version !== undefined) {
+        await changeDraft(ctx.db, input.receiptId, ctx.user.userId, input.version, () => ({ is_deleted: true }));
+      } else {
+        await requireDraft(ctx.db, input.receiptId, ctx.user.userId);
+        await ctx.db.receipts.update(input.receiptId, { is_deleted: true }, ctx.user.userId);
+      }
+      console.log(`🗑️ Draft receipt ${input.receiptId} discarded`);
+      return { success: true };
+    }),
 
-      // 3. Mark as complete and clear snapshot
-      const { error: updateError } = await supabase
-        .from("receipts")
-        .update({ status: 'complete', items_snapshot: null })
-        .eq("id", input.receiptId);
+  completeDraft: protectedProcedure
+    .input(z.object({
+      receiptId: z.string().uuid(),
+      // When given, the draft must still be at this draft_version
+      version: draftVersion.optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const draft = await completeDraft(ctx.db, ctx.user.userId, input.receiptId, input.version);
+      if (!draft) return { success: true }; // Already done
 
-      if (updateError) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: updateError.message });
+      const items = draft.items_snapshot || [];
+      if (draft.store_id) {
+        await recordItemMatches(ctx.db, ctx.user.userId, draft.store_id, items).catch((err) =>
+          console.warn("⚠️ Failed to record item matches:", err.message)
+        );
+      }
+      await checkBudgetAlerts(ctx.db, ctx.user.userId).catch((err) =>
+        console.warn("⚠️ Failed to check budgets:", err.message)
+      );
       
       console.log(`✅ Draft receipt ${input.receiptId} finalized and ${items.length} prices inserted.`);
       return { success: true };
     }),
 
+  // Header fields of a complete receipt; store, date and currency carry over to its prices
+  update: protectedProcedure
+    .input(z.object({
+      receiptId: z.string().uuid(),
+      storeId: z.string().uuid().optional(),
+      storeLocation: z.string().nullable().optional(),
+      totalPrice: z.number().positive().nullable().optional(),
+      receiptDate: z.string().nullable().optional(),
+      receiptTime: z.string().nullable().optional(),
+      currency: currencyCode.optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const receipt = await requireEditableReceipt(ctx.db, input.receiptId, ctx.user.userId);
+      if (input.storeId && !(await ctx.db.stores.getById(input.storeId))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Store not found" });
+      }
+      return await editReceipt(ctx.db, receipt, ctx.user.userId, "update", (current) => ({
+        ...current,
+        ...(input.storeId !== undefined && { store_id: input.storeId }),
+        ...(input.storeLocation !== undefined && { store_location: input.storeLocation }),
+        ...(input.totalPrice !== undefined && { total_price: input.totalPrice }),
+        ...(input.receiptDate !== undefined && { receipt_date: input.receiptDate }),
+        ...(input.receiptTime !== undefined && { receipt_time: input.receiptTime }),
+        ...(input.currency !== undefined && { currency: input.currency }),
+      }));
+    }),
+
+  addItem: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid(), item: receiptItem }))
+    .mutation(async ({ input, ctx }) => {
+      const receipt = await requireEditableReceipt(ctx.db, input.receiptId, ctx.user.userId);
+      await requireProduct(ctx.db, input.item.productId);
+      return await editReceipt(ctx.db, receipt, ctx.user.userId, "add_item", (current) => ({
+        ...current,
+        items: [...current.items, toItemInput(input.item)],
+      }));
+    }),
+
+  // priceId is the item's prices row; missing keys stay unchanged
+  updateItem: protectedProcedure
+    .input(receiptItem.partial().extend({ receiptId: z.string().uuid(), priceId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const receipt = await requireEditableReceipt(ctx.db, input.receiptId, ctx.user.userId);
+      await requireProduct(ctx.db, input.productId);
+      const { receiptId, priceId, ...changes } = input;
+      return await editReceipt(ctx.db, receipt, ctx.user.userId, "update_item", (current) => {
+        const item = findItem(current.items, priceId);
+        // A reported unit price is stale once the price or quantity changes
+        const repriced = changes.price !== undefined || changes.quantity !== undefined;
+        const updated: ReceiptItemInput = {
+          ...item,
+          ...(changes.productId !== undefined && { productId: changes.productId }),
+          ...(changes.price !== undefined && { price: changes.price }),
+          ...(changes.quantity !== undefined && { quantity: changes.quantity }),
+          ...(changes.weight !== undefined && { weight: changes.weight }),
+          unitPrice: changes.unitPrice !== undefined ? changes.unitPrice : repriced ? null : item.unitPrice,
+          ...(changes.originalPrice !== undefined && { originalPrice: changes.originalPrice }),
+          ...(changes.tags !== undefined && { tags: changes.tags }),
+        };
+        return { ...current, items: current.items.map((i) => (i === item ? updated : i)) };
+      });
+    }),
+
+  removeItem: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid(), priceId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const receipt = await requireEditableReceipt(ctx.db, input.receiptId, ctx.user.userId);
+      return await editReceipt(ctx.db, receipt, ctx.user.userId, "remove_item", (current) => {
+        const item = findItem(current.items, input.priceId);
+        return { ...current, items: current.items.filter((i) => i !== item) };
+      });
+    }),
+
+  // Newest first; version 1 is the receipt before its first edit, and a receipt never edited has none
+  revisions: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      const receipt = await requireEditableReceipt(ctx.db, input.receiptId, ctx.user.userId);
+      return await ctx.db.receipts.listRevisions(receipt.id);
+    }),
+
+  // Restores an earlier version as a new revision; removed items come back as new prices rows
+  revert: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid(), version: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const receipt = await requireEditableReceipt(ctx.db, input.receiptId, ctx.user.userId);
+      const revision = await ctx.db.receipts.getRevision(receipt.id, input.version);
+      if (!revision) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+      }
+      return await editReceipt(ctx.db, receipt, ctx.user.userId, "revert", () => revision.snapshot, revision.version);
+    }),
+
+  publish: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await setReceiptPublished(ctx.db, input.receiptId, ctx.user.userId, true);
+    }),
+
+  unpublish: protectedProcedure
+    .input(z.object({ receiptId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      return await setReceiptPublished(ctx.db, input.receiptId, ctx.user.userId, false);
+    }),
+
   checkDuplicate: protectedProcedure
     .input(z.object({
       storeId: z.string().uuid(),
@@ -275,18 +477,9 @@ export const receiptsRouter = router({
       receiptTime: z.string().optional().nullable(),
     }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return { exists: false };
-      
-      const baseQuery = supabase
-        .from("receipts")
-        .select("id, receipt_time")
-        .eq("user_id", ctx.user.userId)
-        .eq("store_id", input.storeId)
-        .eq("receipt_date", input.receiptDate);
-
-      const { data: dayReceipts } = await baseQuery;
+      const dayReceipts = await ctx.db.receipts.listForDay(ctx.user.userId, input.storeId, input.receiptDate);
       
-      if (!dayReceipts || dayReceipts.length === 0) {
+      if (dayReceipts.length === 0) {
         return { exists: false, potential: false };
       }
 
@@ -321,17 +514,9 @@ export const receiptsRouter = router({
       const filepath = path.join(uploadsDir, filename);
       await writeFile(filepath, buffer);
       
-      // Also upload to Supabase Storage if configured
-      let storagePath = filepath;
-      if (supabase) {
-        const { data, error } = await supabase.storage
-          .from("receipts")
-          .upload(`${ctx.user.userId}/${filename}`, buffer, {
-            contentType: "image/jpeg",
-          });
-        if (data) storagePath = data.path;
-        if (error) console.warn("Storage upload failed:", error.message);
-      }
+      // Also upload to remote storage if the data store has one
+      const uploaded = await ctx.db.storage.uploadReceiptImage(`${ctx.user.userId}/${filename}`, buffer);
+      const storagePath = uploaded || filepath;
       
       console.log(`✔ Receipt saved: ${storagePath}`);
       return { success: true, path: storagePath };
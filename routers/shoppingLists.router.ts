@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { router, protectedProcedure, TRPCError } from "../trpc";
+import type { Repository } from "../repositories/types";
+import { currencyCode, loadCurrencyConverter, priceDate } from "../currency/exchange";
+import { distanceKm, optimizeShoppingList } from "../shopping/optimizer";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getOwnedList(db: Repository, id: string, userId: string) {
+  const list = await db.shoppingLists.get(id, userId);
+  if (!list) throw new TRPCError({ code: "NOT_FOUND", message: "Shopping list not found" });
+  return list;
+}
+
+async function getOwnedItem(db: Repository, listId: string, itemId: string, userId: string) {
+  const list = await getOwnedList(db, listId, userId);
+  const item = list.items.find((i) => i.id === itemId);
+  if (!item) throw new TRPCError({ code: "NOT_FOUND", message: "Shopping list item not found" });
+  return item;
+}
+
+export const shoppingListsRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await ctx.db.shoppingLists.list(ctx.user.userId);
+  }),
+
+  get: protectedProcedure
+    .input(z.object({ listId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      return await getOwnedList(ctx.db, input.listId, ctx.user.userId);
+    }),
+
+  create: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.db.shoppingLists.create(ctx.user.userId, input.name);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ listId: z.string().uuid(), name: z.string().trim().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedList(ctx.db, input.listId, ctx.user.userId);
+      return await ctx.db.shoppingLists.update(input.listId, { name: input.name });
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ listId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedList(ctx.db, input.listId, ctx.user.userId);
+      await ctx.db.shoppingLists.delete(input.listId);
+      return { success: true };
+    }),
+
+  // Adding a product that is already on the list replaces its quantity
+  addItem: protectedProcedure
+    .input(z.object({
+      listId: z.string().uuid(),
+      productId: z.string().uuid(),
+      quantity: z.number().positive().default(1),
+      note: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedList(ctx.db, input.listId, ctx.user.userId);
+      if ((await ctx.db.products.findByIds([input.productId])).length === 0) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Product not found" });
+      }
+      return await ctx.db.shoppingLists.upsertItem({
+        list_id: input.listId,
+        product_id: input.productId,
+        quantity: input.quantity,
+        note: input.note,
+      });
+    }),
+
+  updateItem: protectedProcedure
+    .input(z.object({
+      listId: z.string().uuid(),
+      itemId: z.string().uuid(),
+      quantity: z.number().positive().optional(),
+      note: z.string().nullable().optional(),
+      checked: z.boolean().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedItem(ctx.db, input.listId, input.itemId, ctx.user.userId);
+      return await ctx.db.shoppingLists.updateItem(input.itemId, {
+        ...(input.quantity !== undefined && { quantity: input.quantity }),
+        ...(input.note !== undefined && { note: input.note }),
+        ...(input.checked !== undefined && { checked: input.checked }),
+      });
+    }),
+
+  removeItem: protectedProcedure
+    .input(z.object({ listId: z.string().uuid(), itemId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedItem(ctx.db, input.listId, input.itemId, ctx.user.userId);
+      await ctx.db.shoppingLists.removeItem(input.itemId);
+      return { success: true };
+    }),
+
+  // Cheapest single store and cheapest split across up to maxStores nearby stores,
+  // from the latest known price of each item at each store. Checked items are left out.
+  optimize: protectedProcedure
+    .input(z.object({
+      listId: z.string().uuid(),
+      latitude: z.number(),
+      longitude: z.number(),
+      radiusKm: z.number().positive().default(5),
+      maxStores: z.number().int().min(1).max(5).default(2),
+      // Compare in this currency at each price's purchase-date rate
+      displayCurrency: currencyCode.optional(),
+      // Ignore prices older than this
+      maxPriceAgeDays: z.number().int().positive().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const list = await getOwnedList(ctx.db, input.listId, ctx.user.userId);
+      const items = list.items
+        .filter((i) => !i.checked)
+        .map((i) => ({ productId: i.product_id, name: i.products?.name || i.product_id, quantity: Number(i.quantity) }));
+
+      const stores = (await ctx.db.stores.nearby(input.latitude, input.longitude, input.radiusKm)).map((store) => ({
+        store,
+        distanceKm: distanceKm(input.latitude, input.longitude, store.latitude, store.longitude),
+      }));
+
+      const since = input.maxPriceAgeDays ? new Date(Date.now() - input.maxPriceAgeDays * DAY_MS).toISOString() : null;
+      const prices = (
+        await ctx.db.prices.latestForProducts(
+          items.map((i) => i.productId),
+          stores.map((s) => s.store.id),
+          ctx.user.userId
+        )
+      ).filter((p) => !since || priceDate(p) >= since);
+
+      const converter = input.displayCurrency
+        ? await loadCurrencyConverter(ctx.db, input.displayCurrency, prices.map((p) => p.currency))
+        : null;
+
+      return {
+        listId: list.id,
+        ...optimizeShoppingList({ items, stores, prices, maxStores: input.maxStores, converter }),
+      };
+    }),
+});
@@ -1,16 +1,15 @@
 import { z } from "zod";
 import { router, publicProcedure, protectedProcedure, TRPCError } from "../trpc";
-import { supabase, type Store } from "../supabase";
+import type { Price } from "../supabase";
+import { currencyCode, loadCurrencyConverter, priceDate } from "../currency/exchange";
+import { scopeUserIds } from "../households/access";
+import { assertOwnerOrModerator } from "../moderation/targets";
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
 
 export const storesRouter = router({
-  list: publicProcedure.query(async () => {
-    if (!supabase) return [];
-    const { data } = await supabase
-      .from("stores")
-      .select("*")
-      .eq("is_deleted", false)
-      .order("name");
-    return (data || []) as Store[];
+  list: publicProcedure.query(async ({ ctx }) => {
+    return await ctx.db.stores.list();
   }),
 
   nearby: publicProcedure
@@ -19,40 +18,14 @@ export const storesRouter = router({
       longitude: z.number(),
       radiusKm: z.number().default(5),
     }))
-    .query(async ({ input }) => {
-      if (!supabase) return [];
-      
-      // Using PostGIS ST_DWithin for radius search
-      const { data, error } = await supabase.rpc("stores_nearby", {
-        lat: input.latitude,
-        lng: input.longitude,
-        radius_km: input.radiusKm,
-      });
-      
-      if (error) {
-        console.warn("PostGIS query failed, falling back to basic query:", error.message);
-        // Fallback: return all stores (for development without PostGIS)
-        const { data: allStores } = await supabase
-          .from("stores")
-          .select("*")
-          .eq("is_deleted", false);
-        return (allStores || []) as Store[];
-      }
-      
-      return (data || []) as Store[];
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.stores.nearby(input.latitude, input.longitude, input.radiusKm);
     }),
 
   getById: publicProcedure
     .input(z.object({ storeId: z.string().uuid() }))
-    .query(async ({ input }) => {
-      if (!supabase) return null;
-      const { data } = await supabase
-        .from("stores")
-        .select("*")
-        .eq("id", input.storeId)
-        .eq("is_deleted", false)
-        .maybeSingle();
-      return data as Store | null;
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.stores.getById(input.storeId);
     }),
 
   create: protectedProcedure
@@ -62,22 +35,8 @@ export const storesRouter = router({
       latitude: z.number(),
       longitude: z.number(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { data, error } = await supabase
-        .from("stores")
-        .insert({
-          name: input.name,
-          address: input.address || null,
-          latitude: input.latitude,
-          longitude: input.longitude,
-        })
-        .select()
-        .single();
-      
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data as Store;
+    .mutation(async ({ input, ctx }) => {
+      return await ctx.db.stores.create({ ...input, created_by: ctx.user.userId });
     }),
 
   getOrCreate: protectedProcedure
@@ -87,34 +46,13 @@ export const storesRouter = router({
       latitude: z.number(),
       longitude: z.number(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
+    .mutation(async ({ input, ctx }) => {
       // Look for existing store by name (fuzzy match)
-      const { data: existing } = await supabase
-        .from("stores")
-        .select("*")
-        .ilike("name", `%${input.name}%`)
-        .eq("is_deleted", false)
-        .limit(1)
-        .single();
-      
-      if (existing) return existing as Store;
+      const existing = await ctx.db.stores.findByNameLike(input.name);
+      if (existing) return existing;
       
       // Create new store
-      const { data, error } = await supabase
-        .from("stores")
-        .insert({
-          name: input.name,
-          address: input.address || null,
-          latitude: input.latitude,
-          longitude: input.longitude,
-        })
-        .select()
-        .single();
-      
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data as Store;
+      return await ctx.db.stores.create({ ...input, created_by: ctx.user.userId });
     }),
 
   checkDuplicate: protectedProcedure
@@ -124,16 +62,9 @@ export const storesRouter = router({
       latitude: z.number(),
       longitude: z.number(),
     }))
-    .mutation(async ({ input }) => {
-      if (!supabase) return { status: "none" };
-
-      // 1. Check for exact name match
-      const { data: nameMatch } = await supabase
-        .from("stores")
-        .select("*")
-        .ilike("name", input.name) // Case-insensitive full match
-        .eq("is_deleted", false)
-        .maybeSingle();
+    .mutation(async ({ input, ctx }) => {
+      // 1. Check for exact name match (case-insensitive)
+      const nameMatch = await ctx.db.stores.findByName(input.name);
 
       if (nameMatch) {
         return { status: "exact", message: "A store with this exact name already exists.", store: nameMatch };
@@ -142,16 +73,7 @@ export const storesRouter = router({
       // 2. Check for location proximity (approx 100m)
       // Simple bounding box check for speed/simplicity without PostGIS complexity here
       // 0.001 degrees is roughly 111 meters
-      const { data: locMatch } = await supabase
-        .from("stores")
-        .select("*")
-        .eq("is_deleted", false)
-        .gte("latitude", input.latitude - 0.001)
-        .lte("latitude", input.latitude + 0.001)
-        .gte("longitude", input.longitude - 0.001)
-        .lte("longitude", input.longitude + 0.001)
-        .limit(1)
-        .maybeSingle();
+      const locMatch = await ctx.db.stores.findNear(input.latitude, input.longitude, 0.001);
 
       if (locMatch) {
         return { status: "location", message: `A store is already at this location: "${locMatch.name}"`, store: locMatch };
@@ -163,77 +85,77 @@ export const storesRouter = router({
   recordVisit: protectedProcedure
     .input(z.object({ storeId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
       // Just log it or update a last_visited timestamp if it existed. 
       // For now, we'll just return success to satisfy the frontend.
       return { success: true };
     }),
 
+  // Stores are shared, so only the shopper who added one or a moderator may delete it
   softDelete: protectedProcedure
     .input(z.object({ storeId: z.string().uuid() }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      const { error } = await supabase
-        .from("stores")
-        .update({ is_deleted: true })
-        .eq("id", input.storeId);
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      const store = await ctx.db.stores.getById(input.storeId);
+      if (!store) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Store not found" });
+      }
+      assertOwnerOrModerator(ctx.user, store.created_by ?? null, "You can only delete stores you added");
+      await ctx.db.stores.softDelete(store.id);
+      console.log(`🗑️ Store ${store.id} deleted by ${ctx.user.userId}`);
       return { success: true };
     }),
 
   visited: protectedProcedure
-    .query(async ({ ctx }) => {
-      if (!supabase) return [];
-      
+    // With householdId, stores visited by any sharing member
+    .input(z.object({ householdId: z.string().uuid().optional() }).optional())
+    .query(async ({ input, ctx }) => {
       // 1. Get unique store_ids from user receipts
-      const { data: receipts } = await supabase
-        .from("receipts")
-        .select("store_id")
-        .eq("user_id", ctx.user.userId)
-        .not("store_id", "is", null);
-      
-      if (!receipts || receipts.length === 0) return [];
-
-      const storeIds = [...new Set(receipts.map(r => r.store_id))];
-      
-      // 2. Fetch store details
+      const userIds = await scopeUserIds(ctx.db, ctx.user.userId, input?.householdId);
+      const storeIds = await ctx.db.receipts.storeIdsForUsers(userIds);
       if (storeIds.length === 0) return [];
 
-      const { data: stores } = await supabase
-        .from("stores")
-        .select("*")
-        .in("id", storeIds)
-        .eq("is_deleted", false);
-        
-      return (stores || []) as Store[];
+      // 2. Fetch store details
+      return await ctx.db.stores.findByIds(storeIds);
     }),
 
   stats: protectedProcedure
-    .input(z.object({ storeId: z.string().uuid() }))
+    .input(z.object({
+      storeId: z.string().uuid(),
+      // Convert each price at its purchase-date rate before adding up
+      displayCurrency: currencyCode.optional(),
+      // Spending of the household's sharing members instead of only the caller's
+      householdId: z.string().uuid().optional(),
+    }))
     .query(async ({ input, ctx }) => {
-      if (!supabase) return { totalSpent: 0, avgPerItem: 0, thisMonthSpent: 0, itemCount: 0 };
-
       const now = new Date();
       const firstDayOfMonth = new Date(now.getFullYear(), now.getMonth(), 1).toISOString();
 
-      const { data: prices } = await supabase
-        .from("prices")
-        .select("price")
-        .eq("store_id", input.storeId)
-        .eq("user_id", ctx.user.userId);
-
-      const { data: monthlyPrices } = await supabase
-        .from("prices")
-        .select("price")
-        .eq("store_id", input.storeId)
-        .eq("user_id", ctx.user.userId)
-        .gte("detected_at", firstDayOfMonth);
-
-      const totalSpent = prices?.reduce((sum, p) => sum + Number(p.price), 0) || 0;
-      const itemCount = prices?.length || 0;
-      const avgPerItem = itemCount > 0 ? totalSpent / itemCount : 0;
-      const thisMonthSpent = monthlyPrices?.reduce((sum, p) => sum + Number(p.price), 0) || 0;
-
-      return { totalSpent, avgPerItem, thisMonthSpent, itemCount };
+      const userIds = await scopeUserIds(ctx.db, ctx.user.userId, input.householdId);
+      const prices = await ctx.db.prices.listPurchasesAtStore(userIds, input.storeId);
+      const monthlyPrices = await ctx.db.prices.listPurchasesAtStore(userIds, input.storeId, firstDayOfMonth);
+
+      if (!input.displayCurrency) {
+        const totalSpent = prices.reduce((sum, p) => sum + Number(p.price), 0);
+        const itemCount = prices.length;
+        const avgPerItem = itemCount > 0 ? totalSpent / itemCount : 0;
+        const thisMonthSpent = monthlyPrices.reduce((sum, p) => sum + Number(p.price), 0);
+
+        return { totalSpent, avgPerItem, thisMonthSpent, itemCount };
+      }
+
+      // Prices without a rate are left out of the sums and counted instead
+      const converter = await loadCurrencyConverter(ctx.db, input.displayCurrency, prices.map((p) => p.currency));
+      const amounts = (rows: Price[]) =>
+        rows.map((p) => converter.convert(Number(p.price), p.currency, priceDate(p))).filter((a): a is number => a !== null);
+      const converted = amounts(prices);
+      const totalSpent = round2(converted.reduce((sum, a) => sum + a, 0));
+
+      return {
+        totalSpent,
+        avgPerItem: converted.length > 0 ? round2(totalSpent / converted.length) : 0,
+        thisMonthSpent: round2(amounts(monthlyPrices).reduce((sum, a) => sum + a, 0)),
+        itemCount: prices.length,
+        currency: input.displayCurrency,
+        unconvertedCount: prices.length - converted.length,
+      };
     }),
 });
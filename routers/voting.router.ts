@@ -1,6 +1,24 @@
 import { z } from "zod";
 import { router, publicProcedure, protectedProcedure, TRPCError } from "../trpc";
-import { supabase, type Discussion } from "../supabase";
+import type { Repository } from "../repositories/types";
+import { assertOwnerOrModerator, requireVisibleTarget } from "../moderation/targets";
+import { postDiscussion } from "../discussions/posting";
+import { loadThread, loadThreads } from "../discussions/threads";
+
+const threadOptions = {
+  sort: z.enum(["newest", "top"]).default("newest"),
+  // Levels of replies nested under each discussion
+  depth: z.number().int().min(0).max(10).default(3),
+};
+
+// Deleted discussions are gone; hidden ones can still be deleted
+async function requireDiscussion(db: Repository, discussionId: string) {
+  const discussion = await db.discussions.getById(discussionId);
+  if (!discussion || discussion.is_deleted) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Discussion not found" });
+  }
+  return discussion;
+}
 
 export const votingRouter = router({
   getCounts: publicProcedure
@@ -8,32 +26,8 @@ export const votingRouter = router({
       targetType: z.enum(['product', 'price', 'discussion', 'store']),
       targetId: z.string().uuid(),
     }))
-    .query(async ({ input }) => {
-      const db = supabase;
-      if (!db) return { upvotes: 0, downvotes: 0 };
-      
-      const { data, error } = await db.rpc('get_vote_counts', {
-        p_target_type: input.targetType,
-        p_target_id: input.targetId,
-      });
-      
-      if (error) {
-        // Fallback if RPC fails
-        const { data: votes } = await db
-          .from('votes')
-          .select('vote_type')
-          .eq('target_type', input.targetType)
-          .eq('target_id', input.targetId);
-          
-        const upvotes = votes?.filter(v => v.vote_type === 'up').length || 0;
-        const downvotes = votes?.filter(v => v.vote_type === 'down').length || 0;
-        return { upvotes, downvotes };
-      }
-      
-      return {
-        upvotes: Number(data[0]?.upvotes || 0),
-        downvotes: Number(data[0]?.downvotes || 0),
-      };
+    .query(async ({ input, ctx }) => {
+      return await ctx.db.votes.counts(input.targetType, input.targetId);
     }),
 
   getUserVote: protectedProcedure
@@ -42,18 +36,7 @@ export const votingRouter = router({
       targetId: z.string().uuid(),
     }))
     .query(async ({ input, ctx }) => {
-      const db = supabase;
-      if (!db) return null;
-      
-      const { data } = await db
-        .from('votes')
-        .select('vote_type')
-        .eq('user_id', ctx.user.userId)
-        .eq('target_type', input.targetType)
-        .eq('target_id', input.targetId)
-        .maybeSingle();
-        
-      return data?.vote_type || null;
+      return await ctx.db.votes.getUserVote(ctx.user.userId, input.targetType, input.targetId);
     }),
 
   submit: protectedProcedure
@@ -63,20 +46,11 @@ export const votingRouter = router({
       voteType: z.enum(['up', 'down']),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { error } = await supabase
-        .from('votes')
-        .upsert({
-          user_id: ctx.user.userId,
-          target_type: input.targetType,
-          target_id: input.targetId,
-          vote_type: input.voteType,
-        }, { 
-          onConflict: 'user_id,target_type,target_id' 
-        });
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      // Hidden content takes no votes
+      if (input.targetType !== "product") {
+        await requireVisibleTarget(ctx.db, input.targetType, input.targetId, ctx.user.userId);
+      }
+      await ctx.db.votes.upsert(ctx.user.userId, input.targetType, input.targetId, input.voteType);
       return { success: true };
     }),
 
@@ -86,78 +60,94 @@ export const votingRouter = router({
       targetId: z.string().uuid(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { error } = await supabase
-        .from('votes')
-        .delete()
-        .eq('user_id', ctx.user.userId)
-        .eq('target_type', input.targetType)
-        .eq('target_id', input.targetId);
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
+      await ctx.db.votes.remove(ctx.user.userId, input.targetType, input.targetId);
       return { success: true };
     }),
 
-  // Discussions
+  // Discussions: pages of top-level threads with their replies nested up to `depth`
   discussionList: publicProcedure
     .input(z.object({
       targetType: z.enum(['product', 'price', 'store']),
       targetId: z.string().uuid(),
       page: z.number().default(1),
       pageSize: z.number().default(10),
+      ...threadOptions,
     }))
-    .query(async ({ input }) => {
-      if (!supabase) return { discussions: [], totalCount: 0, totalPages: 0, currentPage: 1, hasMore: false };
-      
+    .query(async ({ input, ctx }) => {
+      // Discussions on a price or store go with it
+      if (input.targetType !== "product") {
+        await requireVisibleTarget(ctx.db, input.targetType, input.targetId, ctx.user?.userId ?? null);
+      }
       const from = (input.page - 1) * input.pageSize;
-      const to = from + input.pageSize - 1;
-      
-      const { data, count, error } = await supabase
-        .from('discussions')
-        .select('*', { count: 'exact' })
-        .eq('target_type', input.targetType)
-        .eq('target_id', input.targetId)
-        .order('created_at', { ascending: false })
-        .range(from, to);
-        
-      if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      
-      const totalCount = count || 0;
-      const totalPages = Math.ceil(totalCount / input.pageSize);
-      
+      const { rows, count } = await loadThreads(ctx.db, input.targetType, input.targetId, input, {
+        offset: from,
+        limit: input.pageSize,
+      });
+      const totalPages = Math.ceil(count / input.pageSize);
+
       return {
-        discussions: data as Discussion[],
-        totalCount,
+        discussions: rows,
+        totalCount: count,
         totalPages,
         currentPage: input.page,
         hasMore: input.page < totalPages,
       };
     }),
 
+  // The replies below one discussion, e.g. past the depth discussionList stopped at
+  discussionThread: publicProcedure
+    .input(z.object({
+      discussionId: z.string().uuid(),
+      ...threadOptions,
+    }))
+    .query(async ({ input, ctx }) => {
+      const discussion = await ctx.db.discussions.getById(input.discussionId);
+      if (discussion && discussion.target_type !== "product") {
+        await requireVisibleTarget(ctx.db, discussion.target_type, discussion.target_id, ctx.user?.userId ?? null);
+      }
+      const thread = discussion && (await loadThread(ctx.db, discussion, input));
+      if (!thread) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Discussion not found" });
+      }
+      return thread;
+    }),
+
   discussionCreate: protectedProcedure
     .input(z.object({
       targetType: z.enum(['product', 'price', 'store']),
       targetId: z.string().uuid(),
-      content: z.string().min(1).max(2000),
+      content: z.string().trim().min(1).max(2000),
       parentId: z.string().uuid().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
-      if (!supabase) throw new TRPCError({ code: "PRECONDITION_FAILED", message: "Database not configured" });
-      
-      const { data, error } = await supabase
-        .from('discussions')
-        .insert({
-          user_id: ctx.user.userId,
-          target_type: input.targetType,
-          target_id: input.targetId,
-          content: input.content,
-          parent_id: input.parentId || null,
-        })
-        .select()
-        .single();
-        
-        if (error) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: error.message });
-      return data as Discussion;
+      return await postDiscussion(ctx.db, ctx.user.userId, input);
+    }),
+
+  // Only the author can change what they wrote
+  discussionUpdate: protectedProcedure
+    .input(z.object({
+      discussionId: z.string().uuid(),
+      content: z.string().trim().min(1).max(2000),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const discussion = await requireDiscussion(ctx.db, input.discussionId);
+      if (discussion.is_hidden) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Discussion not found" });
+      }
+      if (discussion.user_id !== ctx.user.userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only edit your own discussions" });
+      }
+      return await ctx.db.discussions.updateContent(discussion.id, input.content);
+    }),
+
+  // Replies stay where they are, under a tombstone
+  discussionDelete: protectedProcedure
+    .input(z.object({ discussionId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      const discussion = await requireDiscussion(ctx.db, input.discussionId);
+      assertOwnerOrModerator(ctx.user, discussion.user_id, "You can only delete your own discussions");
+      await ctx.db.discussions.markDeleted(discussion.id);
+      console.log(`🗑️ Discussion ${discussion.id} deleted by ${ctx.user.userId}`);
+      return { success: true };
     }),
 });
@@ -5,6 +5,9 @@ dotenv.config(); // Ensure env vars are loaded first thing
 import { appRouter } from "../routers";
 import { TRPCContext } from "../trpc";
 import { supabase } from "../supabase";
+import { createSupabaseRepository } from "../repositories";
+import { createReceiptParser } from "../parsers";
+import { createReceiptJobQueue } from "../jobs/receipt-queue";
 
 
 import * as fs from 'fs';
@@ -28,8 +31,13 @@ async function verify() {
   }
   log("✅ Supabase client initialized");
 
+  const db = createSupabaseRepository(supabase);
+  const receiptParser = createReceiptParser();
   const ctx: TRPCContext = {
-    user: { userId: "test-user-id", role: "user" }
+    user: { userId: "test-user-id", role: "user" },
+    db,
+    receiptParser,
+    receiptJobs: createReceiptJobQueue({ db, parser: receiptParser }),
   };
 
   const caller = appRouter.createCaller(ctx);
@@ -9,6 +9,11 @@ import * as dotenv from "dotenv";
 import path from "path";
 
 import { supabase } from "./supabase";
+import { createRepository, type Repository } from "./repositories";
+import { createReceiptParser, type ReceiptParserChain } from "./parsers";
+import { createReceiptJobQueue, type ReceiptJobQueue } from "./jobs/receipt-queue";
+import { loadExchangeRatesFile } from "./currency/rates-file";
+import { createNotificationChannels, createNotificationDispatcher } from "./notifications";
 import { appRouter, type AppRouter } from "./routers";
 
 dotenv.config();
@@ -37,6 +42,27 @@ console.log("🔧 Server configuration:");
 console.log("- PORT:", CONFIG.PORT);
 console.log("- Supabase:", supabase ? "✅ Connected" : "⚠️ Not configured");
 
+const repository = createRepository();
+console.log("- Data store:", repository.kind);
+
+const receiptParser = createReceiptParser();
+console.log("- Receipt parsers:", receiptParser.providers.join(" → ") || "⚠️ None configured");
+
+const receiptJobs = createReceiptJobQueue({
+  db: repository,
+  parser: receiptParser,
+  pollIntervalMs: Number(process.env.RECEIPT_JOB_POLL_MS || 2000),
+});
+
+const notificationChannels = createNotificationChannels();
+console.log("- Notification channels:", notificationChannels.map((c) => c.name).join(", "));
+
+const notifications = createNotificationDispatcher({
+  db: repository,
+  channels: notificationChannels,
+  pollIntervalMs: Number(process.env.NOTIFICATION_POLL_MS || 30000),
+});
+
 async function createServer() {
   const server = Fastify({
     bodyLimit: CONFIG.BODY_LIMIT,
@@ -85,7 +111,12 @@ async function createServer() {
   return server;
 }
 
-function createAuthContext(server: any) {
+function createAuthContext(
+  server: any,
+  db: Repository,
+  receiptParser: ReceiptParserChain,
+  receiptJobs: ReceiptJobQueue
+) {
   return async ({ req }: { req: FastifyRequest }) => {
     let user: { userId: string; role?: string } | null = null;
 
@@ -121,7 +152,7 @@ function createAuthContext(server: any) {
       }
     }
 
-    return { user };
+    return { user, db, receiptParser, receiptJobs };
   };
 }
 
@@ -131,7 +162,7 @@ async function setupRoutes(server: any) {
     prefix: "/trpc",
     trpcOptions: {
       router: appRouter,
-      createContext: createAuthContext(server),
+      createContext: createAuthContext(server, repository, receiptParser, receiptJobs),
     },
   });
 
@@ -139,6 +170,7 @@ async function setupRoutes(server: any) {
   server.get("/health", async () => ({
     status: "ok",
     supabase: !!supabase,
+    dataStore: repository.kind,
     timestamp: new Date().toISOString(),
   }));
 
@@ -200,6 +232,21 @@ async function start() {
   await server.listen({ port: CONFIG.PORT, host: "0.0.0.0" });
   console.log(`✅ Server started on port ${CONFIG.PORT}`);
 
+  await receiptJobs.start();
+  console.log("✅ Receipt job worker started");
+
+  notifications.start();
+  console.log("✅ Notification dispatcher started");
+
+  if (process.env.EXCHANGE_RATES_FILE) {
+    try {
+      const count = await loadExchangeRatesFile(repository, process.env.EXCHANGE_RATES_FILE);
+      console.log(`✅ Loaded ${count} exchange rates from ${process.env.EXCHANGE_RATES_FILE}`);
+    } catch (error: any) {
+      console.error("❌ Exchange rates file failed to load:", error.message);
+    }
+  }
+
   await setupNgrokTunnel();
 }
 
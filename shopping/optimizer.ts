@@ -0,0 +1,202 @@
+import type { Price, Store } from "../supabase";
+import { priceDate, type CurrencyConverter } from "../currency/exchange";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stores beyond this many (by coverage, then distance) are not tried in multi-store plans */
+export const MAX_CANDIDATE_STORES = 25;
+
+export interface OptimizerItem {
+  productId: string;
+  name: string;
+  quantity: number;
+}
+
+export interface NearbyStore {
+  store: Store;
+  distanceKm: number;
+}
+
+export interface PlanLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  priceId: string;
+  /** One package, in the result currency */
+  packagePrice: number;
+  lineTotal: number;
+  /** Currency the price was recorded in */
+  currency: string;
+  observedAt: string;
+  ageDays: number;
+}
+
+export interface StorePlan {
+  storeId: string;
+  storeName: string;
+  distanceKm: number;
+  subtotal: number;
+  items: PlanLine[];
+}
+
+export interface ShoppingPlan {
+  stores: StorePlan[];
+  total: number;
+  /** Items with a known price somewhere nearby, but not at the stores in this plan */
+  missing: OptimizerItem[];
+}
+
+export interface OptimizeResult {
+  /** Null when prices are compared as recorded, without conversion */
+  currency: string | null;
+  singleStore: ShoppingPlan | null;
+  split: ShoppingPlan | null;
+  /** singleStore.total - split.total, when both plans cover the same items */
+  savings: number | null;
+  /** Items with no usable price at any nearby store */
+  unknownItems: OptimizerItem[];
+  storesConsidered: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Every combination of `size` entries, in order
+function* combinations<T>(entries: T[], size: number, start = 0, picked: T[] = []): Generator<T[]> {
+  if (picked.length === size) {
+    yield picked;
+    return;
+  }
+  for (let i = start; i <= entries.length - (size - picked.length); i++) {
+    yield* combinations(entries, size, i + 1, [...picked, entries[i]]);
+  }
+}
+
+/**
+ * Cheapest way to buy a list at nearby stores, from the latest price of each
+ * product at each store. `prices` should hold one row per (product, store).
+ *
+ * Plans prefer covering more items, then a lower total, then fewer and closer stores.
+ * The split plan tries every combination of up to `maxStores` stores and buys
+ * each item where it is cheapest within the combination.
+ */
+export function optimizeShoppingList(options: {
+  items: OptimizerItem[];
+  stores: NearbyStore[];
+  prices: Price[];
+  maxStores: number;
+  converter?: CurrencyConverter | null;
+  now?: Date;
+}): OptimizeResult {
+  const { items, converter } = options;
+  const now = (options.now || new Date()).getTime();
+
+  // storeId -> productId -> line for the full list quantity
+  const offers = new Map<string, Map<string, PlanLine>>();
+  for (const price of options.prices) {
+    const item = items.find((i) => i.productId === price.product_id);
+    if (!item) continue;
+    const observedAt = priceDate(price);
+    // A price row may cover several packages bought together
+    const perPackage = Number(price.price) / Math.max(Number(price.quantity) || 1, 1);
+    const packagePrice = converter ? converter.convert(perPackage, price.currency, observedAt) : perPackage;
+    if (packagePrice === null) continue;
+
+    const byProduct = offers.get(price.store_id) || new Map<string, PlanLine>();
+    byProduct.set(item.productId, {
+      productId: item.productId,
+      name: item.name,
+      quantity: item.quantity,
+      priceId: price.id,
+      packagePrice: round2(packagePrice),
+      lineTotal: round2(packagePrice * item.quantity),
+      currency: price.currency,
+      observedAt,
+      ageDays: Math.max(0, Math.floor((now - new Date(observedAt).getTime()) / DAY_MS)),
+    });
+    offers.set(price.store_id, byProduct);
+  }
+
+  const candidates = options.stores
+    .filter(({ store }) => offers.has(store.id))
+    .sort((a, b) => offers.get(b.store.id)!.size - offers.get(a.store.id)!.size || a.distanceKm - b.distanceKm)
+    .slice(0, MAX_CANDIDATE_STORES);
+
+  const known = new Set(candidates.flatMap(({ store }) => [...offers.get(store.id)!.keys()]));
+  const unknownItems = items.filter((i) => !known.has(i.productId));
+
+  const plan = (stores: NearbyStore[]): ShoppingPlan => {
+    const lines = new Map<string, { line: PlanLine; store: NearbyStore }>();
+    for (const entry of stores) {
+      for (const line of offers.get(entry.store.id)!.values()) {
+        const best = lines.get(line.productId);
+        if (!best || line.lineTotal < best.line.lineTotal) lines.set(line.productId, { line, store: entry });
+      }
+    }
+    const storePlans: StorePlan[] = stores
+      .map(({ store, distanceKm }) => {
+        const storeLines = items
+          .map((i) => lines.get(i.productId))
+          .filter((l) => l && l.store.store.id === store.id)
+          .map((l) => l!.line);
+        return {
+          storeId: store.id,
+          storeName: store.name,
+          distanceKm: round2(distanceKm),
+          subtotal: round2(storeLines.reduce((sum, l) => sum + l.lineTotal, 0)),
+          items: storeLines,
+        };
+      })
+      .filter((s) => s.items.length > 0);
+    return {
+      stores: storePlans,
+      total: round2(storePlans.reduce((sum, s) => sum + s.subtotal, 0)),
+      missing: items.filter((i) => known.has(i.productId) && !lines.has(i.productId)),
+    };
+  };
+
+  const covered = (p: ShoppingPlan) => p.stores.reduce((sum, s) => sum + s.items.length, 0);
+  const travel = (p: ShoppingPlan) => p.stores.reduce((sum, s) => sum + s.distanceKm, 0);
+  const better = (a: ShoppingPlan, b: ShoppingPlan | null) =>
+    !b ||
+    covered(a) > covered(b) ||
+    (covered(a) === covered(b) &&
+      (a.total < b.total ||
+        (a.total === b.total &&
+          (a.stores.length < b.stores.length || (a.stores.length === b.stores.length && travel(a) < travel(b))))));
+
+  let singleStore: ShoppingPlan | null = null;
+  for (const entry of candidates) {
+    const candidate = plan([entry]);
+    if (better(candidate, singleStore)) singleStore = candidate;
+  }
+
+  let split: ShoppingPlan | null = singleStore;
+  for (let size = 2; size <= Math.min(options.maxStores, candidates.length); size++) {
+    for (const stores of combinations(candidates, size)) {
+      const candidate = plan(stores);
+      // A store that wins no item makes the combination a smaller one already tried
+      if (candidate.stores.length < size) continue;
+      if (better(candidate, split)) split = candidate;
+    }
+  }
+
+  return {
+    currency: converter ? converter.displayCurrency : null,
+    singleStore,
+    split,
+    savings:
+      singleStore && split && covered(singleStore) === covered(split) ? round2(singleStore.total - split.total) : null,
+    unknownItems,
+    storesConsidered: candidates.length,
+  };
+}
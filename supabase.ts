@@ -1,5 +1,6 @@
 import { createClient } from "@supabase/supabase-js";
 import * as dotenv from "dotenv";
+import type { ParsedReceipt } from "./parsers/types";
 
 dotenv.config();
 
@@ -28,6 +29,29 @@ export interface Product {
   name: string;
   category: string | null;
   image_url: string | null;
+  alternative_name?: string | null;
+  created_at: string;
+}
+
+// Audit row for a duplicate product folded into another
+export interface ProductMerge {
+  id: string;
+  source_product_id: string;
+  target_product_id: string;
+  /** The removed product as it was */
+  source_product: Product;
+  /** Rows re-pointed to the target, per table */
+  moved: {
+    prices: number;
+    bookmarks: number;
+    price_alerts: number;
+    votes: number;
+    discussions: number;
+    drafts: number;
+    /** Missing on merges made before migration 033 */
+    shopping_list_items?: number;
+  };
+  merged_by: string;
   created_at: string;
 }
 
@@ -37,6 +61,8 @@ export interface Store {
   address: string | null;
   latitude: number;
   longitude: number;
+  is_deleted?: boolean;
+  created_by?: string | null;
   created_at: string;
 }
 
@@ -48,16 +74,29 @@ export interface Price {
   price: number;
   quantity: number;
   weight: string | null;
-  unit_price: number | null;
+  unit_price: number | null; // Per 100 g / 100 ml / item, see canonical_unit
+  /** Size of one package in canonical_unit, parsed from weight */
+  canonical_quantity: number | null;
+  canonical_unit: "g" | "ml" | "each" | null;
   original_price: number | null;
   tags: string[] | null;
   currency: string;
   receipt_image_path: string | null;
   receipt_id: string | null;
   purchase_time: string | null;
+  /** Shown to everyone; unpublished prices are only shown to their owner */
+  published?: boolean;
+  /** pending: held back as suspicious until a reviewer confirms or rejects it; null when never flagged */
+  review_status: "pending" | "confirmed" | "rejected" | null;
+  /** Why the anomaly detector flagged it */
+  review_reasons: AnomalyReason[] | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
   detected_at: string;
 }
 
+export type AnomalyReason = "far_from_market" | "far_from_own_history" | "contributor_record";
+
 export interface PriceWithDetails extends Price {
   products?: Product;
   stores?: Store;
@@ -73,6 +112,64 @@ export interface Receipt {
   receipt_time: string | null;
   currency: string;
   image_path: string | null;
+  status: "complete" | "draft";
+  items_snapshot: ReceiptSnapshotItem[] | null;
+  /** Bumped by every draft edit, for optimistic concurrency (migration 026) */
+  draft_version: number;
+  /** Set by saves that carry an idempotency key (migration 027) */
+  idempotency_key?: string | null;
+  idempotency_hash?: string | null;
+  /** Drafts: publish their prices on completion; null follows the sharing preference then (migration 034) */
+  publish_prices?: boolean | null;
+  is_deleted: boolean;
+  created_at: string;
+}
+
+// Draft receipts keep their line items here until completeDraft writes prices
+export interface ReceiptSnapshotItem {
+  /** Stable id for single-item draft edits (migration 026) */
+  itemId?: string;
+  productId: string;
+  receiptName?: string;
+  price: number;
+  quantity?: number;
+  weight?: string;
+  unitPrice?: number;
+  originalPrice?: number;
+  tags?: string[];
+}
+
+// A complete receipt as it was at one revision (migration 025)
+export interface ReceiptRevisionSnapshot {
+  store_id: string | null;
+  total_price: number | null;
+  store_location: string | null;
+  receipt_date: string | null;
+  receipt_time: string | null;
+  currency: string;
+  items: ReceiptRevisionItem[];
+}
+
+// One line item; priceId is the prices row it was stored as
+export interface ReceiptRevisionItem {
+  priceId: string;
+  productId: string;
+  price: number;
+  quantity: number;
+  weight: string | null;
+  unitPrice: number | null;
+  originalPrice: number | null;
+  tags: string[] | null;
+}
+
+export interface ReceiptRevision {
+  id: string;
+  receipt_id: string;
+  version: number;
+  user_id: string;
+  action: "original" | "update" | "add_item" | "update_item" | "remove_item" | "revert";
+  reverted_to: number | null;
+  snapshot: ReceiptRevisionSnapshot;
   created_at: string;
 }
 
@@ -97,7 +194,15 @@ export interface Discussion {
   target_id: string;
   parent_id: string | null;
   content: string;
+  /** Hidden by a moderator (hidden_by) or by enough reports (hidden_by null); shown to nobody */
+  is_hidden: boolean;
+  hidden_by: string | null;
+  hidden_at: string | null;
+  /** Deleted by its author or a moderator; kept as a tombstone so its replies stay in place */
+  is_deleted: boolean;
+  deleted_at: string | null;
   created_at: string;
+  /** Later than created_at once the author edits it */
   updated_at: string;
 }
 
@@ -107,20 +212,235 @@ export interface Bookmark {
   product_id: string;
   notify_on_price_drop: boolean;
   target_price: number | null;
+  /** Alert rules (migration 021); null turns a rule off */
+  store_ids: string[] | null;
+  near_latitude: number | null;
+  near_longitude: number | null;
+  radius_km: number | null;
+  min_drop_percent: number | null;
+  target_unit_price: number | null;
+  notify_on_sale: boolean;
+  lowest_in_days: number | null;
   created_at: string;
 }
 
 export interface PriceAlert {
   id: string;
   user_id: string;
-  bookmark_id: string;
-  product_id: string;
+  /** Null for budget alerts */
+  bookmark_id: string | null;
+  product_id: string | null;
   price_id: string | null;
-  alert_type: "price_drop" | "target_reached" | "new_price";
+  alert_type:
+    | "price_drop"
+    | "target_reached"
+    | "new_price"
+    | "unit_price_target"
+    | "on_sale"
+    | "lowest_in_days"
+    | "budget_threshold";
+  /** For budget alerts: the budget amount */
   old_price: number | null;
+  /** For budget alerts: spent so far in the period */
   new_price: number | null;
   store_name: string | null;
+  /** Budget alerts only (migration 024) */
+  budget_id?: string | null;
+  period_start?: string | null;
+  threshold_percent?: number | null;
   is_read: boolean;
+  /** When the notification dispatcher picked the alert up; null while waiting */
+  dispatched_at?: string | null;
+  created_at: string;
+}
+
+export interface ReceiptJob {
+  id: string;
+  user_id: string;
+  status: "queued" | "processing" | "parsed" | "failed";
+  image_path: string;
+  provider: string | null;
+  result: ParsedReceipt | null;
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// Which product a user picked for a (normalized) receipt line at a store
+export interface ReceiptItemMatch {
+  id: string;
+  user_id: string;
+  store_id: string;
+  receipt_name: string;
+  product_id: string;
+  times_matched: number;
+  last_matched_at: string;
+}
+
+// Receipt line text confirmed as a product at a store, shared by all users
+export interface ReceiptAbbreviation {
+  id: string;
+  store_id: string;
+  chain: string;
+  receipt_text: string;
+  product_id: string;
+  confirmations: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// 1 base_currency = rate quote_currency on rate_date
+export interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  rate_date: string;
+  source: string | null;
+  created_at: string;
+}
+
+export interface ShoppingList {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShoppingListItem {
+  id: string;
+  list_id: string;
+  product_id: string;
+  quantity: number;
+  note: string | null;
+  checked: boolean;
+  created_at: string;
+}
+
+export interface NotificationPreferences {
+  user_id: string;
+  delivery_mode: "instant" | "digest";
+  /** HH:MM local time the daily digest goes out */
+  digest_time: string;
+  /** IANA zone, e.g. "America/New_York" */
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  last_digest_on: string | null;
+  updated_at: string;
+}
+
+// Defaults for the prices a user records; each price can still be changed on its own
+export interface SharingPreferences {
+  user_id: string;
+  /** Whether new prices are published */
+  publish_prices: boolean;
+  updated_at: string;
+}
+
+// Where a user receives notifications through one channel
+export interface NotificationEndpoint {
+  id: string;
+  user_id: string;
+  channel: "expo" | "webpush" | "email" | "webhook" | "log";
+  address: string;
+  /** Web push keys (p256dh, auth) or the webhook signing secret */
+  config: Record<string, string> | null;
+  enabled: boolean;
+  created_at: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  user_id: string;
+  endpoint_id: string | null;
+  channel: NotificationEndpoint["channel"];
+  kind: "instant" | "digest";
+  alert_ids: string[];
+  status: "pending" | "sent" | "failed";
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at: string;
+}
+
+// Owners manage the household; owners and members share their data with it; viewers only see it
+export interface HouseholdMember {
+  household_id: string;
+  user_id: string;
+  role: "owner" | "member" | "viewer";
+  joined_at: string;
+}
+
+export interface HouseholdInvitation {
+  id: string;
+  household_id: string;
+  code: string;
+  role: "member" | "viewer";
+  invited_by: string;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  name: string;
+  period: "weekly" | "monthly";
+  amount: number;
+  currency: string;
+  /** Null for every category */
+  category: string | null;
+  /** Null for every store */
+  store_id: string | null;
+  /** Percentages of amount that raise an alert, ascending */
+  thresholds: number[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type ModerationTargetType = "discussion" | "price" | "store";
+
+export interface ContentReport {
+  id: string;
+  reporter_id: string;
+  target_type: ModerationTargetType;
+  target_id: string;
+  reason: "spam" | "offensive" | "incorrect" | "duplicate" | "other";
+  details: string | null;
+  /** resolved: the content was hidden; dismissed: it was found fine */
+  status: "open" | "resolved" | "dismissed";
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface ModerationAction {
+  id: string;
+  moderator_id: string;
+  target_type: ModerationTargetType;
+  target_id: string;
+  action: "hide" | "restore" | "dismiss";
+  note: string | null;
+  /** Price hides: how the price was before, for restore (migration 035) */
+  previous_state?: HiddenPriceState | null;
   created_at: string;
 }
 
+export type HiddenPriceState = Pick<Price, "published" | "review_status" | "review_reasons">;
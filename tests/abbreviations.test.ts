@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MISSING_ID, createTestContext, seedCatalog } from "./helpers";
+
+async function seedDictionary() {
+  const context = createTestContext();
+  const { milk, bread, walmart, traderJoes } = await seedCatalog(context.caller);
+  await context.caller.receipts.bulkSave({
+    storeId: walmart.id,
+    items: [
+      { productId: milk.id, receiptName: "GV MLK", price: 3.49 },
+      { productId: bread.id, receiptName: "WHT BRD", price: 2.5 },
+    ],
+  });
+  await context.other.receipts.bulkSave({
+    storeId: walmart.id,
+    items: [{ productId: milk.id, receiptName: "gv mlk", price: 3.29 }],
+  });
+  await context.other.receipts.bulkSave({
+    storeId: traderJoes.id,
+    items: [{ productId: bread.id, receiptName: "TJ BRD", price: 2.99 }],
+  });
+  return { ...context, milk, bread, walmart, traderJoes };
+}
+
+describe("abbreviations", () => {
+  it("list filters by store, chain and text, most confirmed first", async () => {
+    const { caller, milk, walmart, traderJoes } = await seedDictionary();
+
+    const all = await caller.abbreviations.list({});
+    assert.deepEqual(all.map((a) => [a.receipt_text, a.confirmations]), [["gv mlk", 2], ["tj brd", 1], ["wht brd", 1]]);
+    assert.equal(all[0].products?.id, milk.id);
+    assert.equal(all[0].stores?.id, walmart.id);
+
+    assert.deepEqual((await caller.abbreviations.list({ chain: "Walmart Supercenter" })).map((a) => a.receipt_text), ["gv mlk", "wht brd"]);
+    assert.deepEqual((await caller.abbreviations.list({ storeId: traderJoes.id })).map((a) => a.receipt_text), ["tj brd"]);
+    assert.deepEqual((await caller.abbreviations.list({ query: "BRD" })).map((a) => a.receipt_text), ["tj brd", "wht brd"]);
+  });
+
+  it("update normalizes the text and re-points the product", async () => {
+    const { caller, tables, milk } = await seedDictionary();
+    const entry = tables.receipt_abbreviations.find((a) => a.receipt_text === "wht brd")!;
+
+    const updated = await caller.abbreviations.update({ id: entry.id, receiptText: "WHT  BRD 20oz", productId: milk.id });
+    assert.equal(updated.receipt_text, "wht brd 20oz");
+    assert.equal(updated.product_id, milk.id);
+
+    // Same store, text and product as the "gv mlk" entry
+    await assert.rejects(
+      caller.abbreviations.update({ id: entry.id, receiptText: "gv mlk" }),
+      { code: "CONFLICT" }
+    );
+    await assert.rejects(
+      caller.abbreviations.update({ id: entry.id, productId: MISSING_ID }),
+      { code: "NOT_FOUND", message: "Product not found" }
+    );
+    assert.equal(tables.receipt_abbreviations.find((a) => a.id === entry.id)?.product_id, milk.id);
+  });
+
+  it("only the shopper who added an entry can change or delete it", async () => {
+    const { caller, other, tables } = await seedDictionary();
+    const entry = tables.receipt_abbreviations.find((a) => a.receipt_text === "wht brd")!;
+
+    await assert.rejects(other.abbreviations.update({ id: entry.id, receiptText: "x" }), { code: "FORBIDDEN" });
+    await assert.rejects(other.abbreviations.delete({ id: entry.id }), { code: "FORBIDDEN" });
+    await assert.rejects(caller.abbreviations.delete({ id: MISSING_ID }), { code: "NOT_FOUND" });
+
+    assert.deepEqual(await caller.abbreviations.delete({ id: entry.id }), { success: true });
+    assert.equal(tables.receipt_abbreviations.some((a) => a.id === entry.id), false);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, USER_ID } from "./helpers";
+
+// Two complete receipts, plus a draft, a deleted receipt and a loose price that must not count
+async function setupPurchases() {
+  const context = createTestContext();
+  const { caller, other } = context;
+  const catalog = await seedCatalog(caller);
+  const { milk, bread, walmart, traderJoes } = catalog;
+
+  await caller.receipts.bulkSave({
+    storeId: walmart.id,
+    receiptDate: "2024-04-10",
+    items: [
+      { productId: milk.id, price: 4 },
+      { productId: bread.id, price: 2, originalPrice: 3, tags: ["sale"] },
+    ],
+  });
+  await caller.receipts.bulkSave({
+    storeId: traderJoes.id,
+    receiptDate: "2024-05-02",
+    items: [
+      { productId: milk.id, price: 7, quantity: 2, originalPrice: 8, tags: ["CLEARANCE"] },
+      { productId: bread.id, price: 2.5 },
+    ],
+  });
+
+  await caller.receipts.bulkSave({
+    storeId: walmart.id,
+    receiptDate: "2024-05-03",
+    status: "draft",
+    items: [{ productId: milk.id, price: 100 }],
+  });
+  const deleted = await caller.receipts.bulkSave({
+    storeId: walmart.id,
+    receiptDate: "2024-05-03",
+    items: [{ productId: milk.id, price: 50 }],
+  });
+  await caller.receipts.softDelete({ receiptId: deleted.receiptId });
+  await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 9 });
+  await other.receipts.bulkSave({ storeId: walmart.id, receiptDate: "2024-05-01", items: [{ productId: milk.id, price: 30 }] });
+
+  return { ...context, ...catalog };
+}
+
+describe("analytics", () => {
+  it("breaks spending down by month, store, category and tag", async () => {
+    const { caller, walmart, traderJoes } = await setupPurchases();
+
+    assert.deepEqual(await caller.analytics.summary({}), {
+      currency: "USD",
+      unconvertedCount: 0,
+      spent: 15.5,
+      saved: 2,
+      itemCount: 4,
+      receiptCount: 2,
+    });
+
+    const { months } = await caller.analytics.byMonth({});
+    assert.deepEqual(months.map((m) => [m.month, m.spent, m.saved, m.receiptCount]), [
+      ["2024-04", 6, 1, 1],
+      ["2024-05", 9.5, 1, 1],
+    ]);
+    assert.deepEqual((await caller.analytics.byMonth({ from: "2024-05-01" })).months.map((m) => m.month), ["2024-05"]);
+    await assert.rejects(caller.analytics.byMonth({ from: "2024-05-01", until: "2024-04-01" }), { code: "BAD_REQUEST" });
+
+    const { stores } = await caller.analytics.byStore({});
+    assert.deepEqual(stores.map((s) => [s.storeId, s.storeName, s.spent, s.share]), [
+      [traderJoes.id, "Trader Joes", 9.5, 61.3],
+      [walmart.id, "Walmart Supercenter", 6, 38.7],
+    ]);
+
+    const { categories } = await caller.analytics.byCategory({});
+    assert.deepEqual(categories.map((c) => [c.category, c.spent, c.itemCount]), [
+      ["Dairy", 11, 2],
+      ["Bakery", 4.5, 2],
+    ]);
+
+    const tags = await caller.analytics.byTag({});
+    assert.equal(tags.totalSaved, 2);
+    assert.deepEqual(tags.tags.map((t) => [t.tag, t.spent, t.saved]), [
+      ["CLEARANCE", 7, 1],
+      ["SALE", 2, 1],
+    ]);
+
+    // stores.stats follows the same rules: no draft, deleted receipt or loose price
+    assert.equal((await caller.stores.stats({ storeId: walmart.id })).totalSpent, 6);
+  });
+
+  it("ranks top products and compares baskets month over month", async () => {
+    const { caller, milk, bread } = await setupPurchases();
+
+    const bySpend = await caller.analytics.topProducts({});
+    assert.deepEqual(bySpend.products.map((p) => [p.productId, p.spent, p.quantity, p.averagePrice]), [
+      [milk.id, 11, 3, 3.67],
+      [bread.id, 4.5, 2, 2.25],
+    ]);
+    assert.equal((await caller.analytics.topProducts({ limit: 1, sortBy: "quantity" })).products.length, 1);
+
+    const baskets = await caller.analytics.basketTrends({});
+    assert.deepEqual(baskets.months.map((m) => [m.month, m.basketCount, m.averageItems, m.averageSpent]), [
+      ["2024-04", 1, 2, 6],
+      ["2024-05", 1, 3, 9.5],
+    ]);
+
+    const comparison = await caller.analytics.monthOverMonth({ month: "2024-05" });
+    assert.equal(comparison.previousMonth, "2024-04");
+    assert.deepEqual([comparison.current.spent, comparison.previous.spent], [9.5, 6]);
+    assert.deepEqual([comparison.change, comparison.changePercent], [3.5, 58.3]);
+    assert.deepEqual(comparison.categories.map((c) => [c.category, c.spent, c.previousSpent, c.change]), [
+      ["Dairy", 7, 4, 3],
+      ["Bakery", 2.5, 2, 0.5],
+    ]);
+
+    const empty = await caller.analytics.monthOverMonth({ month: "2024-01" });
+    assert.deepEqual([empty.change, empty.changePercent], [0, null]);
+  });
+
+  it("needs a display currency when purchases are in several currencies", async () => {
+    const { caller, as, milk, walmart } = await setupPurchases();
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-20",
+      currency: "EUR",
+      items: [{ productId: milk.id, price: 10 }],
+    });
+    await as(USER_ID, "admin").currency.setRates({ rates: [{ base: "EUR", quote: "USD", rate: 1.1, date: "2024-05-01" }] });
+
+    await assert.rejects(caller.analytics.summary({}), { code: "BAD_REQUEST" });
+    const usd = await caller.analytics.summary({ displayCurrency: "usd" });
+    assert.deepEqual([usd.currency, usd.spent, usd.unconvertedCount], ["USD", 26.5, 0]);
+    const gbp = await caller.analytics.summary({ displayCurrency: "GBP" });
+    assert.deepEqual([gbp.spent, gbp.unconvertedCount], [0, 5]);
+  });
+});
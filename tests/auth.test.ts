@@ -0,0 +1,69 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TRPCError } from "@trpc/server";
+import { createTestContext, callByPath, procedurePaths } from "./helpers";
+
+// Everything not listed here must reject anonymous callers
+const PUBLIC_PROCEDURES = new Set([
+  "products.list",
+  "products.search",
+  "stores.list",
+  "stores.nearby",
+  "stores.getById",
+  "prices.history",
+  "prices.cheapest",
+  "prices.trends",
+  "prices.recent",
+  "rankings.getTop",
+  "voting.getCounts",
+  "voting.discussionList",
+  "voting.discussionThread",
+  "currency.rates",
+  "currency.convert",
+  "productsList",
+  "productsSearch",
+  "storesList",
+  "storesNearby",
+  "storesGetById",
+  "pricesHistory",
+  "pricesCheapest",
+  "pricesRecent",
+  "rankingsGetTop",
+  "voteGetCounts",
+  "discussionList",
+  "health",
+]);
+
+describe("auth", () => {
+  const { anonymous } = createTestContext();
+
+  for (const path of procedurePaths().filter((p) => !PUBLIC_PROCEDURES.has(p))) {
+    it(`${path} rejects anonymous callers`, async () => {
+      await assert.rejects(callByPath(anonymous, path, {}), (err: unknown) => {
+        assert.ok(err instanceof TRPCError);
+        assert.equal(err.code, "UNAUTHORIZED");
+        return true;
+      });
+    });
+  }
+
+  it("every public procedure still exists", () => {
+    const paths = new Set(procedurePaths());
+    for (const path of PUBLIC_PROCEDURES) assert.ok(paths.has(path), `${path} is missing`);
+  });
+
+  it("product merges are limited to moderators", async () => {
+    const { caller } = createTestContext();
+    const keep = await caller.products.create({ name: "Oat Milk" });
+    const dupe = await caller.products.create({ name: "OAT MILK 64OZ" });
+
+    await assert.rejects(caller.products.merge({ sourceId: dupe.id, targetId: keep.id }), { code: "FORBIDDEN" });
+    await assert.rejects(caller.products.merges({ productId: keep.id }), { code: "FORBIDDEN" });
+  });
+
+  it("health reports the data store", async () => {
+    const health = await anonymous.health();
+    assert.equal(health.status, "ok");
+    assert.equal(health.dataStore, "memory");
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, MISSING_ID, seedCatalog } from "./helpers";
+
+describe("bookmarks", () => {
+  it("create upserts one bookmark per product and check finds it", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+
+    await caller.bookmarks.create({ productId: milk.id });
+    const updated = await caller.bookmarks.create({ productId: milk.id, targetPrice: 2.5, notifyOnPriceDrop: false });
+
+    assert.equal(tables.bookmarks.length, 1);
+    assert.equal(updated.target_price, 2.5);
+    assert.equal(updated.notify_on_price_drop, false);
+    assert.equal((await caller.bookmarks.check({ productId: milk.id }))?.id, updated.id);
+  });
+
+  it("list pages bookmarks and computes price stats", async () => {
+    const { caller } = createTestContext();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+    await caller.bookmarks.create({ productId: milk.id });
+    await caller.bookmarks.create({ productId: bread.id });
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 3 });
+    await caller.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 5 });
+
+    const first = await caller.bookmarks.list({ page: 1, pageSize: 1 });
+    assert.equal(first.totalCount, 2);
+    assert.equal(first.totalPages, 2);
+    assert.equal(first.hasMore, true);
+    assert.equal(first.bookmarks[0].product_id, bread.id);
+    assert.deepEqual(
+      { lowest: first.bookmarks[0].priceStats.lowest, average: first.bookmarks[0].priceStats.average },
+      { lowest: null, average: null }
+    );
+
+    const second = await caller.bookmarks.list({ page: 2, pageSize: 1 });
+    const stats = second.bookmarks[0].priceStats;
+    assert.equal(second.hasMore, false);
+    assert.equal(second.bookmarks[0].products?.name, "Milk 1 Gallon");
+    assert.deepEqual([stats.lowest, stats.average, stats.highest], [3, 4, 5]);
+    assert.deepEqual(stats.recentPrices.map((p) => p.price), [5, 3]);
+  });
+
+  it("delete removes the bookmark", async () => {
+    const { caller } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    await caller.bookmarks.create({ productId: milk.id });
+
+    assert.deepEqual(await caller.bookmarks.delete({ productId: milk.id }), { success: true });
+    assert.equal(await caller.bookmarks.check({ productId: milk.id }), null);
+  });
+
+  it("new prices raise price_drop and target_reached alerts", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    await caller.bookmarks.create({ productId: milk.id, targetPrice: 2 });
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 4 });
+    assert.equal((await caller.bookmarks.alertsList({})).totalCount, 0);
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 1.5 });
+    const { alerts, totalCount } = await caller.bookmarks.alertsList({});
+    assert.equal(totalCount, 2);
+    assert.deepEqual(alerts.map((a) => a.alert_type).sort(), ["price_drop", "target_reached"]);
+    assert.equal(alerts[0].store_name, "Walmart Supercenter");
+    assert.equal(alerts[0].old_price, 4);
+
+    // The other user has no bookmark, so no alerts
+    assert.equal((await other.bookmarks.alertsList({})).totalCount, 0);
+  });
+
+  it("alert rules limit alerts to the watched stores and a minimum drop", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    const created = await caller.bookmarks.create({
+      productId: milk.id,
+      rules: { near: { latitude: 40.7128, longitude: -74.006, radiusKm: 2 }, minDropPercent: 10 },
+    });
+    assert.deepEqual([created.radius_km, created.min_drop_percent, created.store_ids], [2, 10, null]);
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 4 });
+    await other.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 3 }); // 5.5 km away
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.8 }); // only 5% off
+    assert.equal((await caller.bookmarks.alertsList({})).totalCount, 0);
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.4 });
+    let { alerts } = await caller.bookmarks.alertsList({});
+    assert.deepEqual(alerts.map((a) => [a.alert_type, a.old_price, a.new_price]), [["price_drop", 3.8, 3.4]]);
+
+    // Switch to one store anywhere; other rules stay unless set
+    const updated = await caller.bookmarks.updateRules({ productId: milk.id, storeIds: [traderJoes.id], near: null });
+    assert.deepEqual([updated.store_ids, updated.radius_km, updated.min_drop_percent], [[traderJoes.id], null, 10]);
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 2.5 });
+    await other.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 2.6 });
+    ({ alerts } = await caller.bookmarks.alertsList({}));
+    assert.deepEqual(alerts.map((a) => [a.alert_type, a.old_price, a.new_price])[0], ["price_drop", 3, 2.6]);
+
+    await assert.rejects(caller.bookmarks.updateRules({ productId: milk.id, storeIds: [MISSING_ID] }), { code: "NOT_FOUND" });
+    await assert.rejects(other.bookmarks.updateRules({ productId: milk.id, minDropPercent: 5 }), { code: "NOT_FOUND" });
+  });
+
+  it("alert rules for sales, unit price targets and the lowest price in N days", async () => {
+    const { caller, other, tables } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    await caller.bookmarks.create({ productId: milk.id });
+    await caller.bookmarks.updateRules({
+      productId: milk.id,
+      minDropPercent: 50,
+      notifyOnSale: true,
+      targetUnitPrice: 0.1,
+      lowestInDays: 30,
+    });
+    const types = async () => (await caller.bookmarks.alertsList({})).alerts.map((a) => [a.alert_type, a.old_price]).sort();
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 4, weight: "1l" });
+    assert.deepEqual(await types(), []);
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.5, weight: "1l", originalPrice: 4 });
+    assert.deepEqual(await types(), [["lowest_in_days", 4], ["on_sale", 4]]);
+
+    // 0.09 per 100 ml, and a 74% drop
+    await other.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 0.9, weight: "1l" });
+    assert.deepEqual(await types(), [
+      ["lowest_in_days", 3.5],
+      ["lowest_in_days", 4],
+      ["on_sale", 4],
+      ["price_drop", 3.5],
+      ["unit_price_target", 3.5],
+    ]);
+
+    // Older prices fall outside the window
+    const longAgo = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+    for (const price of tables.prices) price.detected_at = longAgo;
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 2, weight: "1l" });
+    assert.equal((await types()).length, 5);
+  });
+
+  it("alertsMarkAsRead marks one alert or all of them", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    await caller.bookmarks.create({ productId: milk.id, targetPrice: 10 });
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 5 });
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 4 });
+
+    const { alerts } = await caller.bookmarks.alertsList({ unreadOnly: true });
+    assert.equal(alerts.length, 3);
+
+    await caller.bookmarks.alertsMarkAsRead({ alertId: alerts[0].id });
+    assert.equal((await caller.bookmarks.alertsList({ unreadOnly: true })).totalCount, 2);
+
+    await caller.bookmarks.alertsMarkAsRead({});
+    assert.equal((await caller.bookmarks.alertsList({ unreadOnly: true })).totalCount, 0);
+    assert.equal((await caller.bookmarks.alertsList({})).totalCount, 3);
+  });
+
+  it("legacy flat endpoints behave like the namespaced ones", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+
+    await caller.bookmarkCreate({ productId: milk.id, targetPrice: 3 });
+    assert.ok(await caller.bookmarkCheck({ productId: milk.id }));
+
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 2 });
+    const list = await caller.bookmarksList({ page: 1 });
+    assert.equal(list.totalCount, 1);
+    assert.equal(list.bookmarks[0].priceStats.lowest, 2);
+
+    const { alerts } = await caller.priceAlertsList({ unreadOnly: true });
+    assert.equal(alerts.length, 1);
+    await caller.priceAlertsMarkAsRead({});
+    assert.equal((await caller.priceAlertsList({ unreadOnly: true })).totalCount, 0);
+
+    await caller.bookmarkDelete({ productId: milk.id });
+    assert.equal(await caller.bookmarkCheck({ productId: milk.id }), null);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, MISSING_ID } from "./helpers";
+import { budgetPeriod } from "../budgets/progress";
+import { describeAlert } from "../notifications/message";
+
+// Budgets cover the current period, so receipts are dated today
+const today = () => new Date().toISOString().slice(0, 10);
+
+describe("budgets", () => {
+  it("weeks run Monday to Sunday and months to their last day, in UTC", () => {
+    assert.deepEqual(budgetPeriod("weekly", new Date("2024-05-01T10:00:00Z")), { start: "2024-04-29", end: "2024-05-05" });
+    assert.deepEqual(budgetPeriod("weekly", new Date("2024-05-05T23:59:00Z")), { start: "2024-04-29", end: "2024-05-05" });
+    assert.deepEqual(budgetPeriod("monthly", new Date("2024-02-10T00:00:00Z")), { start: "2024-02-01", end: "2024-02-29" });
+  });
+
+  it("tracks spending overall, per category and per store from complete receipts", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+
+    const overall = await caller.budgets.create({ name: "Groceries", period: "monthly", amount: 20 });
+    const dairy = await caller.budgets.create({ name: "Dairy", period: "weekly", amount: 10, category: "dairy" });
+    const joes = await caller.budgets.create({ name: "Joe's", period: "monthly", amount: 50, storeId: traderJoes.id });
+    assert.deepEqual([overall.spent, overall.status, overall.budget.thresholds], [0, "ok", [80, 100]]);
+
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: today(),
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 6 }],
+    });
+    // Drafts and other users' receipts do not count
+    await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: today(), status: "draft", items: [{ productId: milk.id, price: 100 }] });
+    await other.receipts.bulkSave({ storeId: traderJoes.id, receiptDate: today(), items: [{ productId: milk.id, price: 100 }] });
+
+    const progress = await caller.budgets.list();
+    assert.deepEqual(
+      progress.map((p) => [p.budget.id, p.spent, p.remaining, p.percent, p.status]),
+      [
+        [overall.budget.id, 10, 10, 50, "ok"],
+        [dairy.budget.id, 4, 6, 40, "ok"],
+        [joes.budget.id, 0, 50, 0, "ok"],
+      ]
+    );
+
+    const moved = await caller.budgets.update({ budgetId: joes.budget.id, storeId: walmart.id, amount: 12 });
+    assert.deepEqual([moved.spent, moved.percent, moved.status, moved.reachedThresholds], [10, 83.3, "warning", [80]]);
+  });
+
+  it("raises each threshold alert once per period after receipts are saved or completed", async () => {
+    const { caller } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    const { budget } = await caller.budgets.create({ name: "Groceries", period: "monthly", amount: 10 });
+
+    await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: today(), items: [{ productId: milk.id, price: 8 }] });
+    await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: today(), items: [{ productId: milk.id, price: 1 }] });
+    let { alerts } = await caller.bookmarks.alertsList({});
+    assert.deepEqual(alerts.map((a) => [a.alert_type, a.threshold_percent]), [["budget_threshold", 80]]);
+    assert.equal(describeAlert(alerts[0]), 'Budget "Groceries" is at 80%: spent 8.00 of 10.00');
+
+    const draft = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: today(),
+      status: "draft",
+      items: [{ productId: bread.id, price: 3 }],
+    });
+    assert.equal((await caller.bookmarks.alertsList({})).alerts.length, 1);
+    await caller.receipts.completeDraft({ receiptId: draft.receiptId });
+    await caller.receiptsBulkSave({ storeId: walmart.id, receiptDate: today(), items: [{ productId: milk.id, price: 1 }] });
+
+    ({ alerts } = await caller.bookmarks.alertsList({}));
+    assert.deepEqual(alerts.map((a) => a.threshold_percent).sort(), [100, 80]);
+    assert.ok(alerts.every((a) => a.budget_id === budget.id && a.period_start === budgetPeriod("monthly", new Date()).start));
+    assert.equal((await caller.budgets.get({ budgetId: budget.id })).status, "over");
+  });
+
+  it("keeps budgets private to their owner", async () => {
+    const { caller, other, tables } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+
+    await assert.rejects(caller.budgets.create({ name: "Lost", period: "weekly", amount: 5, storeId: MISSING_ID }), {
+      code: "NOT_FOUND",
+    });
+    const { budget } = await caller.budgets.create({ name: "Weekly", period: "weekly", amount: 5, thresholds: [100, 50, 50] });
+    assert.deepEqual(budget.thresholds, [50, 100]);
+
+    await assert.rejects(other.budgets.get({ budgetId: budget.id }), { code: "NOT_FOUND" });
+    await assert.rejects(other.budgets.update({ budgetId: budget.id, amount: 1 }), { code: "NOT_FOUND" });
+    await assert.rejects(other.budgets.delete({ budgetId: budget.id }), { code: "NOT_FOUND" });
+    assert.deepEqual(await other.budgets.list(), []);
+
+    await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: today(), items: [{ productId: milk.id, price: 3 }] });
+    assert.equal(tables.price_alerts.length, 1);
+    await caller.budgets.delete({ budgetId: budget.id });
+    assert.deepEqual([tables.budgets.length, tables.price_alerts.length], [0, 0]);
+  });
+});
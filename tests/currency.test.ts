@@ -0,0 +1,133 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createCurrencyConverter } from "../currency/exchange";
+import { parseExchangeRates } from "../currency/rates-file";
+import type { ExchangeRate } from "../supabase";
+import { USER_ID, createTestContext, seedCatalog } from "./helpers";
+
+const rate = (base: string, quote: string, value: number, date: string): ExchangeRate => ({
+  id: `${base}${quote}${date}`,
+  base_currency: base,
+  quote_currency: quote,
+  rate: value,
+  rate_date: date,
+  source: null,
+  created_at: date,
+});
+
+const RATES = [
+  { base: "EUR", quote: "USD", rate: 1.1, date: "2024-01-01" },
+  { base: "EUR", quote: "USD", rate: 1.2, date: "2024-06-01" },
+  { base: "USD", quote: "CAD", rate: 1.35, date: "2024-01-01" },
+];
+
+describe("currency", () => {
+  it("converts at the rate in effect on the date, both ways and through a shared currency", () => {
+    const usd = createCurrencyConverter("USD", [
+      rate("EUR", "USD", 1.1, "2024-01-01"),
+      rate("EUR", "USD", 1.2, "2024-06-01"),
+      rate("USD", "CAD", 1.35, "2024-01-01"),
+    ]);
+    assert.equal(usd.convert(10, "EUR", "2024-05-31T23:00:00.000Z"), 11);
+    assert.equal(usd.convert(10, "EUR", "2024-06-15"), 12);
+    // Before the first known rate the earliest one is used
+    assert.equal(usd.convert(10, "EUR", "2023-01-01"), 11);
+    assert.equal(usd.convert(13.5, "CAD", "2024-03-01"), 10);
+    assert.equal(usd.convert(10, "USD", "2024-03-01"), 10);
+    assert.equal(usd.convert(10, "JPY", "2024-03-01"), null);
+
+    const cad = createCurrencyConverter("CAD", [rate("EUR", "USD", 1.2, "2024-06-01"), rate("USD", "CAD", 1.35, "2024-01-01")]);
+    assert.equal(cad.convert(10, "EUR", "2024-07-01"), 16.2);
+  });
+
+  it("reads rate files as JSON rows, JSON by date or CSV", () => {
+    assert.deepEqual(parseExchangeRates(JSON.stringify(RATES)), RATES);
+    assert.deepEqual(
+      parseExchangeRates("date,base,quote,rate\n2024-01-01,eur,usd,1.1\n2024-06-01,EUR,USD,1.2\n2024-01-01,USD,CAD,1.35\n"),
+      RATES
+    );
+    assert.deepEqual(
+      parseExchangeRates(JSON.stringify({ base: "usd", rates: { "2024-01-01": { CAD: 1.35, EUR: 0.9 } } })),
+      [
+        { base: "USD", quote: "CAD", rate: 1.35, date: "2024-01-01" },
+        { base: "USD", quote: "EUR", rate: 0.9, date: "2024-01-01" },
+      ]
+    );
+    assert.throws(() => parseExchangeRates('[{"base":"EUR","quote":"USD","rate":-1,"date":"2024-01-01"}]', "x.json"), /x.json: rate 1/);
+  });
+
+  it("setRates is admin-only and upserts by pair and date", async () => {
+    const { as, caller, tables } = createTestContext();
+    const admin = as(USER_ID, "admin");
+
+    await assert.rejects(caller.currency.setRates({ rates: RATES }), { code: "FORBIDDEN" });
+    assert.deepEqual(await admin.currency.setRates({ rates: RATES }), { saved: 3 });
+    await admin.currency.setRates({ rates: [{ base: "eur", quote: "usd", rate: 1.25, date: "2024-06-01" }] });
+    assert.equal(tables.exchange_rates.length, 3);
+    await assert.rejects(admin.currency.setRates({ rates: [{ base: "USD", quote: "USD", rate: 1, date: "2024-06-01" }] }), {
+      code: "BAD_REQUEST",
+    });
+
+    const eurUsd = await caller.currency.rates({ base: "EUR", quote: "USD" });
+    assert.deepEqual(eurUsd.map((r) => [r.rate_date, r.rate, r.source]), [["2024-06-01", 1.25, "admin"], ["2024-01-01", 1.1, "admin"]]);
+    assert.deepEqual(await caller.currency.convert({ amount: 100, from: "CAD", to: "EUR", date: "2024-02-01" }), {
+      amount: 67.3401,
+      currency: "EUR",
+    });
+    await assert.rejects(caller.currency.convert({ amount: 1, from: "JPY", to: "USD" }), { code: "NOT_FOUND" });
+  });
+
+  it("cheapest, stores.stats and bookmarks.list convert to the display currency", async () => {
+    const { as, caller } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    await as(USER_ID, "admin").currency.setRates({ rates: RATES });
+
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-02-10",
+      currency: "EUR",
+      items: [{ productId: milk.id, price: 3 }],
+    });
+    await caller.receipts.bulkSave({
+      storeId: traderJoes.id,
+      receiptDate: "2024-07-10",
+      items: [{ productId: milk.id, price: 3.4 }],
+    });
+
+    const cheapest = await caller.prices.cheapest({ productId: milk.id, displayCurrency: "usd" });
+    assert.deepEqual(cheapest.map((p) => [p.store_id, p.currency, p.displayPrice, p.displayCurrency]), [
+      [walmart.id, "EUR", 3.3, "USD"],
+      [traderJoes.id, "USD", 3.4, "USD"],
+    ]);
+    // Raw numbers are still compared when no display currency is given
+    assert.deepEqual((await caller.prices.cheapest({ productId: milk.id })).map((p) => p.store_id), [walmart.id, traderJoes.id]);
+    const inEuro = await caller.prices.cheapest({ productId: milk.id, displayCurrency: "EUR" });
+    assert.deepEqual(inEuro.map((p) => p.displayPrice), [2.83, 3]);
+
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-06-02",
+      currency: "EUR",
+      items: [{ productId: milk.id, price: 5 }],
+    });
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-06-03",
+      currency: "JPY",
+      items: [{ productId: milk.id, price: 400 }],
+    });
+    const stats = await caller.stores.stats({ storeId: walmart.id, displayCurrency: "USD" });
+    assert.equal(stats.totalSpent, 9.3);
+    assert.equal(stats.avgPerItem, 4.65);
+    assert.equal(stats.itemCount, 3);
+    assert.equal(stats.currency, "USD");
+    assert.equal(stats.unconvertedCount, 1);
+
+    await caller.bookmarks.create({ productId: milk.id });
+    const [bookmark] = (await caller.bookmarks.list({ displayCurrency: "USD" })).bookmarks;
+    assert.deepEqual(
+      { lowest: bookmark.priceStats.lowest, highest: bookmark.priceStats.highest, currency: bookmark.priceStats.currency },
+      { lowest: 3.3, highest: 6, currency: "USD" }
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { tmpdir } from "os";
+import path from "path";
+import { appRouter } from "../routers";
+import { createMemoryRepository, createMemoryTables } from "../repositories";
+import { createReceiptParserChain, createReplayParser, type ParsedReceipt, type ReceiptParser } from "../parsers";
+import { createReceiptJobQueue } from "../jobs/receipt-queue";
+
+export const USER_ID = "11111111-1111-4111-8111-111111111111";
+export const OTHER_USER_ID = "22222222-2222-4222-8222-222222222222";
+export const MISSING_ID = "99999999-9999-4999-8999-999999999999";
+
+export type Caller = ReturnType<typeof appRouter.createCaller>;
+
+export const SAMPLE_RECEIPT: ParsedReceipt = {
+  store: "Walmart Supercenter",
+  storeLocation: "123 Main St",
+  date: "2024-05-20",
+  time: "14:30",
+  total: 7.48,
+  currency: "USD",
+  items: [
+    { name: "MILK 1GAL", alternativeName: "Milk 1 Gallon", price: 3.49, quantity: 1, category: "Dairy" },
+    { name: "BREAD WHT", alternativeName: "Bread White", price: 3.99, quantity: 1, category: "Bakery", tags: ["SALE"] },
+  ],
+};
+
+/**
+ * Fresh in-memory database plus callers for the default user, another user
+ * and an anonymous client, all sharing the same tables.
+ * Receipt parsing replays SAMPLE_RECEIPT unless other parsers are given.
+ * The job worker is not started; call `receiptJobs.drain()` to run queued jobs.
+ */
+export function createTestContext(options: { parsers?: ReceiptParser[] } = {}) {
+  const tables = createMemoryTables();
+  const db = createMemoryRepository(tables);
+  const receiptParser = createReceiptParserChain(
+    options.parsers ?? [createReplayParser({ fixtures: { default: SAMPLE_RECEIPT } })]
+  );
+  const receiptJobs = createReceiptJobQueue({
+    db,
+    parser: receiptParser,
+    imageDir: path.join(tmpdir(), "flyersync-test-jobs"),
+    pollIntervalMs: 50,
+  });
+  const as = (userId: string | null, role = "user"): Caller =>
+    appRouter.createCaller({ user: userId ? { userId, role } : null, db, receiptParser, receiptJobs });
+
+  return {
+    tables,
+    db,
+    receiptJobs,
+    as,
+    caller: as(USER_ID),
+    other: as(OTHER_USER_ID),
+    anonymous: as(null),
+  };
+}
+
+export async function seedCatalog(caller: Caller) {
+  const milk = await caller.products.create({ name: "Milk 1 Gallon", barcode: "0001", category: "Dairy" });
+  const bread = await caller.products.create({ name: "Bread White", category: "Bakery" });
+  const walmart = await caller.stores.create({ name: "Walmart Supercenter", latitude: 40.7128, longitude: -74.006 });
+  const traderJoes = await caller.stores.create({ name: "Trader Joes", latitude: 40.758, longitude: -73.9855 });
+  return { milk, bread, walmart, traderJoes };
+}
+
+/** Invoke a procedure by its dotted path, e.g. "products.list" */
+export function callByPath(caller: Caller, path: string, input?: unknown): Promise<unknown> {
+  const fn = path.split(".").reduce((node: any, key) => node[key], caller);
+  return fn(input);
+}
+
+export function procedurePaths(): string[] {
+  return Object.keys(appRouter._def.procedures);
+}
@@ -0,0 +1,102 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, MISSING_ID, OTHER_USER_ID, USER_ID } from "./helpers";
+
+const VIEWER_ID = "33333333-3333-4333-8333-333333333333";
+
+// Owner (caller), member (other) and viewer in one household
+async function setupHousehold() {
+  const context = createTestContext();
+  const { caller, other, as } = context;
+  const viewer = as(VIEWER_ID);
+  const household = await caller.households.create({ name: "Home" });
+  const memberInvite = await caller.households.invite({ householdId: household.id });
+  await other.households.acceptInvitation({ code: memberInvite.code });
+  const viewerInvite = await caller.households.invite({ householdId: household.id, role: "viewer" });
+  await viewer.households.acceptInvitation({ code: viewerInvite.code });
+  return { ...context, viewer, household };
+}
+
+describe("households", () => {
+  it("owners invite members and viewers with one-time codes", async () => {
+    const { caller, other, as, tables } = createTestContext();
+    const household = await caller.households.create({ name: " Home " });
+    assert.deepEqual([household.name, household.role], ["Home", "owner"]);
+    await assert.rejects(other.households.get({ householdId: household.id }), { code: "NOT_FOUND" });
+    await assert.rejects(other.households.invite({ householdId: household.id }), { code: "NOT_FOUND" });
+
+    const invite = await caller.households.invite({ householdId: household.id });
+    assert.match(invite.code, /^[0-9A-F]{10}$/);
+    const joined = await other.households.acceptInvitation({ code: invite.code.toLowerCase() });
+    assert.deepEqual([joined.id, joined.role], [household.id, "member"]);
+    await assert.rejects(as(VIEWER_ID).households.acceptInvitation({ code: invite.code }), { code: "BAD_REQUEST" });
+    await assert.rejects(other.households.invite({ householdId: household.id }), { code: "FORBIDDEN" });
+
+    const revoked = await caller.households.invite({ householdId: household.id, role: "viewer" });
+    const expired = await caller.households.invite({ householdId: household.id, role: "viewer" });
+    const open = await caller.households.invite({ householdId: household.id, role: "viewer" });
+    await caller.households.revokeInvitation({ invitationId: revoked.id });
+    tables.household_invitations.find((i) => i.id === expired.id)!.expires_at = "2020-01-01T00:00:00.000Z";
+    await assert.rejects(as(VIEWER_ID).households.acceptInvitation({ code: revoked.code }), { code: "BAD_REQUEST" });
+    await assert.rejects(as(VIEWER_ID).households.acceptInvitation({ code: expired.code }), { code: "BAD_REQUEST" });
+    await assert.rejects(other.households.acceptInvitation({ code: open.code }), { code: "CONFLICT" });
+    await assert.rejects(other.households.acceptInvitation({ code: "NOPE" }), { code: "NOT_FOUND" });
+
+    const asOwner = await caller.households.get({ householdId: household.id });
+    assert.deepEqual(asOwner.members.map((m) => [m.user_id, m.role]), [[USER_ID, "owner"], [OTHER_USER_ID, "member"]]);
+    assert.deepEqual(asOwner.invitations.map((i) => i.id).sort(), [expired.id, open.id].sort());
+    assert.deepEqual((await other.households.get({ householdId: household.id })).invitations, []);
+    assert.deepEqual((await other.households.list()).map((h) => [h.name, h.role]), [["Home", "member"]]);
+  });
+
+  it("household scope covers the sharing members' receipts, bookmarks and spending", async () => {
+    const { caller, other, viewer, as, household } = await setupHousehold();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+    const scope = { householdId: household.id };
+
+    await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: "2024-05-01", items: [{ productId: milk.id, price: 4 }] });
+    await other.receipts.bulkSave({ storeId: walmart.id, receiptDate: "2024-05-02", items: [{ productId: bread.id, price: 6 }] });
+    // Viewers see the household's data but do not add theirs
+    await viewer.receipts.bulkSave({ storeId: traderJoes.id, receiptDate: "2024-05-03", items: [{ productId: milk.id, price: 100 }] });
+    await caller.bookmarks.create({ productId: milk.id });
+    await other.bookmarks.create({ productId: bread.id });
+
+    assert.equal((await caller.receipts.list()).length, 1);
+    assert.deepEqual((await viewer.receipts.list(scope)).map((r) => r.user_id).sort(), [USER_ID, OTHER_USER_ID].sort());
+    const [memberReceipt] = await other.receipts.list();
+    assert.equal(await viewer.receipts.getById({ receiptId: memberReceipt.id }), null);
+    assert.equal((await viewer.receipts.getById({ receiptId: memberReceipt.id, ...scope }))?.prices?.length, 1);
+    assert.deepEqual((await other.stores.visited(scope)).map((s) => s.id), [walmart.id]);
+    assert.equal((await caller.stores.stats({ storeId: walmart.id, ...scope })).totalSpent, 10);
+    assert.equal((await caller.stores.stats({ storeId: walmart.id })).totalSpent, 4);
+
+    const bookmarks = await viewer.bookmarks.list({ ...scope });
+    assert.deepEqual(bookmarks.bookmarks.map((b) => b.user_id).sort(), [USER_ID, OTHER_USER_ID].sort());
+    assert.equal((await viewer.analytics.summary(scope)).spent, 10);
+
+    await assert.rejects(as(MISSING_ID).receipts.list(scope), { code: "NOT_FOUND" });
+    await assert.rejects(as(MISSING_ID).analytics.summary(scope), { code: "NOT_FOUND" });
+  });
+
+  it("keeps an owner and deletes the household when the last member leaves", async () => {
+    const { caller, other, viewer, household } = await setupHousehold();
+    const householdId = household.id;
+
+    await assert.rejects(caller.households.updateMemberRole({ householdId, userId: USER_ID, role: "member" }), {
+      code: "BAD_REQUEST",
+    });
+    await caller.households.updateMemberRole({ householdId, userId: OTHER_USER_ID, role: "owner" });
+    await caller.households.updateMemberRole({ householdId, userId: USER_ID, role: "member" });
+    await assert.rejects(caller.households.rename({ householdId, name: "Ours" }), { code: "FORBIDDEN" });
+    assert.equal((await other.households.rename({ householdId, name: "Ours" })).name, "Ours");
+
+    // The only owner cannot leave while others remain
+    await assert.rejects(other.households.leave({ householdId }), { code: "BAD_REQUEST" });
+    assert.deepEqual(await viewer.households.leave({ householdId }), { success: true, householdDeleted: false });
+    await other.households.removeMember({ householdId, userId: USER_ID });
+    assert.deepEqual(await caller.households.list(), []);
+
+    assert.deepEqual(await other.households.leave({ householdId }), { success: true, householdDeleted: true });
+    assert.deepEqual(await other.households.list(), []);
+  });
+});
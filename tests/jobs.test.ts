@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { tmpdir } from "os";
+import path from "path";
+import { createReceiptJobQueue } from "../jobs/receipt-queue";
+import { createReceiptParserChain, createReplayParser, type ReceiptParser } from "../parsers";
+import { createTestContext, MISSING_ID, USER_ID, SAMPLE_RECEIPT } from "./helpers";
+
+const IMAGE = "aW1hZ2U=";
+
+describe("receipt jobs", () => {
+  it("parseAsync queues a job that the worker parses", async () => {
+    const { caller, other, receiptJobs } = createTestContext();
+
+    const queued = await caller.receipts.parseAsync({ imageBase64: IMAGE });
+    assert.equal(queued.status, "queued");
+    assert.equal((await caller.receipts.jobStatus({ jobId: queued.jobId })).status, "queued");
+
+    await receiptJobs.drain();
+    const job = await caller.receipts.jobStatus({ jobId: queued.jobId });
+    assert.equal(job.status, "parsed");
+    assert.equal(job.provider, "replay");
+    assert.equal(job.attempts, 1);
+    assert.equal(job.result?.store, SAMPLE_RECEIPT.store);
+    assert.ok(job.finished_at);
+
+    await assert.rejects(other.receipts.jobStatus({ jobId: queued.jobId }), /Job not found/);
+    await assert.rejects(caller.receipts.jobStatus({ jobId: MISSING_ID }), /Job not found/);
+  });
+
+  it("records the error when every parser fails", async () => {
+    const broken: ReceiptParser = { name: "gemini", parse: async () => { throw new Error("quota exceeded"); } };
+    const { caller, receiptJobs } = createTestContext({ parsers: [broken] });
+
+    const { jobId } = await caller.receipts.parseAsync({ imageBase64: IMAGE });
+    await receiptJobs.drain();
+
+    const job = await caller.receipts.jobStatus({ jobId });
+    assert.equal(job.status, "failed");
+    assert.match(job.error || "", /quota exceeded/);
+    assert.equal(job.result, null);
+  });
+
+  it("onJobStatus streams every state until the job finishes", async () => {
+    const { caller, receiptJobs } = createTestContext();
+    const { jobId } = await caller.receipts.parseAsync({ imageBase64: IMAGE });
+
+    const updates = (await caller.receipts.onJobStatus({ jobId }))[Symbol.asyncIterator]();
+    const first = await updates.next();
+    assert.equal(first.done ? null : first.value.status, "queued");
+
+    await receiptJobs.drain();
+    const seen: string[] = [];
+    for (let next = await updates.next(); !next.done; next = await updates.next()) seen.push(next.value.status);
+    assert.deepEqual(seen, ["processing", "parsed"]);
+
+    const missing = await caller.receipts.onJobStatus({ jobId: MISSING_ID });
+    await assert.rejects(missing[Symbol.asyncIterator]().next(), /Job not found/);
+  });
+
+  it("jobs interrupted by a restart are requeued and finished", async () => {
+    const { caller, db, tables } = createTestContext();
+    const { jobId } = await caller.receipts.parseAsync({ imageBase64: IMAGE });
+
+    // A previous worker claimed the job an hour ago and died mid-parse
+    await db.receiptJobs.claimNext();
+    tables.receipt_jobs[0].started_at = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+    const parser = createReceiptParserChain([createReplayParser({ fixtures: { default: SAMPLE_RECEIPT } })]);
+    const restarted = createReceiptJobQueue({
+      db,
+      parser,
+      imageDir: path.join(tmpdir(), "flyersync-test-jobs"),
+    });
+    await restarted.start();
+    await restarted.drain();
+    await restarted.stop();
+
+    const job = await caller.receipts.jobStatus({ jobId });
+    assert.equal(job.status, "parsed");
+    assert.equal(job.attempts, 2);
+  });
+
+  it("gives up on jobs that keep getting interrupted", async () => {
+    const { db, receiptJobs } = createTestContext();
+    const job = await db.receiptJobs.create({ user_id: USER_ID, image_path: "/missing.jpg" });
+    for (let i = 0; i < 3; i++) {
+      await db.receiptJobs.claimNext();
+      await db.receiptJobs.requeueStale(new Date(Date.now() + 1000).toISOString());
+    }
+
+    await receiptJobs.drain();
+    const failed = await db.receiptJobs.getById(job.id);
+    assert.equal(failed?.status, "failed");
+    assert.equal(failed?.error, "Gave up after 3 attempts");
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { abbreviationsForStore } from "../matching/abbreviations";
+import { chainKey } from "../matching/dictionary";
+import { expandAbbreviations, nameSimilarity, normalizeName } from "../matching/normalize";
+import { OTHER_USER_ID, createTestContext, seedCatalog } from "./helpers";
+
+describe("product matching", () => {
+  it("normalizes names and expands store-specific abbreviations", () => {
+    assert.equal(normalizeName("Trader Joe's  Crème-Brûlée!"), "trader joes creme brulee");
+
+    const walmart = abbreviationsForStore("Walmart Supercenter");
+    assert.equal(expandAbbreviations("gv org wht brd", walmart), "great value organic white bread");
+    // House-brand shorthand only applies at its own chain
+    assert.equal(expandAbbreviations("gv org", abbreviationsForStore("Target")), "gv organic");
+  });
+
+  it("scores truncated and reordered names", () => {
+    assert.equal(nameSimilarity("bread white", "bread white"), 1);
+    assert.ok(nameSimilarity("heinz ketchup 32oz", "heinz tomato ketchup") >= 0.85);
+    assert.ok(nameSimilarity("white bre", "bread white") > 0.8);
+    assert.equal(nameSimilarity("apples", "bread white"), 0);
+  });
+
+  it("matchProducts ranks barcode and name candidates and offers create new", async () => {
+    const { caller } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+
+    const matches = await caller.receipts.matchProducts({
+      storeId: walmart.id,
+      receipt: {
+        store: "Walmart",
+        items: [
+          { name: "GV MLK", barcode: "0001" },
+          { name: "BRD WHT", category: "Bakery" },
+          { name: "DRAGONFRUIT", alternativeName: "Dragon Fruit", category: "Produce" },
+        ],
+      },
+    });
+
+    assert.equal(matches[0].candidates[0].product.id, milk.id);
+    assert.equal(matches[0].candidates[0].score, 1);
+    assert.deepEqual(matches[0].candidates[0].reasons, ["barcode", "name"]);
+    assert.equal(matches[0].suggestion, "match");
+
+    assert.equal(matches[1].normalizedName, "bread white");
+    assert.equal(matches[1].candidates[0].product.id, bread.id);
+    assert.equal(matches[1].suggestion, "match");
+
+    assert.deepEqual(matches[2].candidates, []);
+    assert.equal(matches[2].suggestion, "create");
+    assert.deepEqual(matches[2].createNew, { name: "Dragon Fruit", category: "Produce", barcode: null });
+  });
+
+  it("learns the user's picks from bulkSave", async () => {
+    const { caller, other, tables } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    const receipt = { store: null, items: [{ name: "DAIRY PURE 1G" }] };
+
+    const before = await caller.receipts.matchProducts({ storeId: walmart.id, receipt });
+    assert.equal(before[0].suggestion, "create");
+
+    for (let i = 0; i < 2; i++) {
+      await caller.receipts.bulkSave({
+        storeId: walmart.id,
+        items: [{ productId: milk.id, receiptName: "Dairy Pure 1G", price: 3.49 }],
+      });
+    }
+    assert.equal(tables.receipt_item_matches.length, 1);
+    assert.equal(tables.receipt_item_matches[0].times_matched, 2);
+
+    const sameStore = await caller.receipts.matchProducts({ storeId: walmart.id, receipt });
+    assert.equal(sameStore[0].candidates[0].product.id, milk.id);
+    assert.deepEqual(sameStore[0].candidates[0].reasons, ["history"]);
+    assert.equal(sameStore[0].candidates[0].score, 0.94);
+    assert.equal(sameStore[0].suggestion, "match");
+
+    const elsewhere = await caller.receipts.matchProducts({ storeId: traderJoes.id, receipt });
+    assert.equal(elsewhere[0].candidates[0].score, 0.84);
+
+    // History is per user; other shoppers only get the shared dictionary entry
+    const otherUser = await other.receipts.matchProducts({ storeId: walmart.id, receipt });
+    assert.deepEqual(otherUser[0].candidates[0].reasons, ["dictionary"]);
+    assert.equal(otherUser[0].candidates[0].score, 0.9);
+  });
+
+  it("completeDraft records matches from the snapshot", async () => {
+    const { caller, tables } = createTestContext();
+    const { bread, walmart } = await seedCatalog(caller);
+
+    const draft = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      status: "draft",
+      items: [{ productId: bread.id, receiptName: "WONDER WHT", price: 2.5 }],
+    });
+    assert.equal(tables.receipt_item_matches.length, 0);
+
+    await caller.receipts.completeDraft({ receiptId: draft.receiptId });
+    assert.deepEqual(
+      tables.receipt_item_matches.map((m) => [m.receipt_name, m.product_id]),
+      [["wonder wht", bread.id]]
+    );
+  });
+
+  it("learns matches through the legacy flat endpoints too", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+
+    await caller.receiptsBulkSave({
+      storeId: walmart.id,
+      items: [{ productId: milk.id, receiptName: "GV MLK", price: 3.49 }],
+    });
+    const draft = await caller.receiptsBulkSave({
+      storeId: walmart.id,
+      status: "draft",
+      items: [{ productId: bread.id, receiptName: "WONDER WHT", price: 2.5 }],
+    });
+    assert.equal(tables.receipt_item_matches.length, 1);
+
+    await caller.receiptsCompleteDraft({ receiptId: draft.receiptId });
+    assert.deepEqual(
+      tables.receipt_item_matches.map((m) => [m.receipt_name, m.product_id]).sort(),
+      [["gv mlk", milk.id], ["wonder wht", bread.id]].sort()
+    );
+  });
+
+  it("shares confirmed lines with other shoppers at the same chain", async () => {
+    const { caller, other, tables } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    const ketchup = await caller.products.create({ name: "Heinz Tomato Ketchup", category: "Pantry" });
+    const otherWalmart = await caller.stores.create({ name: "Walmart Neighborhood Market #512", latitude: 40.7, longitude: -74 });
+
+    assert.equal(chainKey(otherWalmart.name), "walmart");
+    assert.equal(chainKey("Whole Foods Market"), "whole foods");
+
+    await other.receipts.bulkSave({
+      storeId: walmart.id,
+      items: [
+        { productId: milk.id, receiptName: "MILK 1GAL", price: 3.49 },
+        { productId: ketchup.id, receiptName: "HNZ KTCHP", price: 2.99 },
+      ],
+    });
+    assert.deepEqual(
+      tables.receipt_abbreviations.map((a) => [a.chain, a.receipt_text, a.created_by]),
+      [["walmart", "milk 1gal", OTHER_USER_ID], ["walmart", "hnz ktchp", OTHER_USER_ID]]
+    );
+
+    const receipt = { store: null, items: [{ name: "HNZ KTCHP" }] };
+    const sameChain = await caller.receipts.matchProducts({ storeId: otherWalmart.id, receipt });
+    assert.equal(sameChain[0].candidates[0].product.id, ketchup.id);
+    assert.deepEqual(sameChain[0].candidates[0].reasons, ["dictionary"]);
+    assert.equal(sameChain[0].candidates[0].score, 0.82);
+    assert.equal(sameChain[0].suggestion, "match");
+
+    const sameStore = await caller.receipts.matchProducts({ storeId: walmart.id, receipt });
+    assert.equal(sameStore[0].candidates[0].score, 0.88);
+
+    // Other chains don't inherit it
+    assert.deepEqual((await caller.receipts.matchProducts({ storeId: traderJoes.id, receipt }))[0].candidates, []);
+  });
+
+  it("parseWithAI fills in products learned at the receipt's chain", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    await other.receipts.bulkSave({
+      storeId: walmart.id,
+      items: [{ productId: milk.id, receiptName: "Milk 1gal", price: 3.49 }],
+    });
+
+    const parsed = await caller.receipts.parseWithAI({ imageBase64: "aW1hZ2U=" });
+    assert.equal(parsed.items[0].productId, milk.id);
+    assert.equal(parsed.items[0].alternativeName, "Milk 1 Gallon");
+    assert.equal(parsed.items[1].productId, undefined);
+    assert.equal(parsed.items[1].alternativeName, "Bread White");
+  });
+});
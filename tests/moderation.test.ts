@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import { randomUUID } from "crypto";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, OTHER_USER_ID } from "./helpers";
+
+describe("moderation", () => {
+  it("reports queue content for moderators, who hide, restore or dismiss it", async () => {
+    const { caller, other, anonymous, as } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const moderator = as(randomUUID(), "moderator");
+    const target = { targetType: "product" as const, targetId: milk.id };
+    const spam = await other.voting.discussionCreate({ ...target, content: "Buy cheap watches" });
+    const price = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3 });
+
+    await assert.rejects(other.moderation.report({ targetType: "discussion", targetId: spam.id, reason: "spam" }), {
+      code: "BAD_REQUEST",
+    });
+    await caller.moderation.report({ targetType: "discussion", targetId: spam.id, reason: "offensive" });
+    // Reporting again replaces the reason
+    await caller.moderation.report({ targetType: "discussion", targetId: spam.id, reason: "spam", details: "ad" });
+    await caller.moderation.report({ targetType: "price", targetId: price.id, reason: "incorrect" });
+    await as(randomUUID()).moderation.report({ targetType: "discussion", targetId: spam.id, reason: "spam" });
+
+    await assert.rejects(caller.moderation.queue({}), { code: "FORBIDDEN" });
+    const queue = await moderator.moderation.queue({});
+    assert.deepEqual(
+      queue.map((t) => [t.targetType, t.targetId, t.reportCount, t.reasons, t.hidden]),
+      [
+        ["discussion", spam.id, 2, ["spam"], false],
+        ["price", price.id, 1, ["incorrect"], false],
+      ]
+    );
+    assert.deepEqual(
+      (await moderator.moderation.queue({ targetType: "price" })).map((t) => t.targetId),
+      [price.id]
+    );
+
+    const hidden = await moderator.moderation.hide({ targetType: "discussion", targetId: spam.id, note: "Ad" });
+    assert.deepEqual(hidden, { targetType: "discussion", targetId: spam.id, hidden: true, resolvedReports: 2 });
+    assert.equal((await anonymous.voting.discussionList(target)).totalCount, 0);
+    await assert.rejects(caller.voting.submit({ targetType: "discussion", targetId: spam.id, voteType: "down" }), {
+      code: "NOT_FOUND",
+    });
+    await assert.rejects(
+      caller.voting.discussionCreate({ ...target, content: "Agreed", parentId: spam.id }),
+      { code: "NOT_FOUND" }
+    );
+
+    // A hidden price is rejected: gone for others and its owner cannot publish it again
+    await moderator.moderation.hide({ targetType: "price", targetId: price.id });
+    assert.deepEqual(await anonymous.prices.recent(), []);
+    await assert.rejects(other.prices.publish({ priceId: price.id }), { code: "BAD_REQUEST" });
+    assert.deepEqual(await moderator.moderation.queue({}), []);
+
+    const restored = await moderator.moderation.restore({ targetType: "discussion", targetId: spam.id });
+    assert.equal(restored.hidden, false);
+    assert.equal((await anonymous.voting.discussionList(target)).totalCount, 1);
+    await assert.rejects(moderator.moderation.restore({ targetType: "discussion", targetId: spam.id }), {
+      code: "BAD_REQUEST",
+    });
+    assert.deepEqual(
+      (await moderator.moderation.actions({ targetType: "discussion", targetId: spam.id })).map((a) => [a.action, a.note]),
+      [["restore", null], ["hide", "Ad"]]
+    );
+    await assert.rejects(caller.moderation.actions({ targetType: "discussion", targetId: spam.id }), {
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("restoring a price puts back how its owner had it", async () => {
+    const { caller, other, anonymous, as } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const moderator = as(randomUUID(), "moderator");
+    const shared = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3 });
+    const kept = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.1, published: false });
+
+    for (const price of [shared, kept]) {
+      await moderator.moderation.hide({ targetType: "price", targetId: price.id });
+      // Hiding twice still remembers the price as it was before
+      await moderator.moderation.hide({ targetType: "price", targetId: price.id });
+      await moderator.moderation.restore({ targetType: "price", targetId: price.id });
+    }
+
+    assert.deepEqual((await anonymous.prices.recent()).map((p) => p.id), [shared.id]);
+    const restored = await other.prices.history({ productId: milk.id });
+    assert.deepEqual(
+      restored.map((p) => [p.id, p.published, p.review_status]),
+      [
+        [shared.id, true, null],
+        [kept.id, false, null],
+      ]
+    );
+  });
+
+  it("enough reports hide a discussion until a moderator dismisses them", async () => {
+    const { caller, anonymous, as } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const target = { targetType: "product" as const, targetId: milk.id };
+    const post = await caller.voting.discussionCreate({ ...target, content: "Unpopular but fine" });
+
+    for (let i = 0; i < 3; i++) {
+      await as(randomUUID()).moderation.report({ targetType: "discussion", targetId: post.id, reason: "offensive" });
+    }
+    assert.equal((await anonymous.voting.discussionList(target)).totalCount, 0);
+
+    const admin = as(randomUUID(), "admin");
+    assert.equal((await admin.moderation.queue({}))[0].hidden, true);
+    const dismissed = await admin.moderation.dismiss({ targetType: "discussion", targetId: post.id });
+    assert.deepEqual(dismissed, { targetType: "discussion", targetId: post.id, hidden: false, dismissedReports: 3 });
+    assert.equal((await anonymous.voting.discussionList(target)).totalCount, 1);
+  });
+
+  it("only a store's creator or a moderator can delete it, and moderators can restore it", async () => {
+    const { caller, other, as } = createTestContext();
+    const { walmart, traderJoes } = await seedCatalog(caller);
+
+    await assert.rejects(other.stores.softDelete({ storeId: walmart.id }), { code: "FORBIDDEN" });
+    await assert.rejects(other.storesSoftDelete({ storeId: walmart.id }), { code: "FORBIDDEN" });
+    const corner = await other.stores.create({ name: "Corner Shop", latitude: 40.7, longitude: -74 });
+    assert.equal(corner.created_by, OTHER_USER_ID);
+    assert.deepEqual(await other.stores.softDelete({ storeId: corner.id }), { success: true });
+
+    const moderator = as(randomUUID(), "moderator");
+    assert.deepEqual(await moderator.stores.softDelete({ storeId: traderJoes.id }), { success: true });
+    await moderator.moderation.restore({ targetType: "store", targetId: traderJoes.id });
+    assert.equal((await caller.stores.getById({ storeId: traderJoes.id }))?.id, traderJoes.id);
+  });
+});
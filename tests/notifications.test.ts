@@ -0,0 +1,280 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import http from "http";
+import net from "net";
+import type { AddressInfo } from "net";
+import {
+  createEmailChannel,
+  createLogChannel,
+  createNotificationDispatcher,
+  createWebhookChannel,
+  isQuietTime,
+  SIGNATURE_HEADER,
+  type NotificationChannel,
+} from "../notifications";
+import { createTestContext, seedCatalog, USER_ID } from "./helpers";
+
+// A bookmarked product whose price then drops, producing one alert
+async function setupAlert() {
+  const context = createTestContext();
+  const { caller } = context;
+  const catalog = await seedCatalog(caller);
+  await caller.bookmarks.create({ productId: catalog.milk.id });
+  await caller.prices.add({ productId: catalog.milk.id, storeId: catalog.walmart.id, price: 3.49 });
+  await caller.prices.add({ productId: catalog.milk.id, storeId: catalog.traderJoes.id, price: 2.99 });
+  return { ...context, ...catalog };
+}
+
+function clock(iso: string) {
+  const state = { now: new Date(iso) };
+  return { state, now: () => state.now };
+}
+
+describe("notifications", () => {
+  it("stores preferences and endpoints per user", async () => {
+    const { caller, other } = createTestContext();
+
+    assert.equal((await caller.notifications.preferences()).delivery_mode, "instant");
+    await assert.rejects(caller.notifications.updatePreferences({ timezone: "Mars/Olympus" }), { code: "BAD_REQUEST" });
+    await assert.rejects(caller.notifications.updatePreferences({ quietHoursStart: "22:00", quietHoursEnd: null }), {
+      code: "BAD_REQUEST",
+    });
+    const saved = await caller.notifications.updatePreferences({
+      deliveryMode: "digest",
+      timezone: "America/New_York",
+      quietHoursStart: "22:00",
+      quietHoursEnd: "07:00",
+    });
+    assert.deepEqual([saved.delivery_mode, saved.digest_time, saved.quiet_hours_start], ["digest", "08:00", "22:00"]);
+
+    const hook = await caller.notifications.addEndpoint({ channel: "webhook", url: "https://example.com/hook", secret: "s3cret-key" });
+    await caller.notifications.updateEndpoint({ endpointId: hook.id, enabled: false });
+    // Registering again re-enables it
+    const again = await caller.notifications.addEndpoint({ channel: "webhook", url: "https://example.com/hook" });
+    assert.equal(again.id, hook.id);
+    assert.equal(again.enabled, true);
+    await caller.notifications.addEndpoint({ channel: "email", email: "Shopper@Example.com" });
+    await assert.rejects(caller.notifications.addEndpoint({ channel: "expo", token: "not-a-token" }), { code: "BAD_REQUEST" });
+    assert.deepEqual((await caller.notifications.endpoints()).map((e) => [e.channel, e.address]), [
+      ["webhook", "https://example.com/hook"],
+      ["email", "shopper@example.com"],
+    ]);
+
+    await assert.rejects(other.notifications.removeEndpoint({ endpointId: hook.id }), { code: "NOT_FOUND" });
+    assert.deepEqual(await other.notifications.endpoints(), []);
+  });
+
+  it("quiet hours wrap midnight in the user's time zone", () => {
+    const preferences = { quiet_hours_start: "22:00", quiet_hours_end: "07:00", timezone: "America/New_York" };
+    assert.equal(isQuietTime(preferences, new Date("2024-05-20T03:30:00Z")), true); // 23:30 local
+    assert.equal(isQuietTime(preferences, new Date("2024-05-20T10:59:00Z")), true); // 06:59
+    assert.equal(isQuietTime(preferences, new Date("2024-05-20T11:00:00Z")), false); // 07:00
+    assert.equal(isQuietTime({ ...preferences, quiet_hours_start: null }, new Date("2024-05-20T03:30:00Z")), false);
+  });
+
+  it("sends instant alerts through each endpoint after quiet hours", async () => {
+    const { caller, db, tables } = await setupAlert();
+    const log = createLogChannel({ quiet: true });
+    const time = clock("2024-05-20T23:00:00Z");
+    const dispatcher = createNotificationDispatcher({ db, channels: [log], now: time.now });
+
+    await caller.notifications.addEndpoint({ channel: "log", label: "phone" });
+    await caller.notifications.updatePreferences({ quietHoursStart: "22:00", quietHoursEnd: "07:00" });
+
+    await dispatcher.drain();
+    assert.equal(log.sent.length, 0);
+    assert.equal(tables.price_alerts[0].dispatched_at, null);
+
+    time.state.now = new Date("2024-05-21T07:30:00Z");
+    await dispatcher.drain();
+    assert.equal(log.sent.length, 1);
+    assert.equal(log.sent[0].message.title, "Price drop");
+    assert.equal(log.sent[0].message.body, "Milk 1 Gallon dropped to 2.99 at Trader Joes (was 3.49)");
+    assert.ok(tables.price_alerts[0].dispatched_at);
+
+    const [delivery] = await caller.notifications.deliveries();
+    assert.deepEqual([delivery.status, delivery.attempts, delivery.kind], ["sent", 1, "instant"]);
+
+    // Nothing is sent twice
+    await dispatcher.drain();
+    assert.equal(log.sent.length, 1);
+  });
+
+  it("collects alerts into one digest a day at the digest time", async () => {
+    const { caller, db, milk, walmart } = await setupAlert();
+    const log = createLogChannel({ quiet: true });
+    const time = clock("2024-05-20T11:00:00Z");
+    const dispatcher = createNotificationDispatcher({ db, channels: [log], now: time.now });
+
+    await caller.notifications.addEndpoint({ channel: "log", label: "inbox" });
+    await caller.notifications.updatePreferences({ deliveryMode: "digest", digestTime: "08:00", timezone: "America/New_York" });
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 2.5 });
+
+    await dispatcher.drain(); // 07:00 local
+    assert.equal(log.sent.length, 0);
+
+    time.state.now = new Date("2024-05-20T12:05:00Z");
+    await dispatcher.drain();
+    assert.equal(log.sent.length, 1);
+    assert.equal(log.sent[0].message.title, "Your daily price digest: 2 alerts");
+    assert.equal(log.sent[0].message.kind, "digest");
+
+    // A later alert waits for tomorrow's digest
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 2 });
+    time.state.now = new Date("2024-05-20T20:00:00Z");
+    await dispatcher.drain();
+    assert.equal(log.sent.length, 1);
+    time.state.now = new Date("2024-05-21T12:01:00Z");
+    await dispatcher.drain();
+    assert.equal(log.sent.length, 2);
+    assert.equal((await caller.notifications.preferences()).last_digest_on, "2024-05-21");
+  });
+
+  it("retries failed sends with backoff and gives up after the last attempt", async () => {
+    const { caller, db } = await setupAlert();
+    let failures = 1;
+    const flaky: NotificationChannel = {
+      name: "webhook",
+      async send() {
+        if (failures-- > 0) throw new Error("503 from receiver");
+      },
+    };
+    const broken: NotificationChannel = {
+      name: "expo",
+      async send() {
+        throw new Error("DeviceNotRegistered");
+      },
+    };
+    const time = clock("2024-05-20T12:00:00Z");
+    const dispatcher = createNotificationDispatcher({
+      db,
+      channels: [flaky, broken],
+      now: time.now,
+      maxAttempts: 2,
+      retryDelayMs: 60_000,
+    });
+    await caller.notifications.addEndpoint({ channel: "webhook", url: "https://example.com/hook" });
+    await caller.notifications.addEndpoint({ channel: "expo", token: "ExponentPushToken[abc]" });
+
+    await dispatcher.drain();
+    const status = async () =>
+      Object.fromEntries((await caller.notifications.deliveries()).map((d) => [d.channel, [d.status, d.attempts, d.last_error]]));
+    assert.deepEqual(await status(), {
+      webhook: ["pending", 1, "503 from receiver"],
+      expo: ["pending", 1, "DeviceNotRegistered"],
+    });
+    assert.equal((await caller.notifications.deliveries())[0].next_attempt_at, "2024-05-20T12:01:00.000Z");
+
+    // Not due yet
+    time.state.now = new Date("2024-05-20T12:00:30Z");
+    await dispatcher.drain();
+    assert.equal((await status()).webhook[1], 1);
+
+    time.state.now = new Date("2024-05-20T12:01:00Z");
+    await dispatcher.drain();
+    assert.deepEqual(await status(), {
+      webhook: ["sent", 2, null],
+      expo: ["failed", 2, "DeviceNotRegistered"],
+    });
+  });
+
+  it("webhook posts signed JSON", async () => {
+    const { caller, db } = await setupAlert();
+    const received: { body: string; signature: string | undefined }[] = [];
+    const server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ body, signature: req.headers[SIGNATURE_HEADER] as string | undefined });
+        res.writeHead(received.length === 1 ? 500 : 204).end();
+      });
+    });
+    server.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    try {
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`;
+      await caller.notifications.addEndpoint({ channel: "webhook", url, secret: "s3cret-key" });
+      const time = clock("2024-05-20T12:00:00Z");
+      const dispatcher = createNotificationDispatcher({ db, channels: [createWebhookChannel()], now: time.now, retryDelayMs: 1000 });
+
+      await dispatcher.drain();
+      time.state.now = new Date("2024-05-20T12:00:01Z");
+      await dispatcher.drain();
+
+      assert.equal(received.length, 2);
+      const { body, signature } = received[1];
+      assert.equal(signature, `sha256=${createHmac("sha256", "s3cret-key").update(body).digest("hex")}`);
+      const payload = JSON.parse(body);
+      assert.equal(payload.userId, USER_ID);
+      assert.deepEqual(payload.alerts.map((a: any) => [a.type, a.productName, a.newPrice]), [["price_drop", "Milk 1 Gallon", 2.99]]);
+      assert.equal((await caller.notifications.deliveries())[0].status, "sent");
+    } finally {
+      server.close();
+    }
+  });
+
+  it("email is sent over SMTP with AUTH PLAIN", async () => {
+    const commands: string[] = [];
+    let data = "";
+    const server = net.createServer((socket) => {
+      let inData = false;
+      let buffer = "";
+      socket.write("220 test ESMTP\r\n");
+      socket.on("data", (chunk) => {
+        buffer += chunk.toString();
+        let end: number;
+        while ((end = buffer.indexOf("\r\n")) >= 0) {
+          const line = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            } else {
+              data += `${line}\n`;
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith("EHLO")) socket.write("250-test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+          else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    server.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    try {
+      const channel = createEmailChannel({
+        host: "127.0.0.1",
+        port: (server.address() as AddressInfo).port,
+        secure: false,
+        user: "mailer",
+        pass: "pw",
+        from: "alerts@flyersync.test",
+      });
+      await channel.send(
+        { id: "e1", user_id: USER_ID, channel: "email", address: "shopper@example.com", config: null, enabled: true, created_at: "" },
+        { userId: USER_ID, kind: "instant", title: "Price drop", body: "Milk 1 Gallon dropped\n.dot line", alerts: [] }
+      );
+
+      assert.deepEqual(commands.slice(1), [
+        `AUTH PLAIN ${Buffer.from("\0mailer\0pw").toString("base64")}`,
+        "MAIL FROM:<alerts@flyersync.test>",
+        "RCPT TO:<shopper@example.com>",
+        "DATA",
+        "QUIT",
+      ]);
+      assert.match(data, /^Subject: Price drop$/m);
+      assert.match(data, /^To: shopper@example.com$/m);
+      assert.match(data, /^\.\.dot line$/m);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { createReceiptParserChain, createReplayParser, recordFixture } from "../parsers";
+import { parseReceiptJson } from "../parsers/shared";
+import { repairJson } from "../parsers/repair";
+import { validateParsedReceipt } from "../parsers/validation";
+import { weightInGrams } from "../units/quantity";
+import { SAMPLE_RECEIPT } from "./helpers";
+
+describe("receipt parsers", () => {
+  it("replay serves recorded fixtures by image hash before the default", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "receipt-fixtures-"));
+    try {
+      const other = { ...SAMPLE_RECEIPT, store: "Trader Joes" };
+      await recordFixture(dir, "b3RoZXI=", other);
+      const replay = createReplayParser({ directory: dir, fixtures: { default: SAMPLE_RECEIPT } });
+
+      assert.equal((await replay.parse("b3RoZXI=")).store, "Trader Joes");
+      assert.equal((await replay.parse("dW5rbm93bg==")).store, SAMPLE_RECEIPT.store);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("the chain records live results for later replay", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "receipt-fixtures-"));
+    try {
+      const live = { name: "openai", parse: async () => SAMPLE_RECEIPT };
+      const chain = createReceiptParserChain([live], { recordTo: dir });
+      assert.deepEqual(chain.providers, ["openai"]);
+      assert.equal((await chain.parse("aW1hZ2U=")).provider, "openai");
+
+      const replayed = await createReplayParser({ directory: dir }).parse("aW1hZ2U=");
+      assert.equal(replayed.total, SAMPLE_RECEIPT.total);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("parseReceiptJson strips surrounding prose and cleans item names", () => {
+    const parsed = parseReceiptJson(
+      'Here you go: {"store":"Target","date":null,"total":2,"items":[{"name":" APPLES (SALE) ","price":"$2"}]} thanks',
+      "Test"
+    );
+    assert.deepEqual(parsed.items[0], {
+      name: "APPLES",
+      alternativeName: undefined,
+      barcode: undefined,
+      price: 2,
+      quantity: 1,
+      weight: undefined,
+      unitPrice: undefined,
+      category: undefined,
+      originalPrice: undefined,
+      tags: [],
+      imageUrl: undefined,
+      confidence: { overall: 0.8, name: 0.8, price: 0.8, quantity: 0.8 },
+    });
+    assert.deepEqual(parsed.issues, []);
+    assert.throws(() => parseReceiptJson("no json here", "Test"), /Test response did not contain valid JSON data/);
+    assert.throws(() => parseReceiptJson('{"items": "none"}', "Test"), /did not match the receipt schema/);
+  });
+
+  it("repairs fenced, commented, trailing-comma and truncated JSON", () => {
+    const fenced = '```json\n{"store": "Target", // the store\n "total": NaN, "items": [{"name": "A", "price": 1,},],}\n```';
+    assert.deepEqual(JSON.parse(repairJson(fenced)), { store: "Target", total: null, items: [{ name: "A", price: 1 }] });
+
+    const truncated = '{"store": "Target", "items": [{"name": "A", "price": 1}, {"name": "B", "pr';
+    assert.deepEqual(JSON.parse(repairJson(truncated)), { store: "Target", items: [{ name: "A", price: 1 }] });
+
+    const parsed = parseReceiptJson(truncated, "Test");
+    assert.equal(parsed.items.length, 1);
+    assert.deepEqual(parsed.issues?.map((i) => i.code), ["JSON_REPAIRED"]);
+  });
+
+  it("drops invalid fields with zero confidence and keeps model-reported scores", () => {
+    const parsed = validateParsedReceipt({
+      store: "Target",
+      date: "May 20th",
+      total: 3,
+      items: [
+        "garbage",
+        { name: "Eggs", price: "free?", confidence: 0.95 },
+        { name: "Milk", price: 3, quantity: 1, confidence: { name: 0.6, price: 99 } },
+      ],
+    });
+
+    assert.equal(parsed.date, null);
+    assert.deepEqual(parsed.items.map((i) => i.price), [0, 3]);
+    assert.deepEqual(parsed.items[0].confidence, { overall: 0, name: 0.95, price: 0, quantity: 0.95 });
+    assert.deepEqual(parsed.items[1].confidence, { overall: 0.6, name: 0.6, price: 0.99, quantity: 0.8 });
+    assert.deepEqual(
+      parsed.issues?.map((i) => [i.code, i.field, i.itemIndex]),
+      [
+        ["INVALID_FIELD", "date", undefined],
+        ["INVALID_ITEM", undefined, undefined],
+        ["INVALID_FIELD", "price", 0],
+      ]
+    );
+  });
+
+  it("flags totals, original prices and unit prices that do not add up", () => {
+    const parsed = validateParsedReceipt({
+      store: "Target",
+      date: "2024-05-20",
+      total: 20,
+      items: [
+        { name: "Ketchup", price: 5.99, weight: "907g", unitPrice: 0.66, originalPrice: 6.99 },
+        { name: "Cheese", price: 4, weight: "1 lb", unitPrice: 4, originalPrice: 3 },
+      ],
+    });
+
+    assert.equal(parsed.itemsTotal, 9.99);
+    assert.deepEqual(parsed.items[0].confidence?.overall, 0.8);
+    assert.deepEqual(parsed.items[1].confidence, {
+      overall: 0.3,
+      name: 0.8,
+      price: 0.8,
+      quantity: 0.8,
+      weight: 0.3,
+      unitPrice: 0.3,
+      originalPrice: 0.3,
+    });
+    assert.deepEqual(
+      parsed.issues?.map((i) => [i.code, i.itemIndex]),
+      [
+        ["ORIGINAL_PRICE_BELOW_PRICE", 1],
+        ["UNIT_PRICE_MISMATCH", 1],
+        ["TOTAL_MISMATCH", undefined],
+      ]
+    );
+  });
+
+  it("converts receipt weights to grams", () => {
+    assert.equal(weightInGrams("907g"), 907);
+    assert.equal(weightInGrams("1,5 kg"), 1500);
+    assert.equal(weightInGrams("2 lb"), 907.184);
+    assert.equal(Math.round(weightInGrams("16 fl oz")!), 473);
+    assert.equal(weightInGrams("each"), null);
+  });
+});
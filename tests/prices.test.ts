@@ -0,0 +1,331 @@
+import { describe, it } from "node:test";
+import { randomUUID } from "crypto";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, MISSING_ID } from "./helpers";
+
+describe("prices", () => {
+  it("add returns the price with product and store joined", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+
+    const price = await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.49, originalPrice: 3.99 });
+    assert.equal(price.price, 3.49);
+    assert.equal(price.original_price, 3.99);
+    assert.equal(price.products?.name, "Milk 1 Gallon");
+    assert.equal(price.stores?.name, "Walmart Supercenter");
+  });
+
+  it("add rejects non-positive prices", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    await assert.rejects(caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 0 }));
+  });
+
+  it("history is oldest first and recent is newest first", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    for (const price of [3, 4, 5]) await caller.prices.add({ productId: milk.id, storeId: walmart.id, price });
+
+    assert.deepEqual((await caller.prices.history({ productId: milk.id })).map((p) => p.price), [3, 4, 5]);
+    assert.deepEqual((await caller.prices.history({ productId: milk.id, limit: 2 })).map((p) => p.price), [3, 4]);
+    assert.deepEqual((await caller.prices.recent({ limit: 2 })).map((p) => p.price), [5, 4]);
+  });
+
+  it("cheapest keeps the latest price per store, sorted ascending", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 2 });
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 5 });
+    await caller.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 4 });
+
+    const cheapest = await caller.prices.cheapest({ productId: milk.id });
+    assert.deepEqual(cheapest.map((p) => [p.store_id, p.price]), [[traderJoes.id, 4], [walmart.id, 5]]);
+  });
+
+  it("add recomputes the unit price from the package size", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+
+    const price = await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.49, weight: "1 gal", unitPrice: 99 });
+    assert.equal(price.canonical_quantity, 3785.41);
+    assert.equal(price.canonical_unit, "ml");
+    assert.equal(price.unit_price, 0.0922);
+  });
+
+  it("cheapest can rank by unit price across package sizes", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    const costco = await caller.stores.create({ name: "Costco", latitude: 40.7, longitude: -74 });
+    const corner = await caller.stores.create({ name: "Corner Shop", latitude: 40.7, longitude: -74 });
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 2.49, weight: "64 fl oz" });
+    await caller.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 1.99, weight: "1 qt" });
+    await caller.prices.add({ productId: milk.id, storeId: costco.id, price: 6.99, weight: "2 x 1 gal" });
+    await caller.prices.add({ productId: milk.id, storeId: corner.id, price: 1.5 });
+
+    const byPrice = await caller.prices.cheapest({ productId: milk.id });
+    assert.deepEqual(byPrice.map((p) => p.store_id), [corner.id, traderJoes.id, walmart.id, costco.id]);
+
+    // Sizeless prices can't be compared and go last
+    const byUnit = await caller.prices.cheapest({ productId: milk.id, rankBy: "unitPrice" });
+    assert.deepEqual(byUnit.map((p) => [p.store_id, p.unit_price]), [
+      [costco.id, 0.0923],
+      [walmart.id, 0.1316],
+      [traderJoes.id, 0.2103],
+      [corner.id, null],
+    ]);
+  });
+
+  it("trends buckets per-package prices per store with moving averages, changes and a deal percentile", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    const buy = (storeId: string, receiptDate: string, price: number, quantity = 1) =>
+      caller.receipts.bulkSave({ storeId, receiptDate, items: [{ productId: milk.id, price, quantity }] });
+    await buy(walmart.id, "2024-05-06", 3);
+    await buy(traderJoes.id, "2024-05-06", 5);
+    await buy(walmart.id, "2024-05-08", 4, 2);
+    await buy(walmart.id, "2024-05-14", 5);
+
+    const trends = await caller.prices.trends({ productId: milk.id, until: "2024-05-14", windows: [7], price: 2.5 });
+    assert.deepEqual(trends.series, [
+      { bucketStart: "2024-05-06", min: 2, median: 3, max: 5, average: 3.33, count: 3, movingAverage: 3 },
+      { bucketStart: "2024-05-13", min: 5, median: 5, max: 5, average: 5, count: 1, movingAverage: 4 },
+    ]);
+    assert.deepEqual(
+      trends.stores.map((s) => [s.storeName, s.buckets.map((b) => [b.bucketStart, b.median, b.movingAverage])]),
+      [
+        ["Trader Joes", [["2024-05-06", 5, 5]]],
+        ["Walmart Supercenter", [["2024-05-06", 2.5, 2.5], ["2024-05-13", 5, 3.75]]],
+      ]
+    );
+    assert.deepEqual(trends.changes, [{ windowDays: 7, currentMedian: 3.5, previousMedian: 4, percentChange: -12.5 }]);
+    assert.deepEqual(trends.deal, { price: 2.5, percentile: 25, cheaperCount: 1, totalCount: 4, isGoodDeal: true });
+
+    const monthly = await caller.prices.trends({ productId: milk.id, interval: "month", movingAverage: 1, price: 4 });
+    assert.deepEqual(monthly.series.map((b) => [b.bucketStart, b.count, b.median]), [["2024-05-01", 4, 4]]);
+    assert.equal(monthly.deal?.isGoodDeal, false);
+
+    const lateWalmart = await caller.prices.trends({ productId: milk.id, from: "2024-05-10", storeId: walmart.id });
+    assert.deepEqual(lateWalmart.series.map((b) => b.bucketStart), ["2024-05-13"]);
+    assert.equal(lateWalmart.deal, null);
+  });
+
+  it("byStore only returns the caller's prices", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 2 });
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 9 });
+
+    assert.deepEqual((await caller.prices.byStore({ storeId: walmart.id })).map((p) => p.price), [2]);
+  });
+
+  it("unpublished prices are only shown to their owner", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    assert.equal((await other.prices.sharingPreferences()).publish_prices, true);
+    await other.prices.updateSharingPreferences({ publishPrices: false });
+    await caller.bookmarks.create({ productId: milk.id });
+
+    await caller.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 3 });
+    const hidden = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 1 });
+    assert.equal(hidden.published, false);
+
+    for (const viewer of [anonymous, caller]) {
+      assert.deepEqual((await viewer.prices.recent()).map((p) => p.price), [3]);
+      assert.deepEqual((await viewer.prices.history({ productId: milk.id })).map((p) => p.price), [3]);
+      assert.deepEqual((await viewer.prices.cheapest({ productId: milk.id })).map((p) => p.price), [3]);
+      assert.deepEqual((await viewer.pricesCheapest({ productId: milk.id })).map((p) => p.price), [3]);
+      assert.equal((await viewer.prices.trends({ productId: milk.id })).series[0].count, 1);
+    }
+    assert.deepEqual((await other.prices.cheapest({ productId: milk.id })).map((p) => p.price), [1, 3]);
+    assert.deepEqual((await other.pricesRecent()).map((p) => p.price), [1, 3]);
+    // Nobody else's bookmark hears about it
+    assert.equal((await caller.bookmarks.alertsList({})).totalCount, 0);
+
+    await assert.rejects(caller.prices.publish({ priceId: hidden.id }), { code: "NOT_FOUND" });
+    await assert.rejects(other.prices.publish({ priceId: MISSING_ID }), { code: "NOT_FOUND" });
+    assert.deepEqual(await other.prices.publish({ priceId: hidden.id }), { priceId: hidden.id, published: true });
+    assert.deepEqual((await anonymous.prices.recent()).map((p) => p.price), [1, 3]);
+    // Bookmarks hear about it once it is shared
+    const alerts = (await caller.bookmarks.alertsList({})).alerts;
+    assert.deepEqual(alerts.map((a) => [a.price_id, a.alert_type]), [[hidden.id, "price_drop"]]);
+    await other.prices.unpublish({ priceId: hidden.id });
+    assert.deepEqual((await anonymous.pricesRecent()).map((p) => p.price), [3]);
+
+    // An explicit choice beats the preference
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 2, published: true });
+    assert.deepEqual((await anonymous.prices.history({ productId: milk.id })).map((p) => p.price), [3, 2]);
+  });
+
+  it("receipts publish and unpublish all their prices, and added items follow them", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    await other.bookmarks.create({ productId: bread.id, targetPrice: 2.5 });
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-01",
+      published: false,
+      items: [{ productId: milk.id, price: 3 }, { productId: bread.id, price: 2 }],
+    });
+    assert.deepEqual(await anonymous.prices.recent(), []);
+    assert.equal((await caller.prices.recent()).length, 2);
+
+    assert.deepEqual(await caller.receipts.publish({ receiptId }), { receiptId, published: true, changed: 2 });
+    assert.equal((await anonymous.prices.recent()).length, 2);
+    assert.deepEqual((await other.bookmarks.alertsList({})).alerts.map((a) => [a.new_price, a.alert_type]), [
+      [2, "target_reached"],
+    ]);
+    await assert.rejects(other.receipts.unpublish({ receiptId }), { code: "NOT_FOUND" });
+
+    assert.equal((await caller.receipts.unpublish({ receiptId })).changed, 2);
+    await caller.receipts.addItem({ receiptId, item: { productId: milk.id, price: 4 } });
+    assert.deepEqual(await anonymous.prices.recent(), []);
+    assert.equal((await caller.prices.recent()).length, 3);
+
+    // Without a choice, saves follow the sharing preference
+    await caller.prices.updateSharingPreferences({ publishPrices: false });
+    await caller.receipts.bulkSave({ storeId: walmart.id, items: [{ productId: milk.id, price: 5 }] });
+    assert.deepEqual(await anonymous.prices.recent(), []);
+  });
+
+  it("drafts keep the visibility they were saved with until they are completed", async () => {
+    const { caller, anonymous } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const draft = { storeId: walmart.id, status: "draft" as const, items: [{ productId: milk.id, price: 3 }] };
+
+    const { receiptId: privateDraft } = await caller.receipts.bulkSave({ ...draft, published: false });
+    const { receiptId: defaultDraft } = await caller.receipts.bulkSave(draft);
+    await caller.receipts.completeDraft({ receiptId: privateDraft });
+    assert.deepEqual(await anonymous.prices.recent(), []);
+    assert.equal((await caller.prices.recent())[0].published, false);
+
+    // Without a choice, the preference at completion decides
+    await caller.prices.updateSharingPreferences({ publishPrices: false });
+    await caller.receipts.completeDraft({ receiptId: defaultDraft });
+    assert.deepEqual(await anonymous.prices.recent(), []);
+    assert.equal((await caller.prices.recent()).length, 2);
+  });
+
+  it("trust scores leave questionable prices out of cheapest, recent and alerts", async () => {
+    const { caller, other, anonymous, as } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    const corner = await caller.stores.create({ name: "Corner Shop", latitude: 40.7, longitude: -74 });
+    for (const price of [3.2, 3, 3.1]) await caller.prices.add({ productId: milk.id, storeId: walmart.id, price });
+    await caller.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 3.3, receiptImagePath: "receipts/tj.jpg" });
+    await caller.bookmarks.create({ productId: milk.id });
+
+    // A typo far below every other price
+    const typo = await other.prices.add({ productId: milk.id, storeId: corner.id, price: 0.05 });
+    assert.equal((await caller.bookmarks.alertsList({})).totalCount, 0);
+    const trusted = await anonymous.prices.cheapest({ productId: milk.id });
+    assert.deepEqual(trusted.map((p) => [p.store_id, p.price]), [[walmart.id, 3.1], [traderJoes.id, 3.3]]);
+    assert.equal(trusted[1].trust.factors.receipt, 1);
+    assert.ok(trusted[1].trust.score > trusted[0].trust.score);
+
+    const everything = await anonymous.prices.cheapest({ productId: milk.id, minTrust: 0 });
+    assert.equal(everything[0].id, typo.id);
+    assert.equal(everything[0].trust.level, "low");
+    assert.equal(everything[0].trust.factors.outlier, 0);
+    assert.ok(!(await anonymous.prices.recent()).some((p) => p.id === typo.id));
+    assert.ok(!(await anonymous.pricesRecent()).some((p) => p.id === typo.id));
+
+    // A plausible price stands until enough voters say it is wrong
+    const disputed = await other.prices.add({ productId: milk.id, storeId: corner.id, price: 2.9 });
+    assert.equal((await anonymous.prices.cheapest({ productId: milk.id }))[0].id, disputed.id);
+    for (let i = 0; i < 4; i++) {
+      await as(randomUUID()).voting.submit({ targetType: "price", targetId: disputed.id, voteType: "down" });
+    }
+    const afterVotes = await anonymous.prices.cheapest({ productId: milk.id });
+    assert.deepEqual(afterVotes.map((p) => p.store_id), [walmart.id, traderJoes.id]);
+    assert.deepEqual(
+      (await anonymous.pricesCheapest({ productId: milk.id })).map((p) => p.store_id),
+      [walmart.id, traderJoes.id]
+    );
+  });
+
+  it("suspicious prices wait for review before they are published or raise alerts", async () => {
+    const { caller, other, anonymous, as } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    for (const price of [3.2, 3, 3.1, 2.9, 3.3]) await caller.prices.add({ productId: milk.id, storeId: walmart.id, price });
+    await caller.bookmarks.create({ productId: milk.id });
+
+    const typo = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 0.05 });
+    assert.equal(typo.review_status, "pending");
+    assert.equal(typo.published, false);
+    assert.deepEqual(typo.review_reasons, ["far_from_market"]);
+    assert.ok(!(await anonymous.prices.recent()).some((p) => p.id === typo.id));
+    assert.ok((await other.prices.history({ productId: milk.id })).some((p) => p.id === typo.id));
+    assert.equal((await caller.bookmarks.alertsList({})).totalCount, 0);
+    // Publishing does not get around the review
+    assert.deepEqual(await other.prices.publish({ priceId: typo.id }), {
+      priceId: typo.id,
+      published: false,
+      pendingReview: true,
+    });
+
+    const fine = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.05 });
+    assert.equal(fine.review_status, null);
+    assert.equal(fine.published, true);
+
+    const moderator = as(randomUUID(), "moderator");
+    await assert.rejects(caller.prices.reviewQueue({}), { code: "FORBIDDEN" });
+    const queue = await moderator.prices.reviewQueue({});
+    assert.deepEqual(queue.map((p) => p.id), [typo.id]);
+    assert.equal(queue[0].products?.id, milk.id);
+
+    // Confirming publishes it and sends the alerts it was held back from
+    const confirmed = await moderator.prices.confirmReview({ priceId: typo.id });
+    assert.equal(confirmed.review_status, "confirmed");
+    assert.ok((await anonymous.prices.recent()).some((p) => p.id === typo.id));
+    const alerts = await caller.bookmarks.alertsList({});
+    assert.ok(alerts.alerts.some((a) => a.price_id === typo.id && a.alert_type === "price_drop"));
+    await assert.rejects(moderator.prices.confirmReview({ priceId: typo.id }), { code: "NOT_FOUND" });
+
+    // Two rejections put every later price of the contributor up for review
+    for (const price of [0.02, 0.03]) {
+      const rejected = await other.prices.add({ productId: milk.id, storeId: walmart.id, price });
+      await moderator.prices.rejectReview({ priceId: rejected.id });
+      await assert.rejects(other.prices.publish({ priceId: rejected.id }), { code: "BAD_REQUEST" });
+    }
+    const next = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.1 });
+    assert.deepEqual(next.review_reasons, ["contributor_record"]);
+    assert.deepEqual((await moderator.prices.reviewQueue({})).map((p) => p.contributorReviews), [
+      { pending: 1, confirmed: 1, rejected: 2 },
+    ]);
+  });
+
+  it("editing a published receipt price to an outlier holds it for review", async () => {
+    const { caller, other, anonymous, as } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    for (const price of [3.2, 3, 3.1, 2.9, 3.3]) await caller.prices.add({ productId: milk.id, storeId: walmart.id, price });
+    const { receiptId } = await other.receipts.bulkSave({
+      storeId: walmart.id,
+      items: [{ productId: milk.id, price: 3.05 }, { productId: bread.id, price: 2 }],
+    });
+    const edited = (await other.prices.byStore({ storeId: walmart.id })).find((p) => p.product_id === milk.id)!;
+    assert.equal(edited.published, true);
+
+    await other.receipts.updateItem({ receiptId, priceId: edited.id, price: 30.5 });
+    const held = (await other.prices.history({ productId: milk.id })).find((p) => p.id === edited.id);
+    assert.equal(held?.published, false);
+    assert.equal(held?.review_status, "pending");
+    assert.deepEqual(held?.review_reasons, ["far_from_market"]);
+    assert.ok(!(await anonymous.prices.recent()).some((p) => p.id === edited.id));
+    assert.deepEqual((await as(randomUUID(), "admin").prices.reviewQueue({})).map((p) => p.id), [edited.id]);
+    // The receipt's other item is still published
+    assert.ok((await anonymous.prices.recent()).some((p) => p.product_id === bread.id));
+  });
+
+  it("legacy flat endpoints behave like the namespaced ones", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+
+    await caller.pricesAdd({ productId: milk.id, storeId: walmart.id, price: 3 });
+    await caller.pricesAdd({ productId: milk.id, storeId: traderJoes.id, price: 2 });
+
+    assert.deepEqual((await caller.pricesHistory({ productId: milk.id })).map((p) => p.price), [3, 2]);
+    assert.deepEqual((await caller.pricesCheapest({ productId: milk.id })).map((p) => p.price), [2, 3]);
+    assert.deepEqual((await caller.pricesRecent()).map((p) => p.price), [2, 3]);
+    assert.deepEqual((await caller.pricesByStore({ storeId: walmart.id })).map((p) => p.price), [3]);
+    assert.equal((await caller.getReceipts()).length, 2);
+  });
+});
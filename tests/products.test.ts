@@ -0,0 +1,164 @@
+import { describe, it } from "node:test";
+import { randomUUID } from "crypto";
+import assert from "node:assert/strict";
+import { MISSING_ID, createTestContext, seedCatalog } from "./helpers";
+
+describe("products", () => {
+  it("list orders by name and honours the limit", async () => {
+    const { caller } = createTestContext();
+    await seedCatalog(caller);
+
+    const all = await caller.products.list();
+    assert.deepEqual(all.map((p) => p.name), ["Bread White", "Milk 1 Gallon"]);
+    assert.equal((await caller.products.list({ limit: 1 })).length, 1);
+  });
+
+  it("search matches name substrings and exact barcodes", async () => {
+    const { caller } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+
+    assert.deepEqual((await caller.products.search({ query: "gallon" })).map((p) => p.id), [milk.id]);
+    assert.deepEqual((await caller.products.search({ query: "0001" })).map((p) => p.id), [milk.id]);
+    assert.deepEqual(await caller.products.search({ query: "eggs" }), []);
+  });
+
+  it("create stores optional fields as null", async () => {
+    const { caller } = createTestContext();
+    const product = await caller.products.create({ name: "Eggs 12pk" });
+
+    assert.equal(product.name, "Eggs 12pk");
+    assert.equal(product.barcode, null);
+    assert.equal(product.category, null);
+  });
+
+  it("getOrCreate reuses by barcode, then by case-insensitive name", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread } = await seedCatalog(caller);
+
+    assert.equal((await caller.products.getOrCreate({ name: "anything", barcode: "0001" })).id, milk.id);
+    assert.equal((await caller.products.getOrCreate({ name: "bread white" })).id, bread.id);
+
+    const created = await caller.products.getOrCreate({ name: "Bananas 1lb", category: "Produce" });
+    assert.equal(created.category, "Produce");
+    assert.equal(tables.products.length, 3);
+  });
+
+  it("legacy flat endpoints behave like the namespaced ones", async () => {
+    const { caller } = createTestContext();
+    const created = await caller.productsCreate({ name: "Coca Cola 12pk", barcode: "0042" });
+
+    assert.deepEqual((await caller.productsList()).map((p) => p.id), [created.id]);
+    assert.deepEqual((await caller.productsSearch({ query: "cola" })).map((p) => p.id), [created.id]);
+    assert.equal((await caller.productsGetOrCreate({ name: "x", barcode: "0042" })).id, created.id);
+    assert.notEqual((await caller.productsGetOrCreate({ name: "Sprite" })).id, created.id);
+  });
+
+  it("duplicates pairs near-identical names, alternative names and barcodes", async () => {
+    const { caller, tables } = createTestContext();
+    const ketchup = await caller.products.create({ name: "Heinz Ketchup", category: "Pantry" });
+    const shouty = await caller.products.create({ name: "HEINZ TOMATO KETCHUP 32OZ", category: "Pantry" });
+    const upc = await caller.products.create({ name: "Cola 2L", barcode: "0049000050103" });
+    const ean = await caller.products.create({ name: "Soda", barcode: "49000050103" });
+    const chips = await caller.products.create({ name: "Chips" });
+    tables.products.find((p) => p.id === chips.id)!.alternative_name = "Lays Classic Chips";
+    const lays = await caller.products.create({ name: "Lays Classic" });
+    await caller.products.create({ name: "Mustard" });
+
+    const all = await caller.products.duplicates({});
+    assert.deepEqual(
+      all.map((d) => [d.product.name, d.duplicate.name, d.score, d.reasons]),
+      [
+        ["Cola 2L", "Soda", 1, ["barcode"]],
+        ["Chips", "Lays Classic", 0.9, ["alternative_name"]],
+        ["HEINZ TOMATO KETCHUP 32OZ", "Heinz Ketchup", 0.9, ["name"]],
+      ]
+    );
+
+    const forOne = await caller.products.duplicates({ productId: shouty.id });
+    assert.deepEqual(forOne.map((d) => d.duplicate.id), [ketchup.id]);
+    assert.deepEqual((await caller.products.duplicates({ productId: upc.id })).map((d) => d.duplicate.id), [ean.id]);
+    assert.deepEqual(await caller.products.duplicates({ productId: lays.id, minScore: 0.95 }), []);
+  });
+
+  it("merge re-points prices, bookmarks, alerts, votes and discussions and records it", async () => {
+    const { caller, other, tables, as } = createTestContext();
+    const { walmart } = await seedCatalog(caller);
+    const moderator = as(randomUUID(), "moderator");
+    const keep = await caller.products.create({ name: "Heinz Ketchup" });
+    const dupe = await caller.products.create({ name: "HEINZ TOMATO KETCHUP 32OZ", barcode: "0013000006408", category: "Pantry" });
+
+    await caller.bookmarks.create({ productId: keep.id });
+    await caller.bookmarks.create({ productId: dupe.id });
+    await other.bookmarks.create({ productId: dupe.id, targetPrice: 3 });
+    await caller.prices.add({ productId: dupe.id, storeId: walmart.id, price: 3.99 });
+    await caller.prices.add({ productId: dupe.id, storeId: walmart.id, price: 2.99 });
+    await caller.voting.submit({ targetType: "product", targetId: keep.id, voteType: "up" });
+    await caller.voting.submit({ targetType: "product", targetId: dupe.id, voteType: "down" });
+    await other.voting.submit({ targetType: "product", targetId: dupe.id, voteType: "up" });
+    await other.voting.discussionCreate({ targetType: "product", targetId: dupe.id, content: "Same as the other one" });
+    const draft = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      status: "draft",
+      items: [{ productId: dupe.id, price: 3.49 }],
+    });
+
+    const { product, merge } = await moderator.products.merge({ sourceId: dupe.id, targetId: keep.id });
+
+    assert.deepEqual(merge.moved, {
+      prices: 2,
+      bookmarks: 1,
+      price_alerts: 3,
+      votes: 1,
+      discussions: 1,
+      drafts: 1,
+      shopping_list_items: 0,
+    });
+    assert.equal(merge.source_product.name, "HEINZ TOMATO KETCHUP 32OZ");
+    assert.equal(product.barcode, "0013000006408");
+    assert.equal(product.category, "Pantry");
+    assert.equal(tables.products.some((p) => p.id === dupe.id), false);
+
+    assert.ok(tables.prices.every((p) => p.product_id === keep.id));
+    // The user's existing bookmark and vote on the survivor win
+    assert.deepEqual(tables.bookmarks.map((b) => b.product_id), [keep.id, keep.id]);
+    assert.ok(tables.price_alerts.every((a) => a.product_id === keep.id && tables.bookmarks.some((b) => b.id === a.bookmark_id)));
+    assert.deepEqual(await caller.voting.getCounts({ targetType: "product", targetId: keep.id }), { upvotes: 2, downvotes: 0 });
+    assert.equal((await caller.voting.discussionList({ targetType: "product", targetId: keep.id })).discussions.length, 1);
+    assert.equal(tables.receipts.find((r) => r.id === draft.receiptId)?.items_snapshot?.[0].productId, keep.id);
+
+    assert.deepEqual((await moderator.products.merges({ productId: keep.id })).map((m) => m.id), [merge.id]);
+    assert.deepEqual((await moderator.products.merges({ productId: dupe.id })).map((m) => m.id), [merge.id]);
+  });
+
+  it("merge moves shopping list lines and adds up a list's lines for both products", async () => {
+    const { caller, other, as } = createTestContext();
+    const keep = await caller.products.create({ name: "Heinz Ketchup" });
+    const dupe = await caller.products.create({ name: "HEINZ TOMATO KETCHUP 32OZ" });
+    const weekly = await caller.shoppingLists.create({ name: "Weekly" });
+    await caller.shoppingLists.addItem({ listId: weekly.id, productId: keep.id, quantity: 1 });
+    await caller.shoppingLists.addItem({ listId: weekly.id, productId: dupe.id, quantity: 2, note: "squeeze bottle" });
+    const party = await other.shoppingLists.create({ name: "Party" });
+    await other.shoppingLists.addItem({ listId: party.id, productId: dupe.id, quantity: 3 });
+
+    const { merge } = await as(randomUUID(), "moderator").products.merge({ sourceId: dupe.id, targetId: keep.id });
+
+    assert.equal(merge.moved.shopping_list_items, 1);
+    assert.deepEqual(
+      (await caller.shoppingLists.get({ listId: weekly.id })).items.map((i) => [i.product_id, i.quantity, i.note]),
+      [[keep.id, 3, "squeeze bottle"]]
+    );
+    assert.deepEqual(
+      (await other.shoppingLists.get({ listId: party.id })).items.map((i) => [i.product_id, i.quantity]),
+      [[keep.id, 3]]
+    );
+  });
+
+  it("merge rejects self-merges and unknown products", async () => {
+    const { caller, as } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const moderator = as(randomUUID(), "moderator");
+
+    await assert.rejects(moderator.products.merge({ sourceId: milk.id, targetId: milk.id }), { code: "BAD_REQUEST" });
+    await assert.rejects(moderator.products.merge({ sourceId: MISSING_ID, targetId: milk.id }), { code: "NOT_FOUND" });
+  });
+});
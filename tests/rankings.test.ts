@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, USER_ID, OTHER_USER_ID } from "./helpers";
+
+describe("rankings", () => {
+  it("getTop counts prices on completed, non-deleted receipts", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    const items = [{ productId: milk.id, price: 1 }, { productId: bread.id, price: 1 }];
+
+    await caller.receipts.bulkSave({ storeId: walmart.id, items });
+    await other.receipts.bulkSave({ storeId: walmart.id, items: items.slice(0, 1) });
+    await other.receipts.bulkSave({ storeId: walmart.id, items, status: "draft" });
+    const deleted = await other.receipts.bulkSave({ storeId: walmart.id, items });
+    await other.receipts.softDelete({ receiptId: deleted.receiptId });
+    // Loose prices are not tied to a receipt and do not count
+    await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 1 });
+
+    assert.deepEqual(await anonymous.rankings.getTop(), [
+      { userId: USER_ID, count: 2 },
+      { userId: OTHER_USER_ID, count: 1 },
+    ]);
+    assert.deepEqual(await anonymous.rankingsGetTop(), await anonymous.rankings.getTop());
+  });
+
+  it("userProfile only counts completed receipts while the legacy endpoint counts everything", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const items = [{ productId: milk.id, price: 1 }];
+
+    await caller.receipts.bulkSave({ storeId: walmart.id, items });
+    await caller.receipts.bulkSave({ storeId: walmart.id, items, status: "draft" });
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 1 });
+
+    assert.deepEqual(await caller.rankings.userProfile(), { userId: USER_ID, priceCount: 1, receiptCount: 1 });
+    assert.deepEqual(await caller.userProfileGet(), { userId: USER_ID, priceCount: 2, receiptCount: 2 });
+  });
+});
@@ -0,0 +1,428 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { TRPCError } from "@trpc/server";
+import { createReplayParser, type ReceiptParser } from "../parsers";
+import { createTestContext, seedCatalog, MISSING_ID, SAMPLE_RECEIPT, USER_ID } from "./helpers";
+
+describe("receipts", () => {
+  it("bulkSave stores a complete receipt and its prices", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+
+    const result = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      totalPrice: 6.5,
+      receiptDate: "2024-05-20",
+      receiptTime: "14:30",
+      items: [
+        { productId: milk.id, price: 4, quantity: 1.6, weight: "3.8L", tags: ["SALE"], originalPrice: 4.5 },
+        { productId: bread.id, price: 2.5 },
+      ],
+    });
+
+    assert.equal(result.saved, 2);
+    const receipt = tables.receipts.find((r) => r.id === result.receiptId);
+    assert.equal(receipt?.status, "complete");
+    assert.equal(receipt?.items_snapshot, null);
+
+    const prices = tables.prices.filter((p) => p.receipt_id === result.receiptId);
+    assert.equal(prices.length, 2);
+    assert.equal(prices[0].quantity, 2);
+    assert.equal(prices[0].canonical_unit, "ml");
+    assert.equal(prices[0].unit_price, 0.0526);
+    assert.deepEqual(prices[0].tags, ["SALE"]);
+    assert.equal(prices[0].purchase_time, new Date("2024-05-20T14:30:00").toISOString());
+  });
+
+  it("draft receipts keep items in the snapshot until completeDraft", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+
+    const draft = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-21",
+      status: "draft",
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 2 }],
+    });
+    assert.deepEqual(draft, { saved: 0, receiptId: draft.receiptId });
+    assert.equal(tables.prices.length, 0);
+
+    const drafts = await caller.receipts.list({ status: "draft" });
+    assert.deepEqual(drafts.map((r) => r.id), [draft.receiptId]);
+    assert.deepEqual(await caller.receipts.list(), []);
+
+    const preview = await caller.receipts.getById({ receiptId: draft.receiptId });
+    assert.equal(preview?.prices?.length, 2);
+    assert.equal(preview?.prices?.[0].products?.name, "Milk 1 Gallon");
+
+    assert.deepEqual(await caller.receipts.completeDraft({ receiptId: draft.receiptId }), { success: true });
+    assert.equal(tables.prices.length, 2);
+    assert.deepEqual((await caller.receipts.list()).map((r) => r.id), [draft.receiptId]);
+
+    const completed = await caller.receipts.getById({ receiptId: draft.receiptId });
+    assert.equal(completed?.status, "complete");
+    assert.equal(completed?.prices?.length, 2);
+
+    // Completing twice is a no-op
+    await caller.receipts.completeDraft({ receiptId: draft.receiptId });
+    assert.equal(tables.prices.length, 2);
+  });
+
+  it("drafts are edited item by item with optimistic concurrency", async () => {
+    const { caller, other, tables } = createTestContext();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      status: "draft",
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 2 }],
+    });
+    const preview = await caller.receipts.getById({ receiptId });
+    const [milkId, breadId] = preview!.prices!.map((p) => p.id);
+    const itemsOf = (draft: { items_snapshot: { itemId?: string; price: number }[] | null }) =>
+      draft.items_snapshot!.map((i) => [i.itemId, i.price]);
+
+    let draft = await caller.receipts.updateDraft({ receiptId, version: 0, storeId: traderJoes.id, totalPrice: 9 });
+    assert.deepEqual([draft.draft_version, draft.store_id, draft.total_price], [1, traderJoes.id, 9]);
+    draft = await caller.receipts.upsertDraftItem({ receiptId, version: 1, item: { itemId: milkId, productId: milk.id, price: 3.5 } });
+    draft = await caller.receipts.upsertDraftItem({ receiptId, version: 2, item: { productId: bread.id, price: 1 }, position: 0 });
+    const addedId = draft.items_snapshot![0].itemId;
+    assert.deepEqual(itemsOf(draft), [[addedId, 1], [milkId, 3.5], [breadId, 2]]);
+
+    draft = await caller.receipts.reorderDraftItems({ receiptId, version: 3, itemIds: [breadId, milkId, addedId!] });
+    draft = await caller.receipts.removeDraftItem({ receiptId, version: 4, itemId: addedId! });
+    assert.deepEqual([draft.draft_version, itemsOf(draft)], [5, [[breadId, 2], [milkId, 3.5]]]);
+
+    // A second device still at an older version is turned away
+    await assert.rejects(caller.receipts.updateDraft({ receiptId, version: 3, totalPrice: 1 }), { code: "CONFLICT" });
+    await assert.rejects(caller.receipts.completeDraft({ receiptId, version: 4 }), { code: "CONFLICT" });
+    await assert.rejects(caller.receipts.removeDraftItem({ receiptId, version: 5, itemId: MISSING_ID }), { code: "NOT_FOUND" });
+    await assert.rejects(caller.receipts.reorderDraftItems({ receiptId, version: 5, itemIds: [milkId, milkId] }), {
+      code: "BAD_REQUEST",
+    });
+    await assert.rejects(other.receipts.updateDraft({ receiptId, version: 5, totalPrice: 1 }), { code: "NOT_FOUND" });
+
+    await caller.receipts.completeDraft({ receiptId, version: 5 });
+    assert.deepEqual(tables.prices.map((p) => [p.store_id, p.price]), [[traderJoes.id, 2], [traderJoes.id, 3.5]]);
+    await assert.rejects(caller.receipts.updateDraft({ receiptId, version: 5, totalPrice: 1 }), { code: "BAD_REQUEST" });
+  });
+
+  it("discardDraft drops a draft, optionally only at a given version", async () => {
+    const { caller } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const save = () => caller.receipts.bulkSave({ storeId: walmart.id, status: "draft", items: [{ productId: milk.id, price: 4 }] });
+
+    const first = await save();
+    await caller.receipts.updateDraft({ receiptId: first.receiptId, version: 0, totalPrice: 4 });
+    await assert.rejects(caller.receipts.discardDraft({ receiptId: first.receiptId, version: 0 }), { code: "CONFLICT" });
+    assert.deepEqual(await caller.receipts.discardDraft({ receiptId: first.receiptId, version: 1 }), { success: true });
+
+    const second = await save();
+    await caller.receipts.discardDraft({ receiptId: second.receiptId });
+    assert.deepEqual(await caller.receipts.list({ status: "draft" }), []);
+    await assert.rejects(caller.receipts.completeDraft({ receiptId: second.receiptId }), { code: "NOT_FOUND" });
+    await assert.rejects(caller.receipts.discardDraft({ receiptId: second.receiptId }), { code: "NOT_FOUND" });
+  });
+
+  it("bulkSave with an idempotency key saves once and rejects the key for another receipt", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    const request = {
+      storeId: walmart.id,
+      receiptDate: "2024-05-20",
+      items: [{ productId: milk.id, price: 4 }],
+      idempotencyKey: "scan-0001-retry",
+    };
+
+    const first = await caller.receipts.bulkSave(request);
+    const retry = await caller.receipts.bulkSave(request);
+    assert.deepEqual(retry, first);
+    const flatRetry = await caller.receiptsBulkSave(request);
+    assert.deepEqual(flatRetry, first);
+    assert.deepEqual([tables.receipts.length, tables.prices.length], [1, 1]);
+
+    await assert.rejects(
+      caller.receipts.bulkSave({ ...request, items: [{ productId: bread.id, price: 2 }] }),
+      (err: TRPCError) => err.code === "CONFLICT" && (err.cause as { reason?: string }).reason === "IDEMPOTENCY_KEY_REUSED"
+    );
+  });
+
+  it("saves and completions are all or nothing", async () => {
+    const { caller, tables, db } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const reasonOf = (err: TRPCError) => (err.cause as { reason?: string }).reason;
+
+    // The second item references no product, so the whole save is rolled back
+    await assert.rejects(
+      caller.receipts.bulkSave({ storeId: walmart.id, items: [{ productId: milk.id, price: 4 }, { productId: MISSING_ID, price: 1 }] }),
+      (err: TRPCError) => err.code === "INTERNAL_SERVER_ERROR" && reasonOf(err) === "RECEIPT_NOT_SAVED"
+    );
+    assert.deepEqual([tables.receipts.length, tables.prices.length], [0, 0]);
+
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      status: "draft",
+      items: [{ productId: milk.id, price: 4 }],
+    });
+    tables.receipts[0].items_snapshot!.push({ productId: MISSING_ID, price: 1 });
+    await assert.rejects(caller.receipts.completeDraft({ receiptId }), (err: TRPCError) => reasonOf(err) === "DRAFT_NOT_COMPLETED");
+    assert.deepEqual([tables.receipts[0].status, tables.prices.length], ["draft", 0]);
+
+    // Prices left over from an interrupted completion are replaced, not duplicated
+    tables.receipts[0].items_snapshot!.pop();
+    await db.prices.create({ product_id: milk.id, store_id: walmart.id, user_id: USER_ID, price: 4, receipt_id: receiptId });
+    await caller.receipts.completeDraft({ receiptId });
+    assert.deepEqual(tables.prices.map((p) => [p.receipt_id, p.price]), [[receiptId, 4]]);
+    assert.equal(tables.receipts[0].status, "complete");
+  });
+
+  it("completeDraft rejects receipts owned by someone else", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const draft = await caller.receipts.bulkSave({ storeId: walmart.id, status: "draft", items: [{ productId: milk.id, price: 1 }] });
+
+    await assert.rejects(other.receipts.completeDraft({ receiptId: draft.receiptId }), (err: unknown) => {
+      assert.ok(err instanceof TRPCError);
+      assert.equal(err.code, "NOT_FOUND");
+      return true;
+    });
+  });
+
+  it("completeDraft needs a store for a draft with items", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const draft = await caller.receipts.bulkSave({ storeId: walmart.id, status: "draft", items: [{ productId: milk.id, price: 1 }] });
+    tables.receipts[0].store_id = null;
+
+    await assert.rejects(caller.receipts.completeDraft({ receiptId: draft.receiptId }), { code: "BAD_REQUEST" });
+    assert.deepEqual([tables.receipts[0].status, tables.prices.length], ["draft", 0]);
+  });
+
+  it("list filters by date range and hides soft-deleted receipts", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const items = [{ productId: milk.id, price: 1 }];
+    const may = await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: "2024-05-01", items });
+    const june = await caller.receipts.bulkSave({ storeId: walmart.id, receiptDate: "2024-06-01", items });
+
+    assert.deepEqual((await caller.receipts.list()).map((r) => r.id), [june.receiptId, may.receiptId]);
+    assert.deepEqual((await caller.receipts.list({ startDate: "2024-05-15" })).map((r) => r.id), [june.receiptId]);
+    assert.deepEqual((await caller.receipts.list({ endDate: "2024-05-15" })).map((r) => r.id), [may.receiptId]);
+
+    // Another user cannot delete it
+    await other.receipts.softDelete({ receiptId: may.receiptId });
+    assert.equal((await caller.receipts.list()).length, 2);
+
+    assert.deepEqual(await caller.receipts.softDelete({ receiptId: may.receiptId }), { success: true });
+    assert.deepEqual((await caller.receipts.list()).map((r) => r.id), [june.receiptId]);
+  });
+
+  it("getById returns null for unknown receipts and other users' receipts", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    assert.equal(await caller.receipts.getById({ receiptId: MISSING_ID }), null);
+
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      published: false,
+      items: [{ productId: milk.id, price: 3 }],
+    });
+    const draft = await caller.receipts.bulkSave({ storeId: walmart.id, status: "draft", items: [{ productId: milk.id, price: 2 }] });
+    for (const id of [receiptId, draft.receiptId]) {
+      assert.equal(await other.receipts.getById({ receiptId: id }), null);
+      assert.equal(await other.receiptsGetById({ receiptId: id }), null);
+    }
+    assert.equal((await caller.receipts.getById({ receiptId }))?.prices?.length, 1);
+  });
+
+  it("checkDuplicate distinguishes exact and same-day matches", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, walmart, traderJoes } = await seedCatalog(caller);
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-20",
+      receiptTime: "14:30",
+      items: [{ productId: milk.id, price: 1 }],
+    });
+
+    const check = (input: { storeId: string; receiptDate: string; receiptTime?: string | null }) =>
+      caller.receipts.checkDuplicate(input);
+
+    assert.deepEqual(await check({ storeId: walmart.id, receiptDate: "2024-05-20", receiptTime: "14:30:59" }), { exists: true, potential: false });
+    assert.deepEqual(await check({ storeId: walmart.id, receiptDate: "2024-05-20", receiptTime: "09:00" }), { exists: false, potential: true });
+    assert.deepEqual(await check({ storeId: walmart.id, receiptDate: "2024-05-20" }), { exists: false, potential: true });
+    assert.deepEqual(await check({ storeId: traderJoes.id, receiptDate: "2024-05-20" }), { exists: false, potential: false });
+    assert.deepEqual(
+      await other.receipts.checkDuplicate({ storeId: walmart.id, receiptDate: "2024-05-20" }),
+      { exists: false, potential: false }
+    );
+  });
+
+  it("upload writes the image under uploads/", async () => {
+    const { caller } = createTestContext();
+    const cwd = process.cwd();
+    const dir = await mkdtemp(path.join(tmpdir(), "flyersync-"));
+    process.chdir(dir);
+    try {
+      const result = await caller.receipts.upload({ imageBase64: Buffer.from("jpeg").toString("base64") });
+      const legacy = await caller.uploadReceipt({ imageBase64: Buffer.from("jpeg").toString("base64") });
+      assert.equal(result.success, true);
+      assert.equal(legacy.success, true);
+      assert.ok(result.path.startsWith(path.join(dir, "uploads")));
+      assert.ok((await readdir(path.join(dir, "uploads"))).length >= 1);
+    } finally {
+      process.chdir(cwd);
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("parseWithAI reports which provider produced the result", async () => {
+    const { caller } = createTestContext();
+    const parsed = await caller.receipts.parseWithAI({ imageBase64: "aW1hZ2U=" });
+    assert.equal(parsed.provider, "replay");
+    assert.equal(parsed.store, SAMPLE_RECEIPT.store);
+    assert.deepEqual(parsed.items.map((i) => i.price), [3.49, 3.99]);
+    assert.deepEqual(await caller.receiptsParseWithAI({ imageBase64: "aW1hZ2U=" }), parsed);
+  });
+
+  it("parseWithAI falls back to the next provider when one fails", async () => {
+    const broken: ReceiptParser = { name: "gemini", parse: async () => { throw new Error("quota exceeded"); } };
+    const { caller } = createTestContext({
+      parsers: [broken, createReplayParser({ fixtures: { default: SAMPLE_RECEIPT } })],
+    });
+    assert.equal((await caller.receipts.parseWithAI({ imageBase64: "aW1hZ2U=" })).provider, "replay");
+  });
+
+  it("parseWithAI fails cleanly when every provider fails or none is configured", async () => {
+    const broken: ReceiptParser = { name: "gemini", parse: async () => { throw new Error("quota exceeded"); } };
+    const failing = createTestContext({ parsers: [broken, createReplayParser({ fixtures: {} })] });
+    await assert.rejects(
+      failing.caller.receipts.parseWithAI({ imageBase64: "" }),
+      /All receipt parsers failed \(gemini: quota exceeded; replay: No receipt fixture/
+    );
+
+    const empty = createTestContext({ parsers: [] });
+    await assert.rejects(empty.caller.receiptsParseWithAI({ imageBase64: "" }), /No receipt parser configured/);
+  });
+
+  it("edits a complete receipt's header and items and keeps its prices in step", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-20",
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 2.5 }],
+    });
+    const pricesOf = () => tables.prices.filter((p) => p.receipt_id === receiptId);
+    const milkPrice = pricesOf().find((p) => p.product_id === milk.id)!;
+
+    let edited = await caller.receipts.update({ receiptId, storeId: traderJoes.id, receiptDate: "2024-05-21", currency: "cad" });
+    assert.equal(edited.version, 2);
+    assert.deepEqual([edited.store_id, edited.currency], [traderJoes.id, "CAD"]);
+    assert.ok(pricesOf().every((p) =>
+      p.store_id === traderJoes.id && p.currency === "CAD" && p.purchase_time === new Date("2024-05-21T12:00:00").toISOString()
+    ));
+
+    edited = await caller.receipts.updateItem({ receiptId, priceId: milkPrice.id, price: 3.5, weight: "1L" });
+    assert.equal(pricesOf().find((p) => p.id === milkPrice.id)?.unit_price, 0.35);
+    edited = await caller.receipts.addItem({ receiptId, item: { productId: milk.id, price: 1, tags: ["SALE"] } });
+    const bread1 = pricesOf().find((p) => p.product_id === bread.id)!;
+    edited = await caller.receipts.removeItem({ receiptId, priceId: bread1.id });
+    assert.equal(edited.version, 5);
+    assert.deepEqual(edited.prices?.map((p) => [p.product_id, p.price, p.store_id]).sort(), [
+      [milk.id, 1, traderJoes.id],
+      [milk.id, 3.5, traderJoes.id],
+    ]);
+
+    await assert.rejects(caller.receipts.updateItem({ receiptId, priceId: bread1.id, price: 1 }), { code: "NOT_FOUND" });
+    await assert.rejects(caller.receipts.addItem({ receiptId, item: { productId: MISSING_ID, price: 1 } }), { code: "NOT_FOUND" });
+    await assert.rejects(caller.receipts.update({ receiptId, storeId: MISSING_ID }), { code: "NOT_FOUND" });
+    assert.equal((await caller.receipts.revisions({ receiptId })).length, 5);
+  });
+
+  it("records every edit as a revision and reverts to earlier versions", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-20",
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 2.5 }],
+    });
+    assert.deepEqual(await caller.receipts.revisions({ receiptId }), []);
+
+    const original = await caller.receipts.getById({ receiptId });
+    const breadPrice = original!.prices!.find((p) => p.product_id === bread.id)!;
+    await caller.receipts.removeItem({ receiptId, priceId: breadPrice.id });
+    await caller.receipts.update({ receiptId, totalPrice: 4 });
+
+    const revisions = await caller.receipts.revisions({ receiptId });
+    assert.deepEqual(revisions.map((r) => [r.version, r.action]), [[3, "update"], [2, "remove_item"], [1, "original"]]);
+    assert.deepEqual(revisions[2].snapshot.items.map((i) => [i.productId, i.price]), [[milk.id, 4], [bread.id, 2.5]]);
+
+    const reverted = await caller.receipts.revert({ receiptId, version: 1 });
+    assert.equal(reverted.version, 4);
+    assert.equal(reverted.total_price, null);
+    // The removed item is back, as a new prices row
+    assert.deepEqual(reverted.prices?.map((p) => [p.product_id, p.price]).sort(), [[bread.id, 2.5], [milk.id, 4]].sort());
+    assert.ok(!reverted.prices?.some((p) => p.id === breadPrice.id));
+    const latest = (await caller.receipts.revisions({ receiptId }))[0];
+    assert.deepEqual([latest.action, latest.reverted_to], ["revert", 1]);
+
+    await assert.rejects(caller.receipts.revert({ receiptId, version: 9 }), { code: "NOT_FOUND" });
+    await assert.rejects(other.receipts.revisions({ receiptId }), { code: "NOT_FOUND" });
+    await assert.rejects(other.receipts.update({ receiptId, totalPrice: 1 }), { code: "NOT_FOUND" });
+
+    const draft = await caller.receipts.bulkSave({ storeId: walmart.id, status: "draft", items: [{ productId: milk.id, price: 3 }] });
+    await assert.rejects(caller.receipts.update({ receiptId: draft.receiptId, totalPrice: 3 }), { code: "BAD_REQUEST" });
+  });
+
+  it("edits are all or nothing", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart } = await seedCatalog(caller);
+    const { receiptId } = await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 2.5 }],
+    });
+    const breadPrice = tables.prices.find((p) => p.product_id === bread.id)!;
+    await caller.receipts.removeItem({ receiptId, priceId: breadPrice.id });
+    await caller.receipts.update({ receiptId, totalPrice: 4 });
+
+    // Version 1 brings back an item whose product is gone, so nothing of the revert is kept
+    tables.products = tables.products.filter((p) => p.id !== bread.id);
+    await assert.rejects(
+      caller.receipts.revert({ receiptId, version: 1 }),
+      (err: TRPCError) => (err.cause as { reason?: string }).reason === "RECEIPT_NOT_EDITED"
+    );
+    assert.equal(tables.receipts[0].total_price, 4);
+    assert.deepEqual(tables.prices.map((p) => p.product_id), [milk.id]);
+    assert.equal((await caller.receipts.revisions({ receiptId })).length, 3);
+  });
+
+  it("legacy flat endpoints behave like the namespaced ones", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+
+    const draft = await caller.receiptsBulkSave({
+      storeId: walmart.id,
+      receiptDate: "2024-05-20",
+      status: "draft",
+      items: [{ productId: milk.id, price: 3 }],
+    });
+    assert.deepEqual((await caller.receiptsList({ status: "draft" })).map((r) => r.id), [draft.receiptId]);
+    assert.equal((await caller.receiptsGetById({ receiptId: draft.receiptId }))?.prices.length, 1);
+
+    await caller.receiptsCompleteDraft({ receiptId: draft.receiptId });
+    assert.equal(tables.prices.length, 1);
+    assert.deepEqual((await caller.receiptsList()).map((r) => r.id), [draft.receiptId]);
+
+    const saved = await caller.receiptsBulkSave({ storeId: walmart.id, items: [{ productId: milk.id, price: 2 }] });
+    assert.equal(saved.saved, 1);
+
+    await caller.receiptsSoftDelete({ receiptId: draft.receiptId });
+    assert.deepEqual((await caller.receiptsList()).map((r) => r.id), [saved.receiptId]);
+
+    await assert.rejects(caller.receiptsCompleteDraft({ receiptId: MISSING_ID }));
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog, MISSING_ID } from "./helpers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("shoppingLists", () => {
+  it("manages lists and items for their owner only", async () => {
+    const { caller, other, tables } = createTestContext();
+    const { milk, bread } = await seedCatalog(caller);
+
+    const list = await caller.shoppingLists.create({ name: "Weekly" });
+    await caller.shoppingLists.addItem({ listId: list.id, productId: milk.id, quantity: 2 });
+    const breadItem = await caller.shoppingLists.addItem({ listId: list.id, productId: bread.id });
+    // Adding the same product again replaces its quantity
+    await caller.shoppingLists.addItem({ listId: list.id, productId: milk.id, quantity: 3, note: "skim" });
+
+    const fetched = await caller.shoppingLists.get({ listId: list.id });
+    assert.deepEqual(fetched.items.map((i) => [i.products?.name, i.quantity, i.note]), [
+      ["Milk 1 Gallon", 3, "skim"],
+      ["Bread White", 1, null],
+    ]);
+    await assert.rejects(caller.shoppingLists.addItem({ listId: list.id, productId: MISSING_ID }), { code: "NOT_FOUND" });
+
+    await assert.rejects(other.shoppingLists.get({ listId: list.id }), { code: "NOT_FOUND" });
+    await assert.rejects(other.shoppingLists.addItem({ listId: list.id, productId: bread.id }), { code: "NOT_FOUND" });
+    await assert.rejects(other.shoppingLists.removeItem({ listId: list.id, itemId: breadItem.id }), { code: "NOT_FOUND" });
+    assert.deepEqual(await other.shoppingLists.list(), []);
+
+    assert.equal((await caller.shoppingLists.updateItem({ listId: list.id, itemId: breadItem.id, checked: true })).checked, true);
+    await caller.shoppingLists.update({ listId: list.id, name: "Weekend" });
+    assert.deepEqual((await caller.shoppingLists.list()).map((l) => l.name), ["Weekend"]);
+
+    await caller.shoppingLists.removeItem({ listId: list.id, itemId: breadItem.id });
+    assert.equal(tables.shopping_list_items.length, 1);
+    await caller.shoppingLists.delete({ listId: list.id });
+    assert.equal(tables.shopping_lists.length, 0);
+    assert.equal(tables.shopping_list_items.length, 0);
+  });
+
+  it("optimize proposes the cheapest store and the cheapest split from latest prices", async () => {
+    const { caller, tables } = createTestContext();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+    const eggs = await caller.products.create({ name: "Eggs Dozen" });
+    const costco = await caller.stores.create({ name: "Costco", latitude: 41.5, longitude: -74.006 });
+
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 2 });
+    await caller.prices.add({ productId: milk.id, storeId: walmart.id, price: 3 });
+    await caller.prices.add({ productId: bread.id, storeId: walmart.id, price: 4 });
+    // Two packages bought together
+    await caller.prices.add({ productId: milk.id, storeId: traderJoes.id, price: 7, quantity: 2 });
+    const oldBread = await caller.prices.add({ productId: bread.id, storeId: traderJoes.id, price: 2.5 });
+    // Out of range
+    await caller.prices.add({ productId: milk.id, storeId: costco.id, price: 1 });
+    tables.prices.find((p) => p.id === oldBread.id)!.detected_at = new Date(Date.now() - 10 * DAY_MS).toISOString();
+
+    const list = await caller.shoppingLists.create({ name: "Weekly" });
+    await caller.shoppingLists.addItem({ listId: list.id, productId: milk.id, quantity: 2 });
+    await caller.shoppingLists.addItem({ listId: list.id, productId: bread.id });
+    await caller.shoppingLists.addItem({ listId: list.id, productId: eggs.id });
+
+    const location = { listId: list.id, latitude: 40.7128, longitude: -74.006, radiusKm: 10 };
+    const result = await caller.shoppingLists.optimize(location);
+    assert.equal(result.storesConsidered, 2);
+    assert.deepEqual(result.unknownItems.map((i) => i.name), ["Eggs Dozen"]);
+
+    assert.deepEqual(result.singleStore?.stores.map((s) => [s.storeName, s.subtotal]), [["Trader Joes", 9.5]]);
+    assert.equal(result.singleStore?.total, 9.5);
+    assert.deepEqual(
+      result.split?.stores.map((s) => [s.storeName, s.subtotal, s.items.map((i) => [i.name, i.packagePrice, i.lineTotal])]),
+      [
+        ["Walmart Supercenter", 6, [["Milk 1 Gallon", 3, 6]]],
+        ["Trader Joes", 2.5, [["Bread White", 2.5, 2.5]]],
+      ]
+    );
+    assert.equal(result.savings, 1);
+    assert.equal(result.split?.stores[0].distanceKm, 0);
+    assert.equal(result.split?.stores[1].items[0].ageDays, 10);
+    assert.equal(result.split?.stores[0].items[0].ageDays, 0);
+
+    // One store only: the split is the single-store plan
+    const single = await caller.shoppingLists.optimize({ ...location, maxStores: 1 });
+    assert.deepEqual(single.split, single.singleStore);
+    assert.equal(single.savings, 0);
+
+    // Stale prices are ignored; Walmart is the only store with both items
+    const fresh = await caller.shoppingLists.optimize({ ...location, maxPriceAgeDays: 7 });
+    assert.deepEqual(fresh.singleStore?.stores.map((s) => [s.storeName, s.subtotal]), [["Walmart Supercenter", 10]]);
+    assert.deepEqual(fresh.split?.stores.map((s) => s.storeName), ["Walmart Supercenter"]);
+
+    // Checked items are already bought
+    const breadItem = (await caller.shoppingLists.get({ listId: list.id })).items[1];
+    await caller.shoppingLists.updateItem({ listId: list.id, itemId: breadItem.id, checked: true });
+    const rest = await caller.shoppingLists.optimize(location);
+    assert.deepEqual(rest.singleStore?.stores.map((s) => [s.storeName, s.subtotal]), [["Walmart Supercenter", 6]]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it } from "node:test";
+import { randomUUID } from "crypto";
+import assert from "node:assert/strict";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { appRouter } from "../routers";
+import { createSupabaseRepository } from "../repositories";
+import { createTestContext, seedCatalog, MISSING_ID, USER_ID, OTHER_USER_ID } from "./helpers";
+
+// Just enough of the Supabase query builder for the stores table
+function fakeStoresClient() {
+  const rows: Record<string, unknown>[] = [];
+  const query = (filters: [string, unknown][] = [], patch?: Record<string, unknown>) => {
+    const matches = () => rows.filter((row) => filters.every(([key, value]) => row[key] === value));
+    const builder = {
+      select: () => builder,
+      eq: (key: string, value: unknown) => query([...filters, [key, value]], patch),
+      maybeSingle: async () => ({ data: matches()[0] ?? null, error: null }),
+      then: (resolve: (result: { error: null }) => void) => {
+        for (const row of matches()) Object.assign(row, patch);
+        resolve({ error: null });
+      },
+    };
+    return builder;
+  };
+  return {
+    from: () => ({
+      select: () => query(),
+      update: (patch: Record<string, unknown>) => query([], patch),
+      insert: (input: Record<string, unknown>) => {
+        const row = { id: randomUUID(), is_deleted: false, ...input };
+        rows.push(row);
+        return { select: () => ({ single: async () => ({ data: row, error: null }) }) };
+      },
+    }),
+  } as unknown as SupabaseClient;
+}
+
+describe("stores", () => {
+  it("list, getById and softDelete hide deleted stores", async () => {
+    const { caller } = createTestContext();
+    const { walmart, traderJoes } = await seedCatalog(caller);
+
+    assert.deepEqual((await caller.stores.list()).map((s) => s.name), ["Trader Joes", "Walmart Supercenter"]);
+    assert.equal((await caller.stores.getById({ storeId: walmart.id }))?.id, walmart.id);
+
+    assert.deepEqual(await caller.stores.softDelete({ storeId: walmart.id }), { success: true });
+    assert.deepEqual((await caller.stores.list()).map((s) => s.id), [traderJoes.id]);
+    assert.equal(await caller.stores.getById({ storeId: walmart.id }), null);
+    assert.equal(await caller.stores.getById({ storeId: MISSING_ID }), null);
+  });
+
+  it("creators delete their own stores with the Supabase repository too", async () => {
+    const db = createSupabaseRepository(fakeStoresClient());
+    const as = (userId: string) => appRouter.createCaller({ user: { userId, role: "user" }, db } as never);
+    const store = await as(USER_ID).stores.create({ name: "Corner Shop", latitude: 40.7, longitude: -74 });
+    assert.equal(store.created_by, USER_ID);
+
+    await assert.rejects(as(OTHER_USER_ID).stores.softDelete({ storeId: store.id }), { code: "FORBIDDEN" });
+    assert.deepEqual(await as(USER_ID).stores.softDelete({ storeId: store.id }), { success: true });
+    assert.equal(await db.stores.getById(store.id), null);
+  });
+
+  it("nearby filters by radius and sorts by distance", async () => {
+    const { caller } = createTestContext();
+    const { walmart, traderJoes } = await seedCatalog(caller);
+
+    const near = await caller.stores.nearby({ latitude: 40.7128, longitude: -74.006, radiusKm: 1 });
+    assert.deepEqual(near.map((s) => s.id), [walmart.id]);
+
+    const wide = await caller.stores.nearby({ latitude: 40.758, longitude: -73.9855, radiusKm: 50 });
+    assert.deepEqual(wide.map((s) => s.id), [traderJoes.id, walmart.id]);
+  });
+
+  it("getOrCreate matches on a name substring", async () => {
+    const { caller, tables } = createTestContext();
+    const { walmart } = await seedCatalog(caller);
+
+    assert.equal((await caller.stores.getOrCreate({ name: "walmart", latitude: 0, longitude: 0 })).id, walmart.id);
+    await caller.stores.getOrCreate({ name: "Costco", latitude: 0, longitude: 0 });
+    assert.equal(tables.stores.length, 3);
+  });
+
+  it("checkDuplicate reports exact names, nearby locations or none", async () => {
+    const { caller } = createTestContext();
+    const { walmart } = await seedCatalog(caller);
+
+    const exact = await caller.stores.checkDuplicate({ name: "WALMART SUPERCENTER", latitude: 0, longitude: 0 });
+    assert.equal(exact.status, "exact");
+
+    const location = await caller.stores.checkDuplicate({ name: "Other", latitude: 40.7129, longitude: -74.0061 });
+    assert.equal(location.status, "location");
+    assert.equal(location.store?.id, walmart.id);
+
+    assert.deepEqual(await caller.stores.checkDuplicate({ name: "Other", latitude: 0, longitude: 0 }), { status: "none" });
+  });
+
+  it("recordVisit succeeds", async () => {
+    const { caller } = createTestContext();
+    const { walmart } = await seedCatalog(caller);
+    assert.deepEqual(await caller.stores.recordVisit({ storeId: walmart.id }), { success: true });
+  });
+
+  it("visited and stats only look at the caller's data", async () => {
+    const { caller, other } = createTestContext();
+    const { milk, bread, walmart, traderJoes } = await seedCatalog(caller);
+
+    await caller.receipts.bulkSave({
+      storeId: walmart.id,
+      items: [{ productId: milk.id, price: 4 }, { productId: bread.id, price: 2 }],
+    });
+    await other.receipts.bulkSave({ storeId: traderJoes.id, items: [{ productId: milk.id, price: 10 }] });
+
+    assert.deepEqual((await caller.stores.visited()).map((s) => s.id), [walmart.id]);
+
+    const stats = await caller.stores.stats({ storeId: walmart.id });
+    assert.deepEqual(stats, { totalSpent: 6, avgPerItem: 3, thisMonthSpent: 6, itemCount: 2 });
+    assert.equal((await caller.stores.stats({ storeId: traderJoes.id })).itemCount, 0);
+  });
+
+  it("legacy flat endpoints behave like the namespaced ones", async () => {
+    const { caller } = createTestContext();
+    const store = await caller.storesCreate({ name: "Whole Foods", latitude: 40.7614, longitude: -73.9776 });
+    const { milk } = await seedCatalog(caller);
+
+    assert.ok((await caller.storesList()).some((s) => s.id === store.id));
+    assert.equal((await caller.storesNearby({ latitude: 40.7614, longitude: -73.9776, radiusKm: 0.5 }))[0].id, store.id);
+    assert.equal((await caller.storesGetById({ storeId: store.id }))?.id, store.id);
+    assert.equal((await caller.storesGetOrCreate({ name: "whole", latitude: 0, longitude: 0 })).id, store.id);
+    assert.equal((await caller.storesCheckDuplicate({ name: "Whole Foods", latitude: 0, longitude: 0 })).status, "exact");
+    assert.deepEqual(await caller.storesRecordVisit({ storeId: store.id }), { success: true });
+
+    await caller.receiptsBulkSave({ storeId: store.id, items: [{ productId: milk.id, price: 5 }] });
+    assert.deepEqual((await caller.storesVisited()).map((s) => s.id), [store.id]);
+    assert.equal((await caller.storeStats({ storeId: store.id })).totalSpent, 5);
+
+    await caller.storesSoftDelete({ storeId: store.id });
+    assert.equal(await caller.storesGetById({ storeId: store.id }), null);
+  });
+});
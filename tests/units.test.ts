@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeUnitPrice, parseQuantity } from "../units/quantity";
+
+describe("unit prices", () => {
+  it("parses package sizes into grams, millilitres or a count", () => {
+    assert.deepEqual(parseQuantity("907g"), { amount: 907, unit: "g" });
+    assert.deepEqual(parseQuantity("32OZ"), { amount: 907.184, unit: "g" });
+    assert.deepEqual(parseQuantity("1 lb"), { amount: 453.592, unit: "g" });
+    assert.deepEqual(parseQuantity("1,5 L"), { amount: 1500, unit: "ml" });
+    assert.deepEqual(parseQuantity("12 fl. oz"), { amount: 354.882, unit: "ml" });
+    assert.deepEqual(parseQuantity("2 x 500ml"), { amount: 1000, unit: "ml" });
+    assert.deepEqual(parseQuantity("1 gal"), { amount: 3785.41, unit: "ml" });
+    assert.deepEqual(parseQuantity("12ct"), { amount: 12, unit: "each" });
+    assert.deepEqual(parseQuantity("1 dozen"), { amount: 12, unit: "each" });
+    assert.deepEqual(parseQuantity("ea"), { amount: 1, unit: "each" });
+    assert.equal(parseQuantity("large"), null);
+    assert.equal(parseQuantity("12 galaxies"), null);
+    assert.equal(parseQuantity(null), null);
+  });
+
+  it("computes the price per 100 g / 100 ml / item for the whole line", () => {
+    assert.deepEqual(normalizeUnitPrice({ price: 4.54, weight: "907g" }), {
+      canonical_quantity: 907,
+      canonical_unit: "g",
+      unit_price: 0.5006,
+    });
+    // Two 500 ml bottles
+    assert.equal(normalizeUnitPrice({ price: 3, quantity: 2, weight: "500ml" }).unit_price, 0.3);
+    assert.equal(normalizeUnitPrice({ price: 5.99, weight: "12ct" }).unit_price, 0.4992);
+
+    // Unknown size keeps whatever unit price was reported
+    assert.deepEqual(normalizeUnitPrice({ price: 2, weight: "big", unitPrice: 1.5 }), {
+      canonical_quantity: null,
+      canonical_unit: null,
+      unit_price: 1.5,
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it } from "node:test";
+import { randomUUID } from "crypto";
+import assert from "node:assert/strict";
+import { createTestContext, seedCatalog } from "./helpers";
+
+describe("voting", () => {
+  it("submit upserts one vote per user and target", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const target = { targetType: "product" as const, targetId: milk.id };
+
+    await caller.voting.submit({ ...target, voteType: "up" });
+    await caller.voting.submit({ ...target, voteType: "down" });
+    await other.voting.submit({ ...target, voteType: "down" });
+
+    assert.deepEqual(await anonymous.voting.getCounts(target), { upvotes: 0, downvotes: 2 });
+    assert.equal(await caller.voting.getUserVote(target), "down");
+
+    assert.deepEqual(await caller.voting.remove(target), { success: true });
+    assert.equal(await caller.voting.getUserVote(target), null);
+    assert.deepEqual(await anonymous.voting.getCounts(target), { upvotes: 0, downvotes: 1 });
+  });
+
+  it("discussions are paged as threads with nested replies and reply counts", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const target = { targetType: "product" as const, targetId: milk.id };
+
+    const first = await caller.voting.discussionCreate({ ...target, content: "first" });
+    const reply = await other.voting.discussionCreate({ ...target, content: "reply", parentId: first.id });
+    await caller.voting.discussionCreate({ ...target, content: "nested", parentId: reply.id });
+    await caller.voting.discussionCreate({ ...target, content: "third" });
+
+    const page = await anonymous.voting.discussionList({ ...target, pageSize: 1 });
+    assert.deepEqual(page.discussions.map((d) => [d.content, d.replyCount]), [["third", 0]]);
+    assert.equal(page.totalCount, 2);
+    assert.equal(page.totalPages, 2);
+    assert.equal(page.hasMore, true);
+
+    const [thread] = (await anonymous.voting.discussionList({ ...target, page: 2, pageSize: 1 })).discussions;
+    assert.equal(thread.replyCount, 2);
+    assert.equal(thread.replies[0].content, "reply");
+    assert.equal(thread.replies[0].parent_id, first.id);
+    assert.deepEqual(thread.replies[0].replies.map((r) => r.content), ["nested"]);
+
+    // Replies past the depth are left for discussionThread
+    const shallow = await anonymous.voting.discussionList({ ...target, depth: 1 });
+    const cut = shallow.discussions[1].replies[0];
+    assert.deepEqual([cut.replies, cut.hasMoreReplies, cut.replyCount], [[], true, 1]);
+    const below = await anonymous.voting.discussionThread({ discussionId: reply.id });
+    assert.deepEqual(below.replies.map((r) => r.content), ["nested"]);
+  });
+
+  it("top sorting uses vote scores, newest first on ties", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const target = { targetType: "product" as const, targetId: milk.id };
+    const liked = await caller.voting.discussionCreate({ ...target, content: "liked" });
+    const disliked = await caller.voting.discussionCreate({ ...target, content: "disliked" });
+    await caller.voting.discussionCreate({ ...target, content: "unvoted" });
+    await other.voting.submit({ targetType: "discussion", targetId: liked.id, voteType: "up" });
+    await other.voting.submit({ targetType: "discussion", targetId: disliked.id, voteType: "down" });
+
+    const top = await anonymous.voting.discussionList({ ...target, sort: "top" });
+    assert.deepEqual(top.discussions.map((d) => [d.content, d.score]), [["liked", 1], ["unvoted", 0], ["disliked", -1]]);
+    const second = await anonymous.voting.discussionList({ ...target, sort: "top", page: 2, pageSize: 1 });
+    assert.deepEqual(second.discussions.map((d) => d.content), ["unvoted"]);
+    assert.equal(second.totalCount, 3);
+    const newest = await anonymous.voting.discussionList(target);
+    assert.deepEqual(newest.discussions.map((d) => d.content), ["unvoted", "disliked", "liked"]);
+  });
+
+  it("authors edit their discussions, and deleting leaves a tombstone while replies remain", async () => {
+    const { caller, other, anonymous, as } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const target = { targetType: "product" as const, targetId: milk.id };
+    const post = await caller.voting.discussionCreate({ ...target, content: "Typo here" });
+    const reply = await other.voting.discussionCreate({ ...target, content: "Agreed", parentId: post.id });
+
+    await assert.rejects(other.voting.discussionUpdate({ discussionId: post.id, content: "Mine now" }), {
+      code: "FORBIDDEN",
+    });
+    const edited = await caller.voting.discussionUpdate({ discussionId: post.id, content: "  Fixed  " });
+    assert.equal(edited.content, "Fixed");
+    assert.equal((await anonymous.voting.discussionList(target)).discussions[0].edited, true);
+
+    await assert.rejects(other.voting.discussionDelete({ discussionId: post.id }), { code: "FORBIDDEN" });
+    assert.deepEqual(await caller.voting.discussionDelete({ discussionId: post.id }), { success: true });
+    const [tombstone] = (await anonymous.voting.discussionList(target)).discussions;
+    assert.deepEqual([tombstone.removed, tombstone.content, tombstone.user_id], ["deleted", null, null]);
+    assert.deepEqual(tombstone.replies.map((r) => r.content), ["Agreed"]);
+    await assert.rejects(caller.voting.discussionUpdate({ discussionId: post.id, content: "Back" }), {
+      code: "NOT_FOUND",
+    });
+    await assert.rejects(other.voting.discussionCreate({ ...target, content: "Hm", parentId: post.id }), {
+      code: "NOT_FOUND",
+    });
+
+    // Moderators may delete anyone's; a tombstone without replies disappears
+    await as(randomUUID(), "moderator").voting.discussionDelete({ discussionId: reply.id });
+    assert.equal((await anonymous.voting.discussionList(target)).totalCount, 0);
+    assert.deepEqual((await anonymous.discussionList(target)).discussions, []);
+  });
+
+  it("discussions on a private price or a deleted store are not found", async () => {
+    const { caller, other, anonymous } = createTestContext();
+    const { milk, walmart } = await seedCatalog(caller);
+    const price = await other.prices.add({ productId: milk.id, storeId: walmart.id, price: 3.1, published: false });
+    const onPrice = { targetType: "price" as const, targetId: price.id };
+    const post = await other.voting.discussionCreate({ ...onPrice, content: "Mine" });
+
+    assert.equal((await other.voting.discussionList(onPrice)).totalCount, 1);
+    await assert.rejects(caller.voting.discussionList(onPrice), { code: "NOT_FOUND" });
+    await assert.rejects(anonymous.voting.discussionList(onPrice), { code: "NOT_FOUND" });
+    await assert.rejects(anonymous.discussionList(onPrice), { code: "NOT_FOUND" });
+    await assert.rejects(caller.voting.discussionThread({ discussionId: post.id }), { code: "NOT_FOUND" });
+
+    const onStore = { targetType: "store" as const, targetId: walmart.id };
+    await caller.voting.discussionCreate({ ...onStore, content: "Closed on Sundays" });
+    assert.equal((await anonymous.voting.discussionList(onStore)).totalCount, 1);
+    await caller.stores.softDelete({ storeId: walmart.id });
+    await assert.rejects(anonymous.voting.discussionList(onStore), { code: "NOT_FOUND" });
+  });
+
+  it("discussionCreate enforces the content length", async () => {
+    const { caller } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    await assert.rejects(
+      caller.voting.discussionCreate({ targetType: "product", targetId: milk.id, content: "x".repeat(2001) })
+    );
+  });
+
+  it("legacy flat endpoints behave like the namespaced ones", async () => {
+    const { caller } = createTestContext();
+    const { milk } = await seedCatalog(caller);
+    const target = { targetType: "product" as const, targetId: milk.id };
+
+    await caller.voteSubmit({ ...target, voteType: "up" });
+    assert.deepEqual(await caller.voteGetCounts(target), { upvotes: 1, downvotes: 0 });
+    assert.equal(await caller.voteGetUserVote(target), "up");
+    await caller.voteRemove(target);
+    assert.equal(await caller.voteGetUserVote(target), null);
+
+    await caller.discussionCreate({ ...target, content: "hello" });
+    const page = await caller.discussionList(target);
+    assert.deepEqual(page.discussions.map((d) => d.content), ["hello"]);
+    assert.equal(page.hasMore, false);
+  });
+});
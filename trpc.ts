@@ -1,12 +1,23 @@
 import { initTRPC, TRPCError } from "@trpc/server";
+import type { Repository } from "./repositories/types";
+import type { ReceiptParserChain } from "./parsers/types";
+import type { ReceiptJobQueue } from "./jobs/receipt-queue";
 
 // Context type for tRPC
 export type TRPCContext = {
   user: { userId: string; role?: string } | null;
+  db: Repository;
+  receiptParser: ReceiptParserChain;
+  receiptJobs: ReceiptJobQueue;
 };
 
-// Initialize tRPC with context
-const t = initTRPC.context<TRPCContext>().create();
+// Initialize tRPC with context; errors from errorWithReason carry data.reason
+const t = initTRPC.context<TRPCContext>().create({
+  errorFormatter({ shape, error }) {
+    const reason = (error.cause as { reason?: string } | undefined)?.reason;
+    return reason ? { ...shape, data: { ...shape.data, reason } } : shape;
+  },
+});
 
 // Base router and procedures
 export const router = t.router;
@@ -20,5 +31,28 @@ export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
   return next({ ctx: { ...ctx, user: ctx.user } });
 });
 
+// Admin-only procedure (role claim from the JWT)
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+  }
+  return next();
+});
+
+// Moderators look after shared content; admins can do everything they can
+export const isModerator = (user: { role?: string }) => user.role === "moderator" || user.role === "admin";
+
+export const moderatorProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (!isModerator(ctx.user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Moderator access required" });
+  }
+  return next();
+});
+
+// An error with a machine-readable reason (e.g. DRAFT_CHANGED) that clients can act on
+export function errorWithReason(code: TRPCError["code"], reason: string, message: string) {
+  return new TRPCError({ code, message, cause: Object.assign(new Error(message), { reason }) });
+}
+
 // Re-export TRPCError for convenience
 export { TRPCError };
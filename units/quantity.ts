@@ -0,0 +1,103 @@
+/**
+ * Package sizes as printed on receipts and shelf tags ("907g", "32OZ",
+ * "1 lb", "2 x 500ml", "12ct"), converted to grams, millilitres or a count.
+ */
+
+export type CanonicalUnit = "g" | "ml" | "each";
+
+export interface Quantity {
+  amount: number;
+  unit: CanonicalUnit;
+}
+
+// Canonical amount per printed unit. "oz" is weight; volume is always written "fl oz"
+const UNITS: Record<string, Quantity> = {
+  mg: { amount: 0.001, unit: "g" },
+  g: { amount: 1, unit: "g" },
+  kg: { amount: 1000, unit: "g" },
+  oz: { amount: 28.3495, unit: "g" },
+  lb: { amount: 453.592, unit: "g" },
+  lbs: { amount: 453.592, unit: "g" },
+  ml: { amount: 1, unit: "ml" },
+  cl: { amount: 10, unit: "ml" },
+  l: { amount: 1000, unit: "ml" },
+  floz: { amount: 29.5735, unit: "ml" },
+  pt: { amount: 473.176, unit: "ml" },
+  qt: { amount: 946.353, unit: "ml" },
+  gal: { amount: 3785.41, unit: "ml" },
+  ct: { amount: 1, unit: "each" },
+  count: { amount: 1, unit: "each" },
+  pk: { amount: 1, unit: "each" },
+  pack: { amount: 1, unit: "each" },
+  ea: { amount: 1, unit: "each" },
+  each: { amount: 1, unit: "each" },
+  dz: { amount: 12, unit: "each" },
+  dozen: { amount: 12, unit: "each" },
+};
+
+const QUANTITY_PATTERN =
+  /^(?:(\d+)\s*[x×*]\s*)?(\d+(?:[.,]\d+)?)\s*(fl\.?\s*oz|mg|kg|g|lbs?|oz|ml|cl|l|gal|qt|pt|ct|count|pk|pack|ea|each|dozen|dz)(?![a-z])/;
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * "907g" -> 907 g, "32OZ" -> 907.18 g, "2 x 500ml" -> 1000 ml, "12ct" -> 12 each.
+ * Null when the text has no recognizable size.
+ */
+export function parseQuantity(text: string | null | undefined): Quantity | null {
+  const cleaned = (text || "").trim().toLowerCase();
+  if (cleaned === "each" || cleaned === "ea") return { amount: 1, unit: "each" };
+
+  const match = cleaned.match(QUANTITY_PATTERN);
+  if (!match) return null;
+
+  const packs = match[1] ? Number(match[1]) : 1;
+  const amount = Number(match[2].replace(",", "."));
+  const unit = UNITS[match[3].replace(/[^a-z]/g, "")];
+  if (!(amount > 0) || !(packs > 0) || !unit) return null;
+  return { amount: round4(packs * amount * unit.amount), unit: unit.unit };
+}
+
+/**
+ * "907g" -> 907, "1.5 kg" -> 1500, "16 fl oz" -> 473.18 (millilitres count as grams).
+ * Null when unparseable or a plain count.
+ */
+export function weightInGrams(weight: string): number | null {
+  const quantity = parseQuantity(weight);
+  return quantity && quantity.unit !== "each" ? quantity.amount : null;
+}
+
+/** Unit prices are per 100 g, per 100 ml or per item */
+export function unitPriceBasis(unit: CanonicalUnit): number {
+  return unit === "each" ? 1 : 100;
+}
+
+export interface NormalizedPrice {
+  canonical_quantity: number | null;
+  canonical_unit: CanonicalUnit | null;
+  unit_price: number | null;
+}
+
+/**
+ * Canonical size of one package and the price per 100 g / 100 ml / item for
+ * a line of `quantity` packages costing `price` in total. When the size
+ * can't be read the reported unit price is kept as is.
+ */
+export function normalizeUnitPrice(line: {
+  price: number;
+  quantity?: number | null;
+  weight?: string | null;
+  unitPrice?: number | null;
+}): NormalizedPrice {
+  const size = parseQuantity(line.weight);
+  if (!size) {
+    return { canonical_quantity: null, canonical_unit: null, unit_price: line.unitPrice || null };
+  }
+  // Stored quantities are whole packages
+  const packages = Math.max(1, Math.round(line.quantity || 1));
+  return {
+    canonical_quantity: size.amount,
+    canonical_unit: size.unit,
+    unit_price: round4((line.price / (packages * size.amount)) * unitPriceBasis(size.unit)),
+  };
+}